@@ -0,0 +1,136 @@
+import { createServer, IncomingMessage, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+type LLMProxyModule = typeof import('./llmProxy.js');
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function listen(server: Server): Promise<string> {
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`));
+  });
+}
+
+function close(server: Server): Promise<void> {
+  return new Promise((resolve) => server.close(() => resolve()));
+}
+
+// 假上游：记录代理转发的请求体
+let upstreamRequests: Record<string, unknown>[] = [];
+let upstream: Server;
+let upstreamUrl: string;
+
+// 代理挂在本地HTTP服务上；每个用例重新加载模块，限流计数互不影响
+let proxyServer: Server;
+let proxyUrl: string;
+let proxy: LLMProxyModule;
+
+beforeAll(async () => {
+  upstream = createServer((req, res) => {
+    void readBody(req).then((body) => {
+      upstreamRequests.push(JSON.parse(body) as Record<string, unknown>);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content: 'ok' } }] }));
+    });
+  });
+  upstreamUrl = await listen(upstream);
+});
+
+afterAll(async () => {
+  await close(upstream);
+});
+
+beforeEach(async () => {
+  upstreamRequests = [];
+  vi.stubEnv('DEEPSEEK_API_KEY', 'test-key');
+  vi.stubEnv('LLM_UPSTREAM_URL', upstreamUrl);
+  vi.stubEnv('LLM_ALLOWED_MODELS', 'deepseek-chat, deepseek-reasoner');
+  vi.stubEnv('LLM_MAX_TOKENS', '1000');
+  vi.stubEnv('LLM_RATE_LIMIT_PER_MINUTE', '2');
+  vi.stubEnv('VERCEL', '');
+  vi.resetModules();
+  proxy = await import('./llmProxy.js');
+  proxyServer = createServer((req, res) => void proxy.handleLLMChatRequest(req, res));
+  proxyUrl = await listen(proxyServer);
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await close(proxyServer);
+});
+
+function post(body: Record<string, unknown>, headers: Record<string, string> = {}) {
+  return fetch(proxyUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+const messages = [{ role: 'user', content: '你好' }];
+
+describe('handleLLMChatRequest', () => {
+  it('只转发允许的字段，未指定模型时使用默认模型', async () => {
+    const response = await post({ messages, temperature: 0.3, api_key: 'leak', max_tokens: 500 });
+
+    expect(response.status).toBe(200);
+    expect(upstreamRequests).toEqual([{ model: 'deepseek-chat', max_tokens: 500, messages, temperature: 0.3 }]);
+  });
+
+  it('拒绝允许列表以外的模型', async () => {
+    const response = await post({ messages, model: 'gpt-4-32k' });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: { code: 'MODEL_NOT_ALLOWED' } });
+    expect(upstreamRequests).toHaveLength(0);
+  });
+
+  it('max_tokens 超过上限或不合法时按服务端上限转发', async () => {
+    await post({ messages, model: 'deepseek-reasoner', max_tokens: 100000 });
+    await post({ messages, max_tokens: 'lots' });
+
+    expect(upstreamRequests.map((body) => [body.model, body.max_tokens])).toEqual([
+      ['deepseek-reasoner', 1000],
+      ['deepseek-chat', 1000],
+    ]);
+  });
+
+  it('按客户端IP限流，更换 x-user-id 不能绕过', async () => {
+    const statuses: number[] = [];
+    for (const userId of ['a', 'b', 'c']) {
+      statuses.push((await post({ messages }, { 'X-User-Id': userId })).status);
+    }
+
+    expect(statuses).toEqual([200, 200, 429]);
+  });
+
+  it('非 Vercel 环境下忽略可伪造的 x-forwarded-for', async () => {
+    const statuses: number[] = [];
+    for (const ip of ['10.0.0.1', '10.0.0.2', '10.0.0.3']) {
+      statuses.push((await post({ messages }, { 'X-Forwarded-For': ip })).status);
+    }
+
+    expect(statuses).toEqual([200, 200, 429]);
+  });
+
+  it('限流窗口过期后恢复请求', async () => {
+    const now = Date.now();
+    const spy = vi.spyOn(Date, 'now').mockReturnValue(now);
+    await post({ messages });
+    await post({ messages });
+    expect((await post({ messages })).status).toBe(429);
+
+    spy.mockReturnValue(now + 61 * 1000);
+    expect((await post({ messages })).status).toBe(200);
+    spy.mockRestore();
+  });
+});
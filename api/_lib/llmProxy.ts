@@ -0,0 +1,242 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { headerValue, sendJson } from './http.js';
+
+// LLM代理：API Key只保存在服务端，浏览器只访问 /api/llm/chat
+// 配置项（服务端环境变量，不带 VITE_ 前缀，不会打包进前端）：
+// - DEEPSEEK_API_KEY：上游API Key
+// - LLM_UPSTREAM_URL：上游地址，开发时可指向本地模拟服务
+// - LLM_RATE_LIMIT_PER_MINUTE：每个客户端IP每分钟最多请求次数
+// - LLM_MAX_BODY_BYTES：单次请求体大小上限
+// - LLM_ALLOWED_MODELS：允许调用的模型，逗号分隔，第一个为默认模型
+// - LLM_MAX_TOKENS：单次请求 max_tokens 上限
+const DEFAULT_UPSTREAM_URL = 'https://api.deepseek.com/v1/chat/completions';
+const DEFAULT_RATE_LIMIT_PER_MINUTE = 20;
+const DEFAULT_MAX_BODY_BYTES = 256 * 1024;
+const DEFAULT_ALLOWED_MODELS = ['deepseek-chat'];
+const DEFAULT_MAX_TOKENS = 4096;
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+// 只转发这些字段，避免客户端透传任意参数；model 和 max_tokens 另行校验
+const FORWARDED_FIELDS = [
+  'messages',
+  'temperature',
+  'response_format',
+  'stream',
+  'tools',
+  'tool_choice',
+] as const;
+
+export interface LLMProxyRequest extends IncomingMessage {
+  // Vercel 会预先解析JSON请求体；Vite开发服务器不会
+  body?: unknown;
+}
+
+interface ProxyConfig {
+  upstreamUrl: string;
+  apiKey: string;
+  rateLimitPerMinute: number;
+  maxBodyBytes: number;
+  allowedModels: string[];
+  maxTokens: number;
+}
+
+class ProxyError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function readList(value: string | undefined, fallback: string[]): string[] {
+  const items = (value ?? '').split(',').map((item) => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : fallback;
+}
+
+function readConfig(): ProxyConfig {
+  return {
+    upstreamUrl: process.env.LLM_UPSTREAM_URL || DEFAULT_UPSTREAM_URL,
+    apiKey: process.env.DEEPSEEK_API_KEY || '',
+    rateLimitPerMinute: readPositiveInt(process.env.LLM_RATE_LIMIT_PER_MINUTE, DEFAULT_RATE_LIMIT_PER_MINUTE),
+    maxBodyBytes: readPositiveInt(process.env.LLM_MAX_BODY_BYTES, DEFAULT_MAX_BODY_BYTES),
+    allowedModels: readList(process.env.LLM_ALLOWED_MODELS, DEFAULT_ALLOWED_MODELS),
+    maxTokens: readPositiveInt(process.env.LLM_MAX_TOKENS, DEFAULT_MAX_TOKENS),
+  };
+}
+
+// 按客户端的固定窗口限流（内存计数，单实例内生效）
+const rateLimitBuckets = new Map<string, { windowStart: number; count: number }>();
+let lastPrunedAt = 0;
+
+// 每个窗口最多清理一次过期计数，避免长期运行的进程中计数表无限增长
+function pruneRateLimitBuckets(now: number) {
+  if (now - lastPrunedAt < RATE_LIMIT_WINDOW_MS) return;
+  lastPrunedAt = now;
+  rateLimitBuckets.forEach((bucket, key) => {
+    if (now - bucket.windowStart >= RATE_LIMIT_WINDOW_MS) {
+      rateLimitBuckets.delete(key);
+    }
+  });
+}
+
+function checkRateLimit(userKey: string, limit: number, now = Date.now()): { allowed: boolean; retryAfterSeconds: number } {
+  pruneRateLimitBuckets(now);
+  const bucket = rateLimitBuckets.get(userKey);
+  if (!bucket || now - bucket.windowStart >= RATE_LIMIT_WINDOW_MS) {
+    rateLimitBuckets.set(userKey, { windowStart: now, count: 1 });
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+  if (bucket.count >= limit) {
+    return {
+      allowed: false,
+      retryAfterSeconds: Math.ceil((bucket.windowStart + RATE_LIMIT_WINDOW_MS - now) / 1000),
+    };
+  }
+  bucket.count += 1;
+  return { allowed: true, retryAfterSeconds: 0 };
+}
+
+// 按客户端IP限流。前端的 x-user-id 由浏览器随机生成、可任意更换，不作为限流依据。
+// x-forwarded-for 只在 Vercel 上可信（平台会覆盖该头），其他环境直接使用连接地址
+function getClientKey(req: IncomingMessage): string {
+  const forwardedFor = process.env.VERCEL ? headerValue(req, 'x-forwarded-for') : undefined;
+  const ip = forwardedFor?.split(',')[0].trim() || req.socket?.remoteAddress || 'unknown';
+  return `ip:${ip}`;
+}
+
+// 模型必须在服务端允许列表内（未指定时使用默认模型），max_tokens 不超过服务端上限
+function resolveModelParams(body: Record<string, unknown>, config: ProxyConfig): { model: string; max_tokens: number } {
+  const model = body.model ?? config.allowedModels[0];
+  if (typeof model !== 'string' || !config.allowedModels.includes(model)) {
+    throw new ProxyError(400, 'MODEL_NOT_ALLOWED', `不支持的模型：${String(model)}`);
+  }
+  const requested = body.max_tokens;
+  const maxTokens =
+    typeof requested === 'number' && Number.isInteger(requested) && requested > 0
+      ? Math.min(requested, config.maxTokens)
+      : config.maxTokens;
+  return { model, max_tokens: maxTokens };
+}
+
+async function readJsonBody(req: LLMProxyRequest, maxBodyBytes: number): Promise<Record<string, unknown>> {
+  const declaredLength = Number.parseInt(headerValue(req, 'content-length') ?? '', 10);
+  if (Number.isFinite(declaredLength) && declaredLength > maxBodyBytes) {
+    throw new ProxyError(413, 'PAYLOAD_TOO_LARGE', `请求体超过 ${maxBodyBytes} 字节上限`);
+  }
+
+  let raw: string;
+  if (req.body !== undefined) {
+    raw = typeof req.body === 'string' ? req.body : JSON.stringify(req.body);
+  } else {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : (chunk as Buffer);
+      size += buffer.length;
+      if (size > maxBodyBytes) {
+        throw new ProxyError(413, 'PAYLOAD_TOO_LARGE', `请求体超过 ${maxBodyBytes} 字节上限`);
+      }
+      chunks.push(buffer);
+    }
+    raw = Buffer.concat(chunks).toString('utf8');
+  }
+
+  if (Buffer.byteLength(raw, 'utf8') > maxBodyBytes) {
+    throw new ProxyError(413, 'PAYLOAD_TOO_LARGE', `请求体超过 ${maxBodyBytes} 字节上限`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new ProxyError(400, 'INVALID_JSON', '请求体不是合法的JSON');
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new ProxyError(400, 'INVALID_BODY', '请求体必须是JSON对象');
+  }
+  const body = parsed as Record<string, unknown>;
+  if (!Array.isArray(body.messages) || body.messages.length === 0) {
+    throw new ProxyError(400, 'INVALID_BODY', 'messages 不能为空');
+  }
+  return body;
+}
+
+// 处理 POST /api/llm/chat，原样回传上游响应（包括SSE流）
+export async function handleLLMChatRequest(req: LLMProxyRequest, res: ServerResponse): Promise<void> {
+  const config = readConfig();
+
+  try {
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'POST');
+      throw new ProxyError(405, 'METHOD_NOT_ALLOWED', '仅支持POST请求');
+    }
+
+    if (!config.apiKey) {
+      throw new ProxyError(503, 'LLM_NOT_CONFIGURED', '服务端未配置LLM API Key');
+    }
+
+    const rateLimit = checkRateLimit(getClientKey(req), config.rateLimitPerMinute);
+    if (!rateLimit.allowed) {
+      res.setHeader('Retry-After', String(rateLimit.retryAfterSeconds));
+      throw new ProxyError(429, 'RATE_LIMITED', '请求过于频繁，请稍后再试');
+    }
+
+    const body = await readJsonBody(req, config.maxBodyBytes);
+    const upstreamBody: Record<string, unknown> = { ...resolveModelParams(body, config) };
+    FORWARDED_FIELDS.forEach((field) => {
+      if (body[field] !== undefined) {
+        upstreamBody[field] = body[field];
+      }
+    });
+
+    const upstream = await fetch(config.upstreamUrl, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${config.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(upstreamBody),
+    });
+
+    res.statusCode = upstream.status;
+    res.setHeader('Content-Type', upstream.headers.get('content-type') || 'application/json; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-cache');
+
+    if (!upstream.body) {
+      res.end();
+      return;
+    }
+
+    const reader = upstream.body.getReader();
+    let clientClosed = false;
+    res.on('close', () => {
+      // 客户端中止时同时取消上游请求
+      clientClosed = true;
+      void reader.cancel();
+    });
+    while (!clientClosed) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      res.write(value);
+    }
+    res.end();
+  } catch (error) {
+    if (error instanceof ProxyError) {
+      sendJson(res, error.status, { error: { code: error.code, message: error.message } });
+      return;
+    }
+    console.error('LLM proxy error:', error);
+    if (!res.headersSent) {
+      sendJson(res, 502, { error: { code: 'UPSTREAM_ERROR', message: '上游LLM服务请求失败' } });
+    } else {
+      res.end();
+    }
+  }
+}
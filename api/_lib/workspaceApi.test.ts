@@ -0,0 +1,130 @@
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+function listen(server: Server): Promise<string> {
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`));
+  });
+}
+
+function close(server: Server): Promise<void> {
+  return new Promise((resolve) => server.close(() => resolve()));
+}
+
+// 接口挂在本地HTTP服务上；每个用例重新加载模块，得到一个新的内存数据库
+let server: Server;
+let baseUrl: string;
+
+beforeEach(async () => {
+  vi.stubEnv('WORKSPACE_DB_PATH', ':memory:');
+  vi.stubEnv('WORKSPACE_SEED_PATH', 'mock-server/__no-seed__.json');
+  vi.stubEnv('WORKSPACE_MAX_BODY_BYTES', '1024');
+  vi.resetModules();
+  const { handleWorkspaceRequest } = await import('./workspaceApi.js');
+  server = createServer((req, res) => void handleWorkspaceRequest(req, res, req.url ?? '/'));
+  baseUrl = await listen(server);
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await close(server);
+});
+
+function request(method: string, path: string, body?: unknown, headers: Record<string, string> = {}) {
+  return fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+async function createOpportunity(id = 'opp1') {
+  const response = await request('POST', '/opportunities', { id, title: '初始' });
+  return (await response.json()) as { id: string; title: string; updatedAt: string };
+}
+
+describe('handleWorkspaceRequest', () => {
+  it('新建、读取、更新和删除记录', async () => {
+    const created = await request('POST', '/opportunities', { id: 'opp1', title: '初始' });
+    expect(created.status).toBe(201);
+    const record = (await created.json()) as { updatedAt: string };
+    expect(created.headers.get('etag')).toBe(`"${record.updatedAt}"`);
+
+    const updated = await request('PUT', '/opportunities/opp1', { id: 'opp1', title: '修改' }, { 'If-Match': record.updatedAt });
+    expect(updated.status).toBe(200);
+    expect(await updated.json()).toMatchObject({ id: 'opp1', title: '修改' });
+
+    const list = await request('GET', '/opportunities');
+    expect(await list.json()).toMatchObject([{ id: 'opp1', title: '修改' }]);
+
+    expect((await request('DELETE', '/opportunities/opp1')).status).toBe(204);
+    expect((await request('GET', '/opportunities/opp1')).status).toBe(404);
+  });
+
+  it('If-Match 与当前版本不一致时返回 409 和最新版本', async () => {
+    const record = await createOpportunity();
+    await request('PUT', '/opportunities/opp1', { id: 'opp1', title: '他人修改' }, { 'If-Match': record.updatedAt });
+
+    const conflict = await request('PUT', '/opportunities/opp1', { id: 'opp1', title: '我的修改' }, { 'If-Match': record.updatedAt });
+    expect(conflict.status).toBe(409);
+    expect(await conflict.json()).toMatchObject({ error: { code: 'CONFLICT' }, current: { title: '他人修改' } });
+
+    const deleteConflict = await request('DELETE', '/opportunities/opp1', undefined, { 'If-Match': record.updatedAt });
+    expect(deleteConflict.status).toBe(409);
+    expect(await deleteConflict.json()).toMatchObject({ current: { title: '他人修改' } });
+  });
+
+  it('重复新建同一主键时返回 409 和已有记录', async () => {
+    await createOpportunity();
+    const response = await request('POST', '/opportunities', { id: 'opp1', title: '重复' });
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toMatchObject({ current: { title: '初始' } });
+  });
+
+  it('If-Match 兼容带引号和弱校验前缀的写法，* 视为不校验', async () => {
+    const record = await createOpportunity();
+    const quoted = await request('PUT', '/opportunities/opp1', { id: 'opp1', title: '带引号' }, { 'If-Match': `"${record.updatedAt}"` });
+    expect(quoted.status).toBe(200);
+
+    const { updatedAt } = (await quoted.json()) as { updatedAt: string };
+    const weak = await request('PUT', '/opportunities/opp1', { id: 'opp1', title: '弱校验' }, { 'If-Match': `W/"${updatedAt}"` });
+    expect(weak.status).toBe(200);
+
+    const any = await request('PUT', '/opportunities/opp1', { id: 'opp1', title: '任意版本' }, { 'If-Match': '*' });
+    expect(any.status).toBe(200);
+  });
+
+  it('请求体超过上限时返回 413', async () => {
+    const response = await request('POST', '/opportunities', { id: 'opp1', title: 'x'.repeat(2048) });
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toMatchObject({ error: { code: 'PAYLOAD_TOO_LARGE' } });
+    expect((await request('GET', '/opportunities/opp1')).status).toBe(404);
+  });
+
+  it('请求体主键与路径不一致时返回 400，记录不存在时返回 404', async () => {
+    await createOpportunity();
+
+    const mismatch = await request('PUT', '/opportunities/opp1', { id: 'opp2', title: '错位' });
+    expect(mismatch.status).toBe(400);
+    expect(await mismatch.json()).toMatchObject({ error: { code: 'INVALID_BODY' } });
+
+    expect((await request('PUT', '/opportunities/opp2', { id: 'opp2', title: '不存在' })).status).toBe(404);
+    expect((await request('DELETE', '/opportunities/opp2')).status).toBe(404);
+    expect((await request('GET', '/unknown')).status).toBe(404);
+  });
+
+  it('同一毫秒内连续保存时 updatedAt 仍严格递增', async () => {
+    const spy = vi.spyOn(Date, 'now').mockReturnValue(Date.parse('2024-04-01T00:00:00.000Z'));
+    const versions = [(await createOpportunity()).updatedAt];
+    for (const title of ['第一次', '第二次']) {
+      const response = await request('PUT', '/opportunities/opp1', { id: 'opp1', title }, { 'If-Match': versions[versions.length - 1] });
+      versions.push(((await response.json()) as { updatedAt: string }).updatedAt);
+    }
+    spy.mockRestore();
+
+    expect(versions).toEqual(['2024-04-01T00:00:00.000Z', '2024-04-01T00:00:00.001Z', '2024-04-01T00:00:00.002Z']);
+  });
+});
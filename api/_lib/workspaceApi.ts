@@ -0,0 +1,126 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { headerValue, sendJson } from './http.js';
+import {
+  createRecord,
+  deleteRecord,
+  getRecord,
+  isWorkspaceCollection,
+  listRecords,
+  updateRecord,
+  WorkspaceError,
+} from './workspaceDb.js';
+
+// 策略工作区接口（挂载在 /api/workspace 下）：
+// - GET    /{collection}        列表
+// - GET    /{collection}/{id}   单条记录
+// - POST   /{collection}        新建
+// - PUT    /{collection}/{id}   更新，If-Match 为读取时的 updatedAt，不一致时返回 409 和最新版本
+// - DELETE /{collection}/{id}   删除，同样支持 If-Match
+// updatedAt 由服务端在每次保存时写入，并通过 ETag 返回
+// 配置项：WORKSPACE_MAX_BODY_BYTES 单次请求体大小上限
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+
+export interface WorkspaceRequest extends IncomingMessage {
+  // Vercel 会预先解析JSON请求体；Vite开发服务器不会
+  body?: unknown;
+}
+
+function readMaxBodyBytes(): number {
+  const parsed = Number.parseInt(process.env.WORKSPACE_MAX_BODY_BYTES ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_MAX_BODY_BYTES;
+}
+
+async function readJsonBody(req: WorkspaceRequest): Promise<Record<string, unknown>> {
+  const maxBodyBytes = readMaxBodyBytes();
+  let raw: string;
+  if (req.body !== undefined) {
+    raw = typeof req.body === 'string' ? req.body : JSON.stringify(req.body);
+  } else {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : (chunk as Buffer);
+      size += buffer.length;
+      if (size > maxBodyBytes) {
+        throw new WorkspaceError(413, 'PAYLOAD_TOO_LARGE', `请求体超过 ${maxBodyBytes} 字节上限`);
+      }
+      chunks.push(buffer);
+    }
+    raw = Buffer.concat(chunks).toString('utf8');
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new WorkspaceError(400, 'INVALID_JSON', '请求体不是合法的JSON');
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new WorkspaceError(400, 'INVALID_BODY', '请求体必须是JSON对象');
+  }
+  return parsed as Record<string, unknown>;
+}
+
+// If-Match: "2024-04-01T00:00:00.000Z"（兼容弱校验前缀）
+function readIfMatch(req: IncomingMessage): string | undefined {
+  const value = headerValue(req, 'if-match')?.trim();
+  if (!value || value === '*') return undefined;
+  return value.replace(/^W\//, '').replace(/^"(.*)"$/, '$1');
+}
+
+function sendRecord(res: ServerResponse, status: number, record: { updatedAt: string }) {
+  res.setHeader('ETag', `"${record.updatedAt}"`);
+  sendJson(res, status, record);
+}
+
+// path 为挂载点之后的路径，如 /opportunities/opp1
+export async function handleWorkspaceRequest(req: WorkspaceRequest, res: ServerResponse, path: string): Promise<void> {
+  try {
+    const [collection, rawId, ...rest] = path.split('?')[0].split('/').filter(Boolean);
+    if (!collection || !isWorkspaceCollection(collection) || rest.length > 0) {
+      throw new WorkspaceError(404, 'NOT_FOUND', '接口不存在');
+    }
+    const id = rawId === undefined ? undefined : decodeURIComponent(rawId);
+
+    if (id === undefined) {
+      switch (req.method) {
+        case 'GET':
+          sendJson(res, 200, listRecords(collection));
+          return;
+        case 'POST':
+          sendRecord(res, 201, createRecord(collection, await readJsonBody(req)));
+          return;
+        default:
+          res.setHeader('Allow', 'GET, POST');
+          throw new WorkspaceError(405, 'METHOD_NOT_ALLOWED', '不支持的请求方法');
+      }
+    }
+
+    switch (req.method) {
+      case 'GET':
+        sendRecord(res, 200, getRecord(collection, id));
+        return;
+      case 'PUT':
+        sendRecord(res, 200, updateRecord(collection, id, await readJsonBody(req), readIfMatch(req)));
+        return;
+      case 'DELETE':
+        deleteRecord(collection, id, readIfMatch(req));
+        res.statusCode = 204;
+        res.end();
+        return;
+      default:
+        res.setHeader('Allow', 'GET, PUT, DELETE');
+        throw new WorkspaceError(405, 'METHOD_NOT_ALLOWED', '不支持的请求方法');
+    }
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      sendJson(res, error.status, {
+        error: { code: error.code, message: error.message },
+        ...(error.current !== undefined ? { current: error.current } : {}),
+      });
+      return;
+    }
+    console.error('Workspace API error:', error);
+    sendJson(res, 500, { error: { code: 'INTERNAL_ERROR', message: '工作区存储异常' } });
+  }
+}
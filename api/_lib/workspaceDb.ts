@@ -0,0 +1,185 @@
+import Database from 'better-sqlite3';
+import { existsSync, mkdirSync, readFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+
+// 策略工作区的 SQLite 存储，每条记录以JSON保存，updated_at 作为乐观并发的版本号
+// 配置项（服务端环境变量）：
+// - WORKSPACE_DB_PATH：数据库文件路径，:memory: 为内存数据库；Vercel 上默认写入 /tmp（实例回收后丢失），需持久化时请指向挂载的磁盘
+// - WORKSPACE_SEED_PATH：首次创建数据库时导入的示例数据（JSON，顶层键为集合名），默认文件由 npm run workspace-seed 生成
+const DEFAULT_DB_PATH = process.env.VERCEL ? '/tmp/workspace.sqlite' : '.data/workspace.sqlite';
+const DEFAULT_SEED_PATH = 'mock-server/workspace-seed.json';
+
+// 集合及其主键字段
+export const WORKSPACE_COLLECTIONS = {
+  opportunities: 'id',
+  reasonDimensions: 'id',
+  opportunityAnalyses: 'opportunityId',
+  strategyProposals: 'id',
+  strategyDiscussions: 'id',
+} as const;
+
+export type WorkspaceCollectionName = keyof typeof WORKSPACE_COLLECTIONS;
+
+export type WorkspaceRecord = Record<string, unknown> & { updatedAt: string };
+
+export class WorkspaceError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string,
+    public readonly current?: WorkspaceRecord | null // 版本冲突时返回最新版本
+  ) {
+    super(message);
+  }
+}
+
+export function isWorkspaceCollection(name: string): name is WorkspaceCollectionName {
+  return Object.prototype.hasOwnProperty.call(WORKSPACE_COLLECTIONS, name);
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS workspace_records (
+  collection TEXT NOT NULL,
+  id TEXT NOT NULL,
+  data TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (collection, id)
+);
+CREATE TABLE IF NOT EXISTS workspace_meta (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+`;
+
+let database: Database.Database | null = null;
+
+function getDatabase(): Database.Database {
+  if (!database) {
+    const configuredPath = process.env.WORKSPACE_DB_PATH || DEFAULT_DB_PATH;
+    // :memory: 为内存数据库（用于测试），不解析为文件路径
+    const inMemory = configuredPath === ':memory:';
+    const path = inMemory ? configuredPath : resolve(configuredPath);
+    if (!inMemory) mkdirSync(dirname(path), { recursive: true });
+    database = new Database(path);
+    database.pragma('journal_mode = WAL');
+    database.exec(SCHEMA);
+    seedDatabase(database);
+  }
+  return database;
+}
+
+// 新版本时间戳，保证同一记录的版本严格递增
+function nextUpdatedAt(previous?: string): string {
+  const previousTime = previous ? Date.parse(previous) : Number.NaN;
+  return new Date(Math.max(Date.now(), Number.isFinite(previousTime) ? previousTime + 1 : 0)).toISOString();
+}
+
+// 只在数据库首次创建时导入，之后即使记录被全部删除也不再导入
+function seedDatabase(db: Database.Database) {
+  if (db.prepare('SELECT 1 FROM workspace_meta WHERE key = ?').get('seeded')) return;
+
+  const seedPath = resolve(process.env.WORKSPACE_SEED_PATH || DEFAULT_SEED_PATH);
+  const seed = existsSync(seedPath) ? (JSON.parse(readFileSync(seedPath, 'utf8')) as Record<string, unknown>) : {};
+  const insert = db.prepare('INSERT OR IGNORE INTO workspace_records (collection, id, data, updated_at) VALUES (?, ?, ?, ?)');
+
+  db.transaction(() => {
+    (Object.keys(WORKSPACE_COLLECTIONS) as WorkspaceCollectionName[]).forEach((collection) => {
+      const records = seed[collection];
+      if (!Array.isArray(records)) return;
+      records.forEach((raw: Record<string, unknown>) => {
+        const id = raw[WORKSPACE_COLLECTIONS[collection]];
+        if (typeof id !== 'string') return;
+        const updatedAt = typeof raw.updatedAt === 'string' ? raw.updatedAt : nextUpdatedAt();
+        insert.run(collection, id, JSON.stringify({ ...raw, updatedAt }), updatedAt);
+      });
+    });
+    db.prepare('INSERT INTO workspace_meta (key, value) VALUES (?, ?)').run('seeded', new Date().toISOString());
+  })();
+}
+
+interface RecordRow {
+  data: string;
+}
+
+function readRecord(db: Database.Database, collection: WorkspaceCollectionName, id: string): WorkspaceRecord | null {
+  const row = db.prepare('SELECT data FROM workspace_records WHERE collection = ? AND id = ?').get(collection, id) as
+    | RecordRow
+    | undefined;
+  return row ? (JSON.parse(row.data) as WorkspaceRecord) : null;
+}
+
+function checkVersion(current: WorkspaceRecord, ifMatch: string | undefined) {
+  if (ifMatch !== undefined && ifMatch !== current.updatedAt) {
+    throw new WorkspaceError(409, 'CONFLICT', '记录已被其他人修改', current);
+  }
+}
+
+// 按创建顺序返回
+export function listRecords(collection: WorkspaceCollectionName): WorkspaceRecord[] {
+  const rows = getDatabase()
+    .prepare('SELECT data FROM workspace_records WHERE collection = ? ORDER BY rowid')
+    .all(collection) as RecordRow[];
+  return rows.map((row) => JSON.parse(row.data) as WorkspaceRecord);
+}
+
+export function getRecord(collection: WorkspaceCollectionName, id: string): WorkspaceRecord {
+  const record = readRecord(getDatabase(), collection, id);
+  if (!record) throw new WorkspaceError(404, 'NOT_FOUND', '记录不存在');
+  return record;
+}
+
+export function createRecord(collection: WorkspaceCollectionName, data: Record<string, unknown>): WorkspaceRecord {
+  const id = data[WORKSPACE_COLLECTIONS[collection]];
+  if (typeof id !== 'string' || !id) {
+    throw new WorkspaceError(400, 'INVALID_BODY', `缺少主键 ${WORKSPACE_COLLECTIONS[collection]}`);
+  }
+  const db = getDatabase();
+  return db.transaction(() => {
+    const existing = readRecord(db, collection, id);
+    if (existing) throw new WorkspaceError(409, 'CONFLICT', '记录已存在', existing);
+    const record: WorkspaceRecord = { ...data, updatedAt: nextUpdatedAt() };
+    db.prepare('INSERT INTO workspace_records (collection, id, data, updated_at) VALUES (?, ?, ?, ?)').run(
+      collection,
+      id,
+      JSON.stringify(record),
+      record.updatedAt
+    );
+    return record;
+  }).immediate();
+}
+
+// ifMatch 为客户端读取时的版本；不传时直接覆盖
+export function updateRecord(
+  collection: WorkspaceCollectionName,
+  id: string,
+  data: Record<string, unknown>,
+  ifMatch?: string
+): WorkspaceRecord {
+  if (data[WORKSPACE_COLLECTIONS[collection]] !== id) {
+    throw new WorkspaceError(400, 'INVALID_BODY', '请求体主键与路径不一致');
+  }
+  const db = getDatabase();
+  return db.transaction(() => {
+    const current = readRecord(db, collection, id);
+    if (!current) throw new WorkspaceError(404, 'NOT_FOUND', '记录不存在');
+    checkVersion(current, ifMatch);
+    const record: WorkspaceRecord = { ...data, updatedAt: nextUpdatedAt(current.updatedAt) };
+    db.prepare('UPDATE workspace_records SET data = ?, updated_at = ? WHERE collection = ? AND id = ?').run(
+      JSON.stringify(record),
+      record.updatedAt,
+      collection,
+      id
+    );
+    return record;
+  }).immediate();
+}
+
+export function deleteRecord(collection: WorkspaceCollectionName, id: string, ifMatch?: string): void {
+  const db = getDatabase();
+  db.transaction(() => {
+    const current = readRecord(db, collection, id);
+    if (!current) throw new WorkspaceError(404, 'NOT_FOUND', '记录不存在');
+    checkVersion(current, ifMatch);
+    db.prepare('DELETE FROM workspace_records WHERE collection = ? AND id = ?').run(collection, id);
+  }).immediate();
+}
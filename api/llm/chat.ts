@@ -0,0 +1,7 @@
+import type { ServerResponse } from 'node:http';
+import { handleLLMChatRequest, LLMProxyRequest } from '../_lib/llmProxy.js';
+
+// Vercel Serverless Function：POST /api/llm/chat
+export default function handler(req: LLMProxyRequest, res: ServerResponse) {
+  return handleLLMChatRequest(req, res);
+}
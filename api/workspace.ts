@@ -0,0 +1,9 @@
+import type { ServerResponse } from 'node:http';
+import { handleWorkspaceRequest, WorkspaceRequest } from './_lib/workspaceApi.js';
+
+// Vercel Serverless Function：/api/workspace/*（vercel.json 将子路径改写为 ?path= 参数）
+export default function handler(req: WorkspaceRequest, res: ServerResponse) {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const path = url.searchParams.get('path') ?? url.pathname.replace(/^\/api\/workspace/, '');
+  return handleWorkspaceRequest(req, res, path);
+}
@@ -0,0 +1,9 @@
+import { writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { buildWorkspaceSeed } from './mockDatabase';
+
+// npm run workspace-seed：生成工作区服务端首次建库时导入的示例数据（WORKSPACE_SEED_PATH 的默认文件）
+const outputPath = resolve('mock-server/workspace-seed.json');
+
+writeFileSync(outputPath, `${JSON.stringify(buildWorkspaceSeed(), null, 2)}\n`);
+console.log(`Workspace seed written to ${outputPath}`);
@@ -0,0 +1,34 @@
+import {
+  mockProductHistory,
+  mockProductProvinceHistory,
+  mockProducts,
+  mockProvinceHistory,
+  mockProvinces,
+} from '../src/data/mockData';
+import { mockMarketData } from '../src/data/strategyMockData';
+import { DEFAULT_WORKSPACE_SEED, WORKSPACE_COLLECTION_NAMES } from '../src/services/repository/shared';
+
+// REST 接口的示例数据，由 src/data 中的示例数据生成，顶层键为资源名
+export type MockDatabase = Record<string, Array<Record<string, unknown>>>;
+
+// 按接口返回的 JSON 形态保存（日期序列化为 ISO 字符串）
+const toJson = (records: unknown[]) => JSON.parse(JSON.stringify(records)) as Array<Record<string, unknown>>;
+
+// 策略工作区集合，未提供示例数据的集合为空
+export function buildWorkspaceSeed(): MockDatabase {
+  return Object.fromEntries(
+    WORKSPACE_COLLECTION_NAMES.map((name) => [name, toJson(DEFAULT_WORKSPACE_SEED[name] ?? [])])
+  );
+}
+
+export function buildMockDatabase(): MockDatabase {
+  return {
+    products: toJson(mockProducts),
+    provinces: toJson(mockProvinces),
+    productHistory: toJson(mockProductHistory),
+    provinceHistory: toJson(mockProvinceHistory),
+    productProvinceHistory: toJson(mockProductProvinceHistory),
+    marketData: toJson(mockMarketData),
+    ...buildWorkspaceSeed(),
+  };
+}
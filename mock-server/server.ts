@@ -0,0 +1,37 @@
+import type { RequestHandler } from 'express';
+import jsonServer, { JsonServerRouter } from 'json-server';
+import { buildMockDatabase, MockDatabase } from './mockDatabase';
+
+const VERSIONED_METHODS = ['PUT', 'PATCH', 'DELETE'];
+
+// json-server 本身不做版本检查：携带 If-Match 的修改与记录当前的 updatedAt 比较，
+// 不一致时返回 409 和最新版本，与工作区服务端（api/_lib/workspaceApi.ts）的约定一致
+function checkIfMatch(router: JsonServerRouter<MockDatabase>): RequestHandler {
+  return (req, res, next) => {
+    const ifMatch = req.header('if-match');
+    const [, collection, id] = req.path.split('/');
+    if (!ifMatch || !id || !VERSIONED_METHODS.includes(req.method)) return next();
+
+    const records = router.db.get(collection).value();
+    const current = Array.isArray(records)
+      ? records.find((record) => String(record.id) === decodeURIComponent(id))
+      : undefined;
+    // 记录不存在时交给 json-server 返回 404
+    if (!current) return next();
+    if (ifMatch.replace(/^W\//, '').replace(/"/g, '') !== current.updatedAt) {
+      res.status(409).json({ error: { code: 'CONFLICT', message: '记录已被其他人修改' }, current });
+      return;
+    }
+    next();
+  };
+}
+
+// 本地联调和测试使用的 REST 接口，数据保存在内存中，重启后恢复为示例数据
+export function createMockApiServer(db: MockDatabase = buildMockDatabase(), { logger = true } = {}) {
+  const app = jsonServer.create();
+  const router = jsonServer.router<MockDatabase>(db);
+  app.use(jsonServer.defaults({ logger }));
+  app.use(checkIfMatch(router));
+  app.use(router);
+  return app;
+}
@@ -0,0 +1,8 @@
+import { createMockApiServer } from './server';
+
+// npm run mock-api：在 MOCK_API_PORT（默认 3001）提供 REST 示例接口
+const port = Number.parseInt(process.env.MOCK_API_PORT ?? '', 10) || 3001;
+
+createMockApiServer().listen(port, () => {
+  console.log(`Mock REST API running at http://localhost:${port}`);
+});
@@ -1,26 +1,47 @@
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { AnalysisProvider } from './contexts/AnalysisContext';
+import { PageContextProvider } from './contexts/PageContext';
+import { StrategyProvider } from './contexts/StrategyContext';
+import { DatasetProvider } from './contexts/DatasetContext';
+import { DataRepositoryProvider } from './contexts/DataRepositoryContext';
+import { SettingsProvider } from './contexts/SettingsContext';
 import Layout from './components/Layout';
 import Home from './pages/Home';
 import ProductAnalysis from './pages/ProductAnalysis';
 import ProvinceAnalysis from './pages/ProvinceAnalysis';
 import StrategyPlanning from './pages/StrategyPlanning';
+import DataImport from './pages/DataImport';
+import Settings from './pages/Settings';
+import RiskDashboard from './pages/RiskDashboard';
 
 function App() {
   return (
-    <AnalysisProvider>
-      <Router>
-        <Layout>
-          <Routes>
-            <Route path="/" element={<Home />} />
-            <Route path="/product-analysis" element={<ProductAnalysis />} />
-            <Route path="/province-analysis" element={<ProvinceAnalysis />} />
-            <Route path="/strategy-planning" element={<StrategyPlanning />} />
-            <Route path="*" element={<Navigate to="/" replace />} />
-          </Routes>
-        </Layout>
-      </Router>
-    </AnalysisProvider>
+    <DatasetProvider>
+      <SettingsProvider>
+        <DataRepositoryProvider>
+          <AnalysisProvider>
+            <PageContextProvider>
+              <StrategyProvider>
+                <Router>
+                  <Layout>
+                    <Routes>
+                      <Route path="/" element={<Home />} />
+                      <Route path="/product-analysis" element={<ProductAnalysis />} />
+                      <Route path="/province-analysis" element={<ProvinceAnalysis />} />
+                      <Route path="/risk-dashboard" element={<RiskDashboard />} />
+                      <Route path="/strategy-planning" element={<StrategyPlanning />} />
+                      <Route path="/data-import" element={<DataImport />} />
+                      <Route path="/settings" element={<Settings />} />
+                      <Route path="*" element={<Navigate to="/" replace />} />
+                    </Routes>
+                  </Layout>
+                </Router>
+              </StrategyProvider>
+            </PageContextProvider>
+          </AnalysisProvider>
+        </DataRepositoryProvider>
+      </SettingsProvider>
+    </DatasetProvider>
   );
 }
 
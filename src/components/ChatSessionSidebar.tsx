@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import { Search, Plus, Edit2, Trash2, Check, X, MessageSquare } from 'lucide-react';
+import { clsx } from 'clsx';
+import { ChatSession, searchChatSessions } from '../services/chatSessionStore';
+
+interface ChatSessionSidebarProps {
+  sessions: ChatSession[];
+  activeSessionId: string | null;
+  switchDisabled?: boolean; // 回复生成中，只能查看当前会话
+  onSelect: (session: ChatSession) => void;
+  onNew: () => void;
+  onRename: (session: ChatSession, title: string) => void;
+  onDelete: (session: ChatSession) => void;
+  onClose: () => void;
+}
+
+export default function ChatSessionSidebar({
+  sessions,
+  activeSessionId,
+  switchDisabled = false,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+  onClose,
+}: ChatSessionSidebarProps) {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const filteredSessions = searchChatSessions(sessions, searchTerm);
+
+  const startRename = (session: ChatSession) => {
+    setRenamingId(session.id);
+    setRenameValue(session.title);
+  };
+
+  const commitRename = (session: ChatSession) => {
+    if (renameValue.trim()) {
+      onRename(session, renameValue.trim());
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = (session: ChatSession) => {
+    if (confirm(`确定要删除会话"${session.title}"吗？`)) {
+      onDelete(session);
+    }
+  };
+
+  const formatDate = (date: Date) =>
+    date.toLocaleString('zh-CN', { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="absolute inset-0 bg-white flex flex-col z-10">
+      <div className="flex items-center justify-between p-3 border-b border-gray-200">
+        <span className="font-semibold text-gray-900 text-sm">历史会话</span>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={onNew}
+            disabled={switchDisabled}
+            className="flex items-center space-x-1 px-2 py-1 text-xs text-primary-600 hover:bg-primary-50 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Plus className="w-3 h-3" />
+            <span>新对话</span>
+          </button>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded" aria-label="关闭历史会话">
+            <X className="w-4 h-4 text-gray-600" />
+          </button>
+        </div>
+      </div>
+
+      <div className="p-3 border-b border-gray-100">
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 transform -translate-y-1/2 w-3.5 h-3.5 text-gray-400" />
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="搜索会话标题或内容..."
+            className="w-full pl-7 pr-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          />
+        </div>
+      </div>
+
+      {switchDisabled && (
+        <div className="px-3 py-2 text-xs text-yellow-800 bg-yellow-50 border-b border-yellow-100">
+          回复生成中，完成或停止后可切换会话
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {filteredSessions.length === 0 && (
+          <div className="text-center text-sm text-gray-500 py-8">
+            {sessions.length === 0 ? '暂无历史会话' : '没有匹配的会话'}
+          </div>
+        )}
+        {filteredSessions.map((session) => (
+          <div
+            key={session.id}
+            className={clsx(
+              'group rounded-lg border p-2 transition-colors',
+              session.id === activeSessionId
+                ? 'bg-primary-50 border-primary-300'
+                : 'bg-white border-transparent hover:bg-gray-50'
+            )}
+          >
+            {renamingId === session.id ? (
+              <div className="flex items-center space-x-1">
+                <input
+                  autoFocus
+                  value={renameValue}
+                  onChange={(e) => setRenameValue(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename(session);
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                />
+                <button onClick={() => commitRename(session)} className="p-1 text-green-600 hover:bg-green-50 rounded">
+                  <Check className="w-4 h-4" />
+                </button>
+                <button onClick={() => setRenamingId(null)} className="p-1 text-gray-500 hover:bg-gray-100 rounded">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ) : (
+              <div className="flex items-start justify-between">
+                <button
+                  onClick={() => onSelect(session)}
+                  disabled={switchDisabled && session.id !== activeSessionId}
+                  className="flex-1 text-left min-w-0 disabled:cursor-not-allowed"
+                >
+                  <div className="flex items-center space-x-1">
+                    <MessageSquare className="w-3.5 h-3.5 text-gray-400 flex-shrink-0" />
+                    <span className="text-sm font-medium text-gray-900 truncate">{session.title}</span>
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1 truncate">
+                    {session.origin.page}
+                    {session.origin.analysisTarget && ` · ${session.origin.analysisTarget.targetName}`}
+                  </div>
+                  <div className="text-xs text-gray-400 mt-0.5">{formatDate(session.updatedAt)}</div>
+                </button>
+                <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => startRename(session)}
+                    className="p-1 text-gray-500 hover:bg-gray-100 rounded"
+                    title="重命名"
+                  >
+                    <Edit2 className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(session)}
+                    disabled={switchDisabled && session.id === activeSessionId}
+                    className="p-1 text-red-500 hover:bg-red-50 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="删除"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { Wrench, Loader2, CheckCircle, XCircle, AlertCircle, ChevronDown, ChevronRight } from 'lucide-react';
+import { clsx } from 'clsx';
+import { ChatToolCall, getChatToolLabel } from '../services/chatTools';
+
+interface ChatToolCallCardProps {
+  call: ChatToolCall;
+  onConfirm: (approved: boolean) => void;
+}
+
+const STATUS_LABELS: Record<ChatToolCall['status'], string> = {
+  awaitingConfirmation: '等待确认',
+  running: '执行中',
+  done: '已完成',
+  rejected: '已取消',
+  error: '失败',
+};
+
+// 结果较长时（如完整省份列表）格式化后折叠展示
+function formatResult(result: string): string {
+  try {
+    return JSON.stringify(JSON.parse(result), null, 2);
+  } catch {
+    return result;
+  }
+}
+
+export default function ChatToolCallCard({ call, onConfirm }: ChatToolCallCardProps) {
+  const [expanded, setExpanded] = useState(false);
+  const argsText = Object.keys(call.arguments).length > 0 ? JSON.stringify(call.arguments) : '';
+
+  const StatusIcon = {
+    awaitingConfirmation: AlertCircle,
+    running: Loader2,
+    done: CheckCircle,
+    rejected: XCircle,
+    error: XCircle,
+  }[call.status];
+
+  return (
+    <div
+      className={clsx(
+        'mb-2 rounded-lg border text-xs text-left',
+        call.status === 'awaitingConfirmation' ? 'border-orange-300 bg-orange-50' : 'border-gray-200 bg-gray-50'
+      )}
+    >
+      <button
+        onClick={() => setExpanded(!expanded)}
+        disabled={!call.result}
+        className="w-full flex items-center justify-between px-2 py-1.5 disabled:cursor-default"
+      >
+        <span className="flex items-center space-x-1 min-w-0">
+          <Wrench className="w-3.5 h-3.5 text-gray-500 flex-shrink-0" />
+          <span className="font-medium text-gray-800">{getChatToolLabel(call.name)}</span>
+          {argsText && <span className="text-gray-500 truncate">{argsText}</span>}
+        </span>
+        <span
+          className={clsx('flex items-center space-x-1 flex-shrink-0 ml-2', {
+            'text-orange-600': call.status === 'awaitingConfirmation',
+            'text-gray-500': call.status === 'running' || call.status === 'rejected',
+            'text-green-600': call.status === 'done',
+            'text-red-600': call.status === 'error',
+          })}
+        >
+          <StatusIcon className={clsx('w-3.5 h-3.5', call.status === 'running' && 'animate-spin')} />
+          <span>{STATUS_LABELS[call.status]}</span>
+          {call.result && (expanded ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />)}
+        </span>
+      </button>
+
+      {call.status === 'awaitingConfirmation' && (
+        <div className="flex items-center justify-end space-x-2 px-2 pb-2">
+          <span className="flex-1 text-orange-700">该操作会修改数据，是否执行？</span>
+          <button
+            onClick={() => onConfirm(false)}
+            className="px-2 py-1 rounded border border-gray-300 bg-white text-gray-700 hover:bg-gray-100"
+          >
+            取消
+          </button>
+          <button
+            onClick={() => onConfirm(true)}
+            className="px-2 py-1 rounded bg-primary-600 text-white hover:bg-primary-700"
+          >
+            确认执行
+          </button>
+        </div>
+      )}
+
+      {expanded && call.result && (
+        <pre className="mx-2 mb-2 p-2 max-h-48 overflow-auto rounded bg-white border border-gray-200 text-gray-700 whitespace-pre-wrap">
+          {formatResult(call.result)}
+        </pre>
+      )}
+    </div>
+  );
+}
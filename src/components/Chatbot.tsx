@@ -1,35 +1,183 @@
-import { useState, useRef, useEffect } from 'react';
-import { Send, X, Minimize2, Maximize2, Bot, User } from 'lucide-react';
-import { sendChatMessage, ChatMessage } from '../services/chatService';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { Send, X, Minimize2, Maximize2, Bot, User, Square, History, ChevronDown, ChevronRight, Paperclip } from 'lucide-react';
+import { streamChatMessage, updateChatSummary, ChatContext, ChatMessage } from '../services/chatService';
+import { ChatToolCall, ChatToolEnvironment } from '../services/chatTools';
+import { ChatIntent, formatChatCommandHelp, matchChatCommands, parseChatIntent } from '../services/chatIntents';
+import {
+  ChatSession,
+  createChatSession,
+  deleteChatSession,
+  deriveSessionTitle,
+  listChatSessions,
+  saveChatSession,
+} from '../services/chatSessionStore';
 import { useLocation } from 'react-router-dom';
-import { useAnalysis } from '../contexts/AnalysisContext';
+import { useAnalysis } from '../hooks/useAnalysis';
+import { usePageContext } from '../hooks/usePageContext';
+import { useStrategy } from '../hooks/useStrategy';
+import { useDataRepository } from '../hooks/useDataRepository';
+import { buildChatContextBlocks, ChatContextBlockId, isAnalysisOnPage } from '../services/chatContextBuilder';
 import { clsx } from 'clsx';
+import MarkdownContent from './MarkdownContent';
+import ChatSessionSidebar from './ChatSessionSidebar';
+import ChatToolCallCard from './ChatToolCallCard';
+
+const ACTIVE_SESSION_STORAGE_KEY = 'chat-active-session-id';
+
+const createWelcomeMessage = (): ChatMessage => ({
+  id: '1',
+  role: 'assistant',
+  content: '你好！我是晖致公司的AI业务顾问。我可以帮助你改进分析报告、回答业务问题、提供策略建议。有什么我可以帮助你的吗？',
+  timestamp: new Date(),
+});
 
 export default function Chatbot() {
   const [isOpen, setIsOpen] = useState(false);
   const [isMinimized, setIsMinimized] = useState(false);
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    {
-      id: '1',
-      role: 'assistant',
-      content: '你好！我是晖致公司的AI业务顾问。我可以帮助你改进分析报告、回答业务问题、提供策略建议。有什么我可以帮助你的吗？',
-      timestamp: new Date(),
-    },
-  ]);
+  const [messages, setMessages] = useState<ChatMessage[]>(() => [createWelcomeMessage()]);
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showSummary, setShowSummary] = useState(false);
+  const [showContextPanel, setShowContextPanel] = useState(false);
+  const [excludedBlockIds, setExcludedBlockIds] = useState<Set<ChatContextBlockId>>(new Set());
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // 等待用户确认的工具调用（调用ID -> 确认结果回调）
+  const pendingConfirmationsRef = useRef(new Map<string, (approved: boolean) => void>());
+  // 通过 /refresh 发起、尚未完成的分析刷新（缓存键 -> 回执消息ID）
+  const pendingRefreshesRef = useRef(new Map<string, string>());
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const location = useLocation();
-  const { currentAnalysis, markNeedsRefresh } = useAnalysis();
+  const { currentAnalysis, analysisCache, needsRefresh, markNeedsRefresh } = useAnalysis();
+  const { pageData } = usePageContext();
+  const { addStrategy } = useStrategy();
+  const { repository } = useDataRepository();
+
+  // 当前页面正在展示的分析（切换页面后遗留的分析不算）
+  const pageAnalysis = currentAnalysis && isAnalysisOnPage(currentAnalysis, pageData) ? currentAnalysis : null;
+
+  // 工具可以访问的应用状态和操作
+  const toolEnvironment: ChatToolEnvironment = {
+    repository,
+    addStrategy,
+    getAnalysisCacheKeys: () => Array.from(analysisCache.keys()),
+    currentAnalysisCacheKey: pageAnalysis?.cacheKey,
+    refreshAnalysis: markNeedsRefresh,
+  };
+
+  // 诊断组件完成重新分析后会清除刷新标记，此时更新命令回执
+  useEffect(() => {
+    pendingRefreshesRef.current.forEach((messageId, cacheKey) => {
+      if (needsRefresh.has(cacheKey)) return;
+      pendingRefreshesRef.current.delete(cacheKey);
+      const refreshed = analysisCache.get(cacheKey);
+      setMessages((prev) =>
+        prev.map((m) =>
+          m.id === messageId
+            ? { ...m, content: `已重新生成${refreshed ? `${refreshed.targetName}（${refreshed.period}）的` : ''}分析报告。` }
+            : m
+        )
+      );
+    });
+  }, [needsRefresh, analysisCache]);
+
+  // 当前页面可附带的上下文块，用户可逐个取消
+  const contextBlocks = useMemo(() => buildChatContextBlocks(pageData, currentAnalysis), [pageData, currentAnalysis]);
+  const attachedBlocks = contextBlocks.filter((block) => !excludedBlockIds.has(block.id));
+  const commandSuggestions = matchChatCommands(inputValue);
+
+  const toggleContextBlock = (id: ChatContextBlockId) => {
+    setExcludedBlockIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
 
   // 获取当前页面名称
   const getCurrentPageName = () => {
     if (location.pathname === '/product-analysis') return '产品表现分析';
     if (location.pathname === '/province-analysis') return '省份表现对比';
+    if (location.pathname === '/risk-dashboard') return '风险看板';
+    if (location.pathname === '/strategy-planning') return '策略制定';
+    if (location.pathname === '/data-import') return '数据导入';
+    if (location.pathname === '/settings') return '系统设置';
     return '首页';
   };
 
+  // 加载历史会话，并恢复上次打开的会话
+  useEffect(() => {
+    listChatSessions()
+      .then((loaded) => {
+        setSessions(loaded);
+        const lastSession = loaded.find((s) => s.id === localStorage.getItem(ACTIVE_SESSION_STORAGE_KEY));
+        if (lastSession) {
+          setActiveSessionId(lastSession.id);
+          setMessages(lastSession.messages);
+        }
+      })
+      .catch((error) => console.error('Failed to load chat sessions:', error));
+  }, []);
+
+  useEffect(() => {
+    if (activeSessionId) {
+      localStorage.setItem(ACTIVE_SESSION_STORAGE_KEY, activeSessionId);
+    } else {
+      localStorage.removeItem(ACTIVE_SESSION_STORAGE_KEY);
+    }
+  }, [activeSessionId]);
+
+  // 每轮回复结束后保存当前会话（流式生成过程中不写库）
+  useEffect(() => {
+    if (isLoading || !activeSessionId) return;
+    const session = sessions.find((s) => s.id === activeSessionId);
+    if (!session || session.messages === messages) return;
+
+    const updated: ChatSession = { ...session, messages, updatedAt: new Date() };
+    updated.title = deriveSessionTitle(updated);
+    setSessions((prev) => [updated, ...prev.filter((s) => s.id !== updated.id)]);
+    saveChatSession(updated).catch((error) => console.error('Failed to save chat session:', error));
+  }, [messages, isLoading, activeSessionId, sessions]);
+
+  // 回复生成期间不能切换会话：流式输出写入当前消息列表，且生成结束后才保存会话
+  const handleSelectSession = (session: ChatSession) => {
+    if (isLoading) return;
+    setActiveSessionId(session.id);
+    setMessages(session.messages);
+    setShowHistory(false);
+    setShowSummary(false);
+  };
+
+  const handleNewSession = () => {
+    if (isLoading) return;
+    setActiveSessionId(null);
+    setMessages([createWelcomeMessage()]);
+    setShowHistory(false);
+    setShowSummary(false);
+  };
+
+  const handleRenameSession = (session: ChatSession, title: string) => {
+    const updated: ChatSession = { ...session, title, titleEdited: true, updatedAt: new Date() };
+    setSessions((prev) => prev.map((s) => (s.id === session.id ? updated : s)));
+    saveChatSession(updated).catch((error) => console.error('Failed to rename chat session:', error));
+  };
+
+  const handleDeleteSession = (session: ChatSession) => {
+    if (isLoading && session.id === activeSessionId) return;
+    setSessions((prev) => prev.filter((s) => s.id !== session.id));
+    if (session.id === activeSessionId) {
+      handleNewSession();
+    }
+    deleteChatSession(session.id).catch((error) => console.error('Failed to delete chat session:', error));
+  };
+
   // 滚动到底部
   useEffect(() => {
     if (messagesEndRef.current) {
@@ -44,9 +192,83 @@ export default function Chatbot() {
     }
   }, [isOpen, isMinimized]);
 
+  const activeSession = sessions.find((s) => s.id === activeSessionId);
+
+  // 第一条消息（含斜杠命令）时创建会话，记录发起页面和分析对象；返回当前会话ID
+  const ensureActiveSession = (): string => {
+    if (activeSessionId) return activeSessionId;
+    const session = createChatSession(
+      {
+        page: getCurrentPageName(),
+        pathname: location.pathname,
+        analysisTarget: pageAnalysis
+          ? {
+              type: pageAnalysis.type,
+              targetId: pageAnalysis.targetId,
+              targetName: pageAnalysis.targetName,
+            }
+          : undefined,
+      },
+      messages
+    );
+    setSessions((prev) => [session, ...prev]);
+    setActiveSessionId(session.id);
+    return session.id;
+  };
+
+  // 处理斜杠命令：直接在本地执行，不调用模型
+  const handleIntent = (intent: ChatIntent, text: string) => {
+    setInputValue('');
+    if (intent.type === 'newSession') {
+      handleNewSession();
+      return;
+    }
+
+    const commandMessage: ChatMessage = {
+      id: Date.now().toString(),
+      role: 'user',
+      content: text,
+      timestamp: new Date(),
+      isCommand: true,
+    };
+    const replyId = (Date.now() + 1).toString();
+    let reply: string;
+
+    switch (intent.type) {
+      case 'refreshAnalysis':
+        if (!pageAnalysis) {
+          reply = '当前页面没有可刷新的分析报告，请先打开产品或省份诊断。';
+          break;
+        }
+        pendingRefreshesRef.current.set(pageAnalysis.cacheKey, replyId);
+        markNeedsRefresh(pageAnalysis.cacheKey);
+        reply = `正在重新生成${pageAnalysis.targetName}（${pageAnalysis.period}）的分析报告…`;
+        break;
+      case 'help':
+        reply = formatChatCommandHelp();
+        break;
+      case 'unknownCommand':
+        reply = `未知命令 \`${intent.command}\`，输入 \`/help\` 查看可用命令。`;
+        break;
+    }
+
+    ensureActiveSession();
+    setMessages((prev) => [
+      ...prev,
+      commandMessage,
+      { id: replyId, role: 'assistant', content: reply, timestamp: new Date(), isCommand: true },
+    ]);
+  };
+
   const handleSend = async () => {
     if (!inputValue.trim() || isLoading) return;
 
+    const intent = parseChatIntent(inputValue);
+    if (intent) {
+      handleIntent(intent, inputValue.trim());
+      return;
+    }
+
     const userMessage: ChatMessage = {
       id: Date.now().toString(),
       role: 'user',
@@ -54,67 +276,112 @@ export default function Chatbot() {
       timestamp: new Date(),
     };
 
-    setMessages((prev) => [...prev, userMessage]);
+    // 先插入空的助手消息，随token到达逐步填充
+    const assistantId = (Date.now() + 1).toString();
+    const assistantMessage: ChatMessage = {
+      id: assistantId,
+      role: 'assistant',
+      content: '',
+      timestamp: new Date(),
+      status: 'streaming',
+    };
+
+    const sessionId = ensureActiveSession();
+
+    setMessages((prev) => [...prev, userMessage, assistantMessage]);
     setInputValue('');
     setIsLoading(true);
 
-    try {
-      const response = await sendChatMessage([...messages, userMessage], {
-        currentPage: getCurrentPageName(),
-        analysisData: currentAnalysis ?? undefined,
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    const updateAssistant = (update: (message: ChatMessage) => ChatMessage) => {
+      setMessages((prev) => prev.map((m) => (m.id === assistantId ? update(m) : m)));
+    };
+
+    const upsertToolCall = (call: ChatToolCall) => {
+      updateAssistant((m) => {
+        const toolCalls = m.toolCalls ?? [];
+        return {
+          ...m,
+          toolCalls: toolCalls.some((c) => c.id === call.id)
+            ? toolCalls.map((c) => (c.id === call.id ? call : c))
+            : [...toolCalls, call],
+        };
       });
+    };
 
-      const assistantMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: response,
-        timestamp: new Date(),
-      };
-
-      setMessages((prev) => [...prev, assistantMessage]);
-
-      // 检查用户是否请求更新分析
-      const userMessageLower = userMessage.content.toLowerCase();
-      const refreshKeywords = ['刷新', '更新', '重新分析', '重新生成', '重新计算'];
-      const shouldRefresh = refreshKeywords.some(keyword => userMessageLower.includes(keyword));
-
-      if (shouldRefresh && currentAnalysis) {
-        // 从dataSummary中提取周期信息，格式如"产品立普妥在2024-Q1的表现分析"
-        const periodMatch = currentAnalysis.dataSummary.match(/(\d{4}-Q\d)/);
-        const period = periodMatch ? periodMatch[1] : '';
-        
-        // 根据分析类型生成缓存键（与诊断组件保持一致）
-        const cacheKey = currentAnalysis.type === 'product' 
-          ? `product-${currentAnalysis.targetId}-${period}`
-          : `province-${currentAnalysis.targetId}-${period}`;
-        
-        markNeedsRefresh(cacheKey);
-        
-        // 提示用户刷新
-        setTimeout(() => {
-          const refreshHint: ChatMessage = {
-            id: (Date.now() + 2).toString(),
-            role: 'assistant',
-            content: '已标记需要刷新分析。请点击分析报告右上角的"刷新分析"按钮，或切换产品/省份后会自动刷新。',
-            timestamp: new Date(),
-          };
-          setMessages((prev) => [...prev, refreshHint]);
-        }, 500);
+    // 写操作等待用户在卡片上确认；停止生成视为取消
+    const confirmToolCall = (call: ChatToolCall) =>
+      new Promise<boolean>((resolve) => {
+        const settle = (approved: boolean) => {
+          pendingConfirmationsRef.current.delete(call.id);
+          resolve(approved);
+        };
+        pendingConfirmationsRef.current.set(call.id, settle);
+        abortController.signal.addEventListener('abort', () => settle(false), { once: true });
+      });
+
+    const history = [...messages, userMessage];
+    const chatContext: ChatContext = {
+      currentPage: getCurrentPageName(),
+      contextBlocks: attachedBlocks,
+      summary: activeSession?.summary,
+    };
+
+    try {
+      // 历史超出上下文预算时先压缩较早的对话，摘要随会话保存
+      const summary = await updateChatSummary(history, chatContext);
+      if (summary !== chatContext.summary) {
+        setSessions((prev) => prev.map((s) => (s.id === sessionId ? { ...s, summary } : s)));
       }
+
+      const { content, toolCalls, aborted } = await streamChatMessage(
+        history,
+        { ...chatContext, summary },
+        {
+          signal: abortController.signal,
+          onToken: (delta) => updateAssistant((m) => ({ ...m, content: m.content + delta })),
+          tools: {
+            environment: toolEnvironment,
+            onUpdate: upsertToolCall,
+            confirm: confirmToolCall,
+          },
+        }
+      );
+
+      updateAssistant((m) => ({
+        ...m,
+        content: content || (aborted ? '' : '抱歉，我无法生成回复。'),
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        status: aborted ? 'stopped' : undefined,
+      }));
+
     } catch (error) {
       console.error('Failed to send message:', error);
-      const errorMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
+      updateAssistant((m) => ({
+        ...m,
         content: '抱歉，发送消息时出现错误。请稍后重试。',
-        timestamp: new Date(),
-      };
-      setMessages((prev) => [...prev, errorMessage]);
+        status: undefined,
+      }));
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const handleConfirmToolCall = (callId: string, approved: boolean) => {
+    pendingConfirmationsRef.current.get(callId)?.(approved);
+  };
+
+  // 停止生成，保留已输出的部分内容
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // 组件卸载时中止进行中的请求
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
   const handleKeyPress = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -160,6 +427,16 @@ export default function Chatbot() {
           </div>
         </div>
         <div className="flex items-center space-x-2">
+          {!isMinimized && (
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              className={clsx('p-1 rounded transition-colors', showHistory ? 'bg-primary-100' : 'hover:bg-gray-200')}
+              aria-label="历史会话"
+              title="历史会话"
+            >
+              <History className="w-4 h-4 text-gray-600" />
+            </button>
+          )}
           <button
             onClick={() => setIsMinimized(!isMinimized)}
             className="p-1 hover:bg-gray-200 rounded transition-colors"
@@ -182,9 +459,41 @@ export default function Chatbot() {
       </div>
 
       {!isMinimized && (
-        <>
+        <div className="relative flex-1 flex flex-col min-h-0">
+          {showHistory && (
+            <ChatSessionSidebar
+              sessions={sessions}
+              activeSessionId={activeSessionId}
+              switchDisabled={isLoading}
+              onSelect={handleSelectSession}
+              onNew={handleNewSession}
+              onRename={handleRenameSession}
+              onDelete={handleDeleteSession}
+              onClose={() => setShowHistory(false)}
+            />
+          )}
+
           {/* 消息列表 */}
           <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-gray-50">
+            {activeSession?.summary && (
+              <div className="bg-white border border-dashed border-gray-300 rounded-lg text-sm">
+                <button
+                  onClick={() => setShowSummary(!showSummary)}
+                  className="w-full flex items-center justify-between px-3 py-2 text-gray-600 hover:bg-gray-50 rounded-lg"
+                >
+                  <span className="flex items-center space-x-1">
+                    {showSummary ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                    <span>较早对话摘要</span>
+                  </span>
+                  <span className="text-xs text-gray-400">已压缩 {activeSession.summary.summarizedCount} 条消息</span>
+                </button>
+                {showSummary && (
+                  <div className="px-3 pb-3 text-gray-700">
+                    <MarkdownContent content={activeSession.summary.content} />
+                  </div>
+                )}
+              </div>
+            )}
             {messages.map((message) => (
               <div
                 key={message.id}
@@ -221,7 +530,34 @@ export default function Chatbot() {
                         : 'bg-white text-gray-900 border border-gray-200'
                     )}
                   >
-                    <div className="text-sm whitespace-pre-wrap">{message.content}</div>
+                    {message.toolCalls?.map((call) => (
+                      <ChatToolCallCard
+                        key={call.id}
+                        call={call}
+                        onConfirm={(approved) => handleConfirmToolCall(call.id, approved)}
+                      />
+                    ))}
+                    {message.status === 'streaming' && !message.content ? (
+                      <div className="flex space-x-1 py-1">
+                        <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"></div>
+                        <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
+                        <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
+                      </div>
+                    ) : (
+                      <div className="text-sm text-left">
+                        {message.role === 'assistant' ? (
+                          <MarkdownContent content={message.content} />
+                        ) : (
+                          <div className="whitespace-pre-wrap">{message.content}</div>
+                        )}
+                        {message.status === 'streaming' && (
+                          <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-gray-400 animate-pulse"></span>
+                        )}
+                      </div>
+                    )}
+                    {message.status === 'stopped' && (
+                      <div className="text-xs text-gray-400 mt-1">已停止生成</div>
+                    )}
                     <div
                       className={clsx(
                         'text-xs mt-1',
@@ -234,25 +570,87 @@ export default function Chatbot() {
                 </div>
               </div>
             ))}
-            {isLoading && (
-              <div className="flex items-start space-x-3">
-                <div className="w-8 h-8 rounded-full bg-gray-200 flex items-center justify-center flex-shrink-0">
-                  <Bot className="w-4 h-4 text-gray-700" />
-                </div>
-                <div className="bg-white border border-gray-200 rounded-lg px-4 py-2">
-                  <div className="flex space-x-1">
-                    <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"></div>
-                    <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
-                    <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
-                  </div>
-                </div>
-              </div>
-            )}
             <div ref={messagesEndRef} />
           </div>
 
           {/* 输入区域 */}
           <div className="p-4 border-t border-gray-200 bg-white rounded-b-lg">
+            {contextBlocks.length > 0 && (
+              <div className="mb-2">
+                <button
+                  onClick={() => setShowContextPanel(!showContextPanel)}
+                  className="flex items-center space-x-1 text-xs text-gray-600 hover:text-gray-900"
+                >
+                  <Paperclip className="w-3.5 h-3.5" />
+                  <span>
+                    附带上下文 {attachedBlocks.length}/{contextBlocks.length}（约
+                    {attachedBlocks.reduce((sum, block) => sum + block.tokens, 0)} tokens）
+                  </span>
+                  {showContextPanel ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+                </button>
+                {showContextPanel ? (
+                  <div className="mt-2 max-h-48 overflow-y-auto space-y-2 border border-gray-200 rounded-lg p-2 bg-gray-50">
+                    {contextBlocks.map((block) => (
+                      <div key={block.id}>
+                        <label className="flex items-center space-x-2 text-xs font-medium text-gray-700 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={!excludedBlockIds.has(block.id)}
+                            onChange={() => toggleContextBlock(block.id)}
+                            className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                          />
+                          <span>{block.label}</span>
+                          <span className="text-gray-400 font-normal">~{block.tokens} tokens</span>
+                        </label>
+                        <pre
+                          className={clsx(
+                            'mt-1 ml-5 text-xs whitespace-pre-wrap font-sans',
+                            excludedBlockIds.has(block.id) ? 'text-gray-400 line-through' : 'text-gray-600'
+                          )}
+                        >
+                          {block.content}
+                        </pre>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {contextBlocks.map((block) => (
+                      <button
+                        key={block.id}
+                        onClick={() => toggleContextBlock(block.id)}
+                        className={clsx(
+                          'px-2 py-0.5 rounded-full text-xs border transition-colors',
+                          excludedBlockIds.has(block.id)
+                            ? 'bg-white text-gray-400 border-gray-200 line-through'
+                            : 'bg-primary-50 text-primary-700 border-primary-200'
+                        )}
+                        title={excludedBlockIds.has(block.id) ? '点击附带' : '点击取消附带'}
+                      >
+                        {block.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+            {commandSuggestions.length > 0 && (
+              <div className="mb-2 border border-gray-200 rounded-lg divide-y divide-gray-100 text-xs">
+                {commandSuggestions.map((c) => (
+                  <button
+                    key={c.command}
+                    onClick={() => {
+                      setInputValue(c.command);
+                      inputRef.current?.focus();
+                    }}
+                    className="w-full flex items-center space-x-2 px-3 py-1.5 text-left hover:bg-gray-50"
+                  >
+                    <span className="font-mono text-primary-700">{c.command}</span>
+                    <span className="text-gray-500">{c.description}</span>
+                  </button>
+                ))}
+              </div>
+            )}
             <div className="flex items-end space-x-2">
               <textarea
                 ref={inputRef}
@@ -264,25 +662,36 @@ export default function Chatbot() {
                 className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-none text-sm"
                 disabled={isLoading}
               />
-              <button
-                onClick={handleSend}
-                disabled={!inputValue.trim() || isLoading}
-                className={clsx(
-                  'p-2 rounded-lg transition-colors flex-shrink-0',
-                  inputValue.trim() && !isLoading
-                    ? 'bg-primary-600 text-white hover:bg-primary-700'
-                    : 'bg-gray-200 text-gray-400 cursor-not-allowed'
-                )}
-                aria-label="发送消息"
-              >
-                <Send className="w-5 h-5" />
-              </button>
+              {isLoading ? (
+                <button
+                  onClick={handleStop}
+                  className="p-2 rounded-lg transition-colors flex-shrink-0 bg-red-500 text-white hover:bg-red-600"
+                  aria-label="停止生成"
+                  title="停止生成"
+                >
+                  <Square className="w-5 h-5" />
+                </button>
+              ) : (
+                <button
+                  onClick={handleSend}
+                  disabled={!inputValue.trim()}
+                  className={clsx(
+                    'p-2 rounded-lg transition-colors flex-shrink-0',
+                    inputValue.trim()
+                      ? 'bg-primary-600 text-white hover:bg-primary-700'
+                      : 'bg-gray-200 text-gray-400 cursor-not-allowed'
+                  )}
+                  aria-label="发送消息"
+                >
+                  <Send className="w-5 h-5" />
+                </button>
+              )}
             </div>
             <div className="text-xs text-gray-500 mt-2">
-              提示：可以询问业务问题、请求改进分析报告、获取策略建议
+              提示：可以询问业务问题、请求改进分析报告、获取策略建议；输入 / 查看命令
             </div>
           </div>
-        </>
+        </div>
       )}
     </div>
   );
@@ -1,5 +1,5 @@
 import { Link, useLocation } from 'react-router-dom';
-import { LayoutDashboard, FileText, BarChart3, Settings, Sparkles } from 'lucide-react';
+import { LayoutDashboard, FileText, BarChart3, Settings, Sparkles, Upload, SlidersHorizontal, AlertTriangle } from 'lucide-react';
 import { clsx } from 'clsx';
 import Chatbot from './Chatbot';
 
@@ -14,7 +14,10 @@ export default function Layout({ children }: LayoutProps) {
     { path: '/', label: '首页', icon: LayoutDashboard },
     { path: '/product-analysis', label: '产品表现分析', icon: FileText },
     { path: '/province-analysis', label: '省份表现对比', icon: BarChart3 },
+    { path: '/risk-dashboard', label: '风险看板', icon: AlertTriangle },
     { path: '/strategy-planning', label: '策略制定', icon: Settings },
+    { path: '/data-import', label: '数据导入', icon: Upload },
+    { path: '/settings', label: '系统设置', icon: SlidersHorizontal },
   ];
 
   return (
@@ -0,0 +1,28 @@
+import { renderToStaticMarkup } from 'react-dom/server';
+import { describe, expect, it } from 'vitest';
+import MarkdownContent from './MarkdownContent';
+
+const render = (content: string) => renderToStaticMarkup(<MarkdownContent content={content} />);
+
+describe('MarkdownContent', () => {
+  it('丢弃 javascript: 等不安全协议的链接地址', () => {
+    const html = render('[点我](javascript:alert(1)) [数据](data:text/html,hi) [官网](https://example.com)');
+
+    expect(html).not.toMatch(/javascript:|data:/);
+    expect(html).toContain('href="https://example.com"');
+  });
+
+  it('图片改为链接，不生成 img 元素', () => {
+    const html = render('![明细](https://host/?q=secret)');
+
+    expect(html).not.toContain('<img');
+    expect(html).toContain('<a href="https://host/?q=secret"');
+    expect(html).toContain('>明细</a>');
+  });
+
+  it('不渲染原始HTML', () => {
+    const html = render('<img src="https://host/x.png"><script>alert(1)</script>');
+
+    expect(html).not.toMatch(/<img|<script/);
+  });
+});
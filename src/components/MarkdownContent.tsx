@@ -0,0 +1,80 @@
+import ReactMarkdown, { Components, defaultUrlTransform } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { clsx } from 'clsx';
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+}
+
+// 各元素的样式（项目未引入 typography 插件，需要逐个指定）
+const components: Components = {
+  h1: ({ children }) => <h1 className="text-lg font-bold text-gray-900 mt-4 mb-2 first:mt-0">{children}</h1>,
+  h2: ({ children }) => <h2 className="text-base font-bold text-gray-900 mt-4 mb-2 first:mt-0">{children}</h2>,
+  h3: ({ children }) => <h3 className="font-semibold text-gray-900 mt-3 mb-1 first:mt-0">{children}</h3>,
+  h4: ({ children }) => <h4 className="font-semibold text-gray-900 mt-3 mb-1 first:mt-0">{children}</h4>,
+  p: ({ children }) => <p className="my-2 first:mt-0 last:mb-0 leading-relaxed">{children}</p>,
+  ul: ({ children }) => <ul className="list-disc pl-5 my-2 space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-5 my-2 space-y-1">{children}</ol>,
+  li: ({ children }) => <li className="leading-relaxed">{children}</li>,
+  strong: ({ children }) => <strong className="font-semibold text-gray-900">{children}</strong>,
+  em: ({ children }) => <em className="italic">{children}</em>,
+  blockquote: ({ children }) => (
+    <blockquote className="border-l-4 border-gray-300 pl-3 my-2 text-gray-600">{children}</blockquote>
+  ),
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-primary-600 underline hover:text-primary-700">
+      {children}
+    </a>
+  ),
+  // 图片会被浏览器自动加载，可能把拼进URL的页面数据发送出去，改为需要用户点击的链接
+  img: ({ src, alt }) =>
+    src ? (
+      <a href={src} target="_blank" rel="noopener noreferrer" className="text-primary-600 underline hover:text-primary-700">
+        {alt || src}
+      </a>
+    ) : null,
+  code: ({ className, children }) => {
+    // 带语言标记的是代码块，由 pre 负责容器样式
+    const isBlock = /language-/.test(className || '');
+    return isBlock ? (
+      <code className={className}>{children}</code>
+    ) : (
+      <code className="px-1 py-0.5 rounded bg-gray-100 text-[0.85em] font-mono text-gray-800">{children}</code>
+    );
+  },
+  pre: ({ children }) => (
+    <pre className="my-2 p-3 rounded-lg bg-gray-900 text-gray-100 text-xs font-mono overflow-x-auto">{children}</pre>
+  ),
+  table: ({ children }) => (
+    <div className="my-2 overflow-x-auto">
+      <table className="min-w-full border border-gray-200 text-xs">{children}</table>
+    </div>
+  ),
+  thead: ({ children }) => <thead className="bg-gray-50">{children}</thead>,
+  th: ({ children }) => <th className="border border-gray-200 px-2 py-1 text-left font-semibold">{children}</th>,
+  td: ({ children }) => <td className="border border-gray-200 px-2 py-1 align-top">{children}</td>,
+  hr: () => <hr className="my-3 border-gray-200" />,
+};
+
+// 只允许 http(s)/mailto 链接，其余协议（如 javascript:）一律丢弃
+function safeUrlTransform(url: string): string {
+  const transformed = defaultUrlTransform(url);
+  return /^(https?:|mailto:|#|\/)/i.test(transformed) ? transformed : '';
+}
+
+// 安全的Markdown渲染：不解析原始HTML（skipHtml），不加载图片，支持GFM表格、列表、代码和强调
+export default function MarkdownContent({ content, className }: MarkdownContentProps) {
+  return (
+    <div className={clsx('break-words', className)}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        components={components}
+        skipHtml
+        urlTransform={safeUrlTransform}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -1,10 +1,19 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { Link } from 'react-router-dom';
-import { ProductPerformance, AIAnalysis, RiskAlert } from '../types';
-import { analyzeProductPerformance } from '../services/aiService';
-import { useAnalysis } from '../contexts/AnalysisContext';
+import { ProductPerformance, AIAnalysis } from '../types';
+import { analyzeProductPerformance, getAnalysisCacheKey } from '../services/aiService';
+import { useAnalysis } from '../hooks/useAnalysis';
+import { usePublishPageData } from '../hooks/usePageContext';
+import { useDataRepository, useRepositoryQuery } from '../hooks/useDataRepository';
+import { useSettings } from '../hooks/useSettings';
+import { evaluateProductRisks, RISK_SEVERITY_LABELS } from '../services/riskRules';
+import { PRODUCT_PROVINCE_METRIC_KEYS } from '../services/performanceStore';
+import { PRODUCT_TARGET_METRIC_KEYS, resolveTargets } from '../services/targets';
+import MarkdownContent from './MarkdownContent';
+import ProductProvinceDrilldown from './ProductProvinceDrilldown';
+import ShareChangeWaterfall from './ShareChangeWaterfall';
 import { AlertTriangle, TrendingDown, TrendingUp, Loader2, ChevronDown, ChevronUp, RefreshCw, Target } from 'lucide-react';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 
 interface ProductDiagnosisProps {
   product: ProductPerformance;
@@ -24,17 +33,34 @@ export default function ProductDiagnosis({ product }: ProductDiagnosisProps) {
     clearNeedsRefresh,
   } = useAnalysis();
 
+  const { repository } = useDataRepository();
+  const { settings } = useSettings();
+  const riskAlerts = evaluateProductRisks(product, settings);
+  // 当前产品、周期适用的全国目标值（系统设置中维护，指定产品 > 全部产品）
+  const targets = resolveTargets(
+    settings.targets,
+    { period: product.period, productId: product.productId },
+    PRODUCT_TARGET_METRIC_KEYS
+  );
+
+  // 向AI助手提供当前产品的原始指标
+  usePublishPageData('productPerformance', product);
+
   // 生成缓存键
-  const cacheKey = `product-${product.productId}-${product.period}`;
+  const cacheKey = getAnalysisCacheKey('product', product.productId, product.period);
 
   useEffect(() => {
     loadAnalysis();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [product.productId, product.period]);
 
-  // 监听刷新标记，如果当前分析需要刷新，自动刷新
+  // 监听刷新标记（如AI助手发起的刷新），当前分析需要刷新时自动刷新；
+  // 首次加载或切换对象时由上面的 loadAnalysis 处理刷新标记，这里只响应新的标记
+  const handledRefreshTrigger = useRef(refreshTrigger);
   useEffect(() => {
-    if (needsRefresh.has(cacheKey) && analysis) {
+    if (handledRefreshTrigger.current === refreshTrigger) return;
+    handledRefreshTrigger.current = refreshTrigger;
+    if (needsRefresh.has(cacheKey)) {
       loadAnalysis();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -57,7 +83,16 @@ export default function ProductDiagnosis({ product }: ProductDiagnosisProps) {
     // 需要重新分析
     setLoading(true);
     try {
-      const result = await analyzeProductPerformance(product);
+      // 分省拆解和份额变化归因随数据一并提供给模型，便于定位问题集中的省份和驱动因素
+      const [provinceBreakdowns, shareDecomposition] = await Promise.all([
+        Promise.all(
+          PRODUCT_PROVINCE_METRIC_KEYS.map((metric) =>
+            repository.getProductProvinceBreakdown(product.productId, product.period, metric)
+          )
+        ),
+        repository.getShareChangeDecomposition(product.productId, product.period),
+      ]);
+      const result = await analyzeProductPerformance(product, riskAlerts, provinceBreakdowns, shareDecomposition);
       setAnalysis(result);
       setCurrentAnalysis(result);
       // 保存到缓存
@@ -102,28 +137,17 @@ export default function ProductDiagnosis({ product }: ProductDiagnosisProps) {
   };
 
   const chartData = [
-    {
-      name: '分子式份额',
-      value: product.moleculeShare,
-      change: product.moleculeShareChange,
-    },
-    {
-      name: '分子式内份额',
-      value: product.moleculeInternalShare,
-      change: product.moleculeInternalShareChange,
-    },
-    {
-      name: '竞品份额',
-      value: product.competitorShare,
-      change: product.competitorShareChange,
-    },
-    {
-      name: '解限率',
-      value: product.deLimitRate,
-      change: product.deLimitRateChange,
-    },
+    { name: '分子式份额', value: product.moleculeShare },
+    { name: '分子式内份额', value: product.moleculeInternalShare },
+    { name: '竞品份额', value: product.competitorShare },
+    { name: '解限率', value: product.deLimitRate },
   ];
 
+  // 截至当前周期的历史走势
+  const { data: trendData = [] } = useRepositoryQuery(
+    useCallback((repository) => repository.getProductHistory(product.productId, product.period), [product.productId, product.period])
+  );
+
   return (
     <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
       {/* 产品标题 */}
@@ -176,22 +200,29 @@ export default function ProductDiagnosis({ product }: ProductDiagnosisProps) {
             <MetricCard
               label="分子式份额"
               value={`${product.moleculeShare}%`}
+              target={targets.moleculeShare?.value}
               change={product.moleculeShareChange}
+              yoyChange={product.yoyChanges?.moleculeShare}
             />
             <MetricCard
               label="分子式内份额"
               value={`${product.moleculeInternalShare}%`}
+              target={targets.moleculeInternalShare?.value}
               change={product.moleculeInternalShareChange}
+              yoyChange={product.yoyChanges?.moleculeInternalShare}
             />
             <MetricCard
               label="竞品份额"
               value={`${product.competitorShare}%`}
               change={product.competitorShareChange}
+              yoyChange={product.yoyChanges?.competitorShare}
             />
             <MetricCard
               label="解限率"
               value={`${product.deLimitRate}%`}
+              target={targets.deLimitRate?.value}
               change={product.deLimitRateChange}
+              yoyChange={product.yoyChanges?.deLimitRate}
             />
           </div>
 
@@ -213,93 +244,66 @@ export default function ProductDiagnosis({ product }: ProductDiagnosisProps) {
             <div className="bg-gray-50 rounded-lg p-4">
               <h4 className="text-sm font-semibold text-gray-700 mb-4">变化趋势</h4>
               <ResponsiveContainer width="100%" height={200}>
-                <BarChart data={chartData}>
+                <LineChart data={trendData}>
                   <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis dataKey="name" tick={{ fontSize: 12 }} />
+                  <XAxis dataKey="period" tick={{ fontSize: 12 }} />
                   <YAxis />
                   <Tooltip />
-                  <Bar dataKey="change" fill="#10b981" />
-                </BarChart>
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                  <Line type="monotone" dataKey="moleculeShare" name="分子式份额" stroke="#0ea5e9" />
+                  <Line type="monotone" dataKey="moleculeInternalShare" name="分子式内份额" stroke="#8b5cf6" />
+                  <Line type="monotone" dataKey="competitorShare" name="竞品份额" stroke="#ef4444" />
+                  <Line type="monotone" dataKey="deLimitRate" name="解限率" stroke="#10b981" />
+                </LineChart>
               </ResponsiveContainer>
             </div>
           </div>
 
-          {/* 风险预警 - 基于数据计算，不等待AI */}
-          {(() => {
-            const riskAlerts: RiskAlert[] = [];
-            if (product.moleculeShareChange > 0 && product.moleculeInternalShareChange < -2) {
-              riskAlerts.push({
-                productId: product.productId,
-                productName: product.productName,
-                riskLevel: 'high',
-                riskType: '分子式内份额下降',
-                description: `分子式份额上升${product.moleculeShareChange}%，但分子式内份额下降${Math.abs(product.moleculeInternalShareChange)}%`,
-                indicators: ['分子式内份额', '分子式份额'],
-                changeMagnitude: Math.abs(product.moleculeInternalShareChange),
-              });
-            }
-            if (product.deLimitRateChange < -3) {
-              riskAlerts.push({
-                productId: product.productId,
-                productName: product.productName,
-                riskLevel: 'high',
-                riskType: '解限率下降',
-                description: `解限率下降${Math.abs(product.deLimitRateChange)}%，可能影响市场准入`,
-                indicators: ['解限率'],
-                changeMagnitude: Math.abs(product.deLimitRateChange),
-              });
-            }
-            if (product.competitorShareChange > 2) {
-              riskAlerts.push({
-                productId: product.productId,
-                productName: product.productName,
-                riskLevel: 'medium',
-                riskType: '竞品份额上升',
-                description: `竞品份额上升${product.competitorShareChange}%，竞争加剧`,
-                indicators: ['竞品份额'],
-                changeMagnitude: product.competitorShareChange,
-              });
-            }
-
-            return riskAlerts.length > 0 ? (
+          {/* 风险预警 - 基于风险规则计算，不等待AI */}
+          {riskAlerts.length > 0 && (
+            <div className="space-y-3">
+              <h4 className="text-lg font-semibold text-gray-900 flex items-center">
+                <AlertTriangle className="w-5 h-5 text-red-500 mr-2" />
+                风险预警
+              </h4>
               <div className="space-y-3">
-                <h4 className="text-lg font-semibold text-gray-900 flex items-center">
-                  <AlertTriangle className="w-5 h-5 text-red-500 mr-2" />
-                  风险预警
-                </h4>
-                <div className="space-y-3">
-                  {riskAlerts.map((alert, index) => (
-                    <div
-                      key={index}
-                      className={`border rounded-lg p-4 ${getRiskColor(alert.riskLevel)}`}
-                    >
-                      <div className="flex items-start justify-between">
-                        <div className="flex-1">
-                          <div className="flex items-center mb-2">
-                            <span className="font-semibold mr-2">{alert.riskType}</span>
-                            <span className="text-xs px-2 py-1 rounded-full bg-white/50">
-                              {alert.riskLevel === 'high' ? '高风险' : alert.riskLevel === 'medium' ? '中风险' : '低风险'}
+                {riskAlerts.map((alert, index) => (
+                  <div
+                    key={index}
+                    className={`border rounded-lg p-4 ${getRiskColor(alert.riskLevel)}`}
+                  >
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <div className="flex items-center mb-2">
+                          <span className="font-semibold mr-2">{alert.riskType}</span>
+                          <span className="text-xs px-2 py-1 rounded-full bg-white/50">
+                            {RISK_SEVERITY_LABELS[alert.riskLevel]}
+                          </span>
+                        </div>
+                        <p className="text-sm mb-2">{alert.description}</p>
+                        <div className="flex flex-wrap gap-2">
+                          {alert.indicators.map((indicator, i) => (
+                            <span
+                              key={i}
+                              className="text-xs px-2 py-1 rounded bg-white/50"
+                            >
+                              {indicator}
                             </span>
-                          </div>
-                          <p className="text-sm mb-2">{alert.description}</p>
-                          <div className="flex flex-wrap gap-2">
-                            {alert.indicators.map((indicator, i) => (
-                              <span
-                                key={i}
-                                className="text-xs px-2 py-1 rounded bg-white/50"
-                              >
-                                {indicator}
-                              </span>
-                            ))}
-                          </div>
+                          ))}
                         </div>
                       </div>
                     </div>
-                  ))}
-                </div>
+                  </div>
+                ))}
               </div>
-            ) : null;
-          })()}
+            </div>
+          )}
+
+          {/* 分省拆解 - 定位拖累全国表现的省份 */}
+          <ProductProvinceDrilldown key={product.productId} product={product} />
+
+          {/* 份额变化归因 - 解限、渗透、做广等驱动因素各贡献多少 */}
+          <ShareChangeWaterfall product={product} />
 
           {/* AI关键发现 - 等待AI分析完成 */}
           {loading && (
@@ -341,9 +345,7 @@ export default function ProductDiagnosis({ product }: ProductDiagnosisProps) {
             {/* AI分析结果 */}
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-5">
               <h4 className="text-lg font-semibold text-blue-900 mb-3">AI智能分析</h4>
-              <div className="prose prose-sm max-w-none text-gray-700 whitespace-pre-wrap">
-                {analysis.interpretation}
-              </div>
+              <MarkdownContent content={analysis.interpretation} className="text-sm text-gray-700" />
             </div>
 
             {/* 可能原因 */}
@@ -437,9 +439,24 @@ export default function ProductDiagnosis({ product }: ProductDiagnosisProps) {
 }
 
 // 指标卡片组件
-function MetricCard({ label, value, change }: { label: string; value: string; change: number }) {
+function MetricCard({
+  label,
+  value,
+  target,
+  change,
+  yoyChange,
+}: {
+  label: string;
+  value: string;
+  target?: number; // 未设置目标时不显示差距
+  change: number;
+  yoyChange?: number;
+}) {
   const isPositive = change > 0;
   const isNegative = change < 0;
+  const numericValue = parseFloat(value);
+  const isAboveTarget = target !== undefined && numericValue >= target;
+  const gap = target ? ((numericValue - target) / target) * 100 : 0;
 
   return (
     <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
@@ -453,6 +470,20 @@ function MetricCard({ label, value, change }: { label: string; value: string; ch
         </span>
         <span className="text-gray-500 ml-1">vs 上期</span>
       </div>
+      {yoyChange !== undefined && (
+        <div className="text-xs text-gray-500 mt-1">
+          同比 {yoyChange > 0 ? '+' : ''}{yoyChange.toFixed(1)}%
+        </div>
+      )}
+      {target !== undefined && (
+        <div className="flex items-center text-xs mt-1">
+          <Target className={`w-3 h-3 mr-1 ${isAboveTarget ? 'text-green-600' : 'text-red-600'}`} />
+          <span className={isAboveTarget ? 'text-green-600' : 'text-red-600'}>
+            {gap > 0 ? '+' : ''}{gap.toFixed(1)}%
+          </span>
+          <span className="text-gray-500 ml-1">vs 目标 {target}%</span>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,156 @@
+import { useCallback, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useRepositoryQuery } from '../hooks/useDataRepository';
+import { PRODUCT_PROVINCE_METRIC_KEYS, PRODUCT_PROVINCE_METRIC_LABELS } from '../services/performanceStore';
+import { ProductPerformance, ProductProvinceMetricKey } from '../types';
+import { MapPin } from 'lucide-react';
+import { clsx } from 'clsx';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, ReferenceLine } from 'recharts';
+
+const WEIGHT_LABELS: Record<ProductProvinceMetricKey, string> = {
+  moleculeInternalShare: '市场规模占比',
+  deLimitRate: '目标医院占比',
+};
+
+interface ProductProvinceDrilldownProps {
+  product: ProductPerformance;
+}
+
+// 分省拆解：各省对全国分子式内份额、解限率环比变化的贡献，定位问题集中的区域
+export default function ProductProvinceDrilldown({ product }: ProductProvinceDrilldownProps) {
+  // 默认展示全国降幅更大的指标
+  const [metric, setMetric] = useState<ProductProvinceMetricKey>(
+    product.deLimitRateChange < product.moleculeInternalShareChange ? 'deLimitRate' : 'moleculeInternalShare'
+  );
+  const { data: breakdown, loading } = useRepositoryQuery(
+    useCallback(
+      (repository) => repository.getProductProvinceBreakdown(product.productId, product.period, metric),
+      [product.productId, product.period, metric]
+    )
+  );
+
+  const provinces = breakdown?.provinces ?? [];
+  const draggers = provinces.filter((p) => p.contribution < 0).slice(0, 3);
+  const provinceLink = (provinceId: string) =>
+    `/province-analysis?${new URLSearchParams({ period: product.period, province: provinceId }).toString()}`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-lg font-semibold text-gray-900 flex items-center">
+          <MapPin className="w-5 h-5 text-primary-600 mr-2" />
+          分省拆解
+        </h4>
+        <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+          {PRODUCT_PROVINCE_METRIC_KEYS.map((key) => (
+            <button
+              key={key}
+              onClick={() => setMetric(key)}
+              className={clsx(
+                'px-3 py-1.5 text-sm transition-colors',
+                metric === key ? 'bg-primary-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+              )}
+            >
+              {PRODUCT_PROVINCE_METRIC_LABELS[key]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading && !breakdown ? (
+        <p className="text-sm text-gray-400 py-4 text-center">加载中...</p>
+      ) : provinces.length === 0 ? (
+        <p className="text-sm text-gray-500 py-4 text-center bg-gray-50 rounded-lg">当前数据集没有该产品的分省数据</p>
+      ) : (
+        <div className="bg-gray-50 rounded-lg p-4 space-y-4">
+          <p className="text-sm text-gray-700">
+            各省加权汇总{PRODUCT_PROVINCE_METRIC_LABELS[metric]} {breakdown?.total}%
+            {breakdown?.totalChange !== undefined && (
+              <>
+                ，环比
+                <span className={clsx('font-semibold', breakdown.totalChange < 0 ? 'text-red-600' : 'text-green-600')}>
+                  {breakdown.totalChange > 0 ? '+' : ''}
+                  {breakdown.totalChange}
+                </span>
+                个百分点
+                {breakdown.totalChange < 0 && draggers.length > 0 && (
+                  <>
+                    ，主要拖累：
+                    {draggers.map((p, index) => (
+                      <span key={p.provinceId}>
+                        {index > 0 && '、'}
+                        <span className="font-semibold text-red-600">
+                          {p.provinceName}（{p.contribution}）
+                        </span>
+                      </span>
+                    ))}
+                  </>
+                )}
+              </>
+            )}
+          </p>
+
+          <div>
+            <h5 className="text-sm font-semibold text-gray-700 mb-2">对全国环比变化的贡献（百分点）</h5>
+            <ResponsiveContainer width="100%" height={Math.max(160, provinces.length * 28)}>
+              <BarChart data={provinces} layout="vertical" margin={{ left: 8, right: 24 }}>
+                <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                <XAxis type="number" tick={{ fontSize: 12 }} />
+                <YAxis type="category" dataKey="provinceName" width={48} tick={{ fontSize: 12 }} />
+                <Tooltip formatter={(value: number) => [value, '贡献']} />
+                <ReferenceLine x={0} stroke="#9ca3af" />
+                <Bar dataKey="contribution" name="贡献">
+                  {provinces.map((p) => (
+                    <Cell key={p.provinceId} fill={p.contribution < 0 ? '#ef4444' : '#10b981'} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-2 font-medium">省份</th>
+                  <th className="py-2 pr-2 font-medium text-right">{PRODUCT_PROVINCE_METRIC_LABELS[metric]}</th>
+                  <th className="py-2 pr-2 font-medium text-right">环比</th>
+                  <th className="py-2 pr-2 font-medium text-right">{WEIGHT_LABELS[metric]}</th>
+                  <th className="py-2 font-medium text-right">贡献</th>
+                </tr>
+              </thead>
+              <tbody>
+                {provinces.map((p) => (
+                  <tr key={p.provinceId} className="border-b border-gray-100 last:border-b-0">
+                    <td className="py-1.5 pr-2">
+                      <Link to={provinceLink(p.provinceId)} className="text-gray-900 hover:text-primary-600">
+                        {p.provinceName}
+                      </Link>
+                      <span className="ml-1 text-xs text-gray-400">{p.region}</span>
+                    </td>
+                    <td className="py-1.5 pr-2 text-right">{p.value}%</td>
+                    <td
+                      className={clsx(
+                        'py-1.5 pr-2 text-right',
+                        p.change === undefined ? 'text-gray-400' : p.change < 0 ? 'text-red-600' : 'text-green-600'
+                      )}
+                    >
+                      {p.change === undefined ? '—' : `${p.change > 0 ? '+' : ''}${p.change}`}
+                    </td>
+                    <td className="py-1.5 pr-2 text-right text-gray-600">{p.weight}%</td>
+                    <td
+                      className={clsx('py-1.5 text-right font-semibold', p.contribution < 0 ? 'text-red-600' : 'text-green-600')}
+                    >
+                      {p.contribution > 0 ? '+' : ''}
+                      {p.contribution}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
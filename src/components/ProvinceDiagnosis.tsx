@@ -1,10 +1,16 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { Link } from 'react-router-dom';
 import { ProvincePerformance, AIAnalysis } from '../types';
-import { analyzeProvincePerformance } from '../services/aiService';
-import { useAnalysis } from '../contexts/AnalysisContext';
+import { analyzeProvincePerformance, getAnalysisCacheKey } from '../services/aiService';
+import { useAnalysis } from '../hooks/useAnalysis';
+import { usePublishPageData } from '../hooks/usePageContext';
+import { useRepositoryQuery } from '../hooks/useDataRepository';
+import { useSettings } from '../hooks/useSettings';
+import { getAttainment, resolveTargets, PROVINCE_TARGET_METRIC_KEYS, TARGET_METRIC_LABELS } from '../services/targets';
+import { buildProvinceRiskSubject, evaluateRiskRules, RISK_SEVERITY_LABELS } from '../services/riskRules';
+import MarkdownContent from './MarkdownContent';
 import { Loader2, ChevronDown, ChevronUp, TrendingUp, TrendingDown, RefreshCw, Target } from 'lucide-react';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar } from 'recharts';
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar } from 'recharts';
 
 interface ProvinceDiagnosisProps {
   province: ProvincePerformance;
@@ -24,17 +30,36 @@ export default function ProvinceDiagnosis({ province }: ProvinceDiagnosisProps)
     clearNeedsRefresh,
   } = useAnalysis();
 
+  // 向AI助手提供当前省份的原始指标
+  usePublishPageData('provincePerformance', province);
+
+  // 当前省份、周期适用的目标值（系统设置中维护，省份 > 区域 > 全国）
+  const { settings } = useSettings();
+  const targets = resolveTargets(settings.targets, {
+    period: province.period,
+    provinceId: province.provinceId,
+    region: province.region,
+  });
+  const riskAlerts = evaluateRiskRules(
+    settings.riskRules,
+    buildProvinceRiskSubject(province, { targets, bands: settings.healthScore.bands })
+  );
+
   // 生成缓存键
-  const cacheKey = `province-${province.provinceId}-${province.period}`;
+  const cacheKey = getAnalysisCacheKey('province', province.provinceId, province.period);
 
   useEffect(() => {
     loadAnalysis();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [province.provinceId, province.period]);
 
-  // 监听刷新标记，如果当前分析需要刷新，自动刷新
+  // 监听刷新标记（如AI助手发起的刷新），当前分析需要刷新时自动刷新；
+  // 首次加载或切换对象时由上面的 loadAnalysis 处理刷新标记，这里只响应新的标记
+  const handledRefreshTrigger = useRef(refreshTrigger);
   useEffect(() => {
-    if (needsRefresh.has(cacheKey) && analysis) {
+    if (handledRefreshTrigger.current === refreshTrigger) return;
+    handledRefreshTrigger.current = refreshTrigger;
+    if (needsRefresh.has(cacheKey)) {
       loadAnalysis();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -57,7 +82,7 @@ export default function ProvinceDiagnosis({ province }: ProvinceDiagnosisProps)
     // 需要重新分析
     setLoading(true);
     try {
-      const result = await analyzeProvincePerformance(province);
+      const result = await analyzeProvincePerformance(province, targets, riskAlerts);
       setAnalysis(result);
       setCurrentAnalysis(result);
       // 保存到缓存
@@ -118,61 +143,37 @@ export default function ProvinceDiagnosis({ province }: ProvinceDiagnosisProps)
     }
   };
 
-  const radarData = [
-    {
-      subject: '市场份额',
-      value: province.marketShare * 5, // 归一化到0-100
-      fullMark: 100,
-    },
-    {
-      subject: 'ROI',
-      value: (province.roi / 2) * 100, // 假设2.0为满分
-      fullMark: 100,
-    },
-    {
-      subject: '非立络占比',
-      value: province.nonLiluRatio * 2, // 归一化
-      fullMark: 100,
-    },
-    {
-      subject: '解限率',
-      value: province.deLimitRate,
-      fullMark: 100,
-    },
-    {
-      subject: '渗透率',
-      value: province.penetrationRate,
-      fullMark: 100,
-    },
-  ];
-
-  const barData = [
-    {
-      name: '市场份额',
-      value: province.marketShare,
-      target: 12.0,
-    },
-    {
-      name: 'ROI',
-      value: province.roi,
-      target: 1.8,
-    },
-    {
-      name: '非立络占比',
-      value: province.nonLiluRatio,
-      target: 45.0,
-    },
-    {
-      name: '解限率',
-      value: province.deLimitRate,
-      target: 85.0,
-    },
-    {
-      name: '渗透率',
-      value: province.penetrationRate,
-      target: 80.0,
-    },
-  ];
+  const getHealthBarColor = (level: string) => {
+    switch (level) {
+      case 'excellent':
+        return 'bg-green-500';
+      case 'good':
+        return 'bg-blue-500';
+      case 'average':
+        return 'bg-yellow-500';
+      default:
+        return 'bg-red-500';
+    }
+  };
+
+  // 雷达图按目标达成率归一化，未设置目标的维度记为0
+  const radarData = PROVINCE_TARGET_METRIC_KEYS.map((key) => ({
+    subject: TARGET_METRIC_LABELS[key],
+    value: getAttainment(province[key], targets[key]) ?? 0,
+    target: 100,
+  }));
+  const radarMax = Math.max(100, Math.ceil(Math.max(...radarData.map((d) => d.value)) / 20) * 20);
+
+  const barData = PROVINCE_TARGET_METRIC_KEYS.map((key) => ({
+    name: TARGET_METRIC_LABELS[key],
+    value: province[key],
+    target: targets[key]?.value ?? null,
+  }));
+
+  // 截至当前周期的历史走势
+  const { data: trendData = [] } = useRepositoryQuery(
+    useCallback((repository) => repository.getProvinceHistory(province.provinceId, province.period), [province.provinceId, province.period])
+  );
 
   return (
     <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
@@ -229,39 +230,77 @@ export default function ProvinceDiagnosis({ province }: ProvinceDiagnosisProps)
             <MetricCard
               label="市场份额"
               value={`${province.marketShare}%`}
-              target={12.0}
+              target={targets.marketShare?.value}
+              change={province.changes?.marketShare}
+              yoyChange={province.yoyChanges?.marketShare}
             />
             <MetricCard
               label="ROI"
               value={province.roi.toFixed(2)}
-              target={1.8}
+              target={targets.roi?.value}
+              change={province.changes?.roi}
+              yoyChange={province.yoyChanges?.roi}
             />
             <MetricCard
               label="非立络占比"
               value={`${province.nonLiluRatio}%`}
-              target={45.0}
+              target={targets.nonLiluRatio?.value}
+              change={province.changes?.nonLiluRatio}
+              yoyChange={province.yoyChanges?.nonLiluRatio}
             />
             <MetricCard
               label="解限率"
               value={`${province.deLimitRate}%`}
-              target={85.0}
+              target={targets.deLimitRate?.value}
+              change={province.changes?.deLimitRate}
+              yoyChange={province.yoyChanges?.deLimitRate}
             />
             <MetricCard
               label="渗透率"
               value={`${province.penetrationRate}%`}
-              target={80.0}
+              target={targets.penetrationRate?.value}
+              change={province.changes?.penetrationRate}
+              yoyChange={province.yoyChanges?.penetrationRate}
             />
           </div>
 
+          {/* 健康度评分拆解：各维度得分 × 权重 = 对综合评分的贡献 */}
+          <div className="bg-gray-50 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-4">
+              <h4 className="text-sm font-semibold text-gray-700">健康度评分拆解</h4>
+              <Link to="/settings" className="text-xs text-gray-500 hover:text-primary-600">
+                调整评分规则
+              </Link>
+            </div>
+            <div className="space-y-3">
+              {province.healthDimensions.map((dimension) => (
+                <div key={dimension.key} className="grid grid-cols-12 items-center gap-3 text-sm">
+                  <div className="col-span-2 text-gray-700">{dimension.name}</div>
+                  <div className="col-span-2 text-xs text-gray-500">权重 {(dimension.weight * 100).toFixed(0)}%</div>
+                  <div className="col-span-4 h-2 bg-gray-200 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full rounded-full ${getHealthBarColor(dimension.status)}`}
+                      style={{ width: `${dimension.score}%` }}
+                    />
+                  </div>
+                  <div className="col-span-1 text-right font-semibold text-gray-900">{dimension.score}</div>
+                  <div className="col-span-3 text-xs text-gray-500">
+                    实际 {dimension.value} / 目标 {dimension.target}，贡献 {(dimension.score * dimension.weight).toFixed(1)} 分
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
           {/* 数据可视化 */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div className="bg-gray-50 rounded-lg p-4">
-              <h4 className="text-sm font-semibold text-gray-700 mb-4">雷达图分析</h4>
+              <h4 className="text-sm font-semibold text-gray-700 mb-4">目标达成率（%）</h4>
               <ResponsiveContainer width="100%" height={300}>
                 <RadarChart data={radarData}>
                   <PolarGrid />
                   <PolarAngleAxis dataKey="subject" tick={{ fontSize: 12 }} />
-                  <PolarRadiusAxis angle={90} domain={[0, 100]} />
+                  <PolarRadiusAxis angle={90} domain={[0, radarMax]} />
                   <Radar
                     name="当前值"
                     dataKey="value"
@@ -269,6 +308,9 @@ export default function ProvinceDiagnosis({ province }: ProvinceDiagnosisProps)
                     fill="#0ea5e9"
                     fillOpacity={0.6}
                   />
+                  <Radar name="目标" dataKey="target" stroke="#10b981" strokeDasharray="4 2" fill="none" />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                  <Tooltip />
                 </RadarChart>
               </ResponsiveContainer>
             </div>
@@ -289,54 +331,58 @@ export default function ProvinceDiagnosis({ province }: ProvinceDiagnosisProps)
             </div>
           </div>
 
-          {/* 风险预警 - 基于数据计算，不等待AI */}
-          {(() => {
-            const riskAlerts: any[] = [];
-            if (province.healthScore < 60) {
-              riskAlerts.push({
-                riskLevel: 'high',
-                riskType: '健康度评分偏低',
-                description: `健康度评分${province.healthScore}分，低于平均水平`,
-              });
-            }
-            if (province.deLimitRate < 70) {
-              riskAlerts.push({
-                riskLevel: 'medium',
-                riskType: '解限率偏低',
-                description: `解限率${province.deLimitRate}%，低于目标值`,
-              });
-            }
-
-            return riskAlerts.length > 0 ? (
+          <div className="bg-gray-50 rounded-lg p-4">
+            <h4 className="text-sm font-semibold text-gray-700 mb-4">历史走势</h4>
+            <ResponsiveContainer width="100%" height={260}>
+              <LineChart data={trendData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="period" tick={{ fontSize: 12 }} />
+                <YAxis yAxisId="percent" />
+                <YAxis yAxisId="roi" orientation="right" domain={[0, 'auto']} />
+                <Tooltip />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+                <Line yAxisId="percent" type="monotone" dataKey="healthScore" name="健康度评分" stroke="#0f172a" strokeWidth={2} />
+                <Line yAxisId="percent" type="monotone" dataKey="marketShare" name="市场份额" stroke="#0ea5e9" />
+                <Line yAxisId="percent" type="monotone" dataKey="nonLiluRatio" name="非立络占比" stroke="#8b5cf6" />
+                <Line yAxisId="percent" type="monotone" dataKey="deLimitRate" name="解限率" stroke="#10b981" />
+                <Line yAxisId="percent" type="monotone" dataKey="penetrationRate" name="渗透率" stroke="#f59e0b" />
+                <Line yAxisId="roi" type="monotone" dataKey="roi" name="ROI（右轴）" stroke="#ef4444" strokeDasharray="4 2" />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          {/* 风险预警 - 基于风险规则计算，不等待AI */}
+          {riskAlerts.length > 0 && (
+            <div className="space-y-3">
+              <h4 className="text-lg font-semibold text-gray-900">风险预警</h4>
               <div className="space-y-3">
-                <h4 className="text-lg font-semibold text-gray-900">风险预警</h4>
-                <div className="space-y-3">
-                  {riskAlerts.map((alert, index) => (
-                    <div
-                      key={index}
-                      className={`border rounded-lg p-4 ${
-                        alert.riskLevel === 'high'
-                          ? 'text-red-600 bg-red-50 border-red-200'
-                          : 'text-orange-600 bg-orange-50 border-orange-200'
-                      }`}
-                    >
-                      <div className="flex items-start justify-between">
-                        <div className="flex-1">
-                          <div className="flex items-center mb-2">
-                            <span className="font-semibold mr-2">{alert.riskType}</span>
-                            <span className="text-xs px-2 py-1 rounded-full bg-white/50">
-                              {alert.riskLevel === 'high' ? '高风险' : '中风险'}
-                            </span>
-                          </div>
-                          <p className="text-sm">{alert.description}</p>
+                {riskAlerts.map((alert, index) => (
+                  <div
+                    key={index}
+                    className={`border rounded-lg p-4 ${
+                      alert.riskLevel === 'high'
+                        ? 'text-red-600 bg-red-50 border-red-200'
+                        : alert.riskLevel === 'medium'
+                          ? 'text-orange-600 bg-orange-50 border-orange-200'
+                          : 'text-yellow-600 bg-yellow-50 border-yellow-200'
+                    }`}
+                  >
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <div className="flex items-center mb-2">
+                          <span className="font-semibold mr-2">{alert.riskType}</span>
+                          <span className="text-xs px-2 py-1 rounded-full bg-white/50">
+                            {RISK_SEVERITY_LABELS[alert.riskLevel]}
+                          </span>
                         </div>
+                        <p className="text-sm">{alert.description}</p>
                       </div>
                     </div>
-                  ))}
-                </div>
+                  </div>
+                ))}
               </div>
-            ) : null;
-          })()}
+            </div>
+          )}
 
           {/* AI关键发现 - 等待AI分析完成 */}
           {loading && (
@@ -378,9 +424,7 @@ export default function ProvinceDiagnosis({ province }: ProvinceDiagnosisProps)
             {/* AI分析结果 */}
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-5">
               <h4 className="text-lg font-semibold text-blue-900 mb-3">AI智能分析</h4>
-              <div className="prose prose-sm max-w-none text-gray-700 whitespace-pre-wrap">
-                {analysis.interpretation}
-              </div>
+              <MarkdownContent content={analysis.interpretation} className="text-sm text-gray-700" />
             </div>
 
             {/* 可能原因 */}
@@ -478,30 +522,45 @@ function MetricCard({
   label,
   value,
   target,
+  change,
+  yoyChange,
 }: {
   label: string;
   value: string;
-  target: number;
+  target?: number; // 未设置目标时不显示差距
+  change?: number;
+  yoyChange?: number;
 }) {
+  const formatDelta = (delta: number) => `${delta > 0 ? '+' : ''}${delta}`;
   const numericValue = parseFloat(value);
-  const isAboveTarget = numericValue >= target;
-  const gap = ((numericValue - target) / target) * 100;
+  const isAboveTarget = target !== undefined && numericValue >= target;
+  const gap = target ? ((numericValue - target) / target) * 100 : 0;
 
   return (
     <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
       <div className="text-xs text-gray-500 mb-1">{label}</div>
       <div className="text-2xl font-bold text-gray-900 mb-2">{value}</div>
-      <div className="flex items-center text-sm">
-        {isAboveTarget ? (
-          <TrendingUp className="w-4 h-4 text-green-600 mr-1" />
-        ) : (
-          <TrendingDown className="w-4 h-4 text-red-600 mr-1" />
-        )}
-        <span className={isAboveTarget ? 'text-green-600' : 'text-red-600'}>
-          {gap > 0 ? '+' : ''}{gap.toFixed(1)}%
-        </span>
-        <span className="text-gray-500 ml-1">vs 目标</span>
-      </div>
+      {target === undefined ? (
+        <div className="text-sm text-gray-400">未设置目标</div>
+      ) : (
+        <div className="flex items-center text-sm">
+          {isAboveTarget ? (
+            <TrendingUp className="w-4 h-4 text-green-600 mr-1" />
+          ) : (
+            <TrendingDown className="w-4 h-4 text-red-600 mr-1" />
+          )}
+          <span className={isAboveTarget ? 'text-green-600' : 'text-red-600'}>
+            {gap > 0 ? '+' : ''}{gap.toFixed(1)}%
+          </span>
+          <span className="text-gray-500 ml-1">vs 目标 {target}</span>
+        </div>
+      )}
+      {(change !== undefined || yoyChange !== undefined) && (
+        <div className="text-xs text-gray-500 mt-1 space-x-2">
+          {change !== undefined && <span>环比 {formatDelta(change)}</span>}
+          {yoyChange !== undefined && <span>同比 {formatDelta(yoyChange)}</span>}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,178 @@
+import { useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useRepositoryQuery } from '../hooks/useDataRepository';
+import { SHARE_DRIVER_DESCRIPTIONS } from '../services/shareDecomposition';
+import { ProductPerformance } from '../types';
+import { BarChart3 } from 'lucide-react';
+import { clsx } from 'clsx';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, LabelList } from 'recharts';
+
+interface ShareChangeWaterfallProps {
+  product: ProductPerformance;
+}
+
+interface WaterfallStep {
+  name: string;
+  base: number; // 透明的垫底部分
+  span: number; // 可见部分
+  label: string;
+  color: string;
+}
+
+const formatChange = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+
+// 份额变化归因：把分子式内份额的环比变化拆解到解限、渗透、做广及渠道、区域结构，以瀑布图展示
+export default function ShareChangeWaterfall({ product }: ShareChangeWaterfallProps) {
+  const { data: decomposition, loading } = useRepositoryQuery(
+    useCallback(
+      (repository) => repository.getShareChangeDecomposition(product.productId, product.period),
+      [product.productId, product.period]
+    )
+  );
+
+  const steps: WaterfallStep[] = [];
+  let floor = 0;
+  let ceiling = 0;
+  if (decomposition) {
+    // 纵轴从累计值的最低点下方起，避免驱动因素的柱子被份额绝对值压扁
+    let cumulative = decomposition.startValue;
+    const levels = [cumulative];
+    decomposition.drivers.forEach((driver) => {
+      cumulative += driver.value;
+      levels.push(cumulative);
+    });
+    floor = Math.max(0, Math.floor(Math.min(...levels, decomposition.endValue) - 1));
+    ceiling = Math.ceil(Math.max(...levels, decomposition.endValue) + 0.5);
+
+    steps.push({
+      name: decomposition.previousPeriod,
+      base: floor,
+      span: decomposition.startValue - floor,
+      label: `${decomposition.startValue}%`,
+      color: '#9ca3af',
+    });
+    cumulative = decomposition.startValue;
+    decomposition.drivers.forEach((driver) => {
+      steps.push({
+        name: driver.label,
+        base: Math.min(cumulative, cumulative + driver.value),
+        span: Math.abs(driver.value),
+        label: formatChange(driver.value),
+        color: driver.value < 0 ? '#ef4444' : '#10b981',
+      });
+      cumulative += driver.value;
+    });
+    steps.push({
+      name: decomposition.period,
+      base: floor,
+      span: decomposition.endValue - floor,
+      label: `${decomposition.endValue}%`,
+      color: '#3b82f6',
+    });
+  }
+
+  const provinceLink = (provinceId: string) =>
+    `/province-analysis?${new URLSearchParams({ period: product.period, province: provinceId }).toString()}`;
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-lg font-semibold text-gray-900 flex items-center">
+        <BarChart3 className="w-5 h-5 text-primary-600 mr-2" />
+        份额变化归因
+      </h4>
+
+      {loading && !decomposition ? (
+        <p className="text-sm text-gray-400 py-4 text-center">加载中...</p>
+      ) : !decomposition ? (
+        <p className="text-sm text-gray-500 py-4 text-center bg-gray-50 rounded-lg">
+          当前数据集缺少该产品本期或上期的分省数据，无法归因
+        </p>
+      ) : (
+        <div className="bg-gray-50 rounded-lg p-4 space-y-4">
+          <p className="text-sm text-gray-700">
+            分子式内份额（各省加权汇总）由 {decomposition.startValue}% 变为 {decomposition.endValue}%，环比
+            <span
+              className={clsx(
+                'font-semibold',
+                decomposition.endValue < decomposition.startValue ? 'text-red-600' : 'text-green-600'
+              )}
+            >
+              {formatChange(Math.round((decomposition.endValue - decomposition.startValue) * 100) / 100)}
+            </span>
+            个百分点，按 Y=f(x) 拆解到各驱动因素（百分点）：
+          </p>
+
+          <ResponsiveContainer width="100%" height={280}>
+            <BarChart data={steps} margin={{ top: 20, right: 8, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="name" tick={{ fontSize: 12 }} interval={0} />
+              <YAxis domain={[floor, ceiling]} allowDataOverflow tick={{ fontSize: 12 }} />
+              <Tooltip
+                cursor={{ fill: 'rgba(0, 0, 0, 0.04)' }}
+                content={({ active, payload }) => {
+                  const step = payload?.[0]?.payload as WaterfallStep | undefined;
+                  if (!active || !step) return null;
+                  return (
+                    <div className="bg-white border border-gray-200 rounded px-3 py-2 text-sm shadow">
+                      {step.name}：{step.label}
+                    </div>
+                  );
+                }}
+              />
+              <Bar dataKey="base" stackId="waterfall" fill="transparent" isAnimationActive={false} />
+              <Bar dataKey="span" stackId="waterfall" isAnimationActive={false}>
+                {steps.map((step) => (
+                  <Cell key={step.name} fill={step.color} />
+                ))}
+                <LabelList dataKey="label" position="top" fontSize={12} />
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-2 font-medium">驱动因素</th>
+                  <th className="py-2 pr-2 font-medium text-right">贡献</th>
+                  <th className="py-2 font-medium">主要来源省份</th>
+                </tr>
+              </thead>
+              <tbody>
+                {decomposition.drivers.map((driver) => (
+                  <tr key={driver.key} className="border-b border-gray-100 last:border-b-0">
+                    <td className="py-1.5 pr-2">
+                      <span className="text-gray-900">{driver.label}</span>
+                      <span className="ml-1 text-xs text-gray-400">{SHARE_DRIVER_DESCRIPTIONS[driver.key]}</span>
+                    </td>
+                    <td
+                      className={clsx(
+                        'py-1.5 pr-2 text-right font-semibold',
+                        driver.value < 0 ? 'text-red-600' : driver.value > 0 ? 'text-green-600' : 'text-gray-400'
+                      )}
+                    >
+                      {formatChange(driver.value)}
+                    </td>
+                    <td className="py-1.5 text-gray-600">
+                      {driver.topProvinces.length === 0
+                        ? '—'
+                        : driver.topProvinces.map((p, index) => (
+                            <span key={p.provinceId}>
+                              {index > 0 && '、'}
+                              <Link to={provinceLink(p.provinceId)} className="hover:text-primary-600">
+                                {p.provinceName}
+                              </Link>
+                              （{formatChange(p.value)}）
+                            </span>
+                          ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { ImportTarget } from '../../types/dataset';
+import { ColumnMapping, getUnmappedRequiredFields, IMPORT_TARGETS, ParsedSheet } from '../../services/dataImport';
+import { AlertCircle } from 'lucide-react';
+
+interface ColumnMappingStepProps {
+  target: ImportTarget;
+  sheet: ParsedSheet;
+  mapping: ColumnMapping;
+  onMappingChange: (mapping: ColumnMapping) => void;
+}
+
+export default function ColumnMappingStep({ target, sheet, mapping, onMappingChange }: ColumnMappingStepProps) {
+  const unmappedRequired = getUnmappedRequiredFields(target, mapping);
+  const sampleRow = sheet.rows[0]?.cells ?? [];
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        已按表头自动匹配字段，请核对每个字段对应的文件列。文件共 {sheet.headers.length} 列、{sheet.rows.length} 行数据。
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="py-2 pr-4 font-medium">字段</th>
+              <th className="py-2 pr-4 font-medium">校验规则</th>
+              <th className="py-2 pr-4 font-medium">文件列</th>
+              <th className="py-2 font-medium">首行示例</th>
+            </tr>
+          </thead>
+          <tbody>
+            {IMPORT_TARGETS[target].fields.map((field) => {
+              const column = mapping[field.key];
+              const rules = [
+                field.required ? '必填' : '可选',
+                field.type === 'period' ? '格式 2024-Q1' : '',
+                field.type === 'number' && field.min !== undefined && field.max !== undefined
+                  ? `${field.min}–${field.max}`
+                  : field.type === 'number' && field.min !== undefined
+                    ? `≥ ${field.min}`
+                    : '',
+              ].filter(Boolean);
+              return (
+                <tr key={field.key} className="border-b border-gray-100">
+                  <td className="py-2 pr-4">
+                    <span className="font-medium text-gray-900">{field.label}</span>
+                    {field.required && <span className="text-red-500 ml-0.5">*</span>}
+                    <span className="block text-xs text-gray-400">{field.key}</span>
+                  </td>
+                  <td className="py-2 pr-4 text-xs text-gray-500">{rules.join('，')}</td>
+                  <td className="py-2 pr-4">
+                    <select
+                      value={column ?? ''}
+                      onChange={(e) =>
+                        onMappingChange({ ...mapping, [field.key]: e.target.value === '' ? null : Number(e.target.value) })
+                      }
+                      className="w-full px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent text-sm"
+                    >
+                      <option value="">不导入</option>
+                      {sheet.headers.map((header, index) => (
+                        <option key={index} value={index}>
+                          {header || `第${index + 1}列`}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-2 text-gray-600">{column != null ? sampleRow[column] || '—' : '—'}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {unmappedRequired.length > 0 && (
+        <div className="flex items-start space-x-2 p-3 bg-orange-50 border border-orange-200 rounded-lg text-sm text-orange-700">
+          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>以下必填字段尚未映射：{unmappedRequired.map((f) => f.label).join('、')}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { Dataset } from '../../types/dataset';
+import { IMPORT_TARGETS } from '../../services/dataImport';
+import { Database } from 'lucide-react';
+import { clsx } from 'clsx';
+
+interface DatasetVersionListProps {
+  datasets: Dataset[];
+  activeId: string;
+  onActivate?: (id: string) => void; // 未提供时不可切换版本
+}
+
+// 数据集版本历史，可切换回任一版本
+export default function DatasetVersionList({ datasets, activeId, onActivate }: DatasetVersionListProps) {
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+      <div className="flex items-center space-x-2 mb-4">
+        <Database className="w-5 h-5 text-primary-600" />
+        <h2 className="text-lg font-bold text-gray-900">数据集版本</h2>
+      </div>
+      <div className="space-y-2 max-h-[calc(100vh-240px)] overflow-y-auto">
+        {datasets.map((dataset) => {
+          const isActive = dataset.id === activeId;
+          return (
+            <div
+              key={dataset.id}
+              className={clsx(
+                'p-3 rounded-lg border',
+                isActive ? 'bg-primary-50 border-primary-500' : 'bg-gray-50 border-gray-200'
+              )}
+            >
+              <div className="flex items-center justify-between mb-1">
+                <span className="font-semibold text-sm text-gray-900">v{dataset.version}</span>
+                {isActive ? (
+                  <span className="text-xs px-2 py-0.5 rounded bg-primary-600 text-white">使用中</span>
+                ) : (
+                  onActivate && (
+                    <button
+                      onClick={() => onActivate(dataset.id)}
+                      className="text-xs px-2 py-0.5 rounded text-primary-700 hover:bg-primary-100 transition-colors"
+                    >
+                      启用
+                    </button>
+                  )
+                )}
+              </div>
+              <div className="text-sm text-gray-700">{dataset.note}</div>
+              {dataset.importLog && (
+                <div className="text-xs text-gray-500 mt-1">
+                  {IMPORT_TARGETS[dataset.importLog.target].label} · {dataset.importLog.mode === 'merge' ? '合并' : '整表替换'} ·{' '}
+                  {dataset.importLog.rowCount} 行
+                  {dataset.importLog.skippedCount > 0 && `（跳过 ${dataset.importLog.skippedCount} 行）`}
+                  <div className="truncate" title={dataset.importLog.fileName}>
+                    {dataset.importLog.fileName}
+                  </div>
+                </div>
+              )}
+              <div className="text-xs text-gray-400 mt-1">{dataset.createdAt.toLocaleString('zh-CN')}</div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useRef } from 'react';
+import { ImportMode, ImportTarget } from '../../types/dataset';
+import { IMPORT_TARGETS, SUPPORTED_FILE_EXTENSIONS } from '../../services/dataImport';
+import { Download, Loader2, Upload } from 'lucide-react';
+import { clsx } from 'clsx';
+
+interface ImportUploadStepProps {
+  target: ImportTarget;
+  mode: ImportMode;
+  parsing: boolean;
+  disabled?: boolean; // 当前数据源不读取导入的数据集时禁止上传
+  error: string | null;
+  onTargetChange: (target: ImportTarget) => void;
+  onModeChange: (mode: ImportMode) => void;
+  onFileSelected: (file: File) => void;
+}
+
+const MODE_OPTIONS: { id: ImportMode; label: string; description: string }[] = [
+  { id: 'merge', label: '合并', description: '按ID+周期覆盖已有数据，其余数据保留' },
+  { id: 'replace', label: '整表替换', description: '用文件内容替换该数据表的全部数据' },
+];
+
+// 按字段中文名生成CSV模板
+function downloadTemplate(target: ImportTarget) {
+  const spec = IMPORT_TARGETS[target];
+  const header = spec.fields.map((field) => field.label).join(',');
+  const blob = new Blob([`\uFEFF${header}\n`], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${spec.label}导入模板.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function ImportUploadStep({
+  target,
+  mode,
+  parsing,
+  disabled = false,
+  error,
+  onTargetChange,
+  onModeChange,
+  onFileSelected,
+}: ImportUploadStepProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 mb-3">选择导入的数据表</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-3">
+          {(Object.keys(IMPORT_TARGETS) as ImportTarget[]).map((id) => (
+            <button
+              key={id}
+              onClick={() => onTargetChange(id)}
+              className={clsx(
+                'text-left p-4 rounded-lg border transition-all',
+                target === id
+                  ? 'bg-primary-50 border-primary-500 text-primary-900'
+                  : 'bg-gray-50 border-gray-200 hover:bg-gray-100'
+              )}
+            >
+              <div className="font-semibold text-sm">{IMPORT_TARGETS[id].label}</div>
+              <div className="text-xs text-gray-500 mt-1">{IMPORT_TARGETS[id].description}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 mb-3">导入方式</h3>
+        <div className="flex flex-wrap gap-4">
+          {MODE_OPTIONS.map((option) => (
+            <label key={option.id} className="flex items-start space-x-2 text-sm cursor-pointer">
+              <input
+                type="radio"
+                name="import-mode"
+                checked={mode === option.id}
+                onChange={() => onModeChange(option.id)}
+                className="mt-1"
+              />
+              <span>
+                <span className="font-medium text-gray-900">{option.label}</span>
+                <span className="block text-xs text-gray-500">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center">
+        <Upload className="w-10 h-10 text-gray-400 mx-auto mb-3" />
+        <p className="text-sm text-gray-600 mb-4">支持 CSV、XLSX 文件，第一行为表头（Excel 读取第一个工作表）</p>
+        <div className="flex items-center justify-center space-x-3">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={parsing || disabled}
+            className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {parsing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            <span>{parsing ? '解析中...' : '选择文件'}</span>
+          </button>
+          <button
+            onClick={() => downloadTemplate(target)}
+            className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+          >
+            <Download className="w-4 h-4" />
+            <span>下载模板</span>
+          </button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={SUPPORTED_FILE_EXTENSIONS.join(',')}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onFileSelected(file);
+            e.target.value = '';
+          }}
+        />
+        {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { ImportTarget } from '../../types/dataset';
+import { ColumnMapping, IMPORT_TARGETS, ImportValidationResult, ParsedSheet } from '../../services/dataImport';
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { clsx } from 'clsx';
+
+interface ValidationPreviewProps {
+  target: ImportTarget;
+  sheet: ParsedSheet;
+  mapping: ColumnMapping;
+  result: ImportValidationResult;
+}
+
+const PREVIEW_ROW_LIMIT = 20;
+const ERROR_LIST_LIMIT = 50;
+
+export default function ValidationPreview({ target, sheet, mapping, result }: ValidationPreviewProps) {
+  const mappedFields = IMPORT_TARGETS[target].fields.filter((field) => mapping[field.key] != null);
+  const errorRows = new Set(result.errors.map((e) => e.row));
+  const validRowCount = result.totalRowCount - result.invalidRowCount;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-4">
+        <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+          <div className="text-xs text-gray-500 mb-1">数据行</div>
+          <div className="text-2xl font-bold text-gray-900">{result.totalRowCount}</div>
+        </div>
+        <div className="bg-green-50 rounded-lg p-4 border border-green-200">
+          <div className="text-xs text-green-700 mb-1">校验通过</div>
+          <div className="text-2xl font-bold text-green-700">{validRowCount}</div>
+        </div>
+        <div
+          className={clsx(
+            'rounded-lg p-4 border',
+            result.invalidRowCount > 0 ? 'bg-red-50 border-red-200' : 'bg-gray-50 border-gray-200'
+          )}
+        >
+          <div className={clsx('text-xs mb-1', result.invalidRowCount > 0 ? 'text-red-700' : 'text-gray-500')}>
+            存在错误（将跳过）
+          </div>
+          <div className={clsx('text-2xl font-bold', result.invalidRowCount > 0 ? 'text-red-700' : 'text-gray-900')}>
+            {result.invalidRowCount}
+          </div>
+        </div>
+      </div>
+
+      {result.errors.length > 0 ? (
+        <div className="border border-red-200 rounded-lg">
+          <div className="flex items-center space-x-2 px-4 py-2 bg-red-50 text-sm font-medium text-red-700 rounded-t-lg">
+            <AlertTriangle className="w-4 h-4" />
+            <span>错误明细（共 {result.errors.length} 处）</span>
+          </div>
+          <ul className="max-h-48 overflow-y-auto divide-y divide-red-100 text-sm">
+            {result.errors.slice(0, ERROR_LIST_LIMIT).map((error, index) => (
+              <li key={index} className="px-4 py-1.5 text-gray-700">
+                <span className="text-gray-500">第{error.row}行</span> · <span className="font-medium">{error.field}</span>：
+                {error.message}
+              </li>
+            ))}
+            {result.errors.length > ERROR_LIST_LIMIT && (
+              <li className="px-4 py-1.5 text-gray-500">仅显示前 {ERROR_LIST_LIMIT} 处错误</li>
+            )}
+          </ul>
+        </div>
+      ) : (
+        <div className="flex items-center space-x-2 p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">
+          <CheckCircle2 className="w-4 h-4" />
+          <span>所有数据行均通过校验</span>
+        </div>
+      )}
+
+      <div>
+        <h4 className="text-sm font-semibold text-gray-700 mb-2">
+          数据预览{sheet.rows.length > PREVIEW_ROW_LIMIT ? `（前 ${PREVIEW_ROW_LIMIT} 行）` : ''}
+        </h4>
+        <div className="overflow-x-auto border border-gray-200 rounded-lg">
+          <table className="w-full text-xs">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-gray-500">
+                <th className="px-3 py-2 font-medium">行号</th>
+                {mappedFields.map((field) => (
+                  <th key={field.key} className="px-3 py-2 font-medium whitespace-nowrap">
+                    {field.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sheet.rows.slice(0, PREVIEW_ROW_LIMIT).map((row) => (
+                <tr
+                  key={row.rowNumber}
+                  className={clsx('border-t border-gray-100', errorRows.has(row.rowNumber) && 'bg-red-50 text-red-700')}
+                >
+                  <td className="px-3 py-1.5 text-gray-400">{row.rowNumber}</td>
+                  {mappedFields.map((field) => (
+                    <td key={field.key} className="px-3 py-1.5 whitespace-nowrap">
+                      {row.cells[mapping[field.key]!] ?? ''}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
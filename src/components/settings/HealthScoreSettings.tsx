@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react';
+import { useSettings } from '../../hooks/useSettings';
+import {
+  HEALTH_LEVEL_LABELS,
+  HEALTH_SCORE_DIMENSION_KEYS,
+  HEALTH_SCORE_DIMENSION_LABELS,
+  HealthScoreBands,
+  HealthScoreConfig,
+  HealthScoreDimensionConfig,
+  validateHealthScoreConfig,
+} from '../../services/healthScore';
+import { resolveHealthScoreTargets } from '../../services/targets';
+import { ProvinceBaseMetricKey } from '../../types';
+import { AlertCircle, CheckCircle2, RotateCcw, Save } from 'lucide-react';
+
+const BAND_KEYS: (keyof HealthScoreBands)[] = ['excellent', 'good', 'average'];
+
+const inputClass =
+  'w-24 px-2 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent text-sm text-right';
+
+// 空输入保留为 NaN，由校验提示
+const displayNumber = (value: number) => (Number.isNaN(value) ? '' : value);
+
+// 健康度评分规则：各维度权重、基准值及评级区间，满分线取自指标目标值；保存后省份排名和诊断即按新规则重新计算
+export default function HealthScoreSettings() {
+  const { settings, updateHealthScoreConfig, resetHealthScoreConfig } = useSettings();
+  const [draft, setDraft] = useState<HealthScoreConfig>(settings.healthScore);
+  const [saved, setSaved] = useState(false);
+
+  // 恢复默认或在其他页面修改后同步草稿
+  useEffect(() => {
+    setDraft(settings.healthScore);
+  }, [settings.healthScore]);
+
+  // 全国目标值（不限周期），省份、区域或指定周期的目标在评分时优先
+  const nationalTargets = resolveHealthScoreTargets(settings.targets, { period: '' });
+  const validationError = validateHealthScoreConfig(draft, nationalTargets);
+  const dirty = JSON.stringify(draft) !== JSON.stringify(settings.healthScore);
+  const totalWeight = HEALTH_SCORE_DIMENSION_KEYS.reduce((sum, key) => sum + (draft.dimensions[key].weight || 0), 0);
+
+  const updateDimension = (key: ProvinceBaseMetricKey, field: keyof HealthScoreDimensionConfig, value: number) => {
+    setSaved(false);
+    setDraft((prev) => ({
+      ...prev,
+      dimensions: { ...prev.dimensions, [key]: { ...prev.dimensions[key], [field]: value } },
+    }));
+  };
+
+  const updateBand = (key: keyof HealthScoreBands, value: number) => {
+    setSaved(false);
+    setDraft((prev) => ({ ...prev, bands: { ...prev.bands, [key]: value } }));
+  };
+
+  const handleSave = () => {
+    if (validationError) return;
+    updateHealthScoreConfig(draft);
+    setSaved(true);
+  };
+
+  const handleReset = () => {
+    resetHealthScoreConfig();
+    setSaved(false);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">省份健康度评分</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            各维度按“基准值得0分、目标值得满分”线性计分，再按权重加权得到综合评分（0-100）；目标值在“指标目标值”中配置
+          </p>
+        </div>
+        <button
+          onClick={handleReset}
+          className="flex items-center space-x-1 px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+        >
+          <RotateCcw className="w-4 h-4" />
+          <span>恢复默认</span>
+        </button>
+      </div>
+
+      <table className="w-full text-sm mb-6">
+        <thead>
+          <tr className="text-left text-gray-500 border-b border-gray-200">
+            <th className="py-2 font-medium">维度</th>
+            <th className="py-2 font-medium text-right">权重</th>
+            <th className="py-2 font-medium text-right">占比</th>
+            <th className="py-2 font-medium text-right">基准值（0分）</th>
+            <th className="py-2 font-medium text-right">全国目标值（满分）</th>
+          </tr>
+        </thead>
+        <tbody>
+          {HEALTH_SCORE_DIMENSION_KEYS.map((key) => {
+            const dimension = draft.dimensions[key];
+            return (
+              <tr key={key} className="border-b border-gray-100 last:border-b-0">
+                <td className="py-2 text-gray-900">{HEALTH_SCORE_DIMENSION_LABELS[key]}</td>
+                <td className="py-2 text-right">
+                  <input
+                    type="number"
+                    min={0}
+                    value={displayNumber(dimension.weight)}
+                    onChange={(e) => updateDimension(key, 'weight', e.target.valueAsNumber)}
+                    className={inputClass}
+                  />
+                </td>
+                <td className="py-2 text-right text-gray-500">
+                  {totalWeight > 0 ? `${(((dimension.weight || 0) / totalWeight) * 100).toFixed(1)}%` : '-'}
+                </td>
+                <td className="py-2 text-right">
+                  <input
+                    type="number"
+                    step="any"
+                    value={displayNumber(dimension.floor)}
+                    onChange={(e) => updateDimension(key, 'floor', e.target.valueAsNumber)}
+                    className={inputClass}
+                  />
+                </td>
+                <td className="py-2 text-right text-gray-700">{nationalTargets[key]}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <div className="mb-6">
+        <h3 className="text-sm font-semibold text-gray-700 mb-2">评级区间（综合评分及各维度得分通用）</h3>
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          {BAND_KEYS.map((key) => (
+            <label key={key} className="flex items-center space-x-2">
+              <span className="text-gray-600">{HEALTH_LEVEL_LABELS[key]} ≥</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={displayNumber(draft.bands[key])}
+                onChange={(e) => updateBand(key, e.target.valueAsNumber)}
+                className={inputClass}
+              />
+            </label>
+          ))}
+          <span className="text-gray-500">低于“{HEALTH_LEVEL_LABELS.average}”为{HEALTH_LEVEL_LABELS.poor}</span>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between pt-4 border-t border-gray-200">
+        <div className="text-sm">
+          {validationError ? (
+            <span className="flex items-center text-red-600">
+              <AlertCircle className="w-4 h-4 mr-1" />
+              {validationError}
+            </span>
+          ) : saved && !dirty ? (
+            <span className="flex items-center text-green-600">
+              <CheckCircle2 className="w-4 h-4 mr-1" />
+              已保存，省份评分已按新规则重新计算
+            </span>
+          ) : null}
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={!dirty || validationError !== null}
+          className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Save className="w-4 h-4" />
+          <span>保存</span>
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,412 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useSettings } from '../../hooks/useSettings';
+import { useRepositoryQuery } from '../../hooks/useDataRepository';
+import {
+  evaluateProductRisks,
+  evaluateProvinceRisks,
+  RISK_COMPARATORS,
+  RISK_ENTITY_LABELS,
+  RISK_SEVERITY_LABELS,
+  RISK_VARIABLES,
+  RiskComparator,
+  RiskEntityType,
+  RiskRule,
+  RiskSeverity,
+  validateRiskRule,
+  validateRiskRules,
+} from '../../services/riskRules';
+import { AlertCircle, CheckCircle2, ChevronDown, ChevronUp, Loader2, Plus, RotateCcw, Save, Trash2 } from 'lucide-react';
+import { clsx } from 'clsx';
+
+const SEVERITIES: RiskSeverity[] = ['high', 'medium', 'low'];
+
+const SEVERITY_COLORS: Record<RiskSeverity, string> = {
+  high: 'text-red-600 bg-red-50 border-red-200',
+  medium: 'text-orange-600 bg-orange-50 border-orange-200',
+  low: 'text-yellow-600 bg-yellow-50 border-yellow-200',
+};
+
+const fieldClass =
+  'px-2 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent text-sm';
+
+const createRule = (entityType: RiskEntityType): RiskRule => {
+  const metric = RISK_VARIABLES[entityType][0].name;
+  return {
+    id: `rule-${Date.now()}`,
+    name: '新规则',
+    entityType,
+    enabled: true,
+    severity: 'medium',
+    conditions: [{ expression: `${metric}Change`, operator: '<', threshold: 0 }],
+    message: `环比变化{{${metric}Change}}`,
+    indicators: [],
+    magnitude: `abs(${metric}Change)`,
+  };
+};
+
+// 规则在某一历史周期的命中情况
+interface RuleTestResult {
+  period: string;
+  entityNames: string[];
+}
+
+// 风险预警规则：诊断页、AI分析和风险看板共用；可用历史各周期数据测试规则的命中情况
+export default function RiskRuleSettings() {
+  const { settings, updateRiskRules, resetRiskRules } = useSettings();
+  const [draft, setDraft] = useState<RiskRule[]>(settings.riskRules);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  // 历史各周期的产品/省份表现，用于规则测试
+  const { data: history = [], loading: historyLoading } = useRepositoryQuery(
+    useCallback(async (repository) => {
+      const periods = await repository.listPeriods();
+      return Promise.all(
+        periods.map(async (period) => ({
+          period,
+          products: await repository.getProductPerformance(period),
+          provinces: await repository.getProvincePerformance(period),
+        }))
+      );
+    }, [])
+  );
+
+  useEffect(() => {
+    setDraft(settings.riskRules);
+  }, [settings.riskRules]);
+
+  const validationError = validateRiskRules(draft);
+  const dirty = JSON.stringify(draft) !== JSON.stringify(settings.riskRules);
+  const expandedRule = draft.find((rule) => rule.id === expandedId);
+
+  const testResults = useMemo((): RuleTestResult[] | null => {
+    if (!expandedRule || validateRiskRule(expandedRule)) return null;
+    // 只测试当前规则（即使已停用），目标值和评级区间使用已保存的设置
+    const testSettings = { ...settings, riskRules: [{ ...expandedRule, enabled: true }] };
+    return [...history].reverse().map(({ period, products, provinces }) => ({
+      period,
+      entityNames:
+        expandedRule.entityType === 'product'
+          ? products.filter((p) => evaluateProductRisks(p, testSettings).length > 0).map((p) => p.productName)
+          : provinces.filter((p) => evaluateProvinceRisks(p, testSettings).length > 0).map((p) => p.provinceName),
+    }));
+  }, [expandedRule, history, settings]);
+
+  const updateRule = (id: string, patch: Partial<RiskRule>) => {
+    setSaved(false);
+    setDraft((prev) => prev.map((rule) => (rule.id === id ? { ...rule, ...patch } : rule)));
+  };
+
+  const updateCondition = (rule: RiskRule, index: number, patch: Partial<RiskRule['conditions'][number]>) => {
+    updateRule(rule.id, {
+      conditions: rule.conditions.map((condition, i) => (i === index ? { ...condition, ...patch } : condition)),
+    });
+  };
+
+  const addRule = (entityType: RiskEntityType) => {
+    const rule = createRule(entityType);
+    setSaved(false);
+    setDraft((prev) => [...prev, rule]);
+    setExpandedId(rule.id);
+  };
+
+  const removeRule = (id: string) => {
+    setSaved(false);
+    setDraft((prev) => prev.filter((rule) => rule.id !== id));
+  };
+
+  const handleSave = () => {
+    if (validationError) return;
+    updateRiskRules(draft);
+    setSaved(true);
+  };
+
+  const handleReset = () => {
+    resetRiskRules();
+    setSaved(false);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">风险预警规则</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            规则的所有条件同时满足时生成预警；诊断页的风险预警、AI分析和风险看板均按这里的规则计算
+          </p>
+        </div>
+        <button
+          onClick={handleReset}
+          className="flex items-center space-x-1 px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+        >
+          <RotateCcw className="w-4 h-4" />
+          <span>恢复默认</span>
+        </button>
+      </div>
+
+      <div className="space-y-2 mb-4">
+        {draft.map((rule) => {
+          const expanded = rule.id === expandedId;
+          const ruleError = validateRiskRule(rule);
+          return (
+            <div key={rule.id} className="border border-gray-200 rounded-lg">
+              <div className="flex items-center px-4 py-3 space-x-3">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                  className="w-4 h-4 text-primary-600 rounded"
+                  title={rule.enabled ? '停用规则' : '启用规则'}
+                />
+                <button
+                  onClick={() => setExpandedId(expanded ? null : rule.id)}
+                  className="flex-1 flex items-center space-x-2 text-left"
+                >
+                  <span className={clsx('font-medium', rule.enabled ? 'text-gray-900' : 'text-gray-400')}>
+                    {rule.name || '未命名规则'}
+                  </span>
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">
+                    {RISK_ENTITY_LABELS[rule.entityType]}
+                  </span>
+                  <span className={clsx('text-xs px-2 py-0.5 rounded-full border', SEVERITY_COLORS[rule.severity])}>
+                    {RISK_SEVERITY_LABELS[rule.severity]}
+                  </span>
+                  {ruleError && <AlertCircle className="w-4 h-4 text-red-500" />}
+                </button>
+                <button
+                  onClick={() => removeRule(rule.id)}
+                  className="p-1 text-gray-400 hover:text-red-600"
+                  title="删除规则"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+                <button onClick={() => setExpandedId(expanded ? null : rule.id)} className="p-1 text-gray-400">
+                  {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                </button>
+              </div>
+
+              {expanded && (
+                <div className="px-4 pb-4 border-t border-gray-100 pt-4 space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <label className="text-sm">
+                      <span className="block text-gray-600 mb-1">规则名称（风险类型）</span>
+                      <input
+                        value={rule.name}
+                        onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                        className={clsx(fieldClass, 'w-full')}
+                      />
+                    </label>
+                    <label className="text-sm">
+                      <span className="block text-gray-600 mb-1">评估对象</span>
+                      <select
+                        value={rule.entityType}
+                        onChange={(e) => updateRule(rule.id, { entityType: e.target.value as RiskEntityType })}
+                        className={clsx(fieldClass, 'w-full')}
+                      >
+                        {(Object.keys(RISK_ENTITY_LABELS) as RiskEntityType[]).map((type) => (
+                          <option key={type} value={type}>
+                            {RISK_ENTITY_LABELS[type]}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="text-sm">
+                      <span className="block text-gray-600 mb-1">风险等级</span>
+                      <select
+                        value={rule.severity}
+                        onChange={(e) => updateRule(rule.id, { severity: e.target.value as RiskSeverity })}
+                        className={clsx(fieldClass, 'w-full')}
+                      >
+                        {SEVERITIES.map((severity) => (
+                          <option key={severity} value={severity}>
+                            {RISK_SEVERITY_LABELS[severity]}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  </div>
+
+                  <div>
+                    <span className="block text-sm text-gray-600 mb-1">条件（全部满足时触发）</span>
+                    <div className="space-y-2">
+                      {rule.conditions.map((condition, index) => (
+                        <div key={index} className="flex items-center space-x-2">
+                          <input
+                            value={condition.expression}
+                            onChange={(e) => updateCondition(rule, index, { expression: e.target.value })}
+                            placeholder="表达式，如 deLimitRateChange"
+                            className={clsx(fieldClass, 'flex-1 font-mono')}
+                          />
+                          <select
+                            value={condition.operator}
+                            onChange={(e) => updateCondition(rule, index, { operator: e.target.value as RiskComparator })}
+                            className={fieldClass}
+                          >
+                            {RISK_COMPARATORS.map((operator) => (
+                              <option key={operator} value={operator}>
+                                {operator}
+                              </option>
+                            ))}
+                          </select>
+                          <input
+                            type="number"
+                            step="any"
+                            value={Number.isNaN(condition.threshold) ? '' : condition.threshold}
+                            onChange={(e) => updateCondition(rule, index, { threshold: e.target.valueAsNumber })}
+                            className={clsx(fieldClass, 'w-24 text-right')}
+                          />
+                          <button
+                            onClick={() =>
+                              updateRule(rule.id, { conditions: rule.conditions.filter((_, i) => i !== index) })
+                            }
+                            className="p-1 text-gray-400 hover:text-red-600"
+                            title="删除条件"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                    <button
+                      onClick={() =>
+                        updateRule(rule.id, {
+                          conditions: [...rule.conditions, { expression: '', operator: '<', threshold: 0 }],
+                        })
+                      }
+                      className="mt-2 flex items-center space-x-1 text-sm text-primary-700 hover:text-primary-800"
+                    >
+                      <Plus className="w-4 h-4" />
+                      <span>添加条件</span>
+                    </button>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <label className="text-sm md:col-span-3">
+                      <span className="block text-gray-600 mb-1">描述模板（{'{{表达式}}'} 替换为计算结果）</span>
+                      <input
+                        value={rule.message}
+                        onChange={(e) => updateRule(rule.id, { message: e.target.value })}
+                        className={clsx(fieldClass, 'w-full')}
+                      />
+                    </label>
+                    <label className="text-sm md:col-span-2">
+                      <span className="block text-gray-600 mb-1">相关指标（逗号分隔）</span>
+                      <input
+                        value={rule.indicators.join('，')}
+                        onChange={(e) =>
+                          updateRule(rule.id, {
+                            indicators: e.target.value
+                              .split(/[,，]/)
+                              .map((s) => s.trim())
+                              .filter(Boolean),
+                          })
+                        }
+                        className={clsx(fieldClass, 'w-full')}
+                      />
+                    </label>
+                    <label className="text-sm">
+                      <span className="block text-gray-600 mb-1">变化幅度表达式</span>
+                      <input
+                        value={rule.magnitude}
+                        onChange={(e) => updateRule(rule.id, { magnitude: e.target.value })}
+                        className={clsx(fieldClass, 'w-full font-mono')}
+                      />
+                    </label>
+                  </div>
+
+                  <div>
+                    <span className="block text-sm text-gray-600 mb-1">
+                      可用变量（支持 + - * / 、括号及 abs、min、max、round 函数）
+                    </span>
+                    <div className="flex flex-wrap gap-1">
+                      {RISK_VARIABLES[rule.entityType].map((variable) => (
+                        <span
+                          key={variable.name}
+                          title={variable.label}
+                          className="text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-700 font-mono"
+                        >
+                          {variable.name}
+                          <span className="font-sans text-gray-400 ml-1">{variable.label}</span>
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div>
+                    <span className="block text-sm text-gray-600 mb-1">历史数据测试</span>
+                    {ruleError ? (
+                      <p className="text-sm text-red-600 flex items-center">
+                        <AlertCircle className="w-4 h-4 mr-1" />
+                        {ruleError}
+                      </p>
+                    ) : historyLoading && history.length === 0 ? (
+                      <p className="text-sm text-gray-500 flex items-center">
+                        <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                        加载历史数据...
+                      </p>
+                    ) : (
+                      <div className="max-h-64 overflow-y-auto border border-gray-100 rounded-lg">
+                        <table className="w-full text-sm">
+                          <tbody>
+                            {testResults?.map(({ period, entityNames }) => (
+                              <tr key={period} className="border-b border-gray-100 last:border-b-0">
+                                <td className="px-3 py-1.5 text-gray-600 whitespace-nowrap w-24">{period}</td>
+                                <td className="px-3 py-1.5 text-right w-20">
+                                  <span className={entityNames.length > 0 ? 'font-semibold text-red-600' : 'text-gray-400'}>
+                                    {entityNames.length} 个
+                                  </span>
+                                </td>
+                                <td className="px-3 py-1.5 text-gray-700">{entityNames.join('、') || '—'}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center space-x-2 mb-4">
+        {(Object.keys(RISK_ENTITY_LABELS) as RiskEntityType[]).map((type) => (
+          <button
+            key={type}
+            onClick={() => addRule(type)}
+            className="flex items-center space-x-1 px-3 py-2 text-sm font-medium text-primary-700 bg-primary-50 hover:bg-primary-100 rounded-lg transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            <span>添加{RISK_ENTITY_LABELS[type]}规则</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between pt-4 border-t border-gray-200">
+        <div className="text-sm">
+          {validationError ? (
+            <span className="flex items-center text-red-600">
+              <AlertCircle className="w-4 h-4 mr-1" />
+              {validationError}
+            </span>
+          ) : saved && !dirty ? (
+            <span className="flex items-center text-green-600">
+              <CheckCircle2 className="w-4 h-4 mr-1" />
+              已保存，各页面的风险预警已按新规则更新
+            </span>
+          ) : null}
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={!dirty || validationError !== null}
+          className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Save className="w-4 h-4" />
+          <span>保存</span>
+        </button>
+      </div>
+    </div>
+  );
+}
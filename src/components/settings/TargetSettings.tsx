@@ -0,0 +1,261 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useSettings } from '../../hooks/useSettings';
+import { useRepositoryQuery } from '../../hooks/useDataRepository';
+import {
+  MetricTarget,
+  TARGET_METRIC_KEYS,
+  TARGET_METRIC_LABELS,
+  TARGET_SCOPE_LABELS,
+  TargetMetricKey,
+  TargetScope,
+  validateMetricTargets,
+} from '../../services/targets';
+import { AlertCircle, CheckCircle2, Plus, RotateCcw, Save, Trash2 } from 'lucide-react';
+
+const SCOPES: TargetScope[] = ['national', 'region', 'province'];
+
+const selectClass =
+  'px-2 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent text-sm';
+const inputClass = `${selectClass} w-20 text-right`;
+
+// 指标目标值：全国、区域、省份三级，可按周期和产品细化；诊断页的目标对比、达成率和预警线均读取这里
+export default function TargetSettings() {
+  const { settings, updateTargets, resetTargets } = useSettings();
+  const [draft, setDraft] = useState<MetricTarget[]>(settings.targets);
+  const [saved, setSaved] = useState(false);
+
+  const { data: provinces = [] } = useRepositoryQuery(useCallback((repository) => repository.getProvinces(), []));
+  const { data: periods = [] } = useRepositoryQuery(useCallback((repository) => repository.listPeriods(), []));
+  const { data: products = [] } = useRepositoryQuery(useCallback((repository) => repository.getProducts(), []));
+  const regions = Array.from(new Set(provinces.map((p) => p.region)));
+
+  useEffect(() => {
+    setDraft(settings.targets);
+  }, [settings.targets]);
+
+  const validationError = validateMetricTargets(draft);
+  const dirty = JSON.stringify(draft) !== JSON.stringify(settings.targets);
+
+  const updateTarget = (id: string, patch: Partial<MetricTarget>) => {
+    setSaved(false);
+    setDraft((prev) => prev.map((t) => (t.id === id ? { ...t, ...patch } : t)));
+  };
+
+  const changeScope = (id: string, scope: TargetScope) => {
+    const scopeId = scope === 'region' ? regions[0] : scope === 'province' ? provinces[0]?.id : undefined;
+    updateTarget(id, { scope, scopeId });
+  };
+
+  const addTarget = () => {
+    setSaved(false);
+    setDraft((prev) => [
+      ...prev,
+      {
+        id: `target-${Date.now()}`,
+        metric: 'marketShare',
+        scope: 'province',
+        scopeId: provinces[0]?.id,
+        value: 10,
+      },
+    ]);
+  };
+
+  const removeTarget = (id: string) => {
+    setSaved(false);
+    setDraft((prev) => prev.filter((t) => t.id !== id));
+  };
+
+  const handleSave = () => {
+    if (validationError) return;
+    updateTargets(draft);
+    setSaved(true);
+  };
+
+  const handleReset = () => {
+    resetTargets();
+    setSaved(false);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">指标目标值</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            同一指标按 省份 &gt; 区域 &gt; 全国、指定产品 &gt; 全部产品、指定周期 &gt; 全部周期 的顺序取最具体的目标；全国目标同时作为健康度评分的满分线（省份、区域目标优先）；低于预警线时生成风险预警
+          </p>
+        </div>
+        <button
+          onClick={handleReset}
+          className="flex items-center space-x-1 px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+        >
+          <RotateCcw className="w-4 h-4" />
+          <span>恢复默认</span>
+        </button>
+      </div>
+
+      <div className="overflow-x-auto mb-4">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="py-2 pr-2 font-medium">指标</th>
+              <th className="py-2 pr-2 font-medium">范围</th>
+              <th className="py-2 pr-2 font-medium">区域 / 省份</th>
+              <th className="py-2 pr-2 font-medium">周期</th>
+              <th className="py-2 pr-2 font-medium">产品</th>
+              <th className="py-2 pr-2 font-medium text-right">目标值</th>
+              <th className="py-2 pr-2 font-medium text-right">预警线</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {draft.map((target) => (
+              <tr key={target.id} className="border-b border-gray-100 last:border-b-0">
+                <td className="py-2 pr-2">
+                  <select
+                    value={target.metric}
+                    onChange={(e) => updateTarget(target.id, { metric: e.target.value as TargetMetricKey })}
+                    className={selectClass}
+                  >
+                    {TARGET_METRIC_KEYS.map((key) => (
+                      <option key={key} value={key}>
+                        {TARGET_METRIC_LABELS[key]}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td className="py-2 pr-2">
+                  <select
+                    value={target.scope}
+                    onChange={(e) => changeScope(target.id, e.target.value as TargetScope)}
+                    className={selectClass}
+                  >
+                    {SCOPES.map((scope) => (
+                      <option key={scope} value={scope}>
+                        {TARGET_SCOPE_LABELS[scope]}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td className="py-2 pr-2">
+                  {target.scope === 'national' ? (
+                    <span className="text-gray-400">—</span>
+                  ) : (
+                    <select
+                      value={target.scopeId ?? ''}
+                      onChange={(e) => updateTarget(target.id, { scopeId: e.target.value || undefined })}
+                      className={selectClass}
+                    >
+                      <option value="">请选择</option>
+                      {target.scope === 'region'
+                        ? regions.map((region) => (
+                            <option key={region} value={region}>
+                              {region}
+                            </option>
+                          ))
+                        : provinces.map((province) => (
+                            <option key={province.id} value={province.id}>
+                              {province.name}
+                            </option>
+                          ))}
+                    </select>
+                  )}
+                </td>
+                <td className="py-2 pr-2">
+                  <select
+                    value={target.period ?? ''}
+                    onChange={(e) => updateTarget(target.id, { period: e.target.value || undefined })}
+                    className={selectClass}
+                  >
+                    <option value="">全部周期</option>
+                    {[...periods].reverse().map((period) => (
+                      <option key={period} value={period}>
+                        {period}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td className="py-2 pr-2">
+                  <select
+                    value={target.productId ?? ''}
+                    onChange={(e) => updateTarget(target.id, { productId: e.target.value || undefined })}
+                    className={selectClass}
+                  >
+                    <option value="">全部产品</option>
+                    {products.map((product) => (
+                      <option key={product.id} value={product.id}>
+                        {product.name}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td className="py-2 pr-2 text-right">
+                  <input
+                    type="number"
+                    step="any"
+                    value={Number.isNaN(target.value) ? '' : target.value}
+                    onChange={(e) => updateTarget(target.id, { value: e.target.valueAsNumber })}
+                    className={inputClass}
+                  />
+                </td>
+                <td className="py-2 pr-2 text-right">
+                  <input
+                    type="number"
+                    step="any"
+                    placeholder="不预警"
+                    value={target.warning === undefined || Number.isNaN(target.warning) ? '' : target.warning}
+                    onChange={(e) =>
+                      updateTarget(target.id, { warning: e.target.value === '' ? undefined : e.target.valueAsNumber })
+                    }
+                    className={inputClass}
+                  />
+                </td>
+                <td className="py-2 text-right">
+                  <button
+                    onClick={() => removeTarget(target.id)}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title="删除目标"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <button
+        onClick={addTarget}
+        className="flex items-center space-x-1 px-3 py-2 text-sm font-medium text-primary-700 bg-primary-50 hover:bg-primary-100 rounded-lg transition-colors mb-4"
+      >
+        <Plus className="w-4 h-4" />
+        <span>添加目标</span>
+      </button>
+
+      <div className="flex items-center justify-between pt-4 border-t border-gray-200">
+        <div className="text-sm">
+          {validationError ? (
+            <span className="flex items-center text-red-600">
+              <AlertCircle className="w-4 h-4 mr-1" />
+              {validationError}
+            </span>
+          ) : saved && !dirty ? (
+            <span className="flex items-center text-green-600">
+              <CheckCircle2 className="w-4 h-4 mr-1" />
+              已保存，诊断页的目标对比、健康度评分和风险预警已按新目标更新
+            </span>
+          ) : null}
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={!dirty || validationError !== null}
+          className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Save className="w-4 h-4" />
+          <span>保存</span>
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,117 +1,215 @@
-import { useState, useMemo } from 'react';
-import { MarketDimension, MarketDataPoint, MekkoConfig } from '../../types/strategy';
-import { mockMarketData, dimensionOptions } from '../../data/strategyMockData';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Cell, LabelList } from 'recharts';
-import { Filter, TrendingUp, AlertCircle } from 'lucide-react';
+import { useState, useMemo, useCallback } from 'react';
+import { MarketDataPoint, MarketDimension, MekkoConfig } from '../../types/strategy';
+import { dimensionOptions } from '../../data/strategyMockData';
+import { Filter, X, GitCompare } from 'lucide-react';
 import { clsx } from 'clsx';
+import { usePublishPageData } from '../../hooks/usePageContext';
+import { MekkoContextData } from '../../types/pageContext';
+import { useRepositoryQuery } from '../../hooks/useDataRepository';
+import { DEFAULT_MARKET_BRAND, MarketDataFilters } from '../../services/repository';
+import {
+  aggregateMarketSegments,
+  compareMarketPeriods,
+  filterMarketPeriod,
+  listDimensionValues,
+  listMarketPeriods,
+  MARKET_DIMENSION_LABELS,
+  MARKET_DIMENSIONS,
+  MarketPivotColumn,
+  MEKKO_METRIC_LABELS,
+  pivotMarketData,
+} from '../../services/marketSegments';
+import MekkoChart, { MekkoSalesMeasure, MekkoSelection, MekkoStackMode } from './MekkoChart';
+import OpportunityDetection from './OpportunityDetection';
+
+// 品牌在上方单独选择，其余维度均可作为横轴、纵轴或筛选条件
+const PIVOT_DIMENSIONS = MARKET_DIMENSIONS.filter(
+  (dimension): dimension is Exclude<MarketDimension, 'brand'> => dimension !== 'brand'
+);
+
+const METRICS: MekkoConfig['metric'][] = ['share', 'sales', 'growth', 'shareChange'];
+
+// 透视本期数据；有对比周期时填入晖致份额的变化
+function pivotPeriods(
+  data: MarketDataPoint[],
+  config: MekkoConfig,
+  filters: MarketDataFilters,
+  period: string | undefined,
+  comparePeriod: string | undefined
+): MarketPivotColumn[] {
+  const current = pivotMarketData(filterMarketPeriod(data, period), config, filters);
+  return comparePeriod
+    ? compareMarketPeriods(current, pivotMarketData(filterMarketPeriod(data, comparePeriod), config, filters))
+    : current;
+}
+
+// 在透视结果中查找选中的列或单元格；配置或筛选变化后选中项可能已不存在
+function findSelection(columns: MarketPivotColumn[], selection: MekkoSelection | null) {
+  if (!selection) return null;
+  const column = columns.find((c) => c.xValue === selection.xValue);
+  if (!column) return null;
+  if (selection.yValue === undefined) return { label: column.xValue, stats: column, parentShare: undefined };
+  const cell = column.cells.find((c) => c.yValue === selection.yValue);
+  return cell
+    ? { label: `${column.xValue} × ${cell.yValue}`, stats: cell, parentShare: (cell.value / column.value) * 100 }
+    : null;
+}
+
+const formatGrowth = (growthRate: number | undefined) =>
+  growthRate === undefined ? '—' : `${growthRate > 0 ? '+' : ''}${growthRate.toFixed(1)}%`;
+
+const selectClass =
+  'px-2 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent text-sm';
 
 export default function MarketOverview() {
-  const [selectedBrand, setSelectedBrand] = useState<string>('立普妥');
+  const [selectedBrand, setSelectedBrand] = useState<string>(DEFAULT_MARKET_BRAND);
+  // 对比品牌，为 null 时不对比
+  const [compareBrand, setCompareBrand] = useState<string | null>(null);
+  // 取所选品牌的全部数据，维度筛选在本地完成以便列出各维度的可选取值
+  const { data: marketData = [], loading, error } = useRepositoryQuery(
+    useCallback((repository) => repository.getMarketData(selectedBrand), [selectedBrand])
+  );
+  const { data: compareData = [], loading: compareLoading, error: compareError } = useRepositoryQuery(
+    useCallback(
+      (repository) => (compareBrand ? repository.getMarketData(compareBrand) : Promise.resolve([])),
+      [compareBrand]
+    )
+  );
   const [selectedDimensions, setSelectedDimensions] = useState<MekkoConfig>({
     xAxis: 'channel',
     yAxis: 'department',
     metric: 'share',
   });
-  const [filters, setFilters] = useState<{
-    province?: string[];
-  }>({});
-
-  // 获取维度值的辅助函数
-  const getDimensionValue = (point: MarketDataPoint, dimension: MarketDimension): string => {
-    switch (dimension) {
-      case 'channel':
-        // dimension1是渠道
-        return point.dimension1;
-      case 'department':
-        // dimension2是科室
-        return point.dimension2;
-      case 'brand':
-        // 品牌在数据中不直接存储，通过筛选获得
-        return point.dimension2;
-      default:
-        return point.dimension1;
-    }
-  };
+  const [filters, setFilters] = useState<MarketDataFilters>({});
+  const [stackBy, setStackBy] = useState<MekkoStackMode>('segments');
+  const [measure, setMeasure] = useState<MekkoSalesMeasure>('value');
+  const [selectedSegment, setSelectedSegment] = useState<MekkoSelection | null>(null);
+  // 手动选择的统计周期和对比周期，为 null 时取最新一期及其上一期
+  const [selectedPeriod, setSelectedPeriod] = useState<string | null>(null);
+  const [selectedComparePeriod, setSelectedComparePeriod] = useState<string | null>(null);
 
-  // 处理数据，生成Mekko图表所需格式（堆叠柱状图）
-  const processedData = useMemo(() => {
-    let filtered = [...mockMarketData];
-
-    // 首先按品牌筛选（当前数据都是立普妥，所以暂时不过滤，后续可以扩展）
-    // 注意：当前mockData都是立普妥的数据，如果后续添加其他品牌数据，需要在这里筛选
-    // filtered = filtered.filter((point) => {
-    //   return point.brand === selectedBrand;
-    // });
-
-    // 应用省份筛选
-    if (filters.province && filters.province.length > 0) {
-      filtered = filtered.filter((d) => filters.province!.includes(d.province || ''));
-    }
-
-    // 按选择的维度分组（排除brand维度，因为已经按品牌筛选了）
-    const grouped = new Map<string, { 
-      segment: string; 
-      totalShare: number; 
-      huiZhiShare: number; 
-      competitorShare: number;
-      otherShare: number;
-    }>();
-
-    filtered.forEach((point) => {
-      // 获取横轴和纵轴的值
-      const xValue = getDimensionValue(point, selectedDimensions.xAxis);
-      const yValue = getDimensionValue(point, selectedDimensions.yAxis);
-      
-      // 构建细分市场标识
-      const segment = `${xValue} × ${yValue}`;
-
-      if (!grouped.has(segment)) {
-        grouped.set(segment, {
-          segment,
-          totalShare: 0,
-          huiZhiShare: 0,
-          competitorShare: 0,
-          otherShare: 0,
-        });
-      }
-
-      const group = grouped.get(segment)!;
-      // 累加市场份额
-      group.totalShare += point.value;
-      // 累加晖致和竞品份额（基于总份额的百分比）
-      group.huiZhiShare += (point.huiZhiShare || 0) * (point.value / 100);
-      group.competitorShare += (point.competitorShare || 0) * (point.value / 100);
-    });
+  // 数据未标注周期时 periods 为空，不按周期筛选
+  const periods = useMemo(() => listMarketPeriods(marketData), [marketData]);
+  const period =
+    selectedPeriod && periods.includes(selectedPeriod) ? selectedPeriod : periods[periods.length - 1];
+  const comparePeriodOptions = periods.filter((p) => p !== period);
+  const comparePeriod =
+    selectedComparePeriod && comparePeriodOptions.includes(selectedComparePeriod)
+      ? selectedComparePeriod
+      : comparePeriodOptions.filter((p) => period !== undefined && p < period).pop() ?? comparePeriodOptions[0];
+  const hasVolume = useMemo(() => marketData.some((point) => point.volume !== undefined), [marketData]);
+  // 切换到没有对比周期的数据时，份额变化回退为份额
+  const metric = selectedDimensions.metric === 'shareChange' && !comparePeriod ? 'share' : selectedDimensions.metric;
 
-    // 转换为数组，计算其他份额，并按总份额排序
-    const result = Array.from(grouped.values()).map((item) => {
-      // 计算其他份额（总份额 - 晖致份额 - 竞品份额）
-      item.otherShare = Math.max(0, item.totalShare - item.huiZhiShare - item.competitorShare);
-      return item;
-    });
+  // 处理数据，生成本期细分市场汇总（AI助手使用）
+  const processedData = useMemo(
+    () => aggregateMarketSegments(filterMarketPeriod(marketData, period), selectedDimensions, filters),
+    [marketData, period, selectedDimensions, filters]
+  );
 
-    // 按总份额降序排序
-    result.sort((a, b) => b.totalShare - a.totalShare);
+  // Mekko图的列（横轴取值）和单元格（横轴 × 纵轴）
+  const mekkoColumns = useMemo(
+    () => pivotPeriods(marketData, selectedDimensions, filters, period, comparePeriod),
+    [marketData, selectedDimensions, filters, period, comparePeriod]
+  );
 
-    return result;
-  }, [selectedBrand, selectedDimensions, filters]);
+  const compareColumns = useMemo(
+    () => (compareBrand ? pivotPeriods(compareData, selectedDimensions, filters, period, comparePeriod) : []),
+    [compareBrand, compareData, selectedDimensions, filters, period, comparePeriod]
+  );
 
-  // 识别机会点（晖致份额明显低、市场潜力大的细分市场）
-  const opportunities = useMemo(() => {
-    return processedData
-      .filter((item) => item.huiZhiShare < 20 && item.totalShare > 15) // 份额低于20%且市场规模大于15
-      .sort((a, b) => b.totalShare - a.totalShare)
-      .slice(0, 5);
-  }, [processedData]);
+  // 选中项在两个品牌中的数据；对比时选中项只需在其中一个品牌中存在
+  const selectedStats = useMemo(() => findSelection(mekkoColumns, selectedSegment), [mekkoColumns, selectedSegment]);
+  const compareStats = useMemo(
+    () => findSelection(compareColumns, selectedSegment),
+    [compareColumns, selectedSegment]
+  );
+  const selectionVisible = selectedStats !== null || compareStats !== null;
 
+  // 两个品牌按横轴取值的结构对比：各取值占品牌市场规模的比例及晖致份额
+  const structureComparison = useMemo(() => {
+    if (!compareBrand) return [];
+    const totalOf = (columns: MarketPivotColumn[]) => columns.reduce((sum, c) => sum + c.value, 0);
+    const [baseTotal, compareTotal] = [totalOf(mekkoColumns), totalOf(compareColumns)];
+    const xValues = Array.from(new Set([...mekkoColumns, ...compareColumns].map((c) => c.xValue)));
+    return xValues.map((xValue) => {
+      const base = mekkoColumns.find((c) => c.xValue === xValue);
+      const other = compareColumns.find((c) => c.xValue === xValue);
+      return {
+        xValue,
+        baseWeight: base && baseTotal > 0 ? (base.value / baseTotal) * 100 : undefined,
+        compareWeight: other && compareTotal > 0 ? (other.value / compareTotal) * 100 : undefined,
+        baseHuiZhiShare: base?.huiZhiShare,
+        compareHuiZhiShare: other?.huiZhiShare,
+      };
+    });
+  }, [compareBrand, mekkoColumns, compareColumns]);
+
+  // 向AI助手提供当前看板配置和份额最大的细分市场
+  const mekkoContext = useMemo<MekkoContextData>(
+    () => ({
+      brand: selectedBrand,
+      config: { ...selectedDimensions, metric, filter: filters },
+      period,
+      comparePeriod: metric === 'shareChange' ? comparePeriod : undefined,
+      segments: processedData.slice(0, 10),
+      comparison: compareBrand
+        ? {
+            brand: compareBrand,
+            segments: aggregateMarketSegments(
+              filterMarketPeriod(compareData, period),
+              selectedDimensions,
+              filters
+            ).slice(0, 10),
+          }
+        : undefined,
+    }),
+    [selectedBrand, compareBrand, compareData, selectedDimensions, metric, period, comparePeriod, filters, processedData]
+  );
+  usePublishPageData('mekko', mekkoContext);
+
+  // 横轴、纵轴选择同一维度时互换
   const handleDimensionChange = (axis: 'xAxis' | 'yAxis', dimension: MarketDimension) => {
-    setSelectedDimensions((prev) => ({
-      ...prev,
-      [axis]: dimension,
-    }));
+    setSelectedDimensions((prev) => {
+      const other = axis === 'xAxis' ? 'yAxis' : 'xAxis';
+      return {
+        ...prev,
+        [axis]: dimension,
+        [other]: prev[other] === dimension ? prev[axis] : prev[other],
+      };
+    });
+    setSelectedSegment(null);
+  };
+
+  // 切换主品牌时若与对比品牌相同，则两者互换
+  const handleBrandChange = (brand: string) => {
+    if (brand === compareBrand) setCompareBrand(selectedBrand);
+    setSelectedBrand(brand);
+    setSelectedSegment(null);
   };
 
-  const handleFilterChange = (key: 'province', value: string) => {
+  const toggleCompare = () => {
+    setCompareBrand((prev) => (prev ? null : dimensionOptions.brand.find((brand) => brand !== selectedBrand) ?? null));
+    setSelectedSegment(null);
+  };
+
+  // 各维度的可选取值取自数据本身（导入的数据可能包含预设列表之外的取值；对比时合并两个品牌），已选中的取值始终保留
+  const filterOptions = useMemo(
+    () =>
+      PIVOT_DIMENSIONS.map((dimension) => ({
+        dimension,
+        values: Array.from(
+          new Set([
+            ...listDimensionValues(compareBrand ? [...marketData, ...compareData] : marketData, dimension),
+            ...(filters[dimension] ?? []),
+          ])
+        ),
+      })),
+    [marketData, compareBrand, compareData, filters]
+  );
+  const hasFilters = Object.values(filters).some((values) => values && values.length > 0);
+
+  const handleFilterChange = (key: Exclude<MarketDimension, 'brand'>, value: string) => {
     setFilters((prev) => {
       const current = prev[key] || [];
       const newValue = current.includes(value)
@@ -124,31 +222,50 @@ export default function MarketOverview() {
     });
   };
 
-  // 获取维度显示名称
-  const getDimensionLabel = (dim: MarketDimension): string => {
-    const labels: Record<MarketDimension, string> = {
-      class: '类别',
-      molecule: '分子式',
-      department: '治疗科室',
-      priceBand: '价格带',
-      brand: '品牌',
-      channel: '渠道',
-      province: '省份',
-    };
-    return labels[dim] || dim;
-  };
+  const getDimensionLabel = (dim: MarketDimension): string => MARKET_DIMENSION_LABELS[dim];
+
+  // 图表面板：主品牌，对比时再加对比品牌
+  const chartPanels = [
+    { brand: selectedBrand, columns: mekkoColumns, stats: selectedStats, loading, error, empty: marketData.length === 0 },
+    ...(compareBrand
+      ? [
+          {
+            brand: compareBrand,
+            columns: compareColumns,
+            stats: compareStats,
+            loading: compareLoading,
+            error: compareError,
+            empty: compareData.length === 0,
+          },
+        ]
+      : []),
+  ];
 
   return (
     <div className="space-y-6">
       {/* 品牌选择 */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
         <div className="mb-4">
-          <label className="block text-sm font-medium text-gray-700 mb-2">选择品牌</label>
+          <div className="flex items-center justify-between mb-2">
+            <label className="block text-sm font-medium text-gray-700">选择品牌</label>
+            <button
+              onClick={toggleCompare}
+              className={clsx(
+                'flex items-center space-x-1 px-3 py-1 rounded-lg text-sm transition-colors',
+                compareBrand
+                  ? 'bg-primary-100 text-primary-700 border border-primary-300'
+                  : 'bg-gray-50 text-gray-600 border border-gray-200 hover:bg-gray-100'
+              )}
+            >
+              <GitCompare className="w-4 h-4" />
+              <span>{compareBrand ? '退出对比' : '对比品牌'}</span>
+            </button>
+          </div>
           <div className="flex flex-wrap gap-2">
             {dimensionOptions.brand.map((brand) => (
               <button
                 key={brand}
-                onClick={() => setSelectedBrand(brand)}
+                onClick={() => handleBrandChange(brand)}
                 className={clsx(
                   'px-4 py-2 rounded-lg text-sm font-medium transition-colors',
                   selectedBrand === brand
@@ -161,6 +278,34 @@ export default function MarketOverview() {
             ))}
           </div>
         </div>
+
+        {/* 对比品牌：与主品牌共用维度配置、筛选和选中项 */}
+        {compareBrand && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">对比品牌</label>
+            <div className="flex flex-wrap gap-2">
+              {dimensionOptions.brand
+                .filter((brand) => brand !== selectedBrand)
+                .map((brand) => (
+                  <button
+                    key={brand}
+                    onClick={() => {
+                      setCompareBrand(brand);
+                      setSelectedSegment(null);
+                    }}
+                    className={clsx(
+                      'px-4 py-2 rounded-lg text-sm font-medium transition-colors',
+                      compareBrand === brand
+                        ? 'bg-gray-800 text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    )}
+                  >
+                    {brand}
+                  </button>
+                ))}
+            </div>
+          </div>
+        )}
       </div>
 
       {/* 维度选择和筛选 */}
@@ -175,7 +320,7 @@ export default function MarketOverview() {
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">横轴维度</label>
             <div className="flex flex-wrap gap-2">
-              {(['channel', 'department'] as MarketDimension[]).map((dim) => (
+              {PIVOT_DIMENSIONS.map((dim) => (
                 <button
                   key={dim}
                   onClick={() => handleDimensionChange('xAxis', dim)}
@@ -196,7 +341,7 @@ export default function MarketOverview() {
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">纵轴维度</label>
             <div className="flex flex-wrap gap-2">
-              {(['department', 'channel'] as MarketDimension[]).map((dim) => (
+              {PIVOT_DIMENSIONS.map((dim) => (
                 <button
                   key={dim}
                   onClick={() => handleDimensionChange('yAxis', dim)}
@@ -214,156 +359,330 @@ export default function MarketOverview() {
           </div>
         </div>
 
-        {/* 筛选器 */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {/* 筛选器：同一维度内多选为"或"，不同维度之间为"且" */}
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-sm font-medium text-gray-700">维度筛选</span>
+          {hasFilters && (
+            <button
+              onClick={() => {
+                setFilters({});
+                setSelectedSegment(null);
+              }}
+              className="text-sm text-primary-600 hover:text-primary-700"
+            >
+              清除筛选
+            </button>
+          )}
+        </div>
+        <div className="space-y-3">
+          {filterOptions.map(({ dimension, values }) => (
+            <div key={dimension} className="flex items-start">
+              <span className="w-20 flex-shrink-0 pt-1 text-sm text-gray-600">{getDimensionLabel(dimension)}</span>
+              <div className="flex flex-wrap gap-2">
+                {values.map((value) => (
+                  <button
+                    key={value}
+                    onClick={() => handleFilterChange(dimension, value)}
+                    className={clsx(
+                      'px-3 py-1 rounded-lg text-sm transition-colors',
+                      filters[dimension]?.includes(value)
+                        ? 'bg-primary-100 text-primary-700 border border-primary-300'
+                        : 'bg-gray-50 text-gray-600 border border-gray-200 hover:bg-gray-100'
+                    )}
+                  >
+                    {value}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Mekko图表 */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="mb-4 flex flex-wrap items-start justify-between gap-4">
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">省份筛选</label>
-            <div className="flex flex-wrap gap-2">
-              {dimensionOptions.province.map((province) => (
+            <h3 className="text-lg font-bold text-gray-900 mb-2">Mekko数据看板</h3>
+            <p className="text-sm text-gray-600">
+              <span className="font-semibold text-primary-600">{selectedBrand}</span>
+              {compareBrand && (
+                <>
+                  {' '}vs <span className="font-semibold text-gray-900">{compareBrand}</span>
+                </>
+              )}{' '}
+              - {getDimensionLabel(selectedDimensions.xAxis === 'brand' ? selectedDimensions.yAxis : selectedDimensions.xAxis)}{' '}
+              {MEKKO_METRIC_LABELS[metric]}分析
+              {period && `（${period}${metric === 'shareChange' && comparePeriod ? ` 对比 ${comparePeriod}` : ''}）`}
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <span className="text-sm text-gray-600">列内堆叠</span>
+            <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+              {(
+                [
+                  ['segments', `${getDimensionLabel(selectedDimensions.yAxis)}构成`],
+                  ['share', '份额构成'],
+                ] as [MekkoStackMode, string][]
+              ).map(([mode, label]) => (
                 <button
-                  key={province}
-                  onClick={() => handleFilterChange('province', province)}
+                  key={mode}
+                  onClick={() => {
+                    setStackBy(mode);
+                    setSelectedSegment(null);
+                  }}
                   className={clsx(
-                    'px-3 py-1 rounded-lg text-sm transition-colors',
-                    filters.province?.includes(province)
-                      ? 'bg-primary-100 text-primary-700 border border-primary-300'
-                      : 'bg-gray-50 text-gray-600 border border-gray-200 hover:bg-gray-100'
+                    'px-3 py-1.5 text-sm transition-colors',
+                    stackBy === mode ? 'bg-primary-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
                   )}
                 >
-                  {province}
+                  {label}
                 </button>
               ))}
             </div>
           </div>
         </div>
-      </div>
 
-      {/* Mekko图表 */}
-      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-          <div className="mb-4">
-            <h3 className="text-lg font-bold text-gray-900 mb-2">Mekko数据看板</h3>
-            <p className="text-sm text-gray-600">
-              <span className="font-semibold text-primary-600">{selectedBrand}</span> - {getDimensionLabel(selectedDimensions.xAxis === 'brand' ? selectedDimensions.yAxis : selectedDimensions.xAxis)} 市场份额分析
-            </p>
+        {/* 指标、度量和统计周期 */}
+        <div className="mb-4 flex flex-wrap items-center gap-x-6 gap-y-3">
+          <div className="flex items-center space-x-2">
+            <span className="text-sm text-gray-600">指标</span>
+            <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+              {METRICS.map((key) => {
+                // 份额变化需要至少两个周期的数据
+                const disabled = key === 'shareChange' && !comparePeriod;
+                return (
+                  <button
+                    key={key}
+                    disabled={disabled}
+                    title={disabled ? '需要至少两个周期的大盘数据' : undefined}
+                    onClick={() => setSelectedDimensions((prev) => ({ ...prev, metric: key }))}
+                    className={clsx(
+                      'px-3 py-1.5 text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed',
+                      metric === key ? 'bg-primary-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                    )}
+                  >
+                    {MEKKO_METRIC_LABELS[key]}
+                  </button>
+                );
+              })}
+            </div>
           </div>
 
-        <ResponsiveContainer width="100%" height={600}>
-          <BarChart 
-            data={processedData} 
-            margin={{ top: 20, right: 30, left: 20, bottom: 100 }}
-          >
-            <CartesianGrid strokeDasharray="3 3" />
-            <XAxis 
-              dataKey="segment" 
-              angle={-45}
-              textAnchor="end"
-              height={120}
-              interval={0}
-              tick={{ fontSize: 11 }}
-            />
-            <YAxis 
-              domain={[0, 'dataMax']}
-              label={{ value: '市场份额 (%)', angle: -90, position: 'insideLeft' }}
-            />
-            <Tooltip
-              formatter={(value: any, name: string) => {
-                return [`${value.toFixed(1)}%`, name];
-              }}
-              contentStyle={{ backgroundColor: 'rgba(255, 255, 255, 0.95)' }}
-            />
-            <Legend 
-              wrapperStyle={{ paddingTop: '20px' }}
-            />
-            {/* 堆叠柱状图：晖致份额、竞品份额、其他份额 */}
-            <Bar 
-              dataKey="huiZhiShare" 
-              name="晖致份额" 
-              stackId="market"
-              fill="#10b981"
-            >
-              {processedData.map((_, index) => (
-                <Cell key={`cell-huiZhi-${index}`} fill="#10b981" />
-              ))}
-            </Bar>
-            <Bar 
-              dataKey="competitorShare" 
-              name="竞品份额" 
-              stackId="market"
-              fill="#ef4444"
-            >
-              {processedData.map((_, index) => (
-                <Cell key={`cell-competitor-${index}`} fill="#ef4444" />
-              ))}
-            </Bar>
-            <Bar 
-              dataKey="otherShare" 
-              name="其他份额" 
-              stackId="market"
-              fill="#94a3b8"
-            >
-              {processedData.map((_, index) => (
-                <Cell key={`cell-other-${index}`} fill="#94a3b8" />
-              ))}
-              {/* 在最后一个堆叠柱子上方显示总份额 */}
-              <LabelList 
-                dataKey="totalShare" 
-                position="top" 
-                formatter={(value: number) => `${value.toFixed(1)}%`}
-                style={{ fill: '#333', fontSize: '11px', fontWeight: 'bold' }}
+          {metric === 'sales' && (
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-gray-600">度量</span>
+              <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+                {(
+                  [
+                    ['value', '销售额'],
+                    ['volume', '销量'],
+                  ] as [MekkoSalesMeasure, string][]
+                ).map(([key, label]) => (
+                  <button
+                    key={key}
+                    disabled={key === 'volume' && !hasVolume}
+                    title={key === 'volume' && !hasVolume ? '当前数据没有销量' : undefined}
+                    onClick={() => setMeasure(key)}
+                    className={clsx(
+                      'px-3 py-1.5 text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed',
+                      measure === key ? 'bg-primary-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                    )}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {period && (
+            <label className="flex items-center space-x-2 text-sm text-gray-600">
+              <span>周期</span>
+              <select
+                value={period}
+                onChange={(e) => {
+                  setSelectedPeriod(e.target.value);
+                  setSelectedSegment(null);
+                }}
+                className={selectClass}
+              >
+                {periods.map((p) => (
+                  <option key={p} value={p}>
+                    {p}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          {metric === 'shareChange' && comparePeriod && (
+            <label className="flex items-center space-x-2 text-sm text-gray-600">
+              <span>对比周期</span>
+              <select
+                value={comparePeriod}
+                onChange={(e) => setSelectedComparePeriod(e.target.value)}
+                className={selectClass}
+              >
+                {comparePeriodOptions.map((p) => (
+                  <option key={p} value={p}>
+                    {p}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+
+        {chartPanels.map(
+          (panel) =>
+            panel.error && (
+              <p key={panel.brand} className="mb-4 text-sm text-red-600">
+                {panel.brand}数据加载失败：{panel.error.message}
+              </p>
+            )
+        )}
+        {chartPanels.map(
+          (panel) =>
+            !panel.loading &&
+            !panel.error &&
+            panel.empty && (
+              <p key={panel.brand} className="mb-4 text-sm text-gray-500">
+                暂无{panel.brand}的大盘数据，可在数据导入中上传
+              </p>
+            )
+        )}
+
+        <div className={clsx(compareBrand && 'grid grid-cols-1 lg:grid-cols-2 gap-6')}>
+          {chartPanels.map((panel) => (
+            <div key={panel.brand}>
+              {compareBrand && <h4 className="mb-2 text-sm font-semibold text-gray-900">{panel.brand}</h4>}
+              <MekkoChart
+                columns={panel.columns}
+                metric={metric}
+                stackBy={stackBy}
+                measure={hasVolume ? measure : 'value'}
+                xLabel={getDimensionLabel(selectedDimensions.xAxis)}
+                yLabel={getDimensionLabel(selectedDimensions.yAxis)}
+                selected={selectionVisible ? selectedSegment : null}
+                onSelect={setSelectedSegment}
               />
-            </Bar>
-          </BarChart>
-        </ResponsiveContainer>
-      </div>
+            </div>
+          ))}
+        </div>
 
-      {/* 机会点识别 */}
-      {opportunities.length > 0 && (
-        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-          <div className="flex items-center space-x-2 mb-4">
-            <AlertCircle className="w-5 h-5 text-orange-500" />
-            <h3 className="text-lg font-bold text-gray-900">机会点识别</h3>
-          </div>
-          <p className="text-sm text-gray-600 mb-4">
-            AI识别出以下值得晖致明显未布局/份额明显低、具备提升潜力的细分市场：
-          </p>
-          <div className="space-y-3">
-            {opportunities.map((opp, index) => (
-              <div
-                key={index}
-                className="border border-orange-200 rounded-lg p-4 bg-orange-50"
+        {/* 选中细分市场的详情，对比时分品牌列出 */}
+        {selectionVisible && (
+          <div className="mt-4 border border-primary-200 bg-primary-50 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-2">
+              <span className="font-semibold text-gray-900">{(selectedStats ?? compareStats)?.label}</span>
+              <button
+                onClick={() => setSelectedSegment(null)}
+                className="p-1 text-gray-500 hover:text-gray-700"
+                title="取消选中"
               >
-                <div className="flex items-start justify-between">
-                  <div className="flex-1">
-                    <div className="flex items-center space-x-2 mb-2">
-                      <span className="font-semibold text-gray-900">
-                        {opp.segment}
-                      </span>
-                      <span className="text-xs px-2 py-1 rounded-full bg-orange-200 text-orange-800">
-                        市场份额 {opp.totalShare.toFixed(1)}%
-                      </span>
-                    </div>
-                    <div className="grid grid-cols-3 gap-4 text-sm">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="space-y-2">
+              {chartPanels.map(({ brand, stats: selection }) => (
+                <div key={brand} className="flex items-start">
+                  {compareBrand && <span className="w-20 flex-shrink-0 text-sm font-semibold text-gray-700">{brand}</span>}
+                  {!selection ? (
+                    <span className="text-sm text-gray-500">该品牌没有此细分市场</span>
+                  ) : (
+                    <div
+                      className={clsx(
+                        'flex-1 grid grid-cols-2 gap-4 text-sm',
+                        metric === 'shareChange' ? 'md:grid-cols-6' : 'md:grid-cols-5'
+                      )}
+                    >
+                      <div>
+                        <span className="text-gray-600">市场规模：</span>
+                        <span className="font-semibold text-gray-900">{selection.stats.value.toFixed(1)}</span>
+                        {selection.parentShare !== undefined && (
+                          <span className="text-xs text-gray-500">
+                            （占{selectedSegment?.xValue} {selection.parentShare.toFixed(1)}%）
+                          </span>
+                        )}
+                      </div>
                       <div>
                         <span className="text-gray-600">晖致份额：</span>
-                        <span className="font-semibold text-red-600">{opp.huiZhiShare.toFixed(1)}%</span>
+                        <span className="font-semibold text-green-700">{selection.stats.huiZhiShare.toFixed(1)}%</span>
                       </div>
                       <div>
                         <span className="text-gray-600">竞品份额：</span>
-                        <span className="font-semibold text-gray-900">{opp.competitorShare.toFixed(1)}%</span>
+                        <span className="font-semibold text-red-600">{selection.stats.competitorShare.toFixed(1)}%</span>
                       </div>
                       <div>
-                        <span className="text-gray-600">差距：</span>
-                        <span className="font-semibold text-orange-600">{(opp.competitorShare - opp.huiZhiShare).toFixed(1)}%</span>
+                        <span className="text-gray-600">其他份额：</span>
+                        <span className="font-semibold text-gray-900">{selection.stats.otherShare.toFixed(1)}%</span>
                       </div>
+                      <div>
+                        <span className="text-gray-600">增长率：</span>
+                        <span className="font-semibold text-gray-900">{formatGrowth(selection.stats.growthRate)}</span>
+                      </div>
+                      {metric === 'shareChange' && (
+                        <div>
+                          <span className="text-gray-600">晖致份额变化：</span>
+                          <span
+                            className={clsx(
+                              'font-semibold',
+                              (selection.stats.huiZhiShareChange ?? 0) < 0 ? 'text-red-600' : 'text-green-700'
+                            )}
+                          >
+                            {selection.stats.huiZhiShareChange === undefined
+                              ? '—'
+                              : `${selection.stats.huiZhiShareChange > 0 ? '+' : ''}${selection.stats.huiZhiShareChange.toFixed(1)}个百分点`}
+                          </span>
+                        </div>
+                      )}
                     </div>
-                  </div>
-                  <TrendingUp className="w-5 h-5 text-orange-500" />
+                  )}
                 </div>
-              </div>
-            ))}
+              ))}
+            </div>
           </div>
-        </div>
-      )}
+        )}
+
+        {/* 品牌结构对比：横轴各取值占品牌市场规模的比例及晖致份额 */}
+        {compareBrand && structureComparison.length > 0 && (
+          <div className="mt-6 overflow-x-auto">
+            <h4 className="mb-2 text-sm font-semibold text-gray-900">
+              {getDimensionLabel(selectedDimensions.xAxis)}结构对比
+            </h4>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-2 font-medium">{getDimensionLabel(selectedDimensions.xAxis)}</th>
+                  <th className="py-2 pr-2 font-medium text-right">{selectedBrand} 规模占比</th>
+                  <th className="py-2 pr-2 font-medium text-right">{compareBrand} 规模占比</th>
+                  <th className="py-2 pr-2 font-medium text-right">{selectedBrand} 晖致份额</th>
+                  <th className="py-2 font-medium text-right">{compareBrand} 晖致份额</th>
+                </tr>
+              </thead>
+              <tbody>
+                {structureComparison.map((row) => (
+                  <tr key={row.xValue} className="border-b border-gray-100 last:border-b-0">
+                    <td className="py-1.5 pr-2 text-gray-900">{row.xValue}</td>
+                    {[row.baseWeight, row.compareWeight, row.baseHuiZhiShare, row.compareHuiZhiShare].map((value, index) => (
+                      <td
+                        key={index}
+                        className={clsx('py-1.5 text-right', index < 3 && 'pr-2', index >= 2 ? 'text-green-700' : 'text-gray-700')}
+                      >
+                        {value === undefined ? '—' : `${value.toFixed(1)}%`}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* 机会点识别 */}
+      <OpportunityDetection brand={selectedBrand} columns={mekkoColumns} />
 
       {/* 提示：使用Chatbot进行维度问答 */}
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
@@ -0,0 +1,402 @@
+import { useMemo, useRef, useState, MouseEvent } from 'react';
+import { MekkoConfig } from '../../types/strategy';
+import { MarketAggregate, MarketPivotCell, MarketPivotColumn } from '../../services/marketSegments';
+
+// 纵向堆叠方式：按纵轴维度构成，或按晖致/竞品/其他份额构成
+export type MekkoStackMode = 'segments' | 'share';
+
+// 销售指标下列宽和格高的度量：销售额或销量
+export type MekkoSalesMeasure = 'value' | 'volume';
+
+// 选中的细分市场；按份额构成堆叠时只选中整列
+export interface MekkoSelection {
+  xValue: string;
+  yValue?: string;
+}
+
+interface MekkoChartProps {
+  columns: MarketPivotColumn[];
+  metric: MekkoConfig['metric'];
+  stackBy: MekkoStackMode;
+  measure?: MekkoSalesMeasure;
+  xLabel: string;
+  yLabel: string;
+  selected?: MekkoSelection | null;
+  onSelect?: (selection: MekkoSelection | null) => void;
+}
+
+// 图中的一个矩形（纵轴构成的一格，或份额构成的一段；后者没有 cell）
+interface MekkoRect {
+  id: string;
+  column: MarketPivotColumn;
+  cell?: MarketPivotCell;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fill: string;
+  lines: string[];
+}
+
+const WIDTH = 1000;
+const HEIGHT = 520;
+const PLOT = { left: 50, right: 10, top: 10, bottom: 70 };
+const PLOT_WIDTH = WIDTH - PLOT.left - PLOT.right;
+const PLOT_HEIGHT = HEIGHT - PLOT.top - PLOT.bottom;
+const COLUMN_GAP = 2;
+
+const SHARE_PARTS = [
+  { key: 'huiZhiShare', label: '晖致', color: '#10b981' },
+  { key: 'competitorShare', label: '竞品', color: '#ef4444' },
+  { key: 'otherShare', label: '其他', color: '#94a3b8' },
+] as const;
+
+const CATEGORY_COLORS = ['#3b82f6', '#8b5cf6', '#f59e0b', '#06b6d4', '#ec4899', '#84cc16', '#f97316', '#6366f1'];
+
+const SHARE_SCALE = ['#ecfdf5', '#047857'];
+// 增长率和份额变化共用的红绿发散色阶
+const GROWTH_SCALE = { negative: '#dc2626', neutral: '#f9fafb', positive: '#059669' };
+
+// 两种颜色按比例混合（t 取 0-1）
+function mixColor(from: string, to: string, t: number): string {
+  const parse = (hex: string) => [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+  const [a, b] = [parse(from), parse(to)];
+  const ratio = Math.min(1, Math.max(0, t));
+  return `rgb(${a.map((value, i) => Math.round(value + (b[i] - value) * ratio)).join(', ')})`;
+}
+
+// 按感知亮度选择文字颜色
+function textColor(fill: string): string {
+  const match = /rgb\((\d+), (\d+), (\d+)\)/.exec(fill);
+  const [r, g, b] = match
+    ? match.slice(1).map(Number)
+    : [1, 3, 5].map((i) => parseInt(fill.slice(i, i + 2), 16));
+  return r * 0.299 + g * 0.587 + b * 0.114 > 160 ? '#111827' : '#ffffff';
+}
+
+const formatValue = (value: number) => value.toFixed(1);
+const formatPercent = (value: number) => `${value.toFixed(1)}%`;
+const formatGrowth = (value: number | undefined) =>
+  value === undefined ? '—' : `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+const formatChange = (value: number | undefined) =>
+  value === undefined ? '—' : `${value > 0 ? '+' : ''}${value.toFixed(1)}pp`;
+
+const MEASURE_LABELS: Record<MekkoSalesMeasure, string> = { value: '销售额', volume: '销量' };
+
+// 在 ±max 的范围内按红绿发散着色，缺少数据时为灰色
+function divergingFill(value: number | undefined, max: number): string {
+  if (value === undefined) return '#e5e7eb';
+  const t = value / max;
+  return mixColor(GROWTH_SCALE.neutral, t < 0 ? GROWTH_SCALE.negative : GROWTH_SCALE.positive, Math.abs(t));
+}
+
+// 真正的 Marimekko 图：列宽为横轴维度的市场规模，列内按纵轴构成或份额构成堆叠，
+// metric 决定单元格的着色和标注（share 按晖致份额深浅，sales 标注销售额或销量且列宽按所选度量，
+// growth 按增长率红绿发散着色，shareChange 按晖致份额较对比周期的变化红绿发散着色）
+export default function MekkoChart({
+  columns,
+  metric,
+  stackBy,
+  measure = 'value',
+  xLabel,
+  yLabel,
+  selected,
+  onSelect,
+}: MekkoChartProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [hover, setHover] = useState<{ rect: MekkoRect; left: number; top: number } | null>(null);
+
+  // 列宽、格高的度量；销量缺失时记0
+  const activeMeasure: MekkoSalesMeasure = metric === 'sales' ? measure : 'value';
+  const sizeOf = (stats: MarketAggregate) => (activeMeasure === 'volume' ? stats.volume ?? 0 : stats.value);
+  const total = columns.reduce((sum, column) => sum + sizeOf(column), 0);
+
+  // 纵轴取值按总规模排序，保证各列中同一取值颜色一致
+  const yValues = useMemo(() => {
+    const sizes = new Map<string, number>();
+    columns.forEach((column) =>
+      column.cells.forEach((cell) => sizes.set(cell.yValue, (sizes.get(cell.yValue) ?? 0) + cell.value))
+    );
+    return Array.from(sizes.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([value]) => value);
+  }, [columns]);
+
+  const cells = columns.flatMap((column) => column.cells);
+  const maxShare = Math.max(1, ...cells.map((cell) => cell.huiZhiShare));
+  const maxGrowth = Math.max(0.1, ...cells.map((cell) => Math.abs(cell.growthRate ?? 0)));
+  const maxChange = Math.max(0.1, ...cells.map((cell) => Math.abs(cell.huiZhiShareChange ?? 0)));
+
+  const cellFill = (cell: MarketPivotCell) => {
+    if (metric === 'growth') return divergingFill(cell.growthRate, maxGrowth);
+    if (metric === 'shareChange') return divergingFill(cell.huiZhiShareChange, maxChange);
+    if (metric === 'sales') return CATEGORY_COLORS[yValues.indexOf(cell.yValue) % CATEGORY_COLORS.length];
+    return mixColor(SHARE_SCALE[0], SHARE_SCALE[1], cell.huiZhiShare / maxShare);
+  };
+
+  const cellLines = (cell: MarketPivotCell) => {
+    switch (metric) {
+      case 'sales':
+        return [cell.yValue, formatValue(sizeOf(cell))];
+      case 'growth':
+        return [cell.yValue, formatGrowth(cell.growthRate)];
+      case 'shareChange':
+        return [cell.yValue, `晖致 ${formatChange(cell.huiZhiShareChange)}`];
+      default:
+        return [cell.yValue, `晖致 ${formatPercent(cell.huiZhiShare)}`];
+    }
+  };
+
+  const rects: MekkoRect[] = [];
+  let offset = 0;
+  columns.forEach((column) => {
+    const size = sizeOf(column);
+    const x = PLOT.left + (total > 0 ? (offset / total) * PLOT_WIDTH : 0);
+    const width = Math.max(1, (total > 0 ? (size / total) * PLOT_WIDTH : 0) - COLUMN_GAP);
+    offset += size;
+
+    // 自底向上堆叠
+    let bottom = PLOT.top + PLOT_HEIGHT;
+    if (stackBy === 'share') {
+      SHARE_PARTS.forEach((part) => {
+        const share = column[part.key];
+        const height = (share / 100) * PLOT_HEIGHT;
+        bottom -= height;
+        rects.push({
+          id: `${column.xValue}|${part.key}`,
+          column,
+          x,
+          y: bottom,
+          width,
+          height,
+          fill: part.color,
+          lines: metric === 'sales' ? [part.label, formatValue((column.value * share) / 100)] : [formatPercent(share)],
+        });
+      });
+    } else {
+      column.cells.forEach((cell) => {
+        const height = size > 0 ? (sizeOf(cell) / size) * PLOT_HEIGHT : 0;
+        bottom -= height;
+        rects.push({
+          id: `${column.xValue}|${cell.yValue}`,
+          column,
+          cell,
+          x,
+          y: bottom,
+          width,
+          height,
+          fill: cellFill(cell),
+          lines: cellLines(cell),
+        });
+      });
+    }
+  });
+
+  const isSelected = (rect: MekkoRect) =>
+    !!selected &&
+    selected.xValue === rect.column.xValue &&
+    (stackBy === 'share' || selected.yValue === rect.cell?.yValue);
+
+  const handleClick = (rect: MekkoRect) => {
+    if (!onSelect) return;
+    onSelect(
+      isSelected(rect)
+        ? null
+        : { xValue: rect.column.xValue, yValue: stackBy === 'segments' ? rect.cell?.yValue : undefined }
+    );
+  };
+
+  const handleMouseMove = (rect: MekkoRect, event: MouseEvent) => {
+    const bounds = containerRef.current?.getBoundingClientRect();
+    if (!bounds) return;
+    setHover({ rect, left: event.clientX - bounds.left, top: event.clientY - bounds.top });
+  };
+
+  const tooltipRows = (rect: MekkoRect): [string, string][] => {
+    const stats = rect.cell ?? rect.column;
+    const parentSize = rect.cell ? sizeOf(rect.column) : total;
+    const rows: [string, string][] = [['市场规模', formatValue(stats.value)]];
+    if (stats.volume !== undefined) rows.push(['销量', formatValue(stats.volume)]);
+    rows.push(
+      [
+        rect.cell ? `占${rect.column.xValue}` : '占总体',
+        formatPercent(parentSize > 0 ? (sizeOf(stats) / parentSize) * 100 : 0),
+      ],
+      ['晖致份额', formatPercent(stats.huiZhiShare)],
+      ['竞品份额', formatPercent(stats.competitorShare)],
+      ['其他份额', formatPercent(stats.otherShare)],
+      ['增长率', formatGrowth(stats.growthRate)]
+    );
+    if (stats.huiZhiShareChange !== undefined) rows.push(['晖致份额变化', formatChange(stats.huiZhiShareChange)]);
+    return rows;
+  };
+
+  if (columns.length === 0 || total <= 0) {
+    return <p className="py-16 text-center text-sm text-gray-500">暂无可展示的细分市场</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div ref={containerRef} className="relative" onMouseLeave={() => setHover(null)}>
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto select-none">
+          {/* 纵轴刻度 */}
+          {[0, 25, 50, 75, 100].map((tick) => {
+            const y = PLOT.top + PLOT_HEIGHT - (tick / 100) * PLOT_HEIGHT;
+            return (
+              <g key={tick}>
+                <line x1={PLOT.left} x2={WIDTH - PLOT.right} y1={y} y2={y} stroke="#e5e7eb" strokeDasharray="3 3" />
+                <text x={PLOT.left - 6} y={y + 4} textAnchor="end" fontSize={12} fill="#6b7280">
+                  {tick}%
+                </text>
+              </g>
+            );
+          })}
+
+          {rects.map((rect) => {
+            const active = isSelected(rect);
+            const dimmed = !!selected && !active;
+            const color = textColor(rect.fill);
+            // 空间足够时才标注，避免文字溢出
+            const lines = rect.width >= 60 && rect.height >= 34 ? rect.lines : rect.width >= 40 && rect.height >= 18 ? rect.lines.slice(-1) : [];
+            return (
+              <g
+                key={rect.id}
+                className={onSelect ? 'cursor-pointer' : undefined}
+                opacity={dimmed ? 0.45 : 1}
+                onClick={() => handleClick(rect)}
+                onMouseMove={(event) => handleMouseMove(rect, event)}
+              >
+                <rect
+                  x={rect.x}
+                  y={rect.y}
+                  width={rect.width}
+                  height={Math.max(0, rect.height - 1)}
+                  fill={rect.fill}
+                  stroke={active ? '#1d4ed8' : 'none'}
+                  strokeWidth={active ? 3 : 0}
+                />
+                {lines.map((line, index) => (
+                  <text
+                    key={index}
+                    x={rect.x + rect.width / 2}
+                    y={rect.y + rect.height / 2 + (index - (lines.length - 1) / 2) * 15 + 4}
+                    textAnchor="middle"
+                    fontSize={12}
+                    fill={color}
+                    pointerEvents="none"
+                  >
+                    {line}
+                  </text>
+                ))}
+              </g>
+            );
+          })}
+
+          {/* 列标签：横轴取值及其市场规模占比 */}
+          {(() => {
+            let cumulative = 0;
+            return columns.map((column) => {
+              const size = sizeOf(column);
+              const x = PLOT.left + (cumulative / total) * PLOT_WIDTH;
+              const width = (size / total) * PLOT_WIDTH - COLUMN_GAP;
+              cumulative += size;
+              if (width < 30) return null;
+              const center = x + width / 2;
+              return (
+                <g key={column.xValue} pointerEvents="none">
+                  <text x={center} y={HEIGHT - PLOT.bottom + 20} textAnchor="middle" fontSize={13} fill="#111827">
+                    {column.xValue}
+                  </text>
+                  <text x={center} y={HEIGHT - PLOT.bottom + 38} textAnchor="middle" fontSize={11} fill="#6b7280">
+                    {formatPercent((size / total) * 100)}
+                    {metric === 'growth' ? ` · ${formatGrowth(column.growthRate)}` : ''}
+                    {metric === 'shareChange' ? ` · ${formatChange(column.huiZhiShareChange)}` : ''}
+                  </text>
+                </g>
+              );
+            });
+          })()}
+          <text x={PLOT.left + PLOT_WIDTH / 2} y={HEIGHT - 6} textAnchor="middle" fontSize={12} fill="#6b7280">
+            {xLabel}（列宽 = {activeMeasure === 'volume' ? MEASURE_LABELS.volume : '市场规模'}）
+          </text>
+        </svg>
+
+        {hover && (
+          <div
+            className="absolute z-10 pointer-events-none bg-white/95 border border-gray-200 rounded-lg shadow-lg px-3 py-2 text-xs"
+            style={{
+              left: hover.left + 12,
+              top: hover.top + 12,
+              transform: hover.left > (containerRef.current?.clientWidth ?? 0) * 0.7 ? 'translateX(-110%)' : undefined,
+            }}
+          >
+            <div className="font-semibold text-gray-900 mb-1">
+              {xLabel}：{hover.rect.column.xValue}
+              {hover.rect.cell && (
+                <>
+                  <br />
+                  {yLabel}：{hover.rect.cell.yValue}
+                </>
+              )}
+            </div>
+            <table>
+              <tbody>
+                {tooltipRows(hover.rect).map(([label, value]) => (
+                  <tr key={label}>
+                    <td className="pr-3 text-gray-500">{label}</td>
+                    <td className="text-right text-gray-900">{value}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* 图例 */}
+      <div className="flex flex-wrap items-center gap-4 text-xs text-gray-600">
+        {stackBy === 'share' ? (
+          SHARE_PARTS.map((part) => (
+            <span key={part.key} className="flex items-center">
+              <span className="w-3 h-3 rounded-sm mr-1" style={{ backgroundColor: part.color }} />
+              {part.label}份额
+            </span>
+          ))
+        ) : metric === 'sales' ? (
+          yValues.map((value, index) => (
+            <span key={value} className="flex items-center">
+              <span
+                className="w-3 h-3 rounded-sm mr-1"
+                style={{ backgroundColor: CATEGORY_COLORS[index % CATEGORY_COLORS.length] }}
+              />
+              {value}
+            </span>
+          ))
+        ) : metric === 'growth' || metric === 'shareChange' ? (
+          <span className="flex items-center">
+            <span className="mr-2">{metric === 'growth' ? '增长率' : '晖致份额变化'}</span>
+            {metric === 'growth' ? formatGrowth(-maxGrowth) : formatChange(-maxChange)}
+            <span
+              className="w-32 h-3 rounded-sm mx-2"
+              style={{
+                background: `linear-gradient(to right, ${GROWTH_SCALE.negative}, ${GROWTH_SCALE.neutral}, ${GROWTH_SCALE.positive})`,
+              }}
+            />
+            {metric === 'growth' ? formatGrowth(maxGrowth) : formatChange(maxChange)}
+          </span>
+        ) : (
+          <span className="flex items-center">
+            <span className="mr-2">晖致份额</span>
+            0%
+            <span
+              className="w-32 h-3 rounded-sm mx-2"
+              style={{ background: `linear-gradient(to right, ${SHARE_SCALE[0]}, ${SHARE_SCALE[1]})` }}
+            />
+            {formatPercent(maxShare)}
+          </span>
+        )}
+        <span className="text-gray-400">列高按{stackBy === 'share' ? '份额构成' : `${yLabel}构成`}堆叠至 100%</span>
+      </div>
+    </div>
+  );
+}
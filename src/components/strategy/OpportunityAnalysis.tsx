@@ -1,17 +1,29 @@
 import { useState } from 'react';
-import { Opportunity, ReasonDimension, OpportunityAnalysis as OppAnalysis } from '../../types/strategy';
-import { mockOpportunities, defaultReasonDimensions } from '../../data/strategyMockData';
-import { Plus, X, CheckCircle } from 'lucide-react';
+import { Opportunity, ReasonDimension } from '../../types/strategy';
+import { analyzeOpportunity } from '../../services/opportunityService';
+import { Plus, X, CheckCircle, AlertCircle } from 'lucide-react';
 import { clsx } from 'clsx';
+import MarkdownContent from '../MarkdownContent';
+import { usePublishPageData } from '../../hooks/usePageContext';
+import { useWorkspaceCollection } from '../../hooks/useDataRepository';
 
 export default function OpportunityAnalysis() {
-  const [selectedOpportunity, setSelectedOpportunity] = useState<Opportunity | null>(mockOpportunities[0]);
-  const [reasonDimensions, setReasonDimensions] = useState<ReasonDimension[]>(defaultReasonDimensions);
-  const [analysis, setAnalysis] = useState<OppAnalysis | null>(null);
+  const { items: opportunities } = useWorkspaceCollection('opportunities');
+  const reasonDimensionStore = useWorkspaceCollection('reasonDimensions');
+  const analysisStore = useWorkspaceCollection('opportunityAnalyses');
+  const reasonDimensions = reasonDimensionStore.items;
+  // 未手动选择时默认第一个机会点
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selectedOpportunity: Opportunity | null = opportunities.find((o) => o.id === selectedId) ?? opportunities[0] ?? null;
+  // 每个机会点保存最近一次的机会提炼报告
+  const analysis = analysisStore.items.find((a) => a.opportunityId === selectedOpportunity?.id) ?? null;
+  const syncError = reasonDimensionStore.syncError ?? analysisStore.syncError;
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [newDimensionName, setNewDimensionName] = useState('');
   const [showAddDimension, setShowAddDimension] = useState(false);
 
+  usePublishPageData('opportunity', selectedOpportunity ?? undefined);
+
   const handleAddDimension = () => {
     if (!newDimensionName.trim()) return;
 
@@ -22,90 +34,33 @@ export default function OpportunityAnalysis() {
       isUserAdded: true,
     };
 
-    setReasonDimensions([...reasonDimensions, newDimension]);
+    reasonDimensionStore.save(newDimension);
     setNewDimensionName('');
     setShowAddDimension(false);
   };
 
-  const handleRemoveDimension = (id: string) => {
-    setReasonDimensions(reasonDimensions.filter((d) => d.id !== id));
+  const handleRemoveDimension = (dimension: ReasonDimension) => {
+    reasonDimensionStore.remove(dimension);
+  };
+
+  const dismissSyncError = () => {
+    reasonDimensionStore.dismissSyncError();
+    analysisStore.dismissSyncError();
   };
 
   const handleAnalyze = async () => {
     if (!selectedOpportunity) return;
 
     setIsAnalyzing(true);
-    // 模拟AI分析
-    setTimeout(() => {
-      setAnalysis({
-        opportunityId: selectedOpportunity.id,
-        reasons: reasonDimensions.map((dim) => ({
-          dimension: dim,
-          analysis: generateMockAnalysis(dim, selectedOpportunity),
-          evidence: generateMockEvidence(dim),
-        })),
-        strategyDirections: generateMockStrategyDirections(selectedOpportunity),
-        createdAt: new Date(),
-      });
+    try {
+      const result = await analyzeOpportunity(selectedOpportunity, reasonDimensions);
+      // 覆盖该机会点已保存的报告
+      analysisStore.save(result);
+    } catch (error) {
+      console.error('Failed to analyze opportunity:', error);
+    } finally {
       setIsAnalyzing(false);
-    }, 2000);
-  };
-
-  const generateMockAnalysis = (dim: ReasonDimension, opp: Opportunity): string => {
-    const analyses: Record<string, string> = {
-      product: `产品因素：${opp.marketSegment}中，晖致产品在适应症覆盖、价格竞争力等方面存在不足，需要优化产品定位和定价策略。`,
-      businessModel: `商业模式因素：当前渠道策略和推广模式可能不适合该细分市场，需要调整商业模式以适应市场特点。`,
-      resource: `资源分配因素：在该细分市场的投入相对不足，人力、市场资源分配需要优化，以提升市场竞争力。`,
-      organization: `组织因素：团队能力建设和激励机制可能不够完善，需要加强组织能力建设和优化激励机制。`,
-      other: `其他因素：市场准入、政策变化等因素可能影响了在该细分市场的表现，需要关注政策变化和市场准入情况。`,
-    };
-    return analyses[dim.category] || `需要进一步分析${dim.name}对该机会点的影响。`;
-  };
-
-  const generateMockEvidence = (dim: ReasonDimension): string[] => {
-    return [
-      `基于${dim.name}维度的数据分析显示存在明显差距`,
-      `相关市场调研和竞品分析支持该判断`,
-      `内部运营数据验证了该维度的关键影响`,
-    ];
-  };
-
-  const generateMockStrategyDirections = (_opp: Opportunity): any[] => {
-    return [
-      {
-        id: 'sd1',
-        title: '提升Non-CV占比',
-        description: '通过优化产品组合和推广策略，提升非心血管产品在该细分市场的占比',
-        actions: [
-          '从管理上优化对于Non-CV产品的激励政策',
-          '鼓励各省组建Non-CV产品转队',
-          '加强Non-CV产品的学术推广和医生教育',
-        ],
-        basedOnLogic: 'expansion',
-      },
-      {
-        id: 'sd2',
-        title: '加强解限工作',
-        description: '针对该细分市场的重点医院，加强解限工作，提升市场准入',
-        actions: [
-          '识别该细分市场的核心影响型医院',
-          '制定针对性的解限策略和行动计划',
-          '建立解限进度跟踪机制',
-        ],
-        basedOnLogic: 'deLimit',
-      },
-      {
-        id: 'sd3',
-        title: '深化市场渗透',
-        description: '通过学术推广和医生关系维护，深化在该细分市场的渗透',
-        actions: [
-          '开展针对性的学术推广活动',
-          '建立该细分市场的KOL关系网络',
-          '提供专业化的推广材料和工具',
-        ],
-        basedOnLogic: 'penetration',
-      },
-    ];
+    }
   };
 
   const getCategoryColor = (category: string) => {
@@ -130,16 +85,25 @@ export default function OpportunityAnalysis() {
 
   return (
     <div className="space-y-6">
+      {syncError && (
+        <div className="flex items-start space-x-2 p-3 text-sm text-orange-700 bg-orange-50 border border-orange-200 rounded-lg">
+          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span className="flex-1">{syncError}</span>
+          <button onClick={dismissSyncError} className="text-orange-500 hover:text-orange-700" title="关闭">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       {/* 机会点选择 */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
         <h3 className="text-lg font-bold text-gray-900 mb-4">选择机会点</h3>
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          {mockOpportunities.map((opp) => (
+          {opportunities.map((opp) => (
             <button
               key={opp.id}
               onClick={() => {
-                setSelectedOpportunity(opp);
-                setAnalysis(null);
+                setSelectedId(opp.id);
               }}
               className={clsx(
                 'text-left p-4 rounded-lg border-2 transition-all',
@@ -240,7 +204,7 @@ export default function OpportunityAnalysis() {
                   </div>
                   {dim.isUserAdded && (
                     <button
-                      onClick={() => handleRemoveDimension(dim.id)}
+                      onClick={() => handleRemoveDimension(dim)}
                       className="p-1 text-red-600 hover:bg-red-50 rounded"
                     >
                       <X className="w-4 h-4" />
@@ -286,7 +250,7 @@ export default function OpportunityAnalysis() {
                           {reason.dimension.category}
                         </span>
                       </div>
-                      <p className="text-sm text-gray-700 mb-2">{reason.analysis}</p>
+                      <MarkdownContent content={reason.analysis} className="text-sm text-gray-700 mb-2" />
                       <div className="space-y-1">
                         {reason.evidence.map((ev, i) => (
                           <div key={i} className="flex items-start text-sm text-gray-600">
@@ -317,7 +281,7 @@ export default function OpportunityAnalysis() {
                               {getLogicLabel(direction.basedOnLogic)}
                             </span>
                           </div>
-                          <p className="text-sm text-gray-700 mb-3">{direction.description}</p>
+                          <MarkdownContent content={direction.description} className="text-sm text-gray-700 mb-3" />
                         </div>
                       </div>
                       <div>
@@ -0,0 +1,234 @@
+import { useMemo, useState } from 'react';
+import { Opportunity } from '../../types/strategy';
+import { useSettings } from '../../hooks/useSettings';
+import { useWorkspaceCollection } from '../../hooks/useDataRepository';
+import { MarketPivotColumn } from '../../services/marketSegments';
+import {
+  buildOpportunityDraft,
+  OPPORTUNITY_SCORE_FACTOR_DESCRIPTIONS,
+  OPPORTUNITY_SCORE_FACTOR_LABELS,
+  OPPORTUNITY_SCORE_FACTORS,
+  OpportunityScoreFactor,
+  scoreOpportunities,
+  ScoredOpportunity,
+  validateOpportunityScoreWeights,
+} from '../../services/opportunityScoring';
+import { AlertCircle, CheckCircle2, ChevronDown, ChevronUp, Plus, RotateCcw, SlidersHorizontal } from 'lucide-react';
+import { clsx } from 'clsx';
+
+interface OpportunityDetectionProps {
+  brand: string;
+  columns: MarketPivotColumn[];
+}
+
+const VISIBLE_COUNT = 5;
+
+const FACTOR_COLORS: Record<OpportunityScoreFactor, string> = {
+  marketSize: '#3b82f6',
+  growth: '#10b981',
+  competitorGap: '#ef4444',
+  adjacentShare: '#8b5cf6',
+};
+
+const POTENTIAL_LABELS: Record<Opportunity['potential'], string> = {
+  high: '高潜力',
+  medium: '中潜力',
+  low: '低潜力',
+};
+
+const POTENTIAL_COLORS: Record<Opportunity['potential'], string> = {
+  high: 'bg-orange-200 text-orange-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-gray-100 text-gray-600',
+};
+
+// 各因素的原始值
+function formatFactor(item: ScoredOpportunity, factor: OpportunityScoreFactor): string {
+  switch (factor) {
+    case 'marketSize':
+      return item.value.toFixed(1);
+    case 'growth':
+      return item.growthRate === undefined ? '—' : `${item.growthRate > 0 ? '+' : ''}${item.growthRate.toFixed(1)}%`;
+    case 'competitorGap':
+      return `${(item.competitorShare - item.huiZhiShare).toFixed(1)}个百分点`;
+    case 'adjacentShare':
+      return item.adjacentShare === undefined ? '—' : `${item.adjacentShare.toFixed(1)}%`;
+  }
+}
+
+// 机会点识别：按可调权重对晖致落后于领先竞品的细分市场评分，展示评分构成，并可一键转为机会点
+export default function OpportunityDetection({ brand, columns }: OpportunityDetectionProps) {
+  const { settings, updateOpportunityScoreWeights, resetOpportunityScoreWeights } = useSettings();
+  const { items: savedOpportunities, save: saveOpportunity, syncError } = useWorkspaceCollection('opportunities');
+  const weights = settings.opportunityScoreWeights;
+  const validationError = validateOpportunityScoreWeights(weights);
+  const [showWeights, setShowWeights] = useState(false);
+  const [showAll, setShowAll] = useState(false);
+
+  const scored = useMemo(() => scoreOpportunities(columns, weights), [columns, weights]);
+  const visible = showAll ? scored : scored.slice(0, VISIBLE_COUNT);
+  const totalWeight = OPPORTUNITY_SCORE_FACTORS.reduce((sum, factor) => sum + (weights[factor] || 0), 0);
+
+  // 同一品牌的同一细分市场只转一次
+  const promoted = useMemo(
+    () => new Set(savedOpportunities.map((o) => `${o.title}|${o.marketSegment}`)),
+    [savedOpportunities]
+  );
+
+  const handlePromote = (item: ScoredOpportunity) => {
+    const now = new Date();
+    saveOpportunity({
+      id: `opp-${Date.now()}`,
+      ...buildOpportunityDraft(brand, item),
+      createdAt: now,
+      updatedAt: now,
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <AlertCircle className="w-5 h-5 text-orange-500" />
+          <h3 className="text-lg font-bold text-gray-900">机会点识别</h3>
+        </div>
+        <button
+          onClick={() => setShowWeights((prev) => !prev)}
+          className={clsx(
+            'flex items-center space-x-1 px-3 py-1 rounded-lg text-sm transition-colors',
+            showWeights
+              ? 'bg-primary-100 text-primary-700 border border-primary-300'
+              : 'bg-gray-50 text-gray-600 border border-gray-200 hover:bg-gray-100'
+          )}
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+          <span>评分权重</span>
+        </button>
+      </div>
+
+      {/* 评分权重：修改即生效并保存到系统设置 */}
+      {showWeights && (
+        <div className="mb-4 border border-gray-200 bg-gray-50 rounded-lg p-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-3">
+            {OPPORTUNITY_SCORE_FACTORS.map((factor) => (
+              <label key={factor} className="block text-sm">
+                <div className="flex items-center justify-between mb-1">
+                  <span className="flex items-center text-gray-700">
+                    <span className="w-2.5 h-2.5 rounded-sm mr-1.5" style={{ backgroundColor: FACTOR_COLORS[factor] }} />
+                    {OPPORTUNITY_SCORE_FACTOR_LABELS[factor]}
+                  </span>
+                  <span className="text-gray-500">
+                    {weights[factor]}
+                    {totalWeight > 0 && `（${((weights[factor] / totalWeight) * 100).toFixed(0)}%）`}
+                  </span>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  step={5}
+                  value={weights[factor]}
+                  onChange={(e) => updateOpportunityScoreWeights({ ...weights, [factor]: e.target.valueAsNumber })}
+                  className="w-full accent-primary-600"
+                />
+                <span className="text-xs text-gray-400">{OPPORTUNITY_SCORE_FACTOR_DESCRIPTIONS[factor]}</span>
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center justify-between mt-3">
+            <span className="text-xs text-gray-500">
+              各因素在当前候选细分市场中换算为0-100分，按权重加权得到综合评分
+            </span>
+            <button
+              onClick={resetOpportunityScoreWeights}
+              className="flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-900"
+            >
+              <RotateCcw className="w-4 h-4" />
+              <span>恢复默认</span>
+            </button>
+          </div>
+        </div>
+      )}
+
+      {syncError && <p className="mb-4 text-sm text-red-600">{syncError}</p>}
+
+      {validationError ? (
+        <p className="text-sm text-red-600">{validationError}</p>
+      ) : scored.length === 0 ? (
+        <p className="text-sm text-gray-500">当前维度和筛选下，晖致在各细分市场均不落后于领先竞品</p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-600 mb-4">
+            以下是{brand}大盘中晖致份额落后于领先竞品的细分市场，按机会评分排序：
+          </p>
+          <div className="space-y-3">
+            {visible.map((item) => {
+              const draft = buildOpportunityDraft(brand, item);
+              return (
+                <div key={item.segment} className="border border-orange-200 rounded-lg p-4 bg-orange-50">
+                  <div className="flex items-start justify-between gap-4 mb-3">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-semibold text-gray-900">{item.segment}</span>
+                      <span className="text-xs px-2 py-1 rounded-full bg-white text-gray-900 border border-orange-200">
+                        评分 {item.score}
+                      </span>
+                      <span className={clsx('text-xs px-2 py-1 rounded-full', POTENTIAL_COLORS[draft.potential])}>
+                        {POTENTIAL_LABELS[draft.potential]}
+                      </span>
+                    </div>
+                    {promoted.has(`${draft.title}|${draft.marketSegment}`) ? (
+                      <span className="flex items-center flex-shrink-0 text-sm text-green-700">
+                        <CheckCircle2 className="w-4 h-4 mr-1" />
+                        已转为机会点
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => handlePromote(item)}
+                        className="flex items-center flex-shrink-0 space-x-1 px-3 py-1 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded-lg transition-colors"
+                      >
+                        <Plus className="w-4 h-4" />
+                        <span>转为机会点</span>
+                      </button>
+                    )}
+                  </div>
+
+                  {/* 评分构成：各因素贡献按权重折算，合计为综合评分 */}
+                  <div className="flex h-2.5 w-full rounded-full bg-white overflow-hidden mb-2">
+                    {item.breakdown.map((b) => (
+                      <div
+                        key={b.factor}
+                        style={{ width: `${b.contribution}%`, backgroundColor: FACTOR_COLORS[b.factor] }}
+                        title={`${OPPORTUNITY_SCORE_FACTOR_LABELS[b.factor]}：${b.contribution}`}
+                      />
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-x-4 gap-y-1 text-sm">
+                    {item.breakdown.map((b) => (
+                      <div key={b.factor}>
+                        <span className="text-gray-600">{OPPORTUNITY_SCORE_FACTOR_LABELS[b.factor]}：</span>
+                        <span className="font-semibold text-gray-900">{formatFactor(item, b.factor)}</span>
+                        <span className="ml-1 text-xs text-gray-500">
+                          {b.score}分 · 贡献{b.contribution}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="mt-2 text-xs text-gray-500">{draft.currentGap}</p>
+                </div>
+              );
+            })}
+          </div>
+          {scored.length > VISIBLE_COUNT && (
+            <button
+              onClick={() => setShowAll((prev) => !prev)}
+              className="mt-3 flex items-center text-sm text-primary-600 hover:text-primary-700"
+            >
+              {showAll ? <ChevronUp className="w-4 h-4 mr-1" /> : <ChevronDown className="w-4 h-4 mr-1" />}
+              {showAll ? '收起' : `展开全部（${scored.length}）`}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
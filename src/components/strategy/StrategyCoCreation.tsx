@@ -1,15 +1,20 @@
 import { useState } from 'react';
 import { StrategyProposal } from '../../types/strategy';
-import { mockStrategyProposals } from '../../data/strategyMockData';
-import { Edit2, Trash2, Copy, GripVertical, Plus, Save } from 'lucide-react';
+import { Edit2, Trash2, Copy, GripVertical, Plus, Save, AlertCircle, X } from 'lucide-react';
 import { clsx } from 'clsx';
+import { usePublishPageData } from '../../hooks/usePageContext';
+import { useStrategy } from '../../hooks/useStrategy';
 
 export default function StrategyCoCreation() {
-  const [strategies, setStrategies] = useState<StrategyProposal[]>(mockStrategyProposals);
+  const { strategies, syncError, dismissSyncError, saveStrategy, deleteStrategy, reorderStrategies, commitStrategyOrder } =
+    useStrategy();
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editingStrategy, setEditingStrategy] = useState<StrategyProposal | null>(null);
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
 
+  // 正在编辑的策略建议作为AI助手的上下文
+  usePublishPageData('strategyProposal', editingStrategy ?? undefined);
+
   const handleEdit = (strategy: StrategyProposal) => {
     setEditingId(strategy.id);
     setEditingStrategy({ ...strategy });
@@ -18,9 +23,7 @@ export default function StrategyCoCreation() {
   const handleSave = () => {
     if (!editingStrategy) return;
 
-    setStrategies(
-      strategies.map((s) => (s.id === editingStrategy.id ? { ...editingStrategy, updatedAt: new Date() } : s))
-    );
+    saveStrategy({ ...editingStrategy, updatedAt: new Date() });
     setEditingId(null);
     setEditingStrategy(null);
   };
@@ -32,7 +35,7 @@ export default function StrategyCoCreation() {
 
   const handleDelete = (id: string) => {
     if (confirm('确定要删除这个策略建议吗？')) {
-      setStrategies(strategies.filter((s) => s.id !== id));
+      deleteStrategy(id);
     }
   };
 
@@ -47,7 +50,7 @@ export default function StrategyCoCreation() {
       updatedAt: new Date(),
       isFromAI: false,
     };
-    setStrategies([...strategies, newStrategy]);
+    saveStrategy(newStrategy);
   };
 
   const handleDragStart = (index: number) => {
@@ -63,14 +66,14 @@ export default function StrategyCoCreation() {
     newStrategies.splice(draggedIndex, 1);
     newStrategies.splice(index, 0, dragged);
 
-    // 更新优先级
-    const updated = newStrategies.map((s, i) => ({ ...s, priority: i + 1 }));
-    setStrategies(updated);
+    // 按新顺序更新优先级
+    reorderStrategies(newStrategies);
     setDraggedIndex(index);
   };
 
   const handleDragEnd = () => {
     setDraggedIndex(null);
+    commitStrategyOrder();
   };
 
   const handleAddNew = () => {
@@ -85,7 +88,7 @@ export default function StrategyCoCreation() {
       updatedAt: new Date(),
       isFromAI: false,
     };
-    setStrategies([...strategies, newStrategy]);
+    saveStrategy(newStrategy);
     setEditingId(newStrategy.id);
     setEditingStrategy(newStrategy);
   };
@@ -94,6 +97,16 @@ export default function StrategyCoCreation() {
 
   return (
     <div className="space-y-6">
+      {syncError && (
+        <div className="flex items-start space-x-2 p-3 text-sm text-orange-700 bg-orange-50 border border-orange-200 rounded-lg">
+          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span className="flex-1">{syncError}</span>
+          <button onClick={dismissSyncError} className="text-orange-500 hover:text-orange-700" title="关闭">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       {/* 策略列表 */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
         <div className="flex items-center justify-between mb-4">
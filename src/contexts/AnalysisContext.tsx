@@ -1,28 +1,20 @@
-import { createContext, useContext, useState, ReactNode, useCallback } from 'react';
+import { useState, useEffect, ReactNode, useCallback } from 'react';
 import { AIAnalysis } from '../types';
-
-interface AnalysisContextType {
-  currentAnalysis: AIAnalysis | null;
-  setCurrentAnalysis: (analysis: AIAnalysis | null) => void;
-  // 缓存管理
-  analysisCache: Map<string, AIAnalysis>;
-  getCachedAnalysis: (key: string) => AIAnalysis | null;
-  setCachedAnalysis: (key: string, analysis: AIAnalysis) => void;
-  clearCachedAnalysis: (key: string) => void;
-  // 刷新标记
-  needsRefresh: Set<string>;
-  refreshTrigger: number; // 用于触发重新渲染
-  markNeedsRefresh: (key: string) => void;
-  clearNeedsRefresh: (key: string) => void;
-}
-
-const AnalysisContext = createContext<AnalysisContextType | undefined>(undefined);
+import { AnalysisContext } from '../hooks/useAnalysis';
+import { useDataset } from '../hooks/useDataset';
 
 export function AnalysisProvider({ children }: { children: ReactNode }) {
   const [currentAnalysis, setCurrentAnalysis] = useState<AIAnalysis | null>(null);
   const [analysisCache, setAnalysisCache] = useState<Map<string, AIAnalysis>>(new Map());
   const [needsRefresh, setNeedsRefresh] = useState<Set<string>>(new Set());
   const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const { activeDataset } = useDataset();
+
+  // 分析结果基于特定数据集版本，切换版本后清空缓存
+  useEffect(() => {
+    setAnalysisCache(new Map());
+    setCurrentAnalysis(null);
+  }, [activeDataset.id]);
 
   const getCachedAnalysis = useCallback((key: string): AIAnalysis | null => {
     return analysisCache.get(key) || null;
@@ -80,12 +72,3 @@ export function AnalysisProvider({ children }: { children: ReactNode }) {
     </AnalysisContext.Provider>
   );
 }
-
-export function useAnalysis() {
-  const context = useContext(AnalysisContext);
-  if (context === undefined) {
-    throw new Error('useAnalysis must be used within an AnalysisProvider');
-  }
-  return context;
-}
-
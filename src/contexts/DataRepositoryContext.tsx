@@ -0,0 +1,29 @@
+import { useState, useMemo, useRef, ReactNode } from 'react';
+import { createDataRepository } from '../services/repository';
+import { DataRepositoryContext } from '../hooks/useDataRepository';
+import { useDataset } from '../hooks/useDataset';
+import { useSettings } from '../hooks/useSettings';
+
+// 所有业务数据读写经由 DataRepository，具体实现由 VITE_DATA_SOURCE 决定
+export function DataRepositoryProvider({ children }: { children: ReactNode }) {
+  const { activeDataset } = useDataset();
+  const { settings } = useSettings();
+  const revision = `${activeDataset.id}@${settings.updatedAt}`;
+  // 数据源只创建一次，通过 ref 读取最新的评分设置、目标值和数据版本
+  const healthScoreConfig = useRef(settings.healthScore);
+  healthScoreConfig.current = settings.healthScore;
+  const metricTargets = useRef(settings.targets);
+  metricTargets.current = settings.targets;
+  const currentRevision = useRef(revision);
+  currentRevision.current = revision;
+  const [repository] = useState(() =>
+    createDataRepository({
+      getHealthScoreConfig: () => healthScoreConfig.current,
+      getMetricTargets: () => metricTargets.current,
+      getRevision: () => currentRevision.current,
+    })
+  );
+  const value = useMemo(() => ({ repository, revision }), [repository, revision]);
+
+  return <DataRepositoryContext.Provider value={value}>{children}</DataRepositoryContext.Provider>;
+}
@@ -0,0 +1,54 @@
+import { useState, useEffect, useCallback, ReactNode } from 'react';
+import { Dataset } from '../types/dataset';
+import {
+  BUILT_IN_DATASET,
+  createDatasetVersion,
+  DatasetImportInput,
+  getActiveDatasetId,
+  listDatasets,
+  saveDataset,
+  setActiveDatasetId,
+} from '../services/datasetStore';
+import { DatasetContext } from '../hooks/useDataset';
+
+// 数据集版本管理；业务数据通过 DataRepository 读取（浏览器本地数据源使用当前启用的版本）
+export function DatasetProvider({ children }: { children: ReactNode }) {
+  const [datasets, setDatasets] = useState<Dataset[]>([BUILT_IN_DATASET]);
+  const [activeId, setActiveId] = useState(getActiveDatasetId);
+
+  useEffect(() => {
+    listDatasets().then(setDatasets);
+  }, []);
+
+  const activeDataset = datasets.find((d) => d.id === activeId) ?? datasets.find((d) => d.builtIn) ?? BUILT_IN_DATASET;
+
+  const activateDataset = useCallback((id: string) => {
+    setActiveId(id);
+    setActiveDatasetId(id);
+  }, []);
+
+  const commitImport = useCallback(
+    async (input: DatasetImportInput) => {
+      const nextVersion = Math.max(...datasets.map((d) => d.version)) + 1;
+      const created = createDatasetVersion(activeDataset, nextVersion, input);
+      await saveDataset(created);
+      setDatasets((prev) => [created, ...prev]);
+      activateDataset(created.id);
+      return created;
+    },
+    [datasets, activeDataset, activateDataset]
+  );
+
+  return (
+    <DatasetContext.Provider
+      value={{
+        datasets,
+        activeDataset,
+        commitImport,
+        activateDataset,
+      }}
+    >
+      {children}
+    </DatasetContext.Provider>
+  );
+}
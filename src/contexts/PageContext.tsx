@@ -0,0 +1,25 @@
+import { useState, ReactNode, useCallback } from 'react';
+import { PageContextData } from '../types/pageContext';
+import { PageContext } from '../hooks/usePageContext';
+
+export function PageContextProvider({ children }: { children: ReactNode }) {
+  const [pageData, setPageDataState] = useState<PageContextData>({});
+
+  const setPageData = useCallback(
+    <K extends keyof PageContextData>(key: K, value: PageContextData[K] | undefined) => {
+      setPageDataState((prev) => {
+        if (prev[key] === value) return prev;
+        const next = { ...prev };
+        if (value === undefined) {
+          delete next[key];
+        } else {
+          next[key] = value;
+        }
+        return next;
+      });
+    },
+    []
+  );
+
+  return <PageContext.Provider value={{ pageData, setPageData }}>{children}</PageContext.Provider>;
+}
@@ -0,0 +1,66 @@
+import { useState, useCallback, ReactNode } from 'react';
+import { HealthScoreConfig, DEFAULT_HEALTH_SCORE_CONFIG } from '../services/healthScore';
+import { AppSettings, loadSettings, saveSettings } from '../services/settingsStore';
+import { DEFAULT_METRIC_TARGETS, MetricTarget } from '../services/targets';
+import { DEFAULT_RISK_RULES, RiskRule } from '../services/riskRules';
+import { DEFAULT_OPPORTUNITY_SCORE_WEIGHTS, OpportunityScoreWeights } from '../services/opportunityScoring';
+import { SettingsContext } from '../hooks/useSettings';
+
+// 系统设置（健康度评分规则、指标目标值、风险规则、机会点评分权重），修改后各页面的数据按新设置重新计算
+export function SettingsProvider({ children }: { children: ReactNode }) {
+  const [settings, setSettings] = useState(loadSettings);
+
+  const updateSettings = useCallback((patch: Partial<Omit<AppSettings, 'updatedAt'>>) => {
+    setSettings((prev) => {
+      const next = { ...prev, ...patch, updatedAt: new Date().toISOString() };
+      saveSettings(next);
+      return next;
+    });
+  }, []);
+
+  const updateHealthScoreConfig = useCallback(
+    (config: HealthScoreConfig) => updateSettings({ healthScore: config }),
+    [updateSettings]
+  );
+
+  const resetHealthScoreConfig = useCallback(
+    () => updateSettings({ healthScore: DEFAULT_HEALTH_SCORE_CONFIG }),
+    [updateSettings]
+  );
+
+  const updateTargets = useCallback((targets: MetricTarget[]) => updateSettings({ targets }), [updateSettings]);
+
+  const resetTargets = useCallback(() => updateSettings({ targets: DEFAULT_METRIC_TARGETS }), [updateSettings]);
+
+  const updateRiskRules = useCallback((riskRules: RiskRule[]) => updateSettings({ riskRules }), [updateSettings]);
+
+  const resetRiskRules = useCallback(() => updateSettings({ riskRules: DEFAULT_RISK_RULES }), [updateSettings]);
+
+  const updateOpportunityScoreWeights = useCallback(
+    (opportunityScoreWeights: OpportunityScoreWeights) => updateSettings({ opportunityScoreWeights }),
+    [updateSettings]
+  );
+
+  const resetOpportunityScoreWeights = useCallback(
+    () => updateSettings({ opportunityScoreWeights: DEFAULT_OPPORTUNITY_SCORE_WEIGHTS }),
+    [updateSettings]
+  );
+
+  return (
+    <SettingsContext.Provider
+      value={{
+        settings,
+        updateHealthScoreConfig,
+        resetHealthScoreConfig,
+        updateTargets,
+        resetTargets,
+        updateRiskRules,
+        resetRiskRules,
+        updateOpportunityScoreWeights,
+        resetOpportunityScoreWeights,
+      }}
+    >
+      {children}
+    </SettingsContext.Provider>
+  );
+}
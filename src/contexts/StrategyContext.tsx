@@ -0,0 +1,76 @@
+import { useRef, ReactNode, useCallback } from 'react';
+import { StrategyProposal } from '../types/strategy';
+import { useWorkspaceCollection } from '../hooks/useDataRepository';
+import { StrategyContext } from '../hooks/useStrategy';
+
+// 策略建议在策略共创页面和AI助手之间共享，通过 DataRepository 持久化
+export function StrategyProvider({ children }: { children: ReactNode }) {
+  const {
+    items: strategies,
+    syncError,
+    dismissSyncError,
+    setLocalItems,
+    save: saveStrategy,
+    remove,
+  } = useWorkspaceCollection('strategyProposals');
+  // 拖拽开始前的优先级，用于拖拽结束后找出需要保存的策略
+  const priorityBaseline = useRef<Map<string, number> | null>(null);
+
+  const deleteStrategy = useCallback(
+    (id: string) => {
+      const strategy = strategies.find((s) => s.id === id);
+      if (strategy) remove(strategy);
+    },
+    [strategies, remove]
+  );
+
+  const reorderStrategies = useCallback(
+    (ordered: StrategyProposal[]) => {
+      if (!priorityBaseline.current) {
+        priorityBaseline.current = new Map(strategies.map((s) => [s.id, s.priority]));
+      }
+      setLocalItems(ordered.map((s, i) => ({ ...s, priority: i + 1 })));
+    },
+    [strategies, setLocalItems]
+  );
+
+  const commitStrategyOrder = useCallback(() => {
+    const baseline = priorityBaseline.current;
+    priorityBaseline.current = null;
+    if (!baseline) return;
+    strategies.filter((s) => baseline.get(s.id) !== s.priority).forEach(saveStrategy);
+  }, [strategies, saveStrategy]);
+
+  const addStrategy = useCallback(
+    (strategy: Omit<StrategyProposal, 'id' | 'priority' | 'createdAt' | 'updatedAt'>): StrategyProposal => {
+      const now = new Date();
+      const created: StrategyProposal = {
+        ...strategy,
+        id: `sp-${now.getTime()}`,
+        priority: strategies.length + 1,
+        createdAt: now,
+        updatedAt: now,
+      };
+      saveStrategy(created);
+      return created;
+    },
+    [strategies.length, saveStrategy]
+  );
+
+  return (
+    <StrategyContext.Provider
+      value={{
+        strategies,
+        syncError,
+        dismissSyncError,
+        saveStrategy,
+        deleteStrategy,
+        reorderStrategies,
+        commitStrategyOrder,
+        addStrategy,
+      }}
+    >
+      {children}
+    </StrategyContext.Provider>
+  );
+}
@@ -1,4 +1,13 @@
-import { Product, ProductPerformance, Province, ProvincePerformance } from '../types';
+import {
+  Product,
+  ProductMetricKey,
+  ProductMetricSnapshot,
+  ProductProvinceMetricKey,
+  ProductProvinceMetricRecord,
+  Province,
+  ProvinceBaseMetricKey,
+  ProvinceMetricRecord,
+} from '../types';
 
 // 模拟产品数据
 export const mockProducts: Product[] = [
@@ -10,99 +19,63 @@ export const mockProducts: Product[] = [
   { id: 'p6', name: '怡诺思', moleculeFormula: '文拉法辛', category: '精神科' },
 ];
 
-// 模拟产品表现数据（2024 Q1）
-export const mockProductPerformance: ProductPerformance[] = [
-  {
-    productId: 'p1',
-    productName: '立普妥',
-    moleculeFormula: '阿托伐他汀',
-    moleculeShare: 35.2,
-    moleculeShareChange: 2.1,
-    moleculeInternalShare: 28.5,
-    moleculeInternalShareChange: -3.2, // 风险：分子式涨但分子式内份额下跌
-    competitorShare: 45.8,
-    competitorShareChange: 1.5,
-    deLimitRate: 78.5,
-    deLimitRateChange: -5.2, // 风险：解限率下降
-    period: '2024-Q1',
-    previousPeriod: '2023-Q4',
-  },
-  {
-    productId: 'p2',
-    productName: '络活喜',
-    moleculeFormula: '氨氯地平',
-    moleculeShare: 42.3,
-    moleculeShareChange: 1.8,
-    moleculeInternalShare: 38.9,
-    moleculeInternalShareChange: 2.1,
-    competitorShare: 35.2,
-    competitorShareChange: -1.2,
-    deLimitRate: 85.2,
-    deLimitRateChange: 3.5,
-    period: '2024-Q1',
-    previousPeriod: '2023-Q4',
-  },
-  {
-    productId: 'p3',
-    productName: '西乐葆',
-    moleculeFormula: '塞来昔布',
-    moleculeShare: 32.5,
-    moleculeShareChange: 1.2,
-    moleculeInternalShare: 28.8,
-    moleculeInternalShareChange: -1.5,
-    competitorShare: 42.3,
-    competitorShareChange: 2.1,
-    deLimitRate: 82.5,
-    deLimitRateChange: 1.8,
-    period: '2024-Q1',
-    previousPeriod: '2023-Q4',
-  },
-  {
-    productId: 'p4',
-    productName: '乐瑞卡',
-    moleculeFormula: '普瑞巴林',
-    moleculeShare: 25.8,
-    moleculeShareChange: 2.5,
-    moleculeInternalShare: 22.3,
-    moleculeInternalShareChange: 1.8,
-    competitorShare: 48.5,
-    competitorShareChange: -1.2,
-    deLimitRate: 75.2,
-    deLimitRateChange: 2.3,
-    period: '2024-Q1',
-    previousPeriod: '2023-Q4',
-  },
-  {
-    productId: 'p5',
-    productName: '左洛复',
-    moleculeFormula: '舍曲林',
-    moleculeShare: 18.5,
-    moleculeShareChange: -1.2,
-    moleculeInternalShare: 15.2,
-    moleculeInternalShareChange: -2.5,
-    competitorShare: 55.8,
-    competitorShareChange: 2.8,
-    deLimitRate: 68.5,
-    deLimitRateChange: -3.2,
-    period: '2024-Q1',
-    previousPeriod: '2023-Q4',
-  },
-  {
-    productId: 'p6',
-    productName: '怡诺思',
-    moleculeFormula: '文拉法辛',
-    moleculeShare: 22.3,
-    moleculeShareChange: 0.8,
-    moleculeInternalShare: 18.5,
-    moleculeInternalShareChange: -0.5,
-    competitorShare: 52.2,
-    competitorShareChange: 1.5,
-    deLimitRate: 72.8,
-    deLimitRateChange: 1.2,
-    period: '2024-Q1',
-    previousPeriod: '2023-Q4',
+// 历史数据覆盖的周期（按时间升序）
+export const mockPeriods = ['2023-Q1', '2023-Q2', '2023-Q3', '2023-Q4', '2024-Q1'];
+
+// 按周期顺序展开成快照
+function toSnapshots<K extends string>(series: Record<K, number[]>) {
+  return mockPeriods.map((period, index) => {
+    const values = {} as Record<K, number>;
+    (Object.keys(series) as K[]).forEach((key) => {
+      values[key] = series[key][index];
+    });
+    return { period, values };
+  });
+}
+
+// 模拟产品指标历史（每个数组对应 mockPeriods 的各周期）
+const productSeries: Record<string, Record<ProductMetricKey, number[]>> = {
+  p1: {
+    moleculeShare: [31.8, 32.5, 32.9, 33.1, 35.2],
+    moleculeInternalShare: [33.0, 32.6, 32.2, 31.7, 28.5], // 风险：分子式涨但分子式内份额下跌
+    competitorShare: [43.2, 43.6, 44.0, 44.3, 45.8],
+    deLimitRate: [82.1, 82.9, 83.5, 83.7, 78.5], // 风险：解限率下降
   },
-];
+  p2: {
+    moleculeShare: [38.6, 39.2, 39.9, 40.5, 42.3],
+    moleculeInternalShare: [35.1, 35.7, 36.2, 36.8, 38.9],
+    competitorShare: [37.5, 37.1, 36.8, 36.4, 35.2],
+    deLimitRate: [78.2, 79.5, 80.6, 81.7, 85.2],
+  },
+  p3: {
+    moleculeShare: [30.2, 30.6, 31.0, 31.3, 32.5],
+    moleculeInternalShare: [30.8, 30.9, 30.6, 30.3, 28.8],
+    competitorShare: [39.1, 39.5, 39.8, 40.2, 42.3],
+    deLimitRate: [79.3, 79.8, 80.2, 80.7, 82.5],
+  },
+  p4: {
+    moleculeShare: [20.1, 21.2, 22.4, 23.3, 25.8],
+    moleculeInternalShare: [18.2, 19.0, 19.8, 20.5, 22.3],
+    competitorShare: [50.8, 50.5, 50.1, 49.7, 48.5],
+    deLimitRate: [69.5, 70.8, 71.6, 72.9, 75.2],
+  },
+  p5: {
+    moleculeShare: [21.2, 20.8, 20.3, 19.7, 18.5],
+    moleculeInternalShare: [19.5, 18.9, 18.3, 17.7, 15.2],
+    competitorShare: [50.2, 51.1, 52.0, 53.0, 55.8],
+    deLimitRate: [74.2, 73.5, 72.6, 71.7, 68.5],
+  },
+  p6: {
+    moleculeShare: [20.3, 20.7, 21.1, 21.5, 22.3],
+    moleculeInternalShare: [19.2, 19.4, 19.1, 19.0, 18.5],
+    competitorShare: [49.5, 49.8, 50.3, 50.7, 52.2],
+    deLimitRate: [69.8, 70.5, 71.0, 71.6, 72.8],
+  },
+};
+
+export const mockProductHistory: ProductMetricSnapshot[] = Object.entries(productSeries).flatMap(([productId, series]) =>
+  toSnapshots(series).map(({ period, values }) => ({ productId, period, ...values }))
+);
 
 // 模拟省份数据
 export const mockProvinces: Province[] = [
@@ -118,127 +91,200 @@ export const mockProvinces: Province[] = [
   { id: 'cq', name: '重庆', region: '西南' },
 ];
 
-// 模拟省份表现数据
-export const mockProvincePerformance: ProvincePerformance[] = [
-  {
-    provinceId: 'bj',
-    provinceName: '北京',
-    marketShare: 12.5,
-    roi: 1.85,
-    nonLiluRatio: 45.2,
-    deLimitRate: 92.5,
-    penetrationRate: 88.3,
-    healthScore: 92,
-    healthLevel: 'excellent',
-    period: '2024-Q1',
-  },
-  {
-    provinceId: 'sh',
-    provinceName: '上海',
-    marketShare: 15.2,
-    roi: 1.92,
-    nonLiluRatio: 48.5,
-    deLimitRate: 90.8,
-    penetrationRate: 85.6,
-    healthScore: 90,
-    healthLevel: 'excellent',
-    period: '2024-Q1',
-  },
-  {
-    provinceId: 'gd',
-    provinceName: '广东',
-    marketShare: 18.5,
-    roi: 1.65,
-    nonLiluRatio: 42.3,
-    deLimitRate: 78.5,
-    penetrationRate: 72.2,
-    healthScore: 75,
-    healthLevel: 'good',
-    period: '2024-Q1',
-  },
-  {
-    provinceId: 'zj',
-    provinceName: '浙江',
-    marketShare: 10.8,
-    roi: 1.78,
-    nonLiluRatio: 40.5,
-    deLimitRate: 85.2,
-    penetrationRate: 80.5,
-    healthScore: 82,
-    healthLevel: 'good',
-    period: '2024-Q1',
-  },
-  {
-    provinceId: 'js',
-    provinceName: '江苏',
-    marketShare: 11.2,
-    roi: 1.55,
-    nonLiluRatio: 38.2,
-    deLimitRate: 72.5,
-    penetrationRate: 68.3,
-    healthScore: 68,
-    healthLevel: 'average',
-    period: '2024-Q1',
-  },
-  {
-    provinceId: 'sd',
-    provinceName: '山东',
-    marketShare: 9.5,
-    roi: 1.42,
-    nonLiluRatio: 35.8,
-    deLimitRate: 65.2,
-    penetrationRate: 62.5,
-    healthScore: 58,
-    healthLevel: 'poor',
-    period: '2024-Q1',
-  },
-  {
-    provinceId: 'hn',
-    provinceName: '河南',
-    marketShare: 8.2,
-    roi: 1.35,
-    nonLiluRatio: 32.5,
-    deLimitRate: 58.5,
-    penetrationRate: 55.8,
-    healthScore: 52,
-    healthLevel: 'poor',
-    period: '2024-Q1',
-  },
-  {
-    provinceId: 'hb',
-    provinceName: '湖北',
-    marketShare: 7.8,
-    roi: 1.48,
-    nonLiluRatio: 38.5,
-    deLimitRate: 68.2,
-    penetrationRate: 65.5,
-    healthScore: 65,
-    healthLevel: 'average',
-    period: '2024-Q1',
-  },
-  {
-    provinceId: 'sc',
-    provinceName: '四川',
-    marketShare: 6.5,
-    roi: 1.38,
-    nonLiluRatio: 33.2,
-    deLimitRate: 62.5,
-    penetrationRate: 58.8,
-    healthScore: 55,
-    healthLevel: 'poor',
-    period: '2024-Q1',
-  },
-  {
-    provinceId: 'cq',
-    provinceName: '重庆',
-    marketShare: 5.2,
-    roi: 1.25,
-    nonLiluRatio: 28.5,
-    deLimitRate: 55.2,
-    penetrationRate: 52.3,
-    healthScore: 48,
-    healthLevel: 'poor',
-    period: '2024-Q1',
+// 模拟省份指标历史（每个数组对应 mockPeriods 的各周期）
+const provinceSeries: Record<string, Record<ProvinceBaseMetricKey, number[]>> = {
+  bj: {
+    marketShare: [11.8, 12.0, 12.1, 12.3, 12.5],
+    roi: [1.72, 1.76, 1.8, 1.82, 1.85],
+    nonLiluRatio: [43.5, 44.0, 44.6, 44.9, 45.2],
+    deLimitRate: [89.2, 90.1, 91.0, 91.8, 92.5],
+    penetrationRate: [85.1, 86.0, 86.8, 87.5, 88.3],
   },
-];
+  sh: {
+    marketShare: [14.6, 14.8, 15.0, 15.3, 15.2],
+    roi: [1.85, 1.88, 1.9, 1.93, 1.92],
+    nonLiluRatio: [47.0, 47.5, 47.9, 48.2, 48.5],
+    deLimitRate: [88.5, 89.2, 89.9, 90.5, 90.8],
+    penetrationRate: [83.2, 84.0, 84.6, 85.1, 85.6],
+  },
+  gd: {
+    marketShare: [17.2, 17.6, 18.0, 18.3, 18.5],
+    roi: [1.58, 1.6, 1.62, 1.66, 1.65],
+    nonLiluRatio: [41.0, 41.5, 41.8, 42.0, 42.3],
+    deLimitRate: [82.1, 81.5, 80.6, 79.8, 78.5],
+    penetrationRate: [70.5, 71.0, 71.6, 72.0, 72.2],
+  },
+  zj: {
+    marketShare: [10.2, 10.4, 10.5, 10.6, 10.8],
+    roi: [1.7, 1.72, 1.75, 1.76, 1.78],
+    nonLiluRatio: [39.2, 39.6, 40.0, 40.2, 40.5],
+    deLimitRate: [82.5, 83.2, 84.0, 84.6, 85.2],
+    penetrationRate: [78.2, 78.9, 79.5, 80.0, 80.5],
+  },
+  js: {
+    marketShare: [11.5, 11.4, 11.4, 11.3, 11.2],
+    roi: [1.6, 1.58, 1.57, 1.56, 1.55],
+    nonLiluRatio: [38.8, 38.6, 38.5, 38.3, 38.2],
+    deLimitRate: [74.2, 73.8, 73.3, 72.9, 72.5],
+    penetrationRate: [69.5, 69.2, 68.9, 68.6, 68.3],
+  },
+  sd: {
+    marketShare: [10.2, 10.0, 9.8, 9.6, 9.5],
+    roi: [1.5, 1.48, 1.46, 1.44, 1.42],
+    nonLiluRatio: [37.0, 36.6, 36.3, 36.0, 35.8],
+    deLimitRate: [70.5, 69.0, 67.8, 66.4, 65.2],
+    penetrationRate: [65.8, 64.9, 64.0, 63.2, 62.5],
+  },
+  hn: {
+    marketShare: [7.6, 7.8, 7.9, 8.0, 8.2],
+    roi: [1.28, 1.3, 1.32, 1.33, 1.35],
+    nonLiluRatio: [31.2, 31.5, 31.8, 32.2, 32.5],
+    deLimitRate: [55.2, 56.0, 56.8, 57.6, 58.5],
+    penetrationRate: [52.5, 53.3, 54.2, 55.0, 55.8],
+  },
+  hb: {
+    marketShare: [7.2, 7.4, 7.5, 7.6, 7.8],
+    roi: [1.4, 1.42, 1.44, 1.46, 1.48],
+    nonLiluRatio: [37.2, 37.6, 37.9, 38.2, 38.5],
+    deLimitRate: [66.0, 66.5, 67.1, 67.6, 68.2],
+    penetrationRate: [63.2, 63.8, 64.4, 65.0, 65.5],
+  },
+  sc: {
+    marketShare: [6.8, 6.7, 6.6, 6.6, 6.5],
+    roi: [1.42, 1.41, 1.4, 1.39, 1.38],
+    nonLiluRatio: [34.0, 33.8, 33.6, 33.4, 33.2],
+    deLimitRate: [64.8, 64.2, 63.6, 63.0, 62.5],
+    penetrationRate: [60.5, 60.1, 59.6, 59.2, 58.8],
+  },
+  cq: {
+    marketShare: [5.8, 5.6, 5.5, 5.3, 5.2],
+    roi: [1.32, 1.3, 1.28, 1.27, 1.25],
+    nonLiluRatio: [30.2, 29.8, 29.4, 28.9, 28.5],
+    deLimitRate: [60.2, 58.9, 57.5, 56.3, 55.2],
+    penetrationRate: [56.5, 55.4, 54.3, 53.2, 52.3],
+  },
+};
+
+export const mockProvinceHistory: ProvinceMetricRecord[] = Object.entries(provinceSeries).flatMap(([provinceId, series]) =>
+  toSnapshots(series).map(({ period, values }) => ({ provinceId, period, ...values }))
+);
+
+// 产品 × 省份：各省的分子式市场规模（万元）和目标医院数（各产品相同）
+const provinceScale: Record<string, { moleculeVolume: number; hospitalCount: number }> = {
+  bj: { moleculeVolume: 5200, hospitalCount: 160 },
+  sh: { moleculeVolume: 5600, hospitalCount: 150 },
+  gd: { moleculeVolume: 7800, hospitalCount: 260 },
+  zj: { moleculeVolume: 4600, hospitalCount: 190 },
+  js: { moleculeVolume: 5900, hospitalCount: 230 },
+  sd: { moleculeVolume: 4800, hospitalCount: 240 },
+  hn: { moleculeVolume: 3400, hospitalCount: 210 },
+  hb: { moleculeVolume: 2900, hospitalCount: 150 },
+  sc: { moleculeVolume: 3100, hospitalCount: 180 },
+  cq: { moleculeVolume: 1700, hospitalCount: 90 },
+};
+
+// 各省相对全国水平的常态偏差（百分点）
+const provinceOffsets: Record<string, Record<ProductProvinceMetricKey, number>> = {
+  bj: { moleculeInternalShare: 4.5, deLimitRate: 9.0 },
+  sh: { moleculeInternalShare: 5.2, deLimitRate: 8.0 },
+  gd: { moleculeInternalShare: 2.0, deLimitRate: 1.5 },
+  zj: { moleculeInternalShare: 1.2, deLimitRate: 3.0 },
+  js: { moleculeInternalShare: 0.8, deLimitRate: -1.0 },
+  sd: { moleculeInternalShare: -1.5, deLimitRate: -3.5 },
+  hn: { moleculeInternalShare: -4.0, deLimitRate: -12.0 },
+  hb: { moleculeInternalShare: -2.8, deLimitRate: -6.0 },
+  sc: { moleculeInternalShare: -3.5, deLimitRate: -7.5 },
+  cq: { moleculeInternalShare: -5.0, deLimitRate: -10.0 },
+};
+
+// 个别产品在个别省份的异常变化（相对常态偏差，每个数组对应 mockPeriods 的各周期），演示问题集中的区域
+const productProvinceShocks: Record<string, Record<string, Partial<Record<ProductProvinceMetricKey, number[]>>>> = {
+  p1: {
+    gd: { moleculeInternalShare: [0, 0, 0, -0.6, -8.5], deLimitRate: [0, 0, 0, 0, -14.0] }, // 风险集中：广东带量采购落地
+    hn: { moleculeInternalShare: [0, 0, 0, 0, -6.0] },
+    sd: { deLimitRate: [0, 0, -0.5, -1.2, -10.0] },
+  },
+  p3: {
+    js: { moleculeInternalShare: [0, 0, -0.4, -1.0, -5.5] },
+    zj: { moleculeInternalShare: [0, 0, 0, 0, -3.0] },
+  },
+  p5: {
+    sc: { moleculeInternalShare: [0, -0.5, -1.0, -1.5, -6.5], deLimitRate: [0, 0, -1.0, -2.0, -9.0] },
+    cq: { moleculeInternalShare: [0, 0, -0.5, -1.0, -5.0], deLimitRate: [0, 0, 0, -1.5, -8.0] },
+    hb: { deLimitRate: [0, 0, 0, 0, -6.0] },
+  },
+  p6: {
+    sh: { moleculeInternalShare: [0, 0, 0, 0, -3.5] },
+  },
+};
+
+// 各省零售渠道占分子式市场规模的比例（%），每季度向零售转移约 0.6 个百分点
+const provinceRetailRatio: Record<string, number> = {
+  bj: 22,
+  sh: 25,
+  gd: 30,
+  zj: 28,
+  js: 26,
+  sd: 20,
+  hn: 18,
+  hb: 19,
+  sc: 21,
+  cq: 17,
+};
+
+// 零售份额相对本省分子式内份额的异常变化（百分点），演示竞品在零售渠道抢占份额
+const retailShareShocks: Record<string, Record<string, number[]>> = {
+  p3: {
+    js: [0, 0, 0, -1.5, -6.0],
+    zj: [0, 0, 0, -1.0, -5.0],
+  },
+  p5: {
+    sc: [0, 0, 0, 0, -4.0],
+  },
+};
+
+const clampShare = (value: number) => Math.round(Math.min(100, Math.max(0, value)) * 10) / 10;
+
+// 份额驱动因素：零售份额比本省份额低 4 个百分点，解限医院内份额比未解限医院高出医院份额的一半，
+// 按 S = (1 − r)·H + r·R、H = D·P + (1 − D)·B 由分子式内份额反推
+function shareDrivers(productId: string, provinceId: string, index: number, share: number, deLimitRate: number) {
+  const retailRatio = Math.round((provinceRetailRatio[provinceId] + index * 0.6) * 10) / 10;
+  const retailShare = clampShare(share - 4 + (retailShareShocks[productId]?.[provinceId]?.[index] ?? 0));
+  const r = retailRatio / 100;
+  const hospitalShare = (share - r * retailShare) / (1 - r);
+  const penetrationShare = clampShare(hospitalShare * (1 + 0.5 * (1 - deLimitRate / 100)));
+  return { penetrationShare, retailRatio, retailShare };
+}
 
+// 各省指标 = 全国水平 + 常态偏差 + 异常变化，再整体平移使加权汇总等于全国产品指标
+export const mockProductProvinceHistory: ProductProvinceMetricRecord[] = Object.entries(productSeries).flatMap(
+  ([productId, series]) =>
+    mockPeriods.flatMap((period, index) => {
+      const growth = 1 + index * 0.03;
+      const values = mockProvinces.map((province) => ({ province, values: {} as Record<ProductProvinceMetricKey, number> }));
+      (['moleculeInternalShare', 'deLimitRate'] as ProductProvinceMetricKey[]).forEach((metric) => {
+        const weightKey = metric === 'moleculeInternalShare' ? 'moleculeVolume' : 'hospitalCount';
+        const raw = values.map(
+          ({ province }) =>
+            series[metric][index] +
+            provinceOffsets[province.id][metric] +
+            (productProvinceShocks[productId]?.[province.id]?.[metric]?.[index] ?? 0)
+        );
+        const totalWeight = mockProvinces.reduce((sum, p) => sum + provinceScale[p.id][weightKey], 0);
+        const weightedRaw = raw.reduce((sum, v, i) => sum + v * provinceScale[mockProvinces[i].id][weightKey], 0);
+        const shift = series[metric][index] - weightedRaw / totalWeight;
+        values.forEach((entry, i) => {
+          entry.values[metric] = clampShare(raw[i] + shift);
+        });
+      });
+      return values.map(({ province, values: metrics }) => ({
+        productId,
+        provinceId: province.id,
+        period,
+        moleculeVolume: Math.round(provinceScale[province.id].moleculeVolume * growth),
+        hospitalCount: provinceScale[province.id].hospitalCount,
+        ...metrics,
+        ...shareDrivers(productId, province.id, index, metrics.moleculeInternalShare, metrics.deLimitRate),
+      }));
+    })
+);
@@ -1,44 +1,220 @@
 import { MarketDataPoint, Opportunity, ReasonDimension, StrategyProposal } from '../types/strategy';
 
-// 模拟市场数据（Mekko图表用）- 立普妥数据
+// 模拟市场数据（Mekko图表用）：按 品牌 × 省份 × 渠道 × 科室 × 细分市场（类别/分子式/价格带）生成事实表，含最近两个季度
 // 渠道：影响型医院、非影响型医院、零售、电商
-// 科室：心内科、神经内科、内分泌科、肾内科、其他科室
-export const mockMarketData: MarketDataPoint[] = [
-  // 影响型医院 × 各科室
-  { id: '1', dimension1: '影响型医院', dimension2: '心内科', value: 35.2, huiZhiShare: 28.5, competitorShare: 45.8, growthRate: 2.1, province: '北京' },
-  { id: '2', dimension1: '影响型医院', dimension2: '神经内科', value: 12.5, huiZhiShare: 8.2, competitorShare: 68.5, growthRate: 0.8, province: '北京' },
-  { id: '3', dimension1: '影响型医院', dimension2: '内分泌科', value: 8.5, huiZhiShare: 5.2, competitorShare: 72.3, growthRate: -0.5, province: '北京' },
-  { id: '4', dimension1: '影响型医院', dimension2: '肾内科', value: 6.8, huiZhiShare: 4.5, competitorShare: 75.2, growthRate: 0.3, province: '北京' },
-  { id: '5', dimension1: '影响型医院', dimension2: '其他科室', value: 15.2, huiZhiShare: 10.5, competitorShare: 65.8, growthRate: 1.2, province: '北京' },
-  
-  // 非影响型医院 × 各科室
-  { id: '6', dimension1: '非影响型医院', dimension2: '心内科', value: 22.3, huiZhiShare: 18.5, competitorShare: 52.3, growthRate: 1.5, province: '北京' },
-  { id: '7', dimension1: '非影响型医院', dimension2: '神经内科', value: 8.2, huiZhiShare: 5.8, competitorShare: 72.5, growthRate: 0.5, province: '北京' },
-  { id: '8', dimension1: '非影响型医院', dimension2: '内分泌科', value: 5.5, huiZhiShare: 3.2, competitorShare: 78.5, growthRate: -0.8, province: '北京' },
-  { id: '9', dimension1: '非影响型医院', dimension2: '肾内科', value: 4.2, huiZhiShare: 2.8, competitorShare: 80.2, growthRate: 0.2, province: '北京' },
-  { id: '10', dimension1: '非影响型医院', dimension2: '其他科室', value: 9.8, huiZhiShare: 6.5, competitorShare: 70.5, growthRate: 0.8, province: '北京' },
-  
-  // 零售 × 各科室（零售通常不分科室，但为了数据结构统一，可以标记为"其他科室"或按主要适应症分类）
-  { id: '11', dimension1: '零售', dimension2: '心内科', value: 18.5, huiZhiShare: 12.3, competitorShare: 68.2, growthRate: 1.2, province: '北京' },
-  { id: '12', dimension1: '零售', dimension2: '神经内科', value: 5.2, huiZhiShare: 3.5, competitorShare: 75.8, growthRate: 0.5, province: '北京' },
-  { id: '13', dimension1: '零售', dimension2: '内分泌科', value: 3.8, huiZhiShare: 2.2, competitorShare: 82.5, growthRate: -0.3, province: '北京' },
-  { id: '14', dimension1: '零售', dimension2: '肾内科', value: 2.5, huiZhiShare: 1.5, competitorShare: 85.2, growthRate: 0.1, province: '北京' },
-  { id: '15', dimension1: '零售', dimension2: '其他科室', value: 8.2, huiZhiShare: 5.8, competitorShare: 72.5, growthRate: 0.6, province: '北京' },
-  
-  // 电商 × 各科室
-  { id: '16', dimension1: '电商', dimension2: '心内科', value: 12.3, huiZhiShare: 8.5, competitorShare: 72.2, growthRate: 2.5, province: '北京' },
-  { id: '17', dimension1: '电商', dimension2: '神经内科', value: 3.5, huiZhiShare: 2.2, competitorShare: 78.5, growthRate: 1.8, province: '北京' },
-  { id: '18', dimension1: '电商', dimension2: '内分泌科', value: 2.8, huiZhiShare: 1.5, competitorShare: 82.8, growthRate: 1.2, province: '北京' },
-  { id: '19', dimension1: '电商', dimension2: '肾内科', value: 1.8, huiZhiShare: 1.0, competitorShare: 88.5, growthRate: 0.8, province: '北京' },
-  { id: '20', dimension1: '电商', dimension2: '其他科室', value: 5.5, huiZhiShare: 3.8, competitorShare: 75.2, growthRate: 1.5, province: '北京' },
-  
-  // 上海数据（示例）
-  { id: '21', dimension1: '影响型医院', dimension2: '心内科', value: 32.5, huiZhiShare: 26.2, competitorShare: 48.5, growthRate: 1.5, province: '上海' },
-  { id: '22', dimension1: '影响型医院', dimension2: '神经内科', value: 11.2, huiZhiShare: 7.5, competitorShare: 70.2, growthRate: 0.6, province: '上海' },
-  { id: '23', dimension1: '非影响型医院', dimension2: '心内科', value: 20.8, huiZhiShare: 17.2, competitorShare: 55.5, growthRate: 1.2, province: '上海' },
-  { id: '24', dimension1: '零售', dimension2: '心内科', value: 16.5, huiZhiShare: 11.2, competitorShare: 70.8, growthRate: 1.0, province: '上海' },
-  { id: '25', dimension1: '电商', dimension2: '心内科', value: 10.8, huiZhiShare: 7.5, competitorShare: 75.2, growthRate: 2.2, province: '上海' },
-];
+// 科室：各品牌所在治疗领域的主要科室
+
+// 各维度取值的画像：size 为市场规模系数，share 为晖致份额系数，growth 为增长率偏移（百分点）
+interface MarketProfile {
+  size: number;
+  share: number;
+  growth: number;
+}
+
+const provinceProfiles: Record<string, MarketProfile> = {
+  北京: { size: 1.0, share: 1.1, growth: 0.2 },
+  上海: { size: 0.95, share: 1.1, growth: 0.1 },
+  广东: { size: 1.6, share: 0.9, growth: 0.8 },
+  浙江: { size: 1.0, share: 1.0, growth: 0.6 },
+  江苏: { size: 1.2, share: 1.0, growth: 0.5 },
+  山东: { size: 1.1, share: 0.95, growth: 0.3 },
+  河南: { size: 0.9, share: 0.85, growth: 1.0 },
+  湖北: { size: 0.7, share: 0.9, growth: 0.7 },
+  四川: { size: 0.8, share: 0.9, growth: 0.9 },
+  重庆: { size: 0.45, share: 0.85, growth: 0.8 },
+};
+
+const channelProfiles: Record<string, MarketProfile> = {
+  影响型医院: { size: 1.0, share: 1.0, growth: 0 },
+  非影响型医院: { size: 0.58, share: 0.8, growth: -0.3 },
+  零售: { size: 0.45, share: 0.6, growth: 0.2 },
+  电商: { size: 0.3, share: 0.45, growth: 1.5 },
+};
+
+// 品牌所在市场的细分构成：晖致份额、竞品份额为该细分市场在全国的基准水平
+interface MarketSegmentSpec {
+  class: string;
+  molecule: string;
+  priceBand: string;
+  size: number;
+  huiZhiShare: number;
+  competitorShare: number;
+  growth: number;
+}
+
+// 品牌所在市场：size 为相对立普妥市场的规模
+interface BrandMarketSpec {
+  size: number;
+  departments: Record<string, MarketProfile>;
+  segments: MarketSegmentSpec[];
+}
+
+const psychiatryDepartments: Record<string, MarketProfile> = {
+  精神科: { size: 0.5, share: 1.0, growth: 0.8 },
+  神经内科: { size: 0.2, share: 0.6, growth: 0.3 },
+  心理科: { size: 0.15, share: 0.8, growth: 2.5 },
+  其他科室: { size: 0.15, share: 0.4, growth: 0 },
+};
+
+const brandMarkets: Record<string, BrandMarketSpec> = {
+  立普妥: {
+    size: 1.0,
+    departments: {
+      心内科: { size: 0.45, share: 1.0, growth: 0.5 },
+      神经内科: { size: 0.16, share: 0.45, growth: -0.2 },
+      内分泌科: { size: 0.11, share: 0.35, growth: -0.8 },
+      肾内科: { size: 0.09, share: 0.3, growth: -0.3 },
+      其他科室: { size: 0.19, share: 0.5, growth: 0 },
+    },
+    segments: [
+      { class: '他汀类', molecule: '阿托伐他汀', priceBand: '原研', size: 0.3, huiZhiShare: 82, competitorShare: 8, growth: -1.0 },
+      { class: '他汀类', molecule: '阿托伐他汀', priceBand: '集采仿制', size: 0.3, huiZhiShare: 6, competitorShare: 68, growth: 2.5 },
+      { class: '他汀类', molecule: '瑞舒伐他汀', priceBand: '集采仿制', size: 0.28, huiZhiShare: 0, competitorShare: 72, growth: 3.0 },
+      { class: '胆固醇吸收抑制剂', molecule: '依折麦布', priceBand: '原研', size: 0.12, huiZhiShare: 0, competitorShare: 60, growth: 6.0 },
+    ],
+  },
+  络活喜: {
+    size: 1.1,
+    departments: {
+      心内科: { size: 0.5, share: 1.0, growth: 0.2 },
+      肾内科: { size: 0.14, share: 0.7, growth: 0.5 },
+      内分泌科: { size: 0.12, share: 0.5, growth: 0.3 },
+      其他科室: { size: 0.24, share: 0.6, growth: -0.2 },
+    },
+    segments: [
+      { class: '钙通道阻滞剂', molecule: '氨氯地平', priceBand: '原研', size: 0.32, huiZhiShare: 78, competitorShare: 10, growth: -1.5 },
+      { class: '钙通道阻滞剂', molecule: '氨氯地平', priceBand: '集采仿制', size: 0.3, huiZhiShare: 5, competitorShare: 70, growth: 2.0 },
+      { class: '钙通道阻滞剂', molecule: '硝苯地平', priceBand: '原研', size: 0.2, huiZhiShare: 0, competitorShare: 68, growth: -0.5 },
+      { class: '血管紧张素受体拮抗剂', molecule: '缬沙坦', priceBand: '集采仿制', size: 0.18, huiZhiShare: 0, competitorShare: 62, growth: 1.5 },
+    ],
+  },
+  西乐葆: {
+    size: 0.6,
+    departments: {
+      骨科: { size: 0.4, share: 1.0, growth: 1.0 },
+      风湿免疫科: { size: 0.2, share: 1.1, growth: 1.5 },
+      疼痛科: { size: 0.15, share: 0.9, growth: 3.0 },
+      其他科室: { size: 0.25, share: 0.5, growth: 0.2 },
+    },
+    segments: [
+      { class: 'COX-2抑制剂', molecule: '塞来昔布', priceBand: '原研', size: 0.45, huiZhiShare: 80, competitorShare: 10, growth: 0.5 },
+      { class: 'COX-2抑制剂', molecule: '塞来昔布', priceBand: '集采仿制', size: 0.25, huiZhiShare: 5, competitorShare: 66, growth: 4.0 },
+      { class: 'COX-2抑制剂', molecule: '依托考昔', priceBand: '原研', size: 0.3, huiZhiShare: 0, competitorShare: 75, growth: 5.0 },
+    ],
+  },
+  乐瑞卡: {
+    size: 0.5,
+    departments: {
+      疼痛科: { size: 0.3, share: 1.0, growth: 3.5 },
+      神经内科: { size: 0.3, share: 0.9, growth: 1.5 },
+      骨科: { size: 0.15, share: 0.6, growth: 1.0 },
+      其他科室: { size: 0.25, share: 0.5, growth: 0.5 },
+    },
+    segments: [
+      { class: '抗癫痫类镇痛药', molecule: '普瑞巴林', priceBand: '原研', size: 0.5, huiZhiShare: 75, competitorShare: 12, growth: 1.0 },
+      { class: '抗癫痫类镇痛药', molecule: '普瑞巴林', priceBand: '仿制', size: 0.3, huiZhiShare: 4, competitorShare: 70, growth: 6.0 },
+      { class: '抗癫痫类镇痛药', molecule: '加巴喷丁', priceBand: '仿制', size: 0.2, huiZhiShare: 0, competitorShare: 65, growth: -2.0 },
+    ],
+  },
+  左洛复: {
+    size: 0.45,
+    departments: psychiatryDepartments,
+    segments: [
+      { class: 'SSRI', molecule: '舍曲林', priceBand: '原研', size: 0.4, huiZhiShare: 70, competitorShare: 15, growth: 1.5 },
+      { class: 'SSRI', molecule: '舍曲林', priceBand: '仿制', size: 0.25, huiZhiShare: 5, competitorShare: 68, growth: 5.0 },
+      { class: 'SSRI', molecule: '艾司西酞普兰', priceBand: '原研', size: 0.35, huiZhiShare: 0, competitorShare: 72, growth: 4.0 },
+    ],
+  },
+  怡诺思: {
+    size: 0.35,
+    departments: psychiatryDepartments,
+    segments: [
+      { class: 'SNRI', molecule: '文拉法辛', priceBand: '原研', size: 0.4, huiZhiShare: 72, competitorShare: 14, growth: 0.5 },
+      { class: 'SNRI', molecule: '文拉法辛', priceBand: '仿制', size: 0.25, huiZhiShare: 6, competitorShare: 66, growth: 4.5 },
+      { class: 'SNRI', molecule: '度洛西汀', priceBand: '原研', size: 0.35, huiZhiShare: 0, competitorShare: 74, growth: 6.5 },
+    ],
+  },
+};
+
+// 大盘数据的统计周期（与体检报告的最近两期一致），本期在后
+const marketPeriods = { previous: '2023-Q4', current: '2024-Q1' };
+
+// 各价格带的单位价格，用于由销售额推算销量
+const unitPrices: Record<string, number> = {
+  原研: 1.0,
+  仿制: 0.5,
+  集采仿制: 0.25,
+};
+
+// 可复现的伪随机扰动（-0.5 ~ 0.5）
+function jitter(key: string): number {
+  let hash = 0;
+  for (const char of key) hash = (hash * 31 + char.charCodeAt(0)) % 10007;
+  return hash / 10007 - 0.5;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+function generateMarketData(): MarketDataPoint[] {
+  const points: MarketDataPoint[] = [];
+  Object.entries(brandMarkets).forEach(([brand, market]) =>
+    Object.entries(provinceProfiles).forEach(([province, p]) =>
+      Object.entries(channelProfiles).forEach(([channel, c]) =>
+        Object.entries(market.departments).forEach(([department, d]) =>
+          market.segments.forEach((segment) => {
+            const key = `${brand}|${province}|${channel}|${department}|${segment.molecule}|${segment.priceBand}`;
+            const huiZhiShare = Math.min(95, segment.huiZhiShare * p.share * c.share * d.share * (1 + jitter(key) * 0.2));
+            // 晖致份额偏低的细分市场由竞品补位
+            const competitorShare = Math.min(
+              100 - huiZhiShare,
+              segment.competitorShare + (segment.huiZhiShare - huiZhiShare) * 0.6
+            );
+            const value = 100 * market.size * p.size * c.size * d.size * segment.size * (1 + jitter(`${key}|size`) * 0.3);
+            const growthRate = segment.growth + p.growth + c.growth + d.growth + jitter(`${key}|growth`);
+            // 上一季度：规模按增长率折算一个季度；增长越快的细分市场仿制药放量越多，晖致份额流失越快
+            const shareMomentum = -(segment.growth + c.growth) * 0.015 - 0.01 + jitter(`${key}|share`) * 0.12;
+            const previousHuiZhiShare = Math.min(95, huiZhiShare / (1 + shareMomentum));
+            const previousCompetitorShare = Math.min(
+              100 - previousHuiZhiShare,
+              Math.max(0, competitorShare - (previousHuiZhiShare - huiZhiShare) * 0.6)
+            );
+            const unitPrice = unitPrices[segment.priceBand] ?? 1;
+            const periods = [
+              {
+                period: marketPeriods.previous,
+                value: value / (1 + growthRate / 400),
+                huiZhiShare: previousHuiZhiShare,
+                competitorShare: previousCompetitorShare,
+              },
+              { period: marketPeriods.current, value, huiZhiShare, competitorShare },
+            ];
+            periods.forEach((item) =>
+              points.push({
+                id: `m${points.length + 1}`,
+                class: segment.class,
+                molecule: segment.molecule,
+                department,
+                priceBand: segment.priceBand,
+                brand,
+                channel,
+                province,
+                period: item.period,
+                value: round1(item.value),
+                volume: round1(item.value / unitPrice),
+                huiZhiShare: round1(item.huiZhiShare),
+                competitorShare: round1(item.competitorShare),
+                growthRate: round1(growthRate),
+              })
+            );
+          })
+        )
+      )
+    )
+  );
+  return points;
+}
+
+export const mockMarketData: MarketDataPoint[] = generateMarketData();
 
 // 模拟机会点
 export const mockOpportunities: Opportunity[] = [
@@ -148,9 +324,9 @@ export const mockStrategyProposals: StrategyProposal[] = [
 
 // 维度选项
 export const dimensionOptions = {
-  channel: ['影响型医院', '非影响型医院', '零售', '电商'],
-  department: ['心内科', '神经内科', '内分泌科', '肾内科', '其他科室'],
-  brand: ['立普妥', '络活喜', '西乐葆', '乐瑞卡', '左洛复', '怡诺思'],
-  province: ['北京', '上海', '广东', '浙江', '江苏', '山东', '河南', '湖北', '四川', '重庆'],
+  channel: Object.keys(channelProfiles),
+  department: Array.from(new Set(Object.values(brandMarkets).flatMap((market) => Object.keys(market.departments)))),
+  brand: Object.keys(brandMarkets),
+  province: Object.keys(provinceProfiles),
 };
 
@@ -0,0 +1,27 @@
+import { createContext, useContext } from 'react';
+import { AIAnalysis } from '../types';
+
+export interface AnalysisContextType {
+  currentAnalysis: AIAnalysis | null;
+  setCurrentAnalysis: (analysis: AIAnalysis | null) => void;
+  // 缓存管理
+  analysisCache: Map<string, AIAnalysis>;
+  getCachedAnalysis: (key: string) => AIAnalysis | null;
+  setCachedAnalysis: (key: string, analysis: AIAnalysis) => void;
+  clearCachedAnalysis: (key: string) => void;
+  // 刷新标记
+  needsRefresh: Set<string>;
+  refreshTrigger: number; // 用于触发重新渲染
+  markNeedsRefresh: (key: string) => void;
+  clearNeedsRefresh: (key: string) => void;
+}
+
+export const AnalysisContext = createContext<AnalysisContextType | undefined>(undefined);
+
+export function useAnalysis() {
+  const context = useContext(AnalysisContext);
+  if (context === undefined) {
+    throw new Error('useAnalysis must be used within an AnalysisProvider');
+  }
+  return context;
+}
@@ -0,0 +1,177 @@
+import { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import { DataRepository, RepositoryConflictError, WorkspaceCollectionName, WorkspaceRecords } from '../services/repository';
+
+export interface DataRepositoryContextType {
+  repository: DataRepository;
+  // 数据变化标识：切换数据集版本或修改评分设置后变化，查询据此重新加载
+  revision: string;
+}
+
+export const DataRepositoryContext = createContext<DataRepositoryContextType | undefined>(undefined);
+
+export function useDataRepository() {
+  const context = useContext(DataRepositoryContext);
+  if (context === undefined) {
+    throw new Error('useDataRepository must be used within a DataRepositoryProvider');
+  }
+  return context;
+}
+
+interface RepositoryQueryState<T> {
+  data: T | undefined; // 重新加载期间保留上一次结果
+  loading: boolean;
+  error: Error | null;
+  reload: () => void;
+}
+
+// load 需用 useCallback 包裹，其依赖变化或数据版本变化时重新查询
+export function useRepositoryQuery<T>(load: (repository: DataRepository) => Promise<T>): RepositoryQueryState<T> {
+  const { repository, revision } = useDataRepository();
+  const [data, setData] = useState<T | undefined>(undefined);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    load(repository)
+      .then((result) => {
+        if (cancelled) return;
+        setData(result);
+        setError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error('Repository query failed:', err);
+        setError(err instanceof Error ? err : new Error(String(err)));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [load, repository, revision, reloadCount]);
+
+  const reload = useCallback(() => setReloadCount((count) => count + 1), []);
+
+  return { data, loading, error, reload };
+}
+
+interface WorkspaceCollectionState<T> {
+  items: T[];
+  loading: boolean;
+  syncError: string | null; // 保存失败或版本冲突的提示
+  dismissSyncError: () => void;
+  setLocalItems: (items: T[]) => void; // 只更新本地（如拖拽过程中），不保存
+  save: (item: T) => void; // 新建或更新，本地立即生效
+  remove: (item: T) => void;
+}
+
+// 工作区集合的乐观更新：先更新本地，再按记录顺序依次保存；
+// 保存失败时回滚，版本冲突时改用服务端的最新版本
+export function useWorkspaceCollection<K extends WorkspaceCollectionName>(
+  name: K
+): WorkspaceCollectionState<WorkspaceRecords[K]> {
+  type Item = WorkspaceRecords[K];
+  const { repository } = useDataRepository();
+  const collection = repository.workspace[name];
+  const [items, setItems] = useState<Item[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  // 已保存的版本（键存在表示记录已在存储中），作为下次保存的版本依据
+  const versions = useRef(new Map<string, Date | undefined>());
+  // 同一记录的保存排队执行，避免并发保存互相冲突
+  const queues = useRef(new Map<string, Promise<void>>());
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    collection
+      .list()
+      .then((loaded) => {
+        if (cancelled) return;
+        versions.current = new Map(loaded.map((item) => [collection.getKey(item), item.updatedAt]));
+        setItems(loaded);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error(`Failed to load ${name}:`, error);
+        setSyncError(`加载失败：${error instanceof Error ? error.message : String(error)}`);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [collection, name]);
+
+  const replaceItem = useCallback(
+    (key: string, next: Item | null) =>
+      setItems((prev) => {
+        const matches = (item: Item) => collection.getKey(item) === key;
+        if (!next) return prev.filter((item) => !matches(item));
+        return prev.some(matches) ? prev.map((item) => (matches(item) ? next : item)) : [...prev, next];
+      }),
+    [collection]
+  );
+
+  const enqueue = useCallback(
+    (key: string, previous: Item | null, run: () => Promise<void>) => {
+      const task = (queues.current.get(key) ?? Promise.resolve()).then(run).catch((error) => {
+        if (error instanceof RepositoryConflictError) {
+          const current = error.current as Item | null;
+          if (current) versions.current.set(key, current.updatedAt);
+          else versions.current.delete(key);
+          replaceItem(key, current);
+          setSyncError(current ? '该记录已被其他人修改，已载入最新版本' : '该记录已被其他人删除');
+          return;
+        }
+        console.error(`Failed to save ${name}:`, error);
+        replaceItem(key, previous);
+        setSyncError(`保存失败，已撤销本次修改：${error instanceof Error ? error.message : String(error)}`);
+      });
+      queues.current.set(key, task);
+    },
+    [name, replaceItem]
+  );
+
+  const save = useCallback(
+    (item: Item) => {
+      const key = collection.getKey(item);
+      const previous = items.find((i) => collection.getKey(i) === key) ?? null;
+      replaceItem(key, item);
+      enqueue(key, previous, async () => {
+        const exists = versions.current.has(key);
+        const saved = exists
+          ? await collection.update({ ...item, updatedAt: versions.current.get(key) })
+          : await collection.create(item);
+        versions.current.set(key, saved.updatedAt);
+        // 只同步版本号，保存期间的本地修改保留
+        setItems((prev) =>
+          prev.map((i) => (collection.getKey(i) === key ? { ...i, updatedAt: saved.updatedAt } : i))
+        );
+      });
+    },
+    [collection, items, replaceItem, enqueue]
+  );
+
+  const remove = useCallback(
+    (item: Item) => {
+      const key = collection.getKey(item);
+      replaceItem(key, null);
+      enqueue(key, item, async () => {
+        if (!versions.current.has(key)) return;
+        await collection.remove({ ...item, updatedAt: versions.current.get(key) });
+        versions.current.delete(key);
+      });
+    },
+    [collection, replaceItem, enqueue]
+  );
+
+  const dismissSyncError = useCallback(() => setSyncError(null), []);
+
+  return { items, loading, syncError, dismissSyncError, setLocalItems: setItems, save, remove };
+}
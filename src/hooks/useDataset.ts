@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+import { Dataset } from '../types/dataset';
+import { DatasetImportInput } from '../services/datasetStore';
+
+export interface DatasetContextType {
+  datasets: Dataset[]; // 所有版本，版本号降序
+  activeDataset: Dataset;
+  // 基于当前版本生成新版本并启用
+  commitImport: (input: DatasetImportInput) => Promise<Dataset>;
+  activateDataset: (id: string) => void;
+}
+
+export const DatasetContext = createContext<DatasetContextType | undefined>(undefined);
+
+export function useDataset() {
+  const context = useContext(DatasetContext);
+  if (context === undefined) {
+    throw new Error('useDataset must be used within a DatasetProvider');
+  }
+  return context;
+}
@@ -0,0 +1,28 @@
+import { createContext, useContext, useEffect } from 'react';
+import { PageContextData } from '../types/pageContext';
+
+export interface PageContextType {
+  pageData: PageContextData;
+  setPageData: <K extends keyof PageContextData>(key: K, value: PageContextData[K] | undefined) => void;
+}
+
+export const PageContext = createContext<PageContextType | undefined>(undefined);
+
+export function usePageContext() {
+  const context = useContext(PageContext);
+  if (context === undefined) {
+    throw new Error('usePageContext must be used within a PageContextProvider');
+  }
+  return context;
+}
+
+// 组件展示期间发布页面数据，卸载时自动清除
+export function usePublishPageData<K extends keyof PageContextData>(key: K, value: PageContextData[K] | undefined) {
+  const { setPageData } = usePageContext();
+
+  useEffect(() => {
+    setPageData(key, value);
+  }, [key, value, setPageData]);
+
+  useEffect(() => () => setPageData(key, undefined), [key, setPageData]);
+}
@@ -0,0 +1,28 @@
+import { createContext, useContext } from 'react';
+import { HealthScoreConfig } from '../services/healthScore';
+import { AppSettings } from '../services/settingsStore';
+import { MetricTarget } from '../services/targets';
+import { RiskRule } from '../services/riskRules';
+import { OpportunityScoreWeights } from '../services/opportunityScoring';
+
+export interface SettingsContextType {
+  settings: AppSettings;
+  updateHealthScoreConfig: (config: HealthScoreConfig) => void;
+  resetHealthScoreConfig: () => void;
+  updateTargets: (targets: MetricTarget[]) => void;
+  resetTargets: () => void;
+  updateRiskRules: (rules: RiskRule[]) => void;
+  resetRiskRules: () => void;
+  updateOpportunityScoreWeights: (weights: OpportunityScoreWeights) => void;
+  resetOpportunityScoreWeights: () => void;
+}
+
+export const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
+
+export function useSettings() {
+  const context = useContext(SettingsContext);
+  if (context === undefined) {
+    throw new Error('useSettings must be used within a SettingsProvider');
+  }
+  return context;
+}
@@ -0,0 +1,26 @@
+import { createContext, useContext } from 'react';
+import { StrategyProposal } from '../types/strategy';
+
+export interface StrategyContextType {
+  strategies: StrategyProposal[];
+  syncError: string | null; // 保存失败或被他人修改的提示
+  dismissSyncError: () => void;
+  // 新建或更新（按ID判断），本地立即生效并异步保存
+  saveStrategy: (strategy: StrategyProposal) => void;
+  deleteStrategy: (id: string) => void;
+  // 拖拽排序时只更新本地顺序，拖拽结束后调用 commitStrategyOrder 保存变化的优先级
+  reorderStrategies: (ordered: StrategyProposal[]) => void;
+  commitStrategyOrder: () => void;
+  // 追加到优先级末尾，返回创建后的策略建议
+  addStrategy: (strategy: Omit<StrategyProposal, 'id' | 'priority' | 'createdAt' | 'updatedAt'>) => StrategyProposal;
+}
+
+export const StrategyContext = createContext<StrategyContextType | undefined>(undefined);
+
+export function useStrategy() {
+  const context = useContext(StrategyContext);
+  if (context === undefined) {
+    throw new Error('useStrategy must be used within a StrategyProvider');
+  }
+  return context;
+}
@@ -0,0 +1,260 @@
+import { useMemo, useState } from 'react';
+import { Dataset, ImportMode, ImportTarget } from '../types/dataset';
+import {
+  autoMapColumns,
+  ColumnMapping,
+  getUnmappedRequiredFields,
+  IMPORT_TARGETS,
+  parseImportFile,
+  ParsedSheet,
+  validateImportRows,
+} from '../services/dataImport';
+import { useDataset } from '../hooks/useDataset';
+import { useDataRepository } from '../hooks/useDataRepository';
+import { DATA_SOURCE_LABELS } from '../services/repository';
+import ImportUploadStep from '../components/dataImport/ImportUploadStep';
+import ColumnMappingStep from '../components/dataImport/ColumnMappingStep';
+import ValidationPreview from '../components/dataImport/ValidationPreview';
+import DatasetVersionList from '../components/dataImport/DatasetVersionList';
+import { AlertCircle, CheckCircle2, ChevronLeft, ChevronRight, FileSpreadsheet, Loader2 } from 'lucide-react';
+import { clsx } from 'clsx';
+
+type WizardStep = 'upload' | 'mapping' | 'preview' | 'done';
+
+const STEPS: { id: WizardStep; label: string }[] = [
+  { id: 'upload', label: '上传文件' },
+  { id: 'mapping', label: '字段映射' },
+  { id: 'preview', label: '校验预览' },
+  { id: 'done', label: '提交版本' },
+];
+
+export default function DataImport() {
+  const { datasets, activeDataset, commitImport, activateDataset } = useDataset();
+  const { repository } = useDataRepository();
+  // 数据集版本只作用于浏览器本地数据源，其他数据源下导入不会影响页面数据
+  const importEnabled = repository.source === 'indexeddb';
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [target, setTarget] = useState<ImportTarget>('productPerformance');
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [note, setNote] = useState('');
+  const [parsing, setParsing] = useState(false);
+  const [committing, setCommitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [committed, setCommitted] = useState<Dataset | null>(null);
+
+  const validation = useMemo(
+    () => (sheet && step === 'preview' ? validateImportRows(target, sheet, mapping) : null),
+    [sheet, step, target, mapping]
+  );
+
+  const handleFileSelected = async (file: File) => {
+    setParsing(true);
+    setError(null);
+    try {
+      const parsed = await parseImportFile(file);
+      setSheet(parsed);
+      setFileName(file.name);
+      setMapping(autoMapColumns(target, parsed.headers));
+      setNote(`${IMPORT_TARGETS[target].label}导入：${file.name}`);
+      setStep('mapping');
+    } catch (err) {
+      console.error('Failed to parse import file:', err);
+      setError(`文件解析失败：${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!validation) return;
+    setCommitting(true);
+    setError(null);
+    try {
+      const created = await commitImport({
+        target,
+        mode,
+        fileName,
+        records: validation.records,
+        skippedCount: validation.invalidRowCount,
+        note: note.trim() || `${IMPORT_TARGETS[target].label}导入`,
+      });
+      setCommitted(created);
+      setStep('done');
+    } catch (err) {
+      console.error('Failed to commit dataset:', err);
+      setError(`保存数据集失败：${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setCommitting(false);
+    }
+  };
+
+  const resetWizard = () => {
+    setStep('upload');
+    setSheet(null);
+    setMapping({});
+    setFileName('');
+    setNote('');
+    setError(null);
+    setCommitted(null);
+  };
+
+  const stepIndex = STEPS.findIndex((s) => s.id === step);
+  const canContinueMapping = sheet !== null && getUnmappedRequiredFields(target, mapping).length === 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* 页面头部 */}
+      <div className="bg-white border-b border-gray-200 sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-6 py-4">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">数据导入</h1>
+          <p className="text-gray-600">
+            上传季度份额提数和内部解限数据（CSV / Excel），映射字段、校验后提交为新的数据集版本，各页面即刻使用新数据
+          </p>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-6 py-6">
+        {!importEnabled && (
+          <div className="flex items-start space-x-2 mb-6 p-4 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>
+              当前数据源为{DATA_SOURCE_LABELS[repository.source]}，页面数据不读取导入的数据集版本，已禁用导入和版本切换。
+              如需导入，请将 VITE_DATA_SOURCE 设置为 indexeddb，或直接更新后端数据。
+            </span>
+          </div>
+        )}
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <div className="lg:col-span-3">
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              {/* 步骤条 */}
+              <div className="flex items-center mb-6">
+                {STEPS.map((s, index) => (
+                  <div key={s.id} className="flex items-center flex-1 last:flex-none">
+                    <div
+                      className={clsx(
+                        'flex items-center justify-center w-7 h-7 rounded-full text-xs font-semibold',
+                        index <= stepIndex ? 'bg-primary-600 text-white' : 'bg-gray-200 text-gray-500'
+                      )}
+                    >
+                      {index + 1}
+                    </div>
+                    <span
+                      className={clsx('ml-2 text-sm', index === stepIndex ? 'font-semibold text-gray-900' : 'text-gray-500')}
+                    >
+                      {s.label}
+                    </span>
+                    {index < STEPS.length - 1 && <div className="flex-1 h-px bg-gray-200 mx-3" />}
+                  </div>
+                ))}
+              </div>
+
+              {step !== 'upload' && step !== 'done' && (
+                <div className="flex items-center space-x-2 text-sm text-gray-600 mb-4">
+                  <FileSpreadsheet className="w-4 h-4 text-gray-400" />
+                  <span>
+                    {fileName} → {IMPORT_TARGETS[target].label}（{mode === 'merge' ? '合并' : '整表替换'}）
+                  </span>
+                </div>
+              )}
+
+              {step === 'upload' && (
+                <ImportUploadStep
+                  target={target}
+                  mode={mode}
+                  parsing={parsing}
+                  disabled={!importEnabled}
+                  error={error}
+                  onTargetChange={setTarget}
+                  onModeChange={setMode}
+                  onFileSelected={handleFileSelected}
+                />
+              )}
+
+              {step === 'mapping' && sheet && (
+                <ColumnMappingStep target={target} sheet={sheet} mapping={mapping} onMappingChange={setMapping} />
+              )}
+
+              {step === 'preview' && sheet && validation && (
+                <div className="space-y-4">
+                  <ValidationPreview target={target} sheet={sheet} mapping={mapping} result={validation} />
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">版本说明</label>
+                    <input
+                      type="text"
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent text-sm"
+                    />
+                  </div>
+                  {error && <p className="text-sm text-red-600">{error}</p>}
+                </div>
+              )}
+
+              {step === 'done' && committed && (
+                <div className="text-center py-8">
+                  <CheckCircle2 className="w-12 h-12 text-green-500 mx-auto mb-3" />
+                  <h3 className="text-lg font-bold text-gray-900 mb-1">已提交为 v{committed.version} 并启用</h3>
+                  <p className="text-sm text-gray-600 mb-6">
+                    写入 {committed.importLog?.rowCount ?? 0} 行
+                    {committed.importLog && committed.importLog.skippedCount > 0
+                      ? `，跳过 ${committed.importLog.skippedCount} 行错误数据`
+                      : ''}
+                    ，产品、省份和生意大盘页面已切换到新版本
+                  </p>
+                  <button
+                    onClick={resetWizard}
+                    className="px-4 py-2 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded-lg transition-colors"
+                  >
+                    继续导入
+                  </button>
+                </div>
+              )}
+
+              {/* 底部操作 */}
+              {(step === 'mapping' || step === 'preview') && (
+                <div className="flex items-center justify-between mt-6 pt-4 border-t border-gray-200">
+                  <button
+                    onClick={() => (step === 'mapping' ? resetWizard() : setStep('mapping'))}
+                    className="flex items-center space-x-1 px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                    <span>{step === 'mapping' ? '重新上传' : '返回映射'}</span>
+                  </button>
+                  {step === 'mapping' ? (
+                    <button
+                      onClick={() => setStep('preview')}
+                      disabled={!canContinueMapping}
+                      className="flex items-center space-x-1 px-4 py-2 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <span>校验数据</span>
+                      <ChevronRight className="w-4 h-4" />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={handleCommit}
+                      disabled={!importEnabled || committing || !validation || validation.records.length === 0}
+                      className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {committing && <Loader2 className="w-4 h-4 animate-spin" />}
+                      <span>
+                        提交 {validation?.records.length ?? 0} 行为新版本
+                        {validation && validation.invalidRowCount > 0 ? `（跳过 ${validation.invalidRowCount} 行）` : ''}
+                      </span>
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="lg:col-span-1">
+            <DatasetVersionList datasets={datasets} activeId={activeDataset.id} onActivate={importEnabled ? activateDataset : undefined} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
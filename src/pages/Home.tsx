@@ -39,9 +39,9 @@ export default function Home() {
 
   const modules = [
     {
-      title: '全国层面各产品表现整体解读',
-      description: '分产品诊断报告：就数论数 + 数据解读，AI自动识别风险点',
-      link: '/product-analysis',
+      title: '全国风险看板',
+      description: '风险矩阵：产品和省份 × 风险类型，按严重程度着色、按综合风险排序，点击单元格查看对应诊断报告',
+      link: '/risk-dashboard',
       icon: AlertTriangle,
     },
     {
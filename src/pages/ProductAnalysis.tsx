@@ -1,16 +1,27 @@
-import { useState } from 'react';
-import { ProductPerformance } from '../types';
-import { mockProductPerformance } from '../data/mockData';
+import { useCallback, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useRepositoryQuery } from '../hooks/useDataRepository';
 import ProductDiagnosis from '../components/ProductDiagnosis';
 import { Search } from 'lucide-react';
 
 export default function ProductAnalysis() {
-  const [selectedProduct, setSelectedProduct] = useState<ProductPerformance | null>(
-    mockProductPerformance[0]
+  // 从风险看板等页面跳转时，通过 URL 参数指定周期和产品
+  const [searchParams] = useSearchParams();
+  const { data: periods = [] } = useRepositoryQuery(useCallback((repository) => repository.listPeriods(), []));
+  const [selectedPeriod, setPeriod] = useState<string | null>(searchParams.get('period'));
+  // 未选择或切换数据集版本后所选周期不存在时，使用最新周期
+  const latestPeriod = periods[periods.length - 1] ?? '';
+  const period = selectedPeriod && periods.includes(selectedPeriod) ? selectedPeriod : latestPeriod;
+  const { data: products = [], loading, error } = useRepositoryQuery(
+    useCallback((repository) => (period ? repository.getProductPerformance(period) : Promise.resolve([])), [period])
   );
+  // 记录选中的产品ID，切换周期时保持选中同一产品；未选择时默认第一个
+  const [selectedProductId, setSelectedProductId] = useState<string | null>(searchParams.get('product'));
   const [searchTerm, setSearchTerm] = useState('');
 
-  const filteredProducts = mockProductPerformance.filter((product) =>
+  const selectedProduct = products.find((product) => product.productId === selectedProductId) ?? products[0] ?? null;
+
+  const filteredProducts = products.filter((product) =>
     product.productName.toLowerCase().includes(searchTerm.toLowerCase()) ||
     product.moleculeFormula.toLowerCase().includes(searchTerm.toLowerCase())
   );
@@ -35,6 +46,17 @@ export default function ProductAnalysis() {
           <div className="lg:col-span-1">
             <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 sticky top-24">
               <div className="mb-4">
+                <select
+                  value={period}
+                  onChange={(e) => setPeriod(e.target.value)}
+                  className="w-full mb-3 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent text-sm"
+                >
+                  {[...periods].reverse().map((p) => (
+                    <option key={p} value={p}>
+                      {p}
+                    </option>
+                  ))}
+                </select>
                 <div className="relative">
                   <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
                   <input
@@ -47,11 +69,13 @@ export default function ProductAnalysis() {
                 </div>
               </div>
 
+              {error && <p className="mb-2 text-xs text-red-600">数据加载失败：{error.message}</p>}
               <div className="space-y-2 max-h-[calc(100vh-200px)] overflow-y-auto">
+                {loading && products.length === 0 && <p className="text-sm text-gray-400 text-center py-4">加载中...</p>}
                 {filteredProducts.map((product) => (
                   <button
                     key={product.productId}
-                    onClick={() => setSelectedProduct(product)}
+                    onClick={() => setSelectedProductId(product.productId)}
                     className={`w-full text-left p-3 rounded-lg border transition-all ${
                       selectedProduct?.productId === product.productId
                         ? 'bg-primary-50 border-primary-500 text-primary-900'
@@ -1,19 +1,36 @@
-import { useState } from 'react';
-import { ProvincePerformance } from '../types';
-import { mockProvincePerformance } from '../data/mockData';
+import { useCallback, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useRepositoryQuery } from '../hooks/useDataRepository';
 import ProvinceDiagnosis from '../components/ProvinceDiagnosis';
-import { Search } from 'lucide-react';
+import { Search, SlidersHorizontal } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Cell } from 'recharts';
 
+type ProvinceSortKey = 'healthScore' | 'marketShare' | 'roi';
+
 export default function ProvinceAnalysis() {
-  const [selectedProvince, setSelectedProvince] = useState<ProvincePerformance | null>(
-    mockProvincePerformance[0]
+  // 从风险看板等页面跳转时，通过 URL 参数指定周期和省份
+  const [searchParams] = useSearchParams();
+  const { data: periods = [] } = useRepositoryQuery(useCallback((repository) => repository.listPeriods(), []));
+  const [selectedPeriod, setPeriod] = useState<string | null>(searchParams.get('period'));
+  // 未选择或切换数据集版本后所选周期不存在时，使用最新周期
+  const latestPeriod = periods[periods.length - 1] ?? '';
+  const period = selectedPeriod && periods.includes(selectedPeriod) ? selectedPeriod : latestPeriod;
+  const { data: provinces = [], loading, error } = useRepositoryQuery(
+    useCallback((repository) => (period ? repository.getProvincePerformance(period) : Promise.resolve([])), [period])
   );
+  // 记录选中的省份ID，切换周期时保持选中同一省份；未选择时默认第一个
+  const [selectedProvinceId, setSelectedProvinceId] = useState<string | null>(searchParams.get('province'));
   const [searchTerm, setSearchTerm] = useState('');
-  const [sortBy, setSortBy] = useState<'healthScore' | 'marketShare' | 'roi'>('healthScore');
+  const [sortBy, setSortBy] = useState<ProvinceSortKey>('healthScore');
+
+  const selectedProvince = provinces.find((province) => province.provinceId === selectedProvinceId) ?? provinces[0] ?? null;
+
+  // 健康度排名（评分规则在系统设置中修改后随数据重新计算）
+  const rankedProvinces = [...provinces].sort((a, b) => b.healthScore - a.healthScore);
+  const healthRanks = new Map(rankedProvinces.map((p, index) => [p.provinceId, index + 1]));
 
   // 排序省份数据
-  const sortedProvinces = [...mockProvincePerformance].sort((a, b) => {
+  const sortedProvinces = [...provinces].sort((a, b) => {
     switch (sortBy) {
       case 'healthScore':
         return b.healthScore - a.healthScore;
@@ -45,7 +62,7 @@ export default function ProvinceAnalysis() {
     }
   };
 
-  const chartData = mockProvincePerformance.map((p) => ({
+  const chartData = rankedProvinces.map((p) => ({
     name: p.provinceName,
     healthScore: p.healthScore,
     marketShare: p.marketShare,
@@ -70,7 +87,30 @@ export default function ProvinceAnalysis() {
       <div className="max-w-7xl mx-auto px-6 py-6">
         {/* 整体概览图表 */}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
-          <h2 className="text-xl font-bold text-gray-900 mb-4">省份健康度概览</h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-bold text-gray-900">省份健康度概览</h2>
+            <div className="flex items-center space-x-3">
+              <Link
+                to="/settings"
+                className="flex items-center space-x-1 text-sm text-gray-500 hover:text-primary-600"
+                title="调整健康度评分的权重、目标值和评级区间"
+              >
+                <SlidersHorizontal className="w-4 h-4" />
+                <span>评分规则</span>
+              </Link>
+              <select
+                value={period}
+                onChange={(e) => setPeriod(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent text-sm"
+              >
+                {[...periods].reverse().map((p) => (
+                  <option key={p} value={p}>
+                    {p}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
           <ResponsiveContainer width="100%" height={300}>
             <BarChart data={chartData}>
               <CartesianGrid strokeDasharray="3 3" />
@@ -104,7 +144,7 @@ export default function ProvinceAnalysis() {
                 </div>
                 <select
                   value={sortBy}
-                  onChange={(e) => setSortBy(e.target.value as any)}
+                  onChange={(e) => setSortBy(e.target.value as ProvinceSortKey)}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent text-sm"
                 >
                   <option value="healthScore">按健康度排序</option>
@@ -113,11 +153,13 @@ export default function ProvinceAnalysis() {
                 </select>
               </div>
 
+              {error && <p className="mb-2 text-xs text-red-600">数据加载失败：{error.message}</p>}
               <div className="space-y-2 max-h-[calc(100vh-300px)] overflow-y-auto">
+                {loading && provinces.length === 0 && <p className="text-sm text-gray-400 text-center py-4">加载中...</p>}
                 {filteredProvinces.map((province) => (
                   <button
                     key={province.provinceId}
-                    onClick={() => setSelectedProvince(province)}
+                    onClick={() => setSelectedProvinceId(province.provinceId)}
                     className={`w-full text-left p-3 rounded-lg border transition-all ${
                       selectedProvince?.provinceId === province.provinceId
                         ? 'bg-primary-50 border-primary-500 text-primary-900'
@@ -125,7 +167,10 @@ export default function ProvinceAnalysis() {
                     }`}
                   >
                     <div className="flex items-center justify-between mb-1">
-                      <div className="font-semibold text-sm">{province.provinceName}</div>
+                      <div className="font-semibold text-sm">
+                        <span className="text-gray-400 mr-1">#{healthRanks.get(province.provinceId)}</span>
+                        {province.provinceName}
+                      </div>
                       <div
                         className={`text-xs px-2 py-1 rounded ${
                           province.healthLevel === 'excellent'
@@ -0,0 +1,317 @@
+import { useCallback, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useRepositoryQuery } from '../hooks/useDataRepository';
+import { useSettings } from '../hooks/useSettings';
+import {
+  evaluateProductRisks,
+  evaluateProvinceRisks,
+  RISK_ENTITY_LABELS,
+  RISK_SEVERITY_LABELS,
+  RISK_SEVERITY_RANK,
+  RiskEntityType,
+  RiskSeverity,
+} from '../services/riskRules';
+import { RiskAlert } from '../types';
+import { AlertTriangle, ArrowDown, ArrowUp, ArrowUpDown, SlidersHorizontal } from 'lucide-react';
+import { clsx } from 'clsx';
+
+// 风险看板中的一行：一个产品或省份在所选周期命中的全部预警
+interface RiskRow {
+  entityType: RiskEntityType;
+  entityId: string;
+  entityName: string;
+  alerts: Map<string, RiskAlert>; // 风险类型 -> 预警
+}
+
+// 排序依据：综合风险、对象名称或某一风险类型
+type SortKey = { kind: 'overall' } | { kind: 'name' } | { kind: 'riskType'; riskType: string };
+
+type EntityFilter = RiskEntityType | 'all';
+
+const SEVERITY_CELL_COLORS: Record<RiskSeverity, string> = {
+  high: 'bg-red-100 text-red-700 hover:bg-red-200',
+  medium: 'bg-orange-100 text-orange-700 hover:bg-orange-200',
+  low: 'bg-yellow-100 text-yellow-700 hover:bg-yellow-200',
+};
+
+const ENTITY_FILTERS: { value: EntityFilter; label: string }[] = [
+  { value: 'all', label: '全部' },
+  { value: 'product', label: RISK_ENTITY_LABELS.product },
+  { value: 'province', label: RISK_ENTITY_LABELS.province },
+];
+
+// 诊断页链接，打开后选中对应周期和产品/省份
+const getDiagnosisLink = (row: RiskRow, period: string) => {
+  const params = new URLSearchParams({ period, [row.entityType]: row.entityId });
+  return `/${row.entityType}-analysis?${params.toString()}`;
+};
+
+// 按严重程度、变化幅度比较两条预警（无预警排在最后）
+const compareAlerts = (a: RiskAlert | undefined, b: RiskAlert | undefined) => {
+  if (!a || !b) return (b ? 1 : 0) - (a ? 1 : 0);
+  return RISK_SEVERITY_RANK[b.riskLevel] - RISK_SEVERITY_RANK[a.riskLevel] || b.changeMagnitude - a.changeMagnitude;
+};
+
+// 综合风险：最高风险等级 > 预警数量 > 变化幅度合计
+const getOverallRisk = (row: RiskRow) => {
+  const alerts = Array.from(row.alerts.values());
+  return [
+    Math.max(0, ...alerts.map((alert) => RISK_SEVERITY_RANK[alert.riskLevel])),
+    alerts.length,
+    alerts.reduce((sum, alert) => sum + alert.changeMagnitude, 0),
+  ];
+};
+
+export default function RiskDashboard() {
+  const { settings } = useSettings();
+  const { data: periods = [] } = useRepositoryQuery(useCallback((repository) => repository.listPeriods(), []));
+  const [selectedPeriod, setPeriod] = useState<string | null>(null);
+  // 未选择或切换数据集版本后所选周期不存在时，使用最新周期
+  const latestPeriod = periods[periods.length - 1] ?? '';
+  const period = selectedPeriod && periods.includes(selectedPeriod) ? selectedPeriod : latestPeriod;
+  const { data, loading, error } = useRepositoryQuery(
+    useCallback(
+      async (repository) => {
+        if (!period) return { products: [], provinces: [] };
+        const [products, provinces] = await Promise.all([
+          repository.getProductPerformance(period),
+          repository.getProvincePerformance(period),
+        ]);
+        return { products, provinces };
+      },
+      [period]
+    )
+  );
+  const [entityFilter, setEntityFilter] = useState<EntityFilter>('all');
+  const [showAll, setShowAll] = useState(false);
+  const [sortKey, setSortKey] = useState<SortKey>({ kind: 'overall' });
+  const [ascending, setAscending] = useState(false);
+
+  // 对所有产品和省份统一按风险规则评估
+  const allRows = useMemo((): RiskRow[] => {
+    if (!data) return [];
+    const toAlertMap = (alerts: RiskAlert[]) => new Map(alerts.map((alert) => [alert.riskType, alert]));
+    return [
+      ...data.products.map((product) => ({
+        entityType: 'product' as const,
+        entityId: product.productId,
+        entityName: product.productName,
+        alerts: toAlertMap(evaluateProductRisks(product, settings)),
+      })),
+      ...data.provinces.map((province) => ({
+        entityType: 'province' as const,
+        entityId: province.provinceId,
+        entityName: province.provinceName,
+        alerts: toAlertMap(evaluateProvinceRisks(province, settings)),
+      })),
+    ];
+  }, [data, settings]);
+
+  // 列：已启用规则对应的风险类型（按规则顺序）
+  const riskTypes = Array.from(
+    new Set(
+      settings.riskRules
+        .filter((rule) => rule.enabled && (entityFilter === 'all' || rule.entityType === entityFilter))
+        .map((rule) => rule.name)
+    )
+  );
+
+  const rows = allRows
+    .filter((row) => entityFilter === 'all' || row.entityType === entityFilter)
+    .filter((row) => showAll || row.alerts.size > 0)
+    .sort((a, b) => {
+      let result: number;
+      if (sortKey.kind === 'name') {
+        result = a.entityName.localeCompare(b.entityName, 'zh');
+      } else if (sortKey.kind === 'riskType') {
+        result = compareAlerts(a.alerts.get(sortKey.riskType), b.alerts.get(sortKey.riskType));
+      } else {
+        const [x, y] = [getOverallRisk(a), getOverallRisk(b)];
+        result = y[0] - x[0] || y[1] - x[1] || y[2] - x[2];
+      }
+      // 名称默认升序，风险默认从高到低
+      return ascending === (sortKey.kind === 'name') ? result : -result;
+    });
+
+  const visibleAlerts = rows.flatMap((row) => Array.from(row.alerts.values()));
+  const summary = [
+    { label: '高风险预警', value: visibleAlerts.filter((a) => a.riskLevel === 'high').length, color: 'text-red-600' },
+    { label: '中风险预警', value: visibleAlerts.filter((a) => a.riskLevel === 'medium').length, color: 'text-orange-600' },
+    { label: '低风险预警', value: visibleAlerts.filter((a) => a.riskLevel === 'low').length, color: 'text-yellow-600' },
+    { label: '涉及产品/省份', value: rows.filter((row) => row.alerts.size > 0).length, color: 'text-gray-900' },
+  ];
+
+  const isSortedBy = (key: SortKey) =>
+    sortKey.kind === key.kind && (key.kind !== 'riskType' || (sortKey.kind === 'riskType' && sortKey.riskType === key.riskType));
+
+  const handleSort = (key: SortKey) => {
+    if (isSortedBy(key)) {
+      setAscending((prev) => !prev);
+    } else {
+      setSortKey(key);
+      setAscending(key.kind === 'name');
+    }
+  };
+
+  const renderSortIcon = (key: SortKey) => {
+    if (!isSortedBy(key)) return <ArrowUpDown className="w-3 h-3 text-gray-300" />;
+    return ascending ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />;
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* 页面头部 */}
+      <div className="bg-white border-b border-gray-200 sticky top-0 z-20">
+        <div className="max-w-7xl mx-auto px-6 py-4">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">全国风险看板</h1>
+          <p className="text-gray-600">按风险规则同时评估所有产品和省份，点击单元格查看对应的诊断报告</p>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-6 py-6 space-y-6">
+        {/* 筛选 */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 flex flex-wrap items-center gap-4">
+          <select
+            value={period}
+            onChange={(e) => setPeriod(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent text-sm"
+          >
+            {[...periods].reverse().map((p) => (
+              <option key={p} value={p}>
+                {p}
+              </option>
+            ))}
+          </select>
+          <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+            {ENTITY_FILTERS.map((filter) => (
+              <button
+                key={filter.value}
+                onClick={() => setEntityFilter(filter.value)}
+                className={clsx(
+                  'px-3 py-2 text-sm transition-colors',
+                  entityFilter === filter.value ? 'bg-primary-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                )}
+              >
+                {filter.label}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showAll}
+              onChange={(e) => setShowAll(e.target.checked)}
+              className="w-4 h-4 text-primary-600 rounded"
+            />
+            <span>显示无预警的产品/省份</span>
+          </label>
+          <Link
+            to="/settings"
+            className="ml-auto flex items-center space-x-1 text-sm text-gray-500 hover:text-primary-600"
+            title="启用、停用或修改风险预警规则"
+          >
+            <SlidersHorizontal className="w-4 h-4" />
+            <span>风险规则</span>
+          </Link>
+        </div>
+
+        {/* 汇总 */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {summary.map((item) => (
+            <div key={item.label} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+              <div className="text-sm text-gray-500">{item.label}</div>
+              <div className={clsx('text-2xl font-bold mt-1', item.color)}>{item.value}</div>
+            </div>
+          ))}
+        </div>
+
+        {/* 风险矩阵 */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          {error && <p className="p-4 text-sm text-red-600">数据加载失败：{error.message}</p>}
+          {loading && !data ? (
+            <p className="p-12 text-center text-sm text-gray-400">加载中...</p>
+          ) : rows.length === 0 ? (
+            <div className="p-12 text-center text-gray-500">
+              <AlertTriangle className="w-8 h-8 text-gray-300 mx-auto mb-2" />
+              {period}暂无风险预警
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 text-gray-600">
+                    <th className="sticky left-0 z-10 bg-white px-4 py-3 text-left font-medium">
+                      <button onClick={() => handleSort({ kind: 'name' })} className="flex items-center space-x-1">
+                        <span>产品 / 省份</span>
+                        {renderSortIcon({ kind: 'name' })}
+                      </button>
+                    </th>
+                    <th className="px-3 py-3 font-medium whitespace-nowrap">
+                      <button onClick={() => handleSort({ kind: 'overall' })} className="flex items-center space-x-1 mx-auto">
+                        <span>综合</span>
+                        {renderSortIcon({ kind: 'overall' })}
+                      </button>
+                    </th>
+                    {riskTypes.map((riskType) => (
+                      <th key={riskType} className="px-3 py-3 font-medium whitespace-nowrap">
+                        <button
+                          onClick={() => handleSort({ kind: 'riskType', riskType })}
+                          className="flex items-center space-x-1 mx-auto"
+                        >
+                          <span>{riskType}</span>
+                          {renderSortIcon({ kind: 'riskType', riskType })}
+                        </button>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => {
+                    const link = getDiagnosisLink(row, period);
+                    return (
+                      <tr key={`${row.entityType}-${row.entityId}`} className="border-b border-gray-100 last:border-b-0">
+                        <td className="sticky left-0 z-10 bg-white px-4 py-2 whitespace-nowrap">
+                          <Link to={link} className="font-medium text-gray-900 hover:text-primary-600">
+                            {row.entityName}
+                          </Link>
+                          <span className="ml-2 text-xs text-gray-400">{RISK_ENTITY_LABELS[row.entityType]}</span>
+                        </td>
+                        <td className="px-3 py-2 text-center text-gray-700">{row.alerts.size || '—'}</td>
+                        {riskTypes.map((riskType) => {
+                          const alert = row.alerts.get(riskType);
+                          return (
+                            <td key={riskType} className="px-1 py-1 text-center">
+                              {alert ? (
+                                <Link
+                                  to={link}
+                                  title={alert.description}
+                                  className={clsx(
+                                    'block rounded px-2 py-1.5 transition-colors',
+                                    SEVERITY_CELL_COLORS[alert.riskLevel]
+                                  )}
+                                >
+                                  <div className="text-xs">{RISK_SEVERITY_LABELS[alert.riskLevel]}</div>
+                                  <div className="font-semibold">{alert.changeMagnitude}</div>
+                                </Link>
+                              ) : (
+                                <span className="text-gray-300">—</span>
+                              )}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <p className="text-xs text-gray-500">
+          单元格显示风险等级和变化幅度，悬停查看预警描述；列为已启用的风险规则，可在系统设置中调整
+        </p>
+      </div>
+    </div>
+  );
+}
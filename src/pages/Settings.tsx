@@ -0,0 +1,23 @@
+import HealthScoreSettings from '../components/settings/HealthScoreSettings';
+import RiskRuleSettings from '../components/settings/RiskRuleSettings';
+import TargetSettings from '../components/settings/TargetSettings';
+
+export default function Settings() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* 页面头部 */}
+      <div className="bg-white border-b border-gray-200 sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-6 py-4">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">系统设置</h1>
+          <p className="text-gray-600">配置业务规则，修改保存在当前浏览器，保存后各页面数据即按新规则重新计算</p>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-6 py-6 space-y-6">
+        <TargetSettings />
+        <HealthScoreSettings />
+        <RiskRuleSettings />
+      </div>
+    </div>
+  );
+}
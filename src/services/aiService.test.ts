@@ -0,0 +1,156 @@
+import { createServer, IncomingMessage, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProductPerformance } from '../types';
+
+type AIService = typeof import('./aiService');
+type LLMModule = typeof import('./llm');
+
+interface ChatRequest {
+  messages: Array<{ role: string; content: string }>;
+  response_format?: { type: string };
+}
+
+const validReply = JSON.stringify({
+  keyFindings: ['分子式内份额下降3%'],
+  interpretation: '份额下降主要来自竞品放量',
+  possibleReasons: ['竞品策略调整'],
+  suggestedActions: {
+    problemBreakdown: ['分省份拆解'],
+    interviewTargets: ['区域经理'],
+    dataAnalysis: ['对比竞品活动时间线'],
+  },
+});
+
+const brokenReply = '{"keyFindings": ["分子式内份额下降3%"], "interpretation": }';
+
+const product: ProductPerformance = {
+  productId: 'p1',
+  productName: '立普妥',
+  moleculeFormula: '阿托伐他汀',
+  moleculeShare: 30,
+  moleculeShareChange: -1,
+  moleculeInternalShare: 40,
+  moleculeInternalShareChange: -3,
+  competitorShare: 25,
+  competitorShareChange: 2,
+  deLimitRate: 60,
+  deLimitRateChange: -1,
+  period: '2024-Q1',
+  previousPeriod: '2023-Q4',
+};
+
+// 本地假LLM接口：按顺序返回预设回复，并记录收到的请求
+let replies: string[] = [];
+let requests: ChatRequest[] = [];
+let server: Server;
+let aiService: AIService;
+let llm: LLMModule;
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    void readBody(req).then((body) => {
+      requests.push(JSON.parse(body) as ChatRequest);
+      const content = replies.shift();
+      if (content === undefined) {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: { code: 'NO_REPLY' } }));
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content } }] }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  // LLM配置在模块加载时读取环境变量，需先指向假接口再导入
+  vi.stubEnv('VITE_LLM_PROVIDER', 'openai-compatible');
+  vi.stubEnv('VITE_LLM_BASE_URL', `http://127.0.0.1:${port}/v1/chat/completions`);
+  aiService = await import('./aiService');
+  llm = await import('./llm');
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  replies = [];
+  requests = [];
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+describe('requestStructuredAnalysis', () => {
+  const createClient = () => llm.getLLMClient('productDiagnosis', () => '模拟响应');
+
+  it('首次输出合法时直接返回，不再请求修复', async () => {
+    replies = [validReply];
+
+    const result = await aiService.requestStructuredAnalysis(createClient(), '系统提示', '用户提示');
+
+    expect(result.raw).toBe(validReply);
+    expect(result.payload?.interpretation).toBe('份额下降主要来自竞品放量');
+    expect(requests).toHaveLength(1);
+    expect(requests[0].response_format).toEqual({ type: 'json_object' });
+    expect(requests[0].messages[0].content).toContain('请严格只输出一个JSON对象');
+  });
+
+  it('首次输出不合法时带上错误信息请求修复', async () => {
+    replies = [brokenReply, validReply];
+
+    const result = await aiService.requestStructuredAnalysis(createClient(), '系统提示', '用户提示');
+
+    expect(result.raw).toBe(validReply);
+    expect(result.payload?.keyFindings).toEqual(['分子式内份额下降3%']);
+    expect(requests).toHaveLength(2);
+    const repairMessages = requests[1].messages;
+    expect(repairMessages.at(-2)).toEqual({ role: 'assistant', content: brokenReply });
+    expect(repairMessages.at(-1)?.role).toBe('user');
+    expect(repairMessages.at(-1)?.content).toContain('JSON语法错误');
+  });
+
+  it('修复后仍不合法时返回空结果和首次输出', async () => {
+    replies = [brokenReply, 'AI分析结果生成中...'];
+
+    const result = await aiService.requestStructuredAnalysis(createClient(), '系统提示', '用户提示');
+
+    expect(result).toEqual({ payload: null, raw: brokenReply });
+    expect(requests).toHaveLength(2);
+  });
+});
+
+describe('analyzeProductPerformance', () => {
+  it('使用模型返回的结构化结果', async () => {
+    replies = [validReply];
+
+    const analysis = await aiService.analyzeProductPerformance(product);
+
+    expect(analysis.cacheKey).toBe('product-p1-2024-Q1');
+    expect(analysis.interpretation).toBe('份额下降主要来自竞品放量');
+    expect(analysis.possibleReasons).toEqual(['竞品策略调整']);
+  });
+
+  it('两次输出都无法解析时回退到规则解读，不展示原始输出', async () => {
+    replies = [brokenReply, brokenReply];
+
+    const analysis = await aiService.analyzeProductPerformance(product);
+
+    expect(analysis.interpretation).not.toContain(brokenReply);
+    expect(analysis.interpretation).toContain('基于规则的初步解读');
+    expect(analysis.keyFindings).toEqual(['分子式内份额下降3%，需要重点关注']);
+    expect(analysis.suggestedActions.problemBreakdown.length).toBeGreaterThan(0);
+  });
+});
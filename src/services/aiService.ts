@@ -1,51 +1,31 @@
-import axios from 'axios';
-import { AIAnalysis, ProductPerformance, ProvincePerformance } from '../types';
-
-const DEEPSEEK_API_URL = 'https://api.deepseek.com/v1/chat/completions';
-const DEEPSEEK_API_KEY = import.meta.env.VITE_DEEPSEEK_API_KEY || '';
-
-interface DeepSeekMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-}
-
-// 调用DeepSeek API
-async function callDeepSeekAPI(messages: DeepSeekMessage[]): Promise<string> {
-  if (!DEEPSEEK_API_KEY) {
-    // 如果没有API Key，返回模拟数据
-    return generateMockAIResponse(messages);
-  }
-
-  try {
-    const response = await axios.post(
-      DEEPSEEK_API_URL,
-      {
-        model: 'deepseek-chat',
-        messages,
-        temperature: 0.7,
-        max_tokens: 2000,
-      },
-      {
-        headers: {
-          'Authorization': `Bearer ${DEEPSEEK_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-      }
-    );
-
-    return response.data.choices[0]?.message?.content || '';
-  } catch (error) {
-    console.error('DeepSeek API Error:', error);
-    return generateMockAIResponse(messages);
-  }
-}
-
-// 生成模拟AI响应（当没有API Key时）
-function generateMockAIResponse(messages: DeepSeekMessage[]): string {
+import {
+  AIAnalysis,
+  ProductPerformance,
+  ProductProvinceBreakdown,
+  ProvincePerformance,
+  RiskAlert,
+  ShareChangeDecomposition,
+} from '../types';
+import {
+  AIAnalysisPayload,
+  JSON_OUTPUT_INSTRUCTION,
+  buildRepairPrompt,
+  parseAIAnalysisPayload,
+} from './analysisSchema';
+import { getLLMClient, LLMClient, LLMMessage } from './llm';
+import { ResolvedTarget, ResolvedTargets } from './targets';
+import { RISK_SEVERITY_LABELS } from './riskRules';
+import { PRODUCT_PROVINCE_METRIC_LABELS } from './performanceStore';
+import { SHARE_DRIVER_DESCRIPTIONS } from './shareDecomposition';
+
+// 生成模拟AI响应（服务端未配置API Key或请求失败时），与真实接口一样输出约定的JSON结构
+function generateMockAIResponse(messages: LLMMessage[]): string {
   const userMessage = messages.find(m => m.role === 'user')?.content || '';
   
   if (userMessage.includes('产品表现')) {
-    return `基于数据分析，该产品在分子式层面表现良好，但分子式内份额出现下降趋势。可能原因包括：
+    return JSON.stringify({
+      keyFindings: [],
+      interpretation: `基于数据分析，该产品在分子式层面表现良好，但分子式内份额出现下降趋势。可能原因包括：
 1. 竞品营销策略调整，加大了市场投入
 2. 产品价格竞争力下降
 3. 渠道覆盖不足，特别是在下沉市场
@@ -55,11 +35,25 @@ function generateMockAIResponse(messages: DeepSeekMessage[]): string {
 - 分省份拆解数据，识别问题集中区域
 - 访谈重点医院的关键医生，了解处方决策因素
 - 对比竞品的市场活动时间线
-- 分析价格变化对市场份额的影响`;
+- 分析价格变化对市场份额的影响`,
+      possibleReasons: [
+        '竞品营销策略调整，加大了市场投入',
+        '产品价格竞争力下降',
+        '渠道覆盖不足，特别是在下沉市场',
+        '医生处方习惯发生变化',
+      ],
+      suggestedActions: {
+        problemBreakdown: ['分省份拆解数据，识别问题集中区域', '分析时间序列趋势，识别变化拐点'],
+        interviewTargets: ['重点医院的关键医生', '市场准入负责人'],
+        dataAnalysis: ['对比竞品的市场活动时间线', '分析价格变化对市场份额的影响'],
+      },
+    });
   }
   
   if (userMessage.includes('省份表现')) {
-    return `该省份在多个核心维度表现不理想：
+    return JSON.stringify({
+      keyFindings: [],
+      interpretation: `该省份在多个核心维度表现不理想：
 1. 市场份额低于平均水平，可能与竞品在该区域投入较大有关
 2. ROI偏低，说明投入产出效率有待提升
 3. 解限率和渗透率均低于目标值，存在市场开发不足的问题
@@ -73,15 +67,127 @@ function generateMockAIResponse(messages: DeepSeekMessage[]): string {
 建议行动：
 - 访谈区域经理和重点医院代表，了解具体障碍
 - 分析该省份的医院准入数据
-- 评估是否需要增加市场投入或调整策略`;
+- 评估是否需要增加市场投入或调整策略`,
+      possibleReasons: [
+        '区域团队能力建设不足',
+        '医院准入进展缓慢',
+        '医生教育覆盖不够',
+        '竞品在该区域有较强的先发优势',
+      ],
+      suggestedActions: {
+        problemBreakdown: ['按医院层级拆解解限率和渗透率', '对比同区域省份的投入产出结构'],
+        interviewTargets: ['区域经理', '重点医院代表'],
+        dataAnalysis: ['分析该省份的医院准入数据', '评估是否需要增加市场投入或调整策略'],
+      },
+    });
   }
   
   return 'AI分析结果生成中...';
 }
 
+const productDiagnosisLLM = getLLMClient('productDiagnosis', generateMockAIResponse);
+const provinceDiagnosisLLM = getLLMClient('provinceDiagnosis', generateMockAIResponse);
+
+// 请求结构化分析：先按JSON约定解析，失败时让模型修复一次
+export async function requestStructuredAnalysis(
+  llm: LLMClient,
+  systemPrompt: string,
+  userPrompt: string
+): Promise<{ payload: AIAnalysisPayload | null; raw: string }> {
+  const messages: LLMMessage[] = [
+    { role: 'system', content: `${systemPrompt}\n\n${JSON_OUTPUT_INSTRUCTION}` },
+    { role: 'user', content: userPrompt },
+  ];
+
+  const raw = await llm.complete(messages, { responseFormat: 'json' });
+  const parsed = parseAIAnalysisPayload(raw);
+  if (parsed.ok) {
+    return { payload: parsed.value, raw };
+  }
+
+  console.warn('AI analysis JSON invalid, retrying with repair prompt:', parsed.errors);
+  const repairedRaw = await llm.complete(
+    [
+      ...messages,
+      { role: 'assistant', content: raw },
+      { role: 'user', content: buildRepairPrompt(parsed.errors) },
+    ],
+    { responseFormat: 'json' }
+  );
+  const repaired = parseAIAnalysisPayload(repairedRaw);
+  if (repaired.ok) {
+    return { payload: repaired.value, raw: repairedRaw };
+  }
+
+  console.warn('AI analysis JSON still invalid after repair, falling back to heuristics:', repaired.errors);
+  return { payload: null, raw };
+}
+
+// 分析结果的缓存键，诊断组件和AI助手共用
+export function getAnalysisCacheKey(type: AIAnalysis['type'], targetId: string, period: string): string {
+  return `${type}-${targetId}-${period}`;
+}
+
+// 环比/同比描述，缺少历史数据的部分省略
+function describeChanges(qoq?: number, yoy?: number): string {
+  const format = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+  const parts = [
+    qoq !== undefined ? `环比：${format(qoq)}` : '',
+    yoy !== undefined ? `同比：${format(yoy)}` : '',
+  ].filter(Boolean);
+  return parts.length > 0 ? ` (${parts.join('，')})` : '';
+}
+
+function describeTarget(target?: ResolvedTarget): string {
+  return target ? `（目标值：${target.value}）` : '';
+}
+
+// 风险规则命中的预警，随数据一并提供给模型
+function describeRiskAlerts(riskAlerts: RiskAlert[]): string {
+  if (riskAlerts.length === 0) return '';
+  return `\n风险规则预警：\n${riskAlerts.map((a) => `- [${RISK_SEVERITY_LABELS[a.riskLevel]}] ${a.riskType}：${a.description}`).join('\n')}\n`;
+}
+
+// 全国指标下降时，列出拖累最大的省份（贡献为负，按贡献排序）
+function describeProvinceBreakdowns(breakdowns: ProductProvinceBreakdown[]): string {
+  const lines = breakdowns.flatMap((breakdown) => {
+    if (breakdown.totalChange === undefined || breakdown.totalChange >= 0) return [];
+    const draggers = breakdown.provinces.filter((p) => p.contribution < 0).slice(0, 3);
+    if (draggers.length === 0) return [];
+    const label = PRODUCT_PROVINCE_METRIC_LABELS[breakdown.metric];
+    return [
+      `- ${label}（各省汇总环比${breakdown.totalChange}个百分点）主要拖累省份：${draggers
+        .map((p) => `${p.provinceName}贡献${p.contribution}（本省${label}${p.value}%${p.change !== undefined ? `，环比${p.change}` : ''}）`)
+        .join('；')}`,
+    ];
+  });
+  return lines.length > 0 ? `\n分省拆解：\n${lines.join('\n')}\n` : '';
+}
+
+// 份额变化归因：Y=分子式内份额，x=解限、渗透、做广及渠道、区域结构，按贡献绝对值排序
+function describeShareDecomposition(decomposition: ShareChangeDecomposition | null): string {
+  if (!decomposition) return '';
+  const format = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+  const lines = [...decomposition.drivers]
+    .filter((d) => d.value !== 0)
+    .sort((a, b) => Math.abs(b.value) - Math.abs(a.value))
+    .map(
+      (d) =>
+        `- ${d.label}（${SHARE_DRIVER_DESCRIPTIONS[d.key]}）：${format(d.value)}个百分点${
+          d.topProvinces.length > 0
+            ? `，主要来自${d.topProvinces.map((p) => `${p.provinceName}${format(p.value)}`).join('、')}`
+            : ''
+        }`
+    );
+  return `\n分子式内份额变化归因（${decomposition.previousPeriod} ${decomposition.startValue}% → ${decomposition.period} ${decomposition.endValue}%，各项之和等于份额变化）：\n${lines.join('\n')}\n`;
+}
+
 // 分析产品表现
 export async function analyzeProductPerformance(
-  product: ProductPerformance
+  product: ProductPerformance,
+  riskAlerts: RiskAlert[] = [],
+  provinceBreakdowns: ProductProvinceBreakdown[] = [],
+  shareDecomposition: ShareChangeDecomposition | null = null
 ): Promise<AIAnalysis> {
   const systemPrompt = `你是一个专业的医药行业业务分析师，专注于晖致公司的产品表现分析。
 你需要基于"以患者为中心"和"解限-渗透-做广"的业务逻辑进行分析。
@@ -91,44 +197,41 @@ export async function analyzeProductPerformance(
 
 产品名称：${product.productName}
 分子式：${product.moleculeFormula}
-报告周期：${product.period}
+报告周期：${product.period}（环比对比${product.previousPeriod}）
 
 外部数据：
-- 分子式份额：${product.moleculeShare}% (变化：${product.moleculeShareChange > 0 ? '+' : ''}${product.moleculeShareChange}%)
-- 分子式内份额：${product.moleculeInternalShare}% (变化：${product.moleculeInternalShareChange > 0 ? '+' : ''}${product.moleculeInternalShareChange}%)
-- 竞品份额：${product.competitorShare}% (变化：${product.competitorShareChange > 0 ? '+' : ''}${product.competitorShareChange}%)
+- 分子式份额：${product.moleculeShare}%${describeChanges(product.moleculeShareChange, product.yoyChanges?.moleculeShare)}
+- 分子式内份额：${product.moleculeInternalShare}%${describeChanges(product.moleculeInternalShareChange, product.yoyChanges?.moleculeInternalShare)}
+- 竞品份额：${product.competitorShare}%${describeChanges(product.competitorShareChange, product.yoyChanges?.competitorShare)}
 
 内部数据：
-- 解限率：${product.deLimitRate}% (变化：${product.deLimitRateChange > 0 ? '+' : ''}${product.deLimitRateChange}%)
-
+- 解限率：${product.deLimitRate}%${describeChanges(product.deLimitRateChange, product.yoyChanges?.deLimitRate)}
+${describeRiskAlerts(riskAlerts)}${describeProvinceBreakdowns(provinceBreakdowns)}${describeShareDecomposition(shareDecomposition)}
 请提供：
-1. "就数论数"：识别关键变化和风险点
-2. "数据解读"：分析可能原因，并提供进一步锁定问题的建议（包括拆解问题角度、可访谈对象等）
+1. "就数论数"：识别关键变化和风险点，如有分省拆解，请指明问题集中的省份及其贡献；如有份额变化归因，请说明份额变化中解限、渗透、做广等各驱动因素分别贡献多少（写入keyFindings）
+2. "数据解读"：分析可能原因（写入interpretation和possibleReasons），并提供进一步锁定问题的建议（包括拆解问题角度、可访谈对象等，写入suggestedActions）
 3. 结合晖致"三环"运营体系，提供基于"解限-渗透-做广"逻辑的建议`;
 
-  const response = await callDeepSeekAPI([
-    { role: 'system', content: systemPrompt },
-    { role: 'user', content: userPrompt },
-  ]);
+  const { payload, raw } = await requestStructuredAnalysis(productDiagnosisLLM, systemPrompt, userPrompt);
 
-  // 解析响应并生成结构化数据
   return {
     type: 'product',
     targetId: product.productId,
     targetName: product.productName,
+    period: product.period,
+    cacheKey: getAnalysisCacheKey('product', product.productId, product.period),
     dataSummary: `产品${product.productName}在${product.period}的表现分析`,
-    keyFindings: extractKeyFindings(response, product),
-    riskAlerts: generateRiskAlerts(product),
-    interpretation: response,
-    possibleReasons: extractReasons(response),
-    suggestedActions: extractSuggestedActions(response),
+    ...mergeAnalysisPayload(payload, raw, product),
+    riskAlerts,
     relatedInfo: generateRelatedInfo(product),
   };
 }
 
 // 分析省份表现
 export async function analyzeProvincePerformance(
-  province: ProvincePerformance
+  province: ProvincePerformance,
+  targets: ResolvedTargets = {},
+  riskAlerts: RiskAlert[] = []
 ): Promise<AIAnalysis> {
   const systemPrompt = `你是一个专业的医药行业业务分析师，专注于晖致公司的区域市场分析。
 你需要基于"以患者为中心"和"解限-渗透-做广"的业务逻辑进行分析。
@@ -140,134 +243,103 @@ export async function analyzeProvincePerformance(
 报告周期：${province.period}
 
 核心维度：
-- 市场份额：${province.marketShare}%
-- ROI：${province.roi}
-- 非立络占比：${province.nonLiluRatio}%
+- 市场份额：${province.marketShare}%${describeTarget(targets.marketShare)}${describeChanges(province.changes?.marketShare, province.yoyChanges?.marketShare)}
+- ROI：${province.roi}${describeTarget(targets.roi)}${describeChanges(province.changes?.roi, province.yoyChanges?.roi)}
+- 非立络占比：${province.nonLiluRatio}%${describeTarget(targets.nonLiluRatio)}${describeChanges(province.changes?.nonLiluRatio, province.yoyChanges?.nonLiluRatio)}
 
 核心指标：
-- 解限率：${province.deLimitRate}%
-- 渗透率：${province.penetrationRate}%
-
-健康度评分：${province.healthScore}/100 (${province.healthLevel})
+- 解限率：${province.deLimitRate}%${describeTarget(targets.deLimitRate)}${describeChanges(province.changes?.deLimitRate, province.yoyChanges?.deLimitRate)}
+- 渗透率：${province.penetrationRate}%${describeTarget(targets.penetrationRate)}${describeChanges(province.changes?.penetrationRate, province.yoyChanges?.penetrationRate)}
 
+健康度评分：${province.healthScore}/100 (${province.healthLevel})${describeChanges(province.changes?.healthScore, province.yoyChanges?.healthScore)}
+评分拆解（维度得分 × 权重）：
+${province.healthDimensions.map((d) => `- ${d.name}：${d.score}分 × ${(d.weight * 100).toFixed(0)}%（满分线 ${d.target}）`).join('\n')}
+${describeRiskAlerts(riskAlerts)}
 请提供：
-1. "就数论数"：评估该省份的健康度，识别表现优异和不理想的维度
-2. "数据解读"：分析省份表现的潜在原因
-3. 提供改进建议，包括需要进一步分析的角度和可访谈的对象`;
+1. "就数论数"：评估该省份的健康度，识别表现优异和不理想的维度（写入keyFindings）
+2. "数据解读"：分析省份表现的潜在原因（写入interpretation和possibleReasons）
+3. 提供改进建议，包括需要进一步分析的角度和可访谈的对象（写入suggestedActions）`;
 
-  const response = await callDeepSeekAPI([
-    { role: 'system', content: systemPrompt },
-    { role: 'user', content: userPrompt },
-  ]);
+  const { payload, raw } = await requestStructuredAnalysis(provinceDiagnosisLLM, systemPrompt, userPrompt);
 
   return {
     type: 'province',
     targetId: province.provinceId,
     targetName: province.provinceName,
+    period: province.period,
+    cacheKey: getAnalysisCacheKey('province', province.provinceId, province.period),
     dataSummary: `省份${province.provinceName}在${province.period}的表现分析`,
-    keyFindings: extractKeyFindings(response, province),
-    riskAlerts: generateProvinceRiskAlerts(province),
-    interpretation: response,
-    possibleReasons: extractReasons(response),
-    suggestedActions: extractSuggestedActions(response),
+    ...mergeAnalysisPayload(payload, raw, province),
+    riskAlerts,
     relatedInfo: generateProvinceRelatedInfo(province),
   };
 }
 
+// 合并模型输出与本地规则：模型未给出的部分回退到关键词启发式
+function mergeAnalysisPayload(
+  payload: AIAnalysisPayload | null,
+  raw: string,
+  data: ProductPerformance | ProvincePerformance
+): AIAnalysisPayload {
+  if (!payload) {
+    // 两次输出都不是合法JSON，原文不展示给用户，解读改用本地规则生成
+    const keyFindings = extractKeyFindings(data);
+    return {
+      keyFindings,
+      interpretation: buildFallbackInterpretation(keyFindings),
+      possibleReasons: extractReasons(raw),
+      suggestedActions: extractSuggestedActions(),
+    };
+  }
+
+  const fallbackActions = extractSuggestedActions();
+  return {
+    keyFindings: payload.keyFindings.length > 0 ? payload.keyFindings : extractKeyFindings(data),
+    interpretation: payload.interpretation,
+    possibleReasons: payload.possibleReasons.length > 0 ? payload.possibleReasons : extractReasons(payload.interpretation),
+    suggestedActions: {
+      problemBreakdown: payload.suggestedActions.problemBreakdown.length > 0
+        ? payload.suggestedActions.problemBreakdown
+        : fallbackActions.problemBreakdown,
+      interviewTargets: payload.suggestedActions.interviewTargets.length > 0
+        ? payload.suggestedActions.interviewTargets
+        : fallbackActions.interviewTargets,
+      dataAnalysis: payload.suggestedActions.dataAnalysis.length > 0
+        ? payload.suggestedActions.dataAnalysis
+        : fallbackActions.dataAnalysis,
+    },
+  };
+}
+
 // 辅助函数：提取关键发现
-function extractKeyFindings(_response: string, data: any): string[] {
+function extractKeyFindings(data: ProductPerformance | ProvincePerformance): string[] {
   const findings: string[] = [];
   
-  if (data.moleculeInternalShareChange && data.moleculeInternalShareChange < -2) {
+  if ('moleculeInternalShareChange' in data && data.moleculeInternalShareChange < -2) {
     findings.push(`分子式内份额下降${Math.abs(data.moleculeInternalShareChange)}%，需要重点关注`);
   }
   
-  if (data.deLimitRateChange && data.deLimitRateChange < -3) {
+  if ('deLimitRateChange' in data && data.deLimitRateChange < -3) {
     findings.push(`解限率下降${Math.abs(data.deLimitRateChange)}%，可能影响市场准入`);
   }
   
-  if (data.healthScore && data.healthScore < 60) {
-    findings.push(`健康度评分${data.healthScore}分，低于平均水平，需要重点关注`);
+  if ('healthLevel' in data && data.healthLevel === 'poor') {
+    findings.push(`健康度评分${data.healthScore}分，处于较差区间，需要重点关注`);
   }
   
   return findings.length > 0 ? findings : ['整体表现稳定，但仍有优化空间'];
 }
 
-// 生成风险预警
-function generateRiskAlerts(product: ProductPerformance) {
-  const alerts = [];
-  
-  if (product.moleculeShareChange > 0 && product.moleculeInternalShareChange < -2) {
-    alerts.push({
-      productId: product.productId,
-      productName: product.productName,
-      riskLevel: 'high' as const,
-      riskType: '分子式内份额下降',
-      description: `分子式份额上升${product.moleculeShareChange}%，但分子式内份额下降${Math.abs(product.moleculeInternalShareChange)}%`,
-      indicators: ['分子式内份额', '分子式份额'],
-      changeMagnitude: Math.abs(product.moleculeInternalShareChange),
-    });
-  }
-  
-  if (product.deLimitRateChange < -3) {
-    alerts.push({
-      productId: product.productId,
-      productName: product.productName,
-      riskLevel: 'high' as const,
-      riskType: '解限率下降',
-      description: `解限率下降${Math.abs(product.deLimitRateChange)}%，可能影响市场准入`,
-      indicators: ['解限率'],
-      changeMagnitude: Math.abs(product.deLimitRateChange),
-    });
-  }
-  
-  if (product.competitorShareChange > 2) {
-    alerts.push({
-      productId: product.productId,
-      productName: product.productName,
-      riskLevel: 'medium' as const,
-      riskType: '竞品份额上升',
-      description: `竞品份额上升${product.competitorShareChange}%，竞争加剧`,
-      indicators: ['竞品份额'],
-      changeMagnitude: product.competitorShareChange,
-    });
-  }
-  
-  return alerts;
-}
+// 模型输出无法解析时的数据解读
+function buildFallbackInterpretation(keyFindings: string[]): string {
+  return `AI分析结果格式异常，以下为基于规则的初步解读：
 
-// 生成省份风险预警
-function generateProvinceRiskAlerts(province: ProvincePerformance) {
-  const alerts = [];
-  
-  if (province.healthScore < 60) {
-    alerts.push({
-      productId: province.provinceId,
-      productName: province.provinceName,
-      riskLevel: 'high' as const,
-      riskType: '健康度评分偏低',
-      description: `健康度评分${province.healthScore}分，低于平均水平`,
-      indicators: ['健康度评分', '市场份额', 'ROI', '解限率'],
-      changeMagnitude: 60 - province.healthScore,
-    });
-  }
-  
-  if (province.deLimitRate < 70) {
-    alerts.push({
-      productId: province.provinceId,
-      productName: province.provinceName,
-      riskLevel: 'medium' as const,
-      riskType: '解限率偏低',
-      description: `解限率${province.deLimitRate}%，低于目标值`,
-      indicators: ['解限率'],
-      changeMagnitude: 70 - province.deLimitRate,
-    });
-  }
-  
-  return alerts;
+${keyFindings.map((finding) => `- ${finding}`).join('\n')}
+
+可稍后重新生成分析以获取完整解读。`;
 }
 
-// 提取原因
+// 提取原因（模型未返回结构化原因时的兜底）
 function extractReasons(response: string): string[] {
   // 简单的关键词匹配，实际应该用更复杂的NLP
   const reasons: string[] = [];
@@ -291,8 +363,8 @@ function extractReasons(response: string): string[] {
   return reasons.length > 0 ? reasons : ['需要进一步分析确定'];
 }
 
-// 提取建议行动
-function extractSuggestedActions(_response: string) {
+// 默认建议行动（模型未给出结构化建议时使用）
+function extractSuggestedActions() {
   return {
     problemBreakdown: [
       '分省份拆解数据，识别问题集中区域',
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { buildRepairPrompt, extractJSONText, parseAIAnalysisPayload } from './analysisSchema';
+
+const validPayload = {
+  keyFindings: ['分子式内份额下降3%', '  '],
+  interpretation: '  份额下降主要来自竞品放量  ',
+  possibleReasons: ['竞品策略调整'],
+  suggestedActions: {
+    problemBreakdown: ['分省份拆解'],
+    interviewTargets: ['区域经理'],
+    dataAnalysis: ['对比竞品活动时间线'],
+  },
+};
+
+describe('parseAIAnalysisPayload', () => {
+  it('解析合法JSON并去除空白条目', () => {
+    const result = parseAIAnalysisPayload(JSON.stringify(validPayload));
+
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        keyFindings: ['分子式内份额下降3%'],
+        interpretation: '份额下降主要来自竞品放量',
+        possibleReasons: ['竞品策略调整'],
+        suggestedActions: validPayload.suggestedActions,
+      },
+    });
+  });
+
+  it('去掉代码块标记和JSON以外的文字', () => {
+    const raw = `以下是分析结果：\n\`\`\`json\n${JSON.stringify(validPayload)}\n\`\`\``;
+
+    expect(parseAIAnalysisPayload(raw).ok).toBe(true);
+  });
+
+  it('没有JSON对象时返回错误', () => {
+    expect(parseAIAnalysisPayload('AI分析结果生成中...')).toEqual({
+      ok: false,
+      errors: ['输出中没有找到JSON对象'],
+    });
+  });
+
+  it('JSON语法错误时返回错误', () => {
+    const result = parseAIAnalysisPayload('{"keyFindings": [,}');
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.errors[0]).toMatch(/^JSON语法错误/);
+  });
+
+  it('逐项列出不符合约定的字段', () => {
+    const result = parseAIAnalysisPayload(
+      JSON.stringify({
+        keyFindings: 'not an array',
+        interpretation: '',
+        possibleReasons: [1, 2],
+        suggestedActions: { problemBreakdown: [], interviewTargets: [] },
+      })
+    );
+
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        'interpretation 必须是非空字符串',
+        'keyFindings 必须是字符串数组',
+        'possibleReasons 中存在非字符串元素',
+        'suggestedActions.dataAnalysis 必须是字符串数组',
+      ],
+    });
+  });
+
+  it('suggestedActions 不是对象时返回错误', () => {
+    const result = parseAIAnalysisPayload(JSON.stringify({ ...validPayload, suggestedActions: [] }));
+
+    expect(result).toEqual({ ok: false, errors: ['suggestedActions 必须是对象'] });
+  });
+});
+
+describe('extractJSONText', () => {
+  it('去掉代码块标记，截取最外层的JSON对象', () => {
+    expect(extractJSONText('```json\n{"a": {"b": 1}}\n```')).toBe('{"a": {"b": 1}}');
+    expect(extractJSONText('分析结果如下：{"a": 1} 以上')).toBe('{"a": 1}');
+    expect(extractJSONText('没有JSON')).toBeNull();
+  });
+});
+
+describe('buildRepairPrompt', () => {
+  it('列出校验错误并重复输出约定', () => {
+    const prompt = buildRepairPrompt(['interpretation 必须是非空字符串']);
+
+    expect(prompt).toContain('- interpretation 必须是非空字符串');
+    expect(prompt).toContain('"suggestedActions"');
+  });
+});
@@ -0,0 +1,117 @@
+import { AIAnalysis } from '../types';
+
+// 模型需要产出的结构化字段（其余字段由本地数据计算）
+export type AIAnalysisPayload = Pick<
+  AIAnalysis,
+  'keyFindings' | 'interpretation' | 'possibleReasons' | 'suggestedActions'
+>;
+
+export type ParseResult =
+  | { ok: true; value: AIAnalysisPayload }
+  | { ok: false; errors: string[] };
+
+// 写入提示词的JSON输出约定
+export const AI_ANALYSIS_JSON_SCHEMA = `{
+  "keyFindings": string[],        // 就数论数：关键发现，每条一句话
+  "interpretation": string,       // 数据解读：完整分析正文，可使用Markdown
+  "possibleReasons": string[],    // 可能原因，每条一个简短原因
+  "suggestedActions": {
+    "problemBreakdown": string[], // 问题拆解角度
+    "interviewTargets": string[], // 可访谈对象
+    "dataAnalysis": string[]      // 数据分析方向
+  }
+}`;
+
+export const JSON_OUTPUT_INSTRUCTION = `请严格只输出一个JSON对象，不要输出任何JSON以外的文字或代码块标记。JSON结构如下：
+${AI_ANALYSIS_JSON_SCHEMA}`;
+
+// 解析失败时用于修复的提示词
+export function buildRepairPrompt(errors: string[]): string {
+  return `你上一次的输出不符合约定的JSON结构，问题如下：
+${errors.map((e) => `- ${e}`).join('\n')}
+
+请修正后重新输出。${JSON_OUTPUT_INSTRUCTION}`;
+}
+
+// 去掉代码块标记，截取最外层的JSON对象（产品/省份分析和机会点分析共用）
+export function extractJSONText(raw: string): string | null {
+  const text = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    return null;
+  }
+  return text.slice(start, end + 1);
+}
+
+function readStringArray(value: unknown, path: string, errors: string[]): string[] {
+  if (!Array.isArray(value)) {
+    errors.push(`${path} 必须是字符串数组`);
+    return [];
+  }
+  if (value.some((item) => typeof item !== 'string')) {
+    errors.push(`${path} 中存在非字符串元素`);
+    return [];
+  }
+  return value.map((item: string) => item.trim()).filter((item) => item.length > 0);
+}
+
+// 解析并校验模型输出
+export function parseAIAnalysisPayload(raw: string): ParseResult {
+  const jsonText = extractJSONText(raw);
+  if (!jsonText) {
+    return { ok: false, errors: ['输出中没有找到JSON对象'] };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(jsonText);
+  } catch (error) {
+    return { ok: false, errors: [`JSON语法错误：${(error as Error).message}`] };
+  }
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { ok: false, errors: ['顶层必须是JSON对象'] };
+  }
+
+  const record = data as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof record.interpretation !== 'string' || !record.interpretation.trim()) {
+    errors.push('interpretation 必须是非空字符串');
+  }
+
+  const keyFindings = readStringArray(record.keyFindings, 'keyFindings', errors);
+  const possibleReasons = readStringArray(record.possibleReasons, 'possibleReasons', errors);
+
+  const actions = record.suggestedActions;
+  let suggestedActions: AIAnalysisPayload['suggestedActions'] = {
+    problemBreakdown: [],
+    interviewTargets: [],
+    dataAnalysis: [],
+  };
+  if (typeof actions !== 'object' || actions === null || Array.isArray(actions)) {
+    errors.push('suggestedActions 必须是对象');
+  } else {
+    const actionRecord = actions as Record<string, unknown>;
+    suggestedActions = {
+      problemBreakdown: readStringArray(actionRecord.problemBreakdown, 'suggestedActions.problemBreakdown', errors),
+      interviewTargets: readStringArray(actionRecord.interviewTargets, 'suggestedActions.interviewTargets', errors),
+      dataAnalysis: readStringArray(actionRecord.dataAnalysis, 'suggestedActions.dataAnalysis', errors),
+    };
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      keyFindings,
+      interpretation: (record.interpretation as string).trim(),
+      possibleReasons,
+      suggestedActions,
+    },
+  };
+}
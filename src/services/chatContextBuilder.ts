@@ -0,0 +1,190 @@
+import { AIAnalysis, ProductPerformance, ProvinceMetricKey, ProvincePerformance } from '../types';
+import { MarketDimension, Opportunity, StrategyProposal } from '../types/strategy';
+import { MekkoContextData, PageContextData } from '../types/pageContext';
+import { estimateTokens } from './chatContextWindow';
+import { HEALTH_LEVEL_LABELS } from './healthScore';
+import { MARKET_DIMENSION_LABELS, MARKET_DIMENSIONS, MEKKO_METRIC_LABELS } from './marketSegments';
+import { RISK_SEVERITY_LABELS } from './riskRules';
+
+export type ChatContextBlockId =
+  | 'productMetrics'
+  | 'provinceMetrics'
+  | 'keyFindings'
+  | 'riskAlerts'
+  | 'possibleReasons'
+  | 'relatedInfo'
+  | 'mekkoConfig'
+  | 'opportunity'
+  | 'strategyProposal';
+
+// 随消息发送给模型的一段上下文
+export interface ChatContextBlock {
+  id: ChatContextBlockId;
+  label: string;
+  content: string;
+  tokens: number; // 估算token数，便于用户权衡是否附带
+}
+
+const POTENTIAL_LABELS: Record<Opportunity['potential'], string> = {
+  high: '高',
+  medium: '中',
+  low: '低',
+};
+
+const PROPOSAL_STATUS_LABELS: Record<StrategyProposal['status'], string> = {
+  draft: '草稿',
+  approved: '已批准',
+  inProgress: '进行中',
+  completed: '已完成',
+};
+
+const formatChange = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+
+const formatYoy = (value?: number) => (value === undefined ? '' : `，同比 ${formatChange(value)}`);
+
+// 省份指标的环比/同比（缺少历史时省略）
+function formatProvinceChanges(province: ProvincePerformance, key: ProvinceMetricKey): string {
+  const qoq = province.changes?.[key];
+  const yoy = province.yoyChanges?.[key];
+  const parts = [qoq !== undefined ? `环比 ${formatChange(qoq)}` : '', yoy !== undefined ? `同比 ${formatChange(yoy)}` : ''].filter(
+    Boolean
+  );
+  return parts.length > 0 ? `（${parts.join('，')}）` : '';
+}
+
+function serializeProduct(product: ProductPerformance): string {
+  return [
+    `产品：${product.productName}（${product.moleculeFormula}），周期：${product.period}，对比周期：${product.previousPeriod}`,
+    `- 分子式份额：${product.moleculeShare}%（环比 ${formatChange(product.moleculeShareChange)}${formatYoy(product.yoyChanges?.moleculeShare)}）`,
+    `- 分子式内份额：${product.moleculeInternalShare}%（环比 ${formatChange(product.moleculeInternalShareChange)}${formatYoy(product.yoyChanges?.moleculeInternalShare)}）`,
+    `- 竞品份额：${product.competitorShare}%（环比 ${formatChange(product.competitorShareChange)}${formatYoy(product.yoyChanges?.competitorShare)}）`,
+    `- 解限率：${product.deLimitRate}%（环比 ${formatChange(product.deLimitRateChange)}${formatYoy(product.yoyChanges?.deLimitRate)}）`,
+  ].join('\n');
+}
+
+function serializeProvince(province: ProvincePerformance): string {
+  return [
+    `省份：${province.provinceName}，周期：${province.period}`,
+    `- 健康度评分：${province.healthScore}（${HEALTH_LEVEL_LABELS[province.healthLevel]}）${formatProvinceChanges(province, 'healthScore')}`,
+    `  - 各维度得分：${province.healthDimensions.map((d) => `${d.name} ${d.score}`).join('、')}`,
+    `- 市场份额：${province.marketShare}%${formatProvinceChanges(province, 'marketShare')}`,
+    `- ROI：${province.roi}${formatProvinceChanges(province, 'roi')}`,
+    `- 非立络占比：${province.nonLiluRatio}%${formatProvinceChanges(province, 'nonLiluRatio')}`,
+    `- 解限率：${province.deLimitRate}%${formatProvinceChanges(province, 'deLimitRate')}`,
+    `- 渗透率：${province.penetrationRate}%${formatProvinceChanges(province, 'penetrationRate')}`,
+  ].join('\n');
+}
+
+function serializeRiskAlerts(analysis: AIAnalysis): string {
+  return analysis.riskAlerts
+    .map(
+      (alert) =>
+        `- [${RISK_SEVERITY_LABELS[alert.riskLevel]}] ${alert.riskType}：${alert.description}（指标：${alert.indicators.join('、')}，变化幅度 ${alert.changeMagnitude}）`
+    )
+    .join('\n');
+}
+
+function serializeMekko(mekko: MekkoContextData): string {
+  const { config } = mekko;
+  const filters = MARKET_DIMENSIONS.flatMap((dimension: MarketDimension) => {
+    const values = config.filter?.[dimension];
+    return values && values.length > 0 ? [`${MARKET_DIMENSION_LABELS[dimension]}：${values.join('、')}`] : [];
+  });
+  const segmentLines = (segments: MekkoContextData['segments']) =>
+    segments.map(
+      (s) => `- ${s.segment}：${s.totalShare.toFixed(1)} / ${s.huiZhiShare.toFixed(1)} / ${s.competitorShare.toFixed(1)}`
+    );
+  const { comparison } = mekko;
+  return [
+    `品牌：${mekko.brand}${comparison ? `（对比品牌：${comparison.brand}）` : ''}`,
+    `横轴：${MARKET_DIMENSION_LABELS[config.xAxis]}，纵轴：${MARKET_DIMENSION_LABELS[config.yAxis]}，指标：${MEKKO_METRIC_LABELS[config.metric]}`,
+    ...(mekko.period ? [`周期：${mekko.period}${mekko.comparePeriod ? `（对比周期：${mekko.comparePeriod}）` : ''}`] : []),
+    `筛选：${filters.length > 0 ? filters.join('；') : '全部'}`,
+    `${comparison ? `${mekko.brand}的` : ''}主要细分市场（市场规模 / 晖致份额 / 竞品份额）：`,
+    ...segmentLines(mekko.segments),
+    ...(comparison
+      ? [`${comparison.brand}的主要细分市场（市场规模 / 晖致份额 / 竞品份额）：`, ...segmentLines(comparison.segments)]
+      : []),
+  ].join('\n');
+}
+
+function serializeOpportunity(opportunity: Opportunity): string {
+  return [
+    `机会点：${opportunity.title}（潜力：${POTENTIAL_LABELS[opportunity.potential]}）`,
+    `- 描述：${opportunity.description}`,
+    `- 细分市场：${opportunity.marketSegment}`,
+    `- 当前缺口：${opportunity.currentGap}`,
+  ].join('\n');
+}
+
+function serializeProposal(proposal: StrategyProposal): string {
+  return [
+    `策略建议：${proposal.title}（优先级 ${proposal.priority}，状态：${PROPOSAL_STATUS_LABELS[proposal.status]}）`,
+    `- 描述：${proposal.description || '（暂无）'}`,
+    `- 具体行动：${proposal.actions.length > 0 ? proposal.actions.join('；') : '（暂无）'}`,
+    proposal.expectedOutcome ? `- 预期效果：${proposal.expectedOutcome}` : '',
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+// 分析结果是否对应页面上正在展示的对象（避免把其他页面遗留的分析带入对话）
+export function isAnalysisOnPage(analysis: AIAnalysis, pageData: PageContextData): boolean {
+  if (analysis.type === 'product') {
+    const product = pageData.productPerformance;
+    return product?.productId === analysis.targetId && product.period === analysis.period;
+  }
+  const province = pageData.provincePerformance;
+  return province?.provinceId === analysis.targetId && province.period === analysis.period;
+}
+
+// 根据当前页面数据和分析结果生成可附带的上下文块
+export function buildChatContextBlocks(pageData: PageContextData, analysis: AIAnalysis | null): ChatContextBlock[] {
+  const blocks: Omit<ChatContextBlock, 'tokens'>[] = [];
+
+  if (pageData.productPerformance) {
+    blocks.push({ id: 'productMetrics', label: '产品指标', content: serializeProduct(pageData.productPerformance) });
+  }
+  if (pageData.provincePerformance) {
+    blocks.push({ id: 'provinceMetrics', label: '省份指标', content: serializeProvince(pageData.provincePerformance) });
+  }
+
+  if (analysis && isAnalysisOnPage(analysis, pageData)) {
+    if (analysis.keyFindings.length > 0) {
+      blocks.push({
+        id: 'keyFindings',
+        label: '关键发现',
+        content: analysis.keyFindings.map((f) => `- ${f}`).join('\n'),
+      });
+    }
+    if (analysis.riskAlerts.length > 0) {
+      blocks.push({ id: 'riskAlerts', label: '风险预警', content: serializeRiskAlerts(analysis) });
+    }
+    if (analysis.possibleReasons.length > 0) {
+      blocks.push({
+        id: 'possibleReasons',
+        label: '可能原因',
+        content: analysis.possibleReasons.map((r) => `- ${r}`).join('\n'),
+      });
+    }
+    if (analysis.relatedInfo.length > 0) {
+      blocks.push({
+        id: 'relatedInfo',
+        label: '相关信息',
+        content: analysis.relatedInfo.map((info) => `- ${info.source}：${info.content}`).join('\n'),
+      });
+    }
+  }
+
+  if (pageData.mekko) {
+    blocks.push({ id: 'mekkoConfig', label: 'Mekko看板', content: serializeMekko(pageData.mekko) });
+  }
+  if (pageData.opportunity) {
+    blocks.push({ id: 'opportunity', label: '当前机会点', content: serializeOpportunity(pageData.opportunity) });
+  }
+  if (pageData.strategyProposal) {
+    blocks.push({ id: 'strategyProposal', label: '当前策略建议', content: serializeProposal(pageData.strategyProposal) });
+  }
+
+  return blocks.map((block) => ({ ...block, tokens: estimateTokens(block.content) }));
+}
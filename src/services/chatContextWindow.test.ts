@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMessage } from './chatService';
+import {
+  ChatSummary,
+  estimateMessageTokens,
+  estimateTokens,
+  fitToBudget,
+  getUnsummarizedMessages,
+  planContextWindow,
+} from './chatContextWindow';
+
+// 每条消息 24 个英文字符 + 4 个固定开销 = 10 token
+const message = (id: string, overrides: Partial<ChatMessage> = {}): ChatMessage => ({
+  id,
+  role: Number(id) % 2 === 0 ? 'assistant' : 'user',
+  content: 'a'.repeat(24),
+  timestamp: new Date(0),
+  ...overrides,
+});
+
+const messages = Array.from({ length: 10 }, (_, index) => message(String(index + 1)));
+
+const summary = (lastMessageId: string): ChatSummary => ({
+  content: '较早对话的摘要',
+  lastMessageId,
+  summarizedCount: Number(lastMessageId),
+  updatedAt: new Date(0),
+});
+
+const ids = (items: ChatMessage[]) => items.map((m) => m.id);
+
+describe('estimateTokens', () => {
+  it('中日韩字符按1个token计，其余字符约4个一个token', () => {
+    expect(estimateTokens('市场份额')).toBe(4);
+    expect(estimateTokens('share')).toBe(2);
+    expect(estimateTokens('份额 share')).toBe(4);
+  });
+
+  it('工具调用的参数和结果计入消息', () => {
+    expect(estimateMessageTokens(message('1'))).toBe(10);
+    const withTool = message('1', {
+      toolCalls: [{ id: 't', name: 'query', arguments: {}, status: 'done', result: 'a'.repeat(6) }],
+    });
+    expect(estimateMessageTokens(withTool)).toBe(10 + 2 + 4); // "{}" + 结果 共8个字符
+  });
+});
+
+describe('getUnsummarizedMessages', () => {
+  it('跳过摘要已覆盖的消息、系统消息、斜杠命令和空消息', () => {
+    const items = [
+      ...messages.slice(0, 3),
+      message('90', { role: 'system' }),
+      message('91', { isCommand: true }),
+      message('92', { content: '' }),
+      messages[3],
+    ];
+
+    expect(ids(getUnsummarizedMessages(items))).toEqual(['1', '2', '3', '4']);
+    expect(ids(getUnsummarizedMessages(items, summary('2')))).toEqual(['3', '4']);
+  });
+});
+
+describe('planContextWindow', () => {
+  it('未超出预算时全部原文发送，不触发摘要', () => {
+    expect(planContextWindow(messages, undefined, 100)).toEqual({ recent: messages, toSummarize: [] });
+  });
+
+  it('超出预算时保留预算一半以内的最近对话，其余并入摘要', () => {
+    const plan = planContextWindow(messages, undefined, 99);
+
+    // 最近对话的预算为 floor(99 / 2) = 49，只能放下4条
+    expect(ids(plan.recent)).toEqual(['7', '8', '9', '10']);
+    expect(ids(plan.toSummarize)).toEqual(['1', '2', '3', '4', '5', '6']);
+  });
+
+  it('已有摘要时只计算摘要之后的消息', () => {
+    expect(planContextWindow(messages, summary('4'), 60).toSummarize).toEqual([]);
+
+    const plan = planContextWindow(messages, summary('4'), 50);
+    expect(ids(plan.recent)).toEqual(['9', '10']);
+    expect(ids(plan.toSummarize)).toEqual(['5', '6', '7', '8']);
+  });
+
+  it('最后一条消息超出预算时仍保留', () => {
+    const long = message('11', { content: 'a'.repeat(400) });
+    expect(ids(planContextWindow([...messages, long], undefined, 40).recent)).toEqual(['11']);
+  });
+});
+
+describe('fitToBudget', () => {
+  it('从最新消息往前取，直到用完预算', () => {
+    expect(ids(fitToBudget(messages, 35))).toEqual(['8', '9', '10']);
+    expect(ids(fitToBudget(messages, 5))).toEqual(['10']);
+  });
+});
@@ -0,0 +1,79 @@
+import { ChatMessage } from './chatService';
+
+// 较早对话的滚动摘要，随会话一起保存
+export interface ChatSummary {
+  content: string;
+  lastMessageId: string; // 摘要覆盖到的最后一条消息
+  summarizedCount: number; // 累计被压缩的消息条数
+  updatedAt: Date;
+}
+
+// 发送给模型的上下文预算（估算token数，含系统提示词），可通过环境变量调整
+export const CHAT_CONTEXT_TOKEN_BUDGET = Number(import.meta.env.VITE_CHAT_CONTEXT_TOKEN_BUDGET) || 6000;
+
+// 触发压缩时保留的最近对话占历史预算的比例，避免每轮都重新生成摘要
+const RECENT_TURNS_RATIO = 0.5;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const CJK_PATTERN = /[\u3000-\u303f\u3400-\u9fff\uff00-\uffef]/g;
+
+// 粗略估算token数：中日韩字符约1个token，其余字符约4个一个token
+export function estimateTokens(text: string): number {
+  const cjkCount = text.match(CJK_PATTERN)?.length ?? 0;
+  return cjkCount + Math.ceil((text.length - cjkCount) / 4);
+}
+
+// 工具调用的参数和结果同样计入预算
+export function estimateMessageTokens(message: Pick<ChatMessage, 'content' | 'toolCalls'>): number {
+  const toolTokens = (message.toolCalls ?? []).reduce(
+    (sum, call) => sum + estimateTokens(JSON.stringify(call.arguments) + (call.result ?? '')) + MESSAGE_OVERHEAD_TOKENS,
+    0
+  );
+  return estimateTokens(message.content) + toolTokens + MESSAGE_OVERHEAD_TOKENS;
+}
+
+// 尚未被摘要覆盖、且有内容的对话消息（不含斜杠命令）
+export function getUnsummarizedMessages(messages: ChatMessage[], summary?: ChatSummary): ChatMessage[] {
+  const startIndex = summary ? messages.findIndex((m) => m.id === summary.lastMessageId) + 1 : 0;
+  return messages
+    .slice(startIndex)
+    .filter((m) => m.role !== 'system' && !m.isCommand && (m.content || m.toolCalls?.length));
+}
+
+// 从最新消息往前取，直到用完预算；至少保留最后一条
+function takeRecent(messages: ChatMessage[], budget: number): ChatMessage[] {
+  let used = 0;
+  let start = messages.length;
+  while (start > 0) {
+    const cost = estimateMessageTokens(messages[start - 1]);
+    if (used + cost > budget && start < messages.length) break;
+    used += cost;
+    start -= 1;
+  }
+  return messages.slice(start);
+}
+
+export interface ContextWindowPlan {
+  recent: ChatMessage[]; // 原文发送的最近对话
+  toSummarize: ChatMessage[]; // 需要并入滚动摘要的较早对话
+}
+
+// 历史超出预算时，只保留预算一半以内的最近对话，其余并入摘要
+export function planContextWindow(
+  messages: ChatMessage[],
+  summary: ChatSummary | undefined,
+  historyBudget: number
+): ContextWindowPlan {
+  const pending = getUnsummarizedMessages(messages, summary);
+  const total = pending.reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+  if (total <= historyBudget) {
+    return { recent: pending, toSummarize: [] };
+  }
+
+  const recent = takeRecent(pending, Math.floor(historyBudget * RECENT_TURNS_RATIO));
+  return { recent, toSummarize: pending.slice(0, pending.length - recent.length) };
+}
+
+// 构建请求时的兜底裁剪：摘要生成失败时仍保证不超出预算
+export function fitToBudget(messages: ChatMessage[], historyBudget: number): ChatMessage[] {
+  return takeRecent(messages, historyBudget);
+}
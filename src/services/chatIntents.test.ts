@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { formatChatCommandHelp, matchChatCommands, parseChatIntent } from './chatIntents';
+
+describe('parseChatIntent', () => {
+  it('识别命令及中文别名，忽略大小写和命令后的参数', () => {
+    expect(parseChatIntent('/refresh')).toEqual({ type: 'refreshAnalysis' });
+    expect(parseChatIntent('/刷新')).toEqual({ type: 'refreshAnalysis' });
+    expect(parseChatIntent('/NEW')).toEqual({ type: 'newSession' });
+    expect(parseChatIntent('/help 全部')).toEqual({ type: 'help' });
+  });
+
+  it('忽略首尾空白', () => {
+    expect(parseChatIntent('  /帮助\n')).toEqual({ type: 'help' });
+    expect(parseChatIntent('\t/refresh  ')).toEqual({ type: 'refreshAnalysis' });
+  });
+
+  it('未知命令返回命令名，供提示使用', () => {
+    expect(parseChatIntent('/delete all')).toEqual({ type: 'unknownCommand', command: '/delete' });
+    expect(parseChatIntent('/')).toEqual({ type: 'unknownCommand', command: '/' });
+  });
+
+  it('不以 "/" 开头的输入交给模型处理', () => {
+    expect(parseChatIntent('哪个省份解限率最低？')).toBeNull();
+    expect(parseChatIntent('请 /refresh')).toBeNull();
+    expect(parseChatIntent('   ')).toBeNull();
+  });
+});
+
+describe('matchChatCommands', () => {
+  it('按命令或别名前缀提示，输入参数后不再提示', () => {
+    expect(matchChatCommands('/').map((c) => c.command)).toEqual(['/refresh', '/new', '/help']);
+    expect(matchChatCommands(' /RE').map((c) => c.command)).toEqual(['/refresh']);
+    expect(matchChatCommands('/新').map((c) => c.command)).toEqual(['/new']);
+    expect(matchChatCommands('/help me')).toEqual([]);
+    expect(matchChatCommands('help')).toEqual([]);
+  });
+});
+
+describe('formatChatCommandHelp', () => {
+  it('列出全部命令及别名', () => {
+    const help = formatChatCommandHelp();
+    expect(help).toContain('`/refresh`（/刷新）');
+    expect(help).toContain('`/new`（/新对话）');
+    expect(help).toContain('`/help`（/帮助）');
+  });
+});
@@ -0,0 +1,62 @@
+// 聊天中的显式指令（斜杠命令），在发送给模型之前处理
+
+export type ChatIntent =
+  | { type: 'refreshAnalysis' }
+  | { type: 'newSession' }
+  | { type: 'help' }
+  | { type: 'unknownCommand'; command: string };
+
+interface ChatCommand {
+  command: string;
+  aliases: string[];
+  description: string;
+  intent: ChatIntent;
+}
+
+export const CHAT_COMMANDS: ChatCommand[] = [
+  {
+    command: '/refresh',
+    aliases: ['/刷新'],
+    description: '重新生成当前页面的分析报告',
+    intent: { type: 'refreshAnalysis' },
+  },
+  {
+    command: '/new',
+    aliases: ['/新对话'],
+    description: '开始新对话',
+    intent: { type: 'newSession' },
+  },
+  {
+    command: '/help',
+    aliases: ['/帮助'],
+    description: '查看可用命令',
+    intent: { type: 'help' },
+  },
+];
+
+// 以 "/" 开头的输入视为命令，其余返回 null 交给模型处理
+export function parseChatIntent(input: string): ChatIntent | null {
+  const text = input.trim();
+  if (!text.startsWith('/')) return null;
+
+  const command = text.split(/\s+/)[0].toLowerCase();
+  const matched = CHAT_COMMANDS.find((c) => c.command === command || c.aliases.includes(command));
+  return matched ? matched.intent : { type: 'unknownCommand', command };
+}
+
+// 输入 "/" 时提示匹配的命令
+export function matchChatCommands(input: string): ChatCommand[] {
+  const text = input.trim().toLowerCase();
+  if (!text.startsWith('/') || /\s/.test(text)) return [];
+  return CHAT_COMMANDS.filter((c) => c.command.startsWith(text) || c.aliases.some((alias) => alias.startsWith(text)));
+}
+
+export function formatChatCommandHelp(): string {
+  return [
+    '可用命令：',
+    '',
+    ...CHAT_COMMANDS.map((c) => `- \`${c.command}\`（${c.aliases.join('、')}）：${c.description}`),
+    '',
+    '也可以直接用自然语言提问，例如"哪个省份解限率最低？"。',
+  ].join('\n');
+}
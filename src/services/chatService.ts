@@ -1,14 +1,35 @@
-import axios from 'axios';
-import { AIAnalysis } from '../types';
-
-const DEEPSEEK_API_URL = 'https://api.deepseek.com/v1/chat/completions';
-const DEEPSEEK_API_KEY = import.meta.env.VITE_DEEPSEEK_API_KEY || '';
+import { getLLMClient, LLMCompletion, LLMMessage, LLMStreamOptions, LLMToolCall } from './llm';
+import {
+  CHAT_CONTEXT_TOKEN_BUDGET,
+  ChatSummary,
+  estimateTokens,
+  fitToBudget,
+  getUnsummarizedMessages,
+  planContextWindow,
+} from './chatContextWindow';
+import { ChatContextBlock } from './chatContextBuilder';
+import {
+  CHAT_TOOL_DEFINITIONS,
+  ChatToolCall,
+  ChatToolEnvironment,
+  ChatToolHooks,
+  executeChatToolCall,
+} from './chatTools';
 
 export interface ChatMessage {
   id: string;
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: Date;
+  status?: 'streaming' | 'stopped'; // 流式生成中 / 用户中止（保留部分内容）
+  toolCalls?: ChatToolCall[]; // 本轮回复中调用的工具及结果
+  isCommand?: boolean; // 斜杠命令及其回执，只在界面展示，不发送给模型
+}
+
+export interface ChatContext {
+  currentPage?: string;
+  contextBlocks?: ChatContextBlock[]; // 用户选择附带的页面数据
+  summary?: ChatSummary; // 较早对话的滚动摘要，摘要覆盖的消息不再原文发送
 }
 
 // 系统提示词 - 晖致业务背景
@@ -47,72 +68,289 @@ const SYSTEM_PROMPT = `你是晖致公司的AI业务顾问，专门为CEO和决
 - 专业、深入、基于业务逻辑
 - 始终围绕"以患者为中心"的核心价值观
 - 结合"三环"运营体系和"解限-渗透-做广"的业务逻辑
-- 提供可操作的建议和洞察`;
-
-// 调用DeepSeek API进行对话
-export async function sendChatMessage(
-  messages: ChatMessage[],
-  context?: {
-    currentPage?: string;
-    analysisData?: AIAnalysis;
+- 提供可操作的建议和洞察
+
+## 工具使用
+- 需要具体数字（产品表现、省份排名、细分市场）时先调用工具查询，不要编造数据
+- 创建策略建议、重新生成分析等操作会请用户确认，用户取消时尊重用户的选择`;
+
+// 单轮回复中最多连续调用工具的次数
+const MAX_TOOL_ROUNDS = 3;
+
+const chatLLM = getLLMClient('chat', generateMockChatCompletion);
+
+const SUMMARY_SYSTEM_PROMPT = `你负责压缩晖致AI业务顾问与用户的对话历史。请将"已有摘要"和"新增对话"合并为一份新的摘要：
+- 保留用户关注的产品、省份、指标、关键数字和结论
+- 保留已经给出的建议以及用户的偏好、约束和未解决的问题
+- 使用简洁的中文要点，不超过400字，不要编造对话中没有的信息`;
+
+const chatSummaryLLM = getLLMClient('chatSummary', (apiMessages) =>
+  generateMockSummary(apiMessages[apiMessages.length - 1]?.content || '')
+);
+
+// 系统提示词和上下文消息
+function buildSystemMessages(context?: ChatContext): LLMMessage[] {
+  const systemMessages: LLMMessage[] = [
+    {
+      role: 'system',
+      content: SYSTEM_PROMPT + (context ? `\n\n当前上下文：用户正在查看${context.currentPage || '未知页面'}。` : ''),
+    },
+  ];
+
+  // 附带页面上的原始数据和分析结果
+  if (context?.contextBlocks && context.contextBlocks.length > 0) {
+    systemMessages.push({
+      role: 'system',
+      content: `当前页面数据（回答时请基于以下数据）：\n\n${context.contextBlocks
+        .map((block) => `【${block.label}】\n${block.content}`)
+        .join('\n\n')}`,
+    });
   }
-): Promise<string> {
-  if (!DEEPSEEK_API_KEY) {
-    // 如果没有API Key，返回模拟响应
-    return generateMockResponse(messages[messages.length - 1]?.content || '');
+
+  if (context?.summary) {
+    systemMessages.push({
+      role: 'system',
+      content: `此前对话摘要（较早的对话已压缩）：\n${context.summary.content}`,
+    });
   }
 
-  try {
-    // 构建消息列表，包含系统提示词和上下文
-    const apiMessages: any[] = [
-      {
-        role: 'system',
-        content: SYSTEM_PROMPT + (context ? `\n\n当前上下文：用户正在查看${context.currentPage || '未知页面'}。` : ''),
-      },
-    ];
-
-    // 如果有分析数据，添加到上下文中
-    if (context?.analysisData) {
+  return systemMessages;
+}
+
+// 对话历史可用的token预算：总预算扣除系统提示词和上下文
+function getHistoryBudget(systemMessages: LLMMessage[]): number {
+  const systemTokens = systemMessages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+  return Math.max(CHAT_CONTEXT_TOKEN_BUDGET - systemTokens, 0);
+}
+
+// 构建发送给模型的消息列表：系统提示词、上下文、滚动摘要和预算内的最近对话
+function buildChatMessages(messages: ChatMessage[], context?: ChatContext): LLMMessage[] {
+  const apiMessages = buildSystemMessages(context);
+
+  // 跳过已被摘要覆盖的消息和中止后没有内容的助手消息
+  const history = fitToBudget(getUnsummarizedMessages(messages, context?.summary), getHistoryBudget(apiMessages));
+  history.forEach((msg) => {
+    // 已完成的工具调用按协议还原为 assistant(tool_calls) + tool 消息
+    const finishedCalls = msg.toolCalls?.filter((call) => call.result !== undefined) ?? [];
+    if (finishedCalls.length > 0) {
+      apiMessages.push({
+        role: 'assistant',
+        content: '',
+        toolCalls: finishedCalls.map((call) => ({ id: call.id, name: call.name, arguments: JSON.stringify(call.arguments) })),
+      });
+      finishedCalls.forEach((call) => {
+        apiMessages.push({ role: 'tool', toolCallId: call.id, content: call.result! });
+      });
+    }
+    if (msg.content) {
       apiMessages.push({
-        role: 'system',
-        content: `当前分析数据：${context.analysisData.targetName}的${context.analysisData.type === 'product' ? '产品' : '省份'}分析报告。关键发现：${context.analysisData.keyFindings.join('; ')}`,
+        role: msg.role,
+        content: msg.content,
       });
     }
+  });
+
+  return apiMessages;
+}
+
+// 对话超出预算时，把较早的对话并入滚动摘要；无需压缩时原样返回已有摘要
+export async function updateChatSummary(
+  messages: ChatMessage[],
+  context?: ChatContext
+): Promise<ChatSummary | undefined> {
+  const summary = context?.summary;
+  const { toSummarize } = planContextWindow(messages, summary, getHistoryBudget(buildSystemMessages(context)));
+  if (toSummarize.length === 0) return summary;
+
+  const transcript = toSummarize
+    .filter((m) => m.content)
+    .map((m) => `${m.role === 'user' ? '用户' : '助手'}：${m.content}`)
+    .join('\n\n');
+  const content = await chatSummaryLLM.complete([
+    { role: 'system', content: SUMMARY_SYSTEM_PROMPT },
+    {
+      role: 'user',
+      content: `已有摘要：\n${summary?.content || '（无）'}\n\n新增对话：\n${transcript}`,
+    },
+  ]);
+
+  return {
+    content: content.trim() || summary?.content || '',
+    lastMessageId: toSummarize[toSummarize.length - 1].id,
+    summarizedCount: (summary?.summarizedCount ?? 0) + toSummarize.length,
+    updatedAt: new Date(),
+  };
+}
+
+// 调用LLM进行对话（模型与参数见 llm/config.ts 的 chat 配置）
+export async function sendChatMessage(messages: ChatMessage[], context?: ChatContext): Promise<string> {
+  const content = await chatLLM.complete(buildChatMessages(messages, context));
+  return content || '抱歉，我无法生成回复。';
+}
+
+export interface ChatStreamOptions extends LLMStreamOptions {
+  // 提供时允许模型调用工具查询数据或操作应用
+  tools?: ChatToolHooks & { environment: ChatToolEnvironment };
+}
+
+export interface ChatStreamResult {
+  content: string;
+  toolCalls: ChatToolCall[];
+  aborted: boolean;
+}
+
+// 流式对话：逐token回调，模型调用工具时执行后继续生成；用户中止时返回已生成的部分内容
+export async function streamChatMessage(
+  messages: ChatMessage[],
+  context: ChatContext | undefined,
+  options: ChatStreamOptions
+): Promise<ChatStreamResult> {
+  const apiMessages = buildChatMessages(messages, context);
+  const toolCalls: ChatToolCall[] = [];
+  let content = '';
+
+  for (let round = 0; ; round++) {
+    const canUseTools = options.tools !== undefined && round < MAX_TOOL_ROUNDS;
+    const result = await chatLLM.stream(apiMessages, options, canUseTools ? { tools: CHAT_TOOL_DEFINITIONS } : {});
+    content += result.content;
+
+    if (result.aborted || !canUseTools || result.toolCalls.length === 0) {
+      return { content, toolCalls, aborted: result.aborted };
+    }
 
-    // 添加用户消息历史
-    messages.forEach((msg) => {
-      if (msg.role !== 'system') {
-        apiMessages.push({
-          role: msg.role,
-          content: msg.content,
-        });
+    apiMessages.push({ role: 'assistant', content: result.content, toolCalls: result.toolCalls });
+    for (const call of result.toolCalls) {
+      const executed = await executeChatToolCall(call, options.tools!.environment, options.tools!);
+      toolCalls.push(executed);
+      apiMessages.push({ role: 'tool', toolCallId: call.id, content: executed.result ?? '' });
+      if (options.signal?.aborted) {
+        return { content, toolCalls, aborted: true };
       }
-    });
+    }
+  }
+}
+
+const MOCK_PROVINCE_METRICS: { keyword: string; field: string; label: string }[] = [
+  { keyword: '解限率', field: 'deLimitRate', label: '解限率' },
+  { keyword: '渗透率', field: 'penetrationRate', label: '渗透率' },
+  { keyword: 'roi', field: 'roi', label: 'ROI' },
+  { keyword: '非立络', field: 'nonLiluRatio', label: '非立络占比' },
+  { keyword: '市场份额', field: 'marketShare', label: '市场份额' },
+  { keyword: '健康度', field: 'healthScore', label: '健康度评分' },
+];
+
+const MOCK_PRODUCT_NAMES = ['立普妥', '络活喜', '西乐葆', '乐瑞卡', '左洛复', '怡诺思', '可多华', '爱宁达', '利加隆', '维固力'];
+
+// 模拟模式下按关键词判断是否需要查询数据
+function matchMockToolCall(userMessage: string): LLMToolCall | undefined {
+  const lowerMessage = userMessage.toLowerCase();
+  const id = `mock-call-${Date.now()}`;
 
-    const response = await axios.post(
-      DEEPSEEK_API_URL,
-      {
-        model: 'deepseek-chat',
-        messages: apiMessages,
-        temperature: 0.7,
-        max_tokens: 2000,
-      },
-      {
-        headers: {
-          'Authorization': `Bearer ${DEEPSEEK_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
+  if (lowerMessage.includes('省')) {
+    const metric = MOCK_PROVINCE_METRICS.find((m) => lowerMessage.includes(m.keyword));
+    if (metric) {
+      const order = /最低|最差|最少|倒数|垫底/.test(userMessage) ? 'asc' : 'desc';
+      return { id, name: 'listProvinces', arguments: JSON.stringify({ sortBy: metric.field, order, limit: 5 }) };
+    }
+  }
+
+  const productName = MOCK_PRODUCT_NAMES.find((name) => userMessage.includes(name));
+  if (productName && /表现|份额|解限率|数据/.test(userMessage)) {
+    return { id, name: 'getProductPerformance', arguments: JSON.stringify({ productName }) };
+  }
+
+  if (/细分市场|mekko/.test(lowerMessage)) {
+    return { id, name: 'getMarketSegments', arguments: JSON.stringify({ xAxis: 'channel', yAxis: 'department' }) };
+  }
+
+  return undefined;
+}
+
+// 模拟模式下根据工具结果生成回答
+function generateMockToolAnswer(messages: LLMMessage[]): string {
+  const calls = new Map<string, LLMToolCall>();
+  messages.forEach((m) => m.toolCalls?.forEach((call) => calls.set(call.id, call)));
+
+  const trailingResults: LLMMessage[] = [];
+  for (let i = messages.length - 1; i >= 0 && messages[i].role === 'tool'; i--) {
+    trailingResults.unshift(messages[i]);
+  }
+
+  return trailingResults
+    .map((toolMessage) => {
+      const call = toolMessage.toolCallId ? calls.get(toolMessage.toolCallId) : undefined;
+      let data: unknown;
+      try {
+        data = JSON.parse(toolMessage.content);
+      } catch {
+        return `操作未完成：${toolMessage.content}`;
+      }
+      const args = call ? JSON.parse(call.arguments || '{}') : {};
+
+      if (call?.name === 'listProvinces' && Array.isArray(data) && data.length > 0) {
+        const metric = MOCK_PROVINCE_METRICS.find((m) => m.field === args.sortBy) ?? MOCK_PROVINCE_METRICS[5];
+        const rows = data.map((p) => `| ${p.rank} | ${p.provinceName} | ${p[metric.field]} | ${p.healthScore} |`);
+        return [
+          `按${metric.label}${args.order === 'asc' ? '从低到高' : '从高到低'}排序，**${data[0].provinceName}**排在第一位，${metric.label}为 ${data[0][metric.field]}。`,
+          '',
+          `| 排名 | 省份 | ${metric.label} | 健康度评分 |`,
+          '| --- | --- | --- | --- |',
+          ...rows,
+          '',
+          '建议结合"解限-渗透-做广"逻辑，优先访谈排名靠后省份的区域经理，了解具体障碍。',
+        ].join('\n');
+      }
+
+      if (call?.name === 'getProductPerformance' && Array.isArray(data)) {
+        return data
+          .map(
+            (p) =>
+              `**${p.productName}**（${p.period}）：分子式份额 ${p.moleculeShare}%（${p.moleculeShareChange > 0 ? '+' : ''}${p.moleculeShareChange}%），分子式内份额 ${p.moleculeInternalShare}%（${p.moleculeInternalShareChange > 0 ? '+' : ''}${p.moleculeInternalShareChange}%），解限率 ${p.deLimitRate}%（${p.deLimitRateChange > 0 ? '+' : ''}${p.deLimitRateChange}%）。`
+          )
+          .join('\n\n');
       }
-    );
 
-    return response.data.choices[0]?.message?.content || '抱歉，我无法生成回复。';
-  } catch (error: any) {
-    console.error('Chat API Error:', error);
-    return generateMockResponse(messages[messages.length - 1]?.content || '');
+      if (call?.name === 'getMarketSegments' && Array.isArray(data)) {
+        return [
+          '| 细分市场 | 市场规模 | 晖致份额 | 竞品份额 |',
+          '| --- | --- | --- | --- |',
+          ...data.slice(0, 8).map((s) => `| ${s.segment} | ${s.totalShare} | ${s.huiZhiShare} | ${s.competitorShare} |`),
+        ].join('\n');
+      }
+
+      return typeof data === 'object' && data !== null && 'message' in data ? String(data.message) : '操作已完成。';
+    })
+    .join('\n\n');
+}
+
+// 模拟对话：需要数据时先发起工具调用，拿到结果后基于真实数字回答
+function generateMockChatCompletion(messages: LLMMessage[]): string | LLMCompletion {
+  const lastMessage = messages[messages.length - 1];
+  if (lastMessage?.role === 'tool') {
+    return generateMockToolAnswer(messages);
   }
+
+  const toolCall = lastMessage?.role === 'user' ? matchMockToolCall(lastMessage.content) : undefined;
+  if (toolCall) {
+    return { content: '', toolCalls: [toolCall] };
+  }
+  return generateMockResponse(lastMessage?.content || '');
+}
+
+// 模拟摘要：保留已有摘要并列出新增的用户问题
+function generateMockSummary(prompt: string): string {
+  const [previousPart, transcript = ''] = prompt.split('新增对话：');
+  const previous = previousPart.replace('已有摘要：', '').replace('（无）', '').trim();
+  const questions = transcript
+    .trim()
+    .split('\n\n')
+    .filter((line) => line.startsWith('用户：'))
+    .map((line) => `- 用户询问：${line.slice(3).replace(/\s+/g, ' ').slice(0, 60)}`);
+
+  return [previous, ...questions].filter(Boolean).join('\n');
 }
 
-// 生成模拟响应（当没有API Key时）
+// 生成模拟响应（服务端未配置API Key或请求失败时）
 function generateMockResponse(userMessage: string): string {
   const lowerMessage = userMessage.toLowerCase();
 
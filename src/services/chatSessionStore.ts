@@ -0,0 +1,141 @@
+import { AIAnalysis } from '../types';
+import { ChatMessage } from './chatService';
+import { ChatSummary } from './chatContextWindow';
+import { idbDelete, idbGetAll, idbPut, STORES } from './storage/indexedDb';
+
+// 会话发起时所在的页面和分析对象
+export interface ChatSessionOrigin {
+  page: string;
+  pathname: string;
+  analysisTarget?: Pick<AIAnalysis, 'type' | 'targetId' | 'targetName'>;
+}
+
+export interface ChatSession {
+  id: string;
+  title: string;
+  titleEdited?: boolean; // 用户手动重命名后不再自动生成标题
+  messages: ChatMessage[];
+  summary?: ChatSummary; // 超出上下文预算的较早对话摘要
+  origin: ChatSessionOrigin;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const DEFAULT_SESSION_TITLE = '新对话';
+const TITLE_MAX_LENGTH = 20;
+
+// 配置后会话同时同步到后端（GET 列表、PUT/DELETE 单个会话）
+const SESSION_API_URL = import.meta.env.VITE_CHAT_SESSION_API_URL || '';
+
+export function createChatSession(origin: ChatSessionOrigin, messages: ChatMessage[] = []): ChatSession {
+  const now = new Date();
+  return {
+    id: `session-${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+    title: DEFAULT_SESSION_TITLE,
+    messages,
+    origin,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// 以第一条用户消息作为默认标题
+export function deriveSessionTitle(session: ChatSession): string {
+  if (session.titleEdited) return session.title;
+  const firstUserMessage = session.messages.find((m) => m.role === 'user');
+  if (!firstUserMessage) return session.title;
+  const text = firstUserMessage.content.replace(/\s+/g, ' ').trim();
+  return text.length > TITLE_MAX_LENGTH ? `${text.slice(0, TITLE_MAX_LENGTH)}…` : text;
+}
+
+// JSON 反序列化后恢复日期字段（IndexedDB 本身可以保存 Date）
+function reviveSession(raw: ChatSession): ChatSession {
+  return {
+    ...raw,
+    createdAt: new Date(raw.createdAt),
+    updatedAt: new Date(raw.updatedAt),
+    messages: raw.messages.map((m) => ({ ...m, timestamp: new Date(m.timestamp) })),
+    summary: raw.summary ? { ...raw.summary, updatedAt: new Date(raw.summary.updatedAt) } : undefined,
+  };
+}
+
+async function fetchRemoteSessions(): Promise<ChatSession[]> {
+  if (!SESSION_API_URL) return [];
+  try {
+    const response = await fetch(SESSION_API_URL);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const data = (await response.json()) as ChatSession[];
+    return data.map(reviveSession);
+  } catch (error) {
+    console.error('Failed to load chat sessions from backend:', error);
+    return [];
+  }
+}
+
+async function pushRemoteSession(session: ChatSession): Promise<void> {
+  if (!SESSION_API_URL) return;
+  try {
+    await fetch(`${SESSION_API_URL}/${encodeURIComponent(session.id)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(session),
+    });
+  } catch (error) {
+    console.error('Failed to sync chat session to backend:', error);
+  }
+}
+
+async function deleteRemoteSession(id: string): Promise<void> {
+  if (!SESSION_API_URL) return;
+  try {
+    await fetch(`${SESSION_API_URL}/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  } catch (error) {
+    console.error('Failed to delete chat session on backend:', error);
+  }
+}
+
+// 读取全部会话（按更新时间倒序），有后端时按 updatedAt 合并两侧数据
+export async function listChatSessions(): Promise<ChatSession[]> {
+  const local = (await idbGetAll<ChatSession>(STORES.chatSessions.name)).map(reviveSession);
+  const remote = await fetchRemoteSessions();
+
+  const merged = new Map(local.map((session) => [session.id, session]));
+  const writes: Promise<void>[] = [];
+  for (const session of remote) {
+    const existing = merged.get(session.id);
+    if (!existing || existing.updatedAt < session.updatedAt) {
+      merged.set(session.id, session);
+      // 本地缓存写入失败（如超出配额）不影响返回合并后的列表
+      writes.push(
+        idbPut(STORES.chatSessions.name, session).catch((error) =>
+          console.error('Failed to cache remote chat session:', error)
+        )
+      );
+    }
+  }
+  await Promise.all(writes);
+
+  return Array.from(merged.values()).sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+}
+
+export async function saveChatSession(session: ChatSession): Promise<void> {
+  await idbPut(STORES.chatSessions.name, session);
+  void pushRemoteSession(session);
+}
+
+export async function deleteChatSession(id: string): Promise<void> {
+  await idbDelete(STORES.chatSessions.name, id);
+  void deleteRemoteSession(id);
+}
+
+// 按标题和消息内容搜索
+export function searchChatSessions(sessions: ChatSession[], keyword: string): ChatSession[] {
+  const term = keyword.trim().toLowerCase();
+  if (!term) return sessions;
+  return sessions.filter(
+    (session) =>
+      session.title.toLowerCase().includes(term) ||
+      session.origin.analysisTarget?.targetName.toLowerCase().includes(term) ||
+      session.messages.some((m) => m.content.toLowerCase().includes(term))
+  );
+}
@@ -0,0 +1,383 @@
+import { ProvincePerformance, ProductPerformance, ProductProvinceMetricKey } from '../types';
+import { MarketDimension, StrategyProposal } from '../types/strategy';
+import {
+  aggregateMarketSegments,
+  filterMarketPeriod,
+  listMarketPeriods,
+  MARKET_DIMENSION_LABELS,
+  MARKET_DIMENSIONS,
+} from './marketSegments';
+import { PRODUCT_PROVINCE_METRIC_KEYS } from './performanceStore';
+import { DataRepository, DEFAULT_MARKET_BRAND, MarketDataFilters } from './repository';
+import { LLMToolCall, LLMToolDefinition } from './llm';
+
+// 聊天中的一次工具调用（随消息保存，用于界面展示和后续对话）
+export interface ChatToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  status: 'awaitingConfirmation' | 'running' | 'done' | 'rejected' | 'error';
+  result?: string; // 返回给模型的JSON或说明文字
+}
+
+// 工具执行时可以访问的应用状态和操作，由 Chatbot 从各 Context 注入
+export interface ChatToolEnvironment {
+  repository: DataRepository;
+  addStrategy: (strategy: Omit<StrategyProposal, 'id' | 'priority' | 'createdAt' | 'updatedAt'>) => StrategyProposal;
+  getAnalysisCacheKeys: () => string[];
+  currentAnalysisCacheKey?: string; // 当前页面展示的分析
+  refreshAnalysis: (cacheKey: string) => void;
+}
+
+export interface ChatToolHooks {
+  onUpdate: (call: ChatToolCall) => void;
+  confirm: (call: ChatToolCall) => Promise<boolean>; // 写操作执行前征求用户确认
+}
+
+interface ChatTool {
+  definition: LLMToolDefinition;
+  label: string;
+  requiresConfirmation: boolean;
+  execute: (args: Record<string, unknown>, env: ChatToolEnvironment) => unknown;
+}
+
+type ProvinceSortField = keyof Pick<
+  ProvincePerformance,
+  'healthScore' | 'marketShare' | 'roi' | 'nonLiluRatio' | 'deLimitRate' | 'penetrationRate'
+>;
+
+const PROVINCE_SORT_FIELDS: ProvinceSortField[] = [
+  'healthScore',
+  'marketShare',
+  'roi',
+  'nonLiluRatio',
+  'deLimitRate',
+  'penetrationRate',
+];
+
+// 品牌通过 brand 参数指定，其余维度可用于切分和筛选
+const SEGMENT_AXES = MARKET_DIMENSIONS.filter((d): d is Exclude<MarketDimension, 'brand'> => d !== 'brand');
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const asString = (value: unknown): string | undefined => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+const asStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+
+// 未指定或不存在的周期按最新周期处理
+async function resolvePeriod(repository: DataRepository, value: unknown): Promise<string> {
+  const period = asString(value);
+  const periods = await repository.listPeriods();
+  return period && periods.includes(period) ? period : periods[periods.length - 1];
+}
+
+function findProducts(products: ProductPerformance[], productName?: string): ProductPerformance[] {
+  if (!productName) return products;
+  const keyword = productName.toLowerCase();
+  return products.filter(
+    (p) =>
+      p.productName.toLowerCase().includes(keyword) ||
+      p.moleculeFormula.toLowerCase().includes(keyword) ||
+      p.productId === productName
+  );
+}
+
+const CHAT_TOOLS: ChatTool[] = [
+  {
+    label: '查询产品表现',
+    requiresConfirmation: false,
+    definition: {
+      name: 'getProductPerformance',
+      description: '查询产品的分子式份额、分子式内份额、竞品份额、解限率及其环比、同比变化。不传产品名时返回全部产品。',
+      parameters: {
+        type: 'object',
+        properties: {
+          productName: { type: 'string', description: '产品名称或分子式，如"立普妥"' },
+          period: { type: 'string', description: '季度，如"2024-Q1"，默认最新周期' },
+        },
+      },
+    },
+    execute: async (args, env) => {
+      const all = await env.repository.getProductPerformance(await resolvePeriod(env.repository, args.period));
+      const products = findProducts(all, asString(args.productName));
+      if (products.length === 0) {
+        throw new Error(`未找到产品"${asString(args.productName)}"，可选产品：${all.map((p) => p.productName).join('、')}`);
+      }
+      return products;
+    },
+  },
+  {
+    label: '产品分省拆解',
+    requiresConfirmation: false,
+    definition: {
+      name: 'getProductProvinceBreakdown',
+      description:
+        '将产品的全国分子式内份额或解限率拆解到省份，返回各省指标、环比变化、权重占比及对全国环比变化的贡献（百分点），按贡献从低到高排序，用于定位问题集中的省份。',
+      parameters: {
+        type: 'object',
+        properties: {
+          productName: { type: 'string', description: '产品名称或分子式，如"立普妥"' },
+          metric: {
+            type: 'string',
+            enum: PRODUCT_PROVINCE_METRIC_KEYS,
+            description: 'moleculeInternalShare分子式内份额、deLimitRate解限率',
+          },
+          period: { type: 'string', description: '季度，如"2024-Q1"，默认最新周期' },
+        },
+        required: ['productName', 'metric'],
+      },
+    },
+    execute: async (args, env) => {
+      const period = await resolvePeriod(env.repository, args.period);
+      const all = await env.repository.getProductPerformance(period);
+      const [product] = findProducts(all, asString(args.productName));
+      if (!product) {
+        throw new Error(`未找到产品"${asString(args.productName)}"，可选产品：${all.map((p) => p.productName).join('、')}`);
+      }
+      const metric = PRODUCT_PROVINCE_METRIC_KEYS.includes(args.metric as ProductProvinceMetricKey)
+        ? (args.metric as ProductProvinceMetricKey)
+        : 'moleculeInternalShare';
+      return env.repository.getProductProvinceBreakdown(product.productId, period, metric);
+    },
+  },
+  {
+    label: '份额变化归因',
+    requiresConfirmation: false,
+    definition: {
+      name: 'getShareChangeDecomposition',
+      description:
+        '将产品分子式内份额的环比变化拆解到驱动因素：解限（解限率变化）、渗透（解限医院内份额）、做广（未解限医院份额）、零售份额、渠道结构、区域结构，各项贡献（百分点）之和等于份额变化，并列出各项贡献最大的省份。',
+      parameters: {
+        type: 'object',
+        properties: {
+          productName: { type: 'string', description: '产品名称或分子式，如"立普妥"' },
+          period: { type: 'string', description: '季度，如"2024-Q1"，默认最新周期' },
+        },
+        required: ['productName'],
+      },
+    },
+    execute: async (args, env) => {
+      const period = await resolvePeriod(env.repository, args.period);
+      const all = await env.repository.getProductPerformance(period);
+      const [product] = findProducts(all, asString(args.productName));
+      if (!product) {
+        throw new Error(`未找到产品"${asString(args.productName)}"，可选产品：${all.map((p) => p.productName).join('、')}`);
+      }
+      const decomposition = await env.repository.getShareChangeDecomposition(product.productId, period);
+      if (!decomposition) throw new Error(`${product.productName}缺少${period}或上一周期的分省数据，无法归因`);
+      return decomposition;
+    },
+  },
+  {
+    label: '省份排名',
+    requiresConfirmation: false,
+    definition: {
+      name: 'listProvinces',
+      description: '按指定指标对省份排序，返回健康度评分、市场份额、ROI、非立络占比、解限率、渗透率。',
+      parameters: {
+        type: 'object',
+        properties: {
+          sortBy: {
+            type: 'string',
+            enum: PROVINCE_SORT_FIELDS,
+            description: '排序指标：healthScore健康度、marketShare市场份额、roi、nonLiluRatio非立络占比、deLimitRate解限率、penetrationRate渗透率',
+          },
+          order: { type: 'string', enum: ['asc', 'desc'], description: 'asc从低到高，desc从高到低，默认desc' },
+          limit: { type: 'integer', description: '返回的省份数量，默认全部' },
+          period: { type: 'string', description: '季度，如"2024-Q1"，默认最新周期' },
+        },
+        required: ['sortBy'],
+      },
+    },
+    execute: async (args, env) => {
+      const sortBy = PROVINCE_SORT_FIELDS.includes(args.sortBy as ProvinceSortField)
+        ? (args.sortBy as ProvinceSortField)
+        : 'healthScore';
+      const direction = args.order === 'asc' ? 1 : -1;
+      const limit = typeof args.limit === 'number' && args.limit > 0 ? Math.floor(args.limit) : undefined;
+      const provinces = await env.repository.getProvincePerformance(await resolvePeriod(env.repository, args.period));
+      return provinces
+        .sort((a, b) => (a[sortBy] - b[sortBy]) * direction)
+        .slice(0, limit)
+        .map((p, index) => ({ rank: index + 1, ...p }));
+    },
+  },
+  {
+    label: '查询细分市场',
+    requiresConfirmation: false,
+    definition: {
+      name: 'getMarketSegments',
+      description:
+        '按任意两个维度切分市场（可同时按多个维度筛选），返回指定周期（默认最新一期）各细分市场的市场规模、晖致份额、竞品份额，按市场规模降序。',
+      parameters: {
+        type: 'object',
+        properties: {
+          xAxis: {
+            type: 'string',
+            enum: SEGMENT_AXES,
+            description: `横轴维度：${SEGMENT_AXES.map((d) => `${d}${MARKET_DIMENSION_LABELS[d]}`).join('、')}`,
+          },
+          yAxis: { type: 'string', enum: SEGMENT_AXES, description: '纵轴维度，与横轴不同' },
+          brand: { type: 'string', description: `品牌，默认"${DEFAULT_MARKET_BRAND}"` },
+          period: { type: 'string', description: '统计周期，如"2024-Q1"，默认最新一期' },
+          filters: {
+            type: 'object',
+            description: '按维度筛选，同一维度内多个取值为"或"，不同维度之间为"且"',
+            properties: Object.fromEntries(
+              SEGMENT_AXES.map((d) => [
+                d,
+                {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: d === 'province' ? '省份筛选，如["北京","上海"]' : `${MARKET_DIMENSION_LABELS[d]}筛选`,
+                },
+              ])
+            ),
+          },
+        },
+        required: ['xAxis', 'yAxis'],
+      },
+    },
+    execute: async (args, env) => {
+      const asAxis = (value: unknown, fallback: MarketDimension) =>
+        (SEGMENT_AXES as unknown[]).includes(value) ? (value as MarketDimension) : fallback;
+      const xAxis = asAxis(args.xAxis, 'channel');
+      const yAxis = asAxis(args.yAxis, 'department');
+      const rawFilters = (typeof args.filters === 'object' && args.filters !== null ? args.filters : {}) as Record<string, unknown>;
+      const filters: MarketDataFilters = {};
+      SEGMENT_AXES.forEach((d) => {
+        const values = asStringArray(rawFilters[d]);
+        if (values.length > 0) filters[d] = values;
+      });
+      const marketData = await env.repository.getMarketData(asString(args.brand) ?? DEFAULT_MARKET_BRAND, filters);
+      // 各周期的数据不能相加，只汇总一个周期
+      const periods = listMarketPeriods(marketData);
+      const requested = asString(args.period);
+      if (requested && periods.length > 0 && !periods.includes(requested)) {
+        throw new Error(`没有${requested}的大盘数据，可选周期：${periods.join('、')}`);
+      }
+      const period = requested && periods.includes(requested) ? requested : periods[periods.length - 1];
+      return aggregateMarketSegments(filterMarketPeriod(marketData, period), { xAxis, yAxis }).map(
+        (s) => ({
+          segment: s.segment,
+          totalShare: round(s.totalShare),
+          huiZhiShare: round(s.huiZhiShare),
+          competitorShare: round(s.competitorShare),
+        })
+      );
+    },
+  },
+  {
+    label: '创建策略建议',
+    requiresConfirmation: true,
+    definition: {
+      name: 'createStrategyProposal',
+      description: '在策略共创中新建一条策略建议（草稿），执行前需要用户确认。',
+      parameters: {
+        type: 'object',
+        properties: {
+          title: { type: 'string', description: '策略标题' },
+          description: { type: 'string', description: '策略描述' },
+          actions: { type: 'array', items: { type: 'string' }, description: '具体行动' },
+          expectedOutcome: { type: 'string', description: '预期效果' },
+          opportunityId: { type: 'string', description: '关联的机会点ID' },
+        },
+        required: ['title', 'description', 'actions'],
+      },
+    },
+    execute: (args, env) => {
+      const title = asString(args.title);
+      if (!title) throw new Error('缺少策略标题');
+      const created = env.addStrategy({
+        title,
+        description: asString(args.description) || '',
+        actions: asStringArray(args.actions),
+        expectedOutcome: asString(args.expectedOutcome),
+        opportunityId: asString(args.opportunityId),
+        status: 'draft',
+        isFromAI: true,
+      });
+      return { id: created.id, priority: created.priority, message: '策略建议已创建，可在"策略制定-策略共创"中查看' };
+    },
+  },
+  {
+    label: '重新生成分析',
+    requiresConfirmation: true,
+    definition: {
+      name: 'refreshAnalysis',
+      description:
+        '重新生成产品/省份诊断报告，会覆盖现有结果，执行前需要用户确认。不传缓存键时刷新当前页面的分析；其他页面的分析在用户下次打开时重新生成。',
+      parameters: {
+        type: 'object',
+        properties: {
+          cacheKey: { type: 'string', description: '分析缓存键，格式为 product-{产品ID}-{周期} 或 province-{省份ID}-{周期}' },
+        },
+      },
+    },
+    execute: (args, env) => {
+      const cacheKey = asString(args.cacheKey) ?? env.currentAnalysisCacheKey;
+      const availableKeys = env.getAnalysisCacheKeys();
+      if (!cacheKey || !availableKeys.includes(cacheKey)) {
+        throw new Error(`未找到分析"${cacheKey ?? ''}"，当前可刷新的分析：${availableKeys.join('、') || '无'}`);
+      }
+      env.refreshAnalysis(cacheKey);
+      // 只有当前页面展示的分析会立即重新生成，其他分析在下次打开对应诊断时重新生成
+      return cacheKey === env.currentAnalysisCacheKey
+        ? { cacheKey, message: '已开始重新生成当前页面的分析，完成后页面自动更新' }
+        : { cacheKey, message: '该分析不在当前页面展示，已标记为需要刷新，下次打开对应的诊断页面时重新生成' };
+    },
+  },
+];
+
+export const CHAT_TOOL_DEFINITIONS: LLMToolDefinition[] = CHAT_TOOLS.map((tool) => tool.definition);
+
+export function getChatToolLabel(name: string): string {
+  return CHAT_TOOLS.find((tool) => tool.definition.name === name)?.label ?? name;
+}
+
+function parseArguments(raw: string): Record<string, unknown> {
+  if (!raw.trim()) return {};
+  const parsed = JSON.parse(raw);
+  return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed : {};
+}
+
+// 执行模型发起的工具调用；写操作需用户确认，错误作为结果返回给模型
+export async function executeChatToolCall(
+  call: LLMToolCall,
+  env: ChatToolEnvironment,
+  hooks: ChatToolHooks
+): Promise<ChatToolCall> {
+  const tool = CHAT_TOOLS.find((t) => t.definition.name === call.name);
+  const chatCall: ChatToolCall = { id: call.id, name: call.name, arguments: {}, status: 'running' };
+  const finish = (status: ChatToolCall['status'], result: string): ChatToolCall => {
+    const finished = { ...chatCall, status, result };
+    hooks.onUpdate(finished);
+    return finished;
+  };
+
+  try {
+    chatCall.arguments = parseArguments(call.arguments);
+  } catch {
+    return finish('error', `参数不是合法的JSON：${call.arguments}`);
+  }
+  if (!tool) {
+    return finish('error', `未知工具：${call.name}`);
+  }
+
+  if (tool.requiresConfirmation) {
+    const pending: ChatToolCall = { ...chatCall, status: 'awaitingConfirmation' };
+    hooks.onUpdate(pending);
+    if (!(await hooks.confirm(pending))) {
+      return finish('rejected', '用户取消了该操作');
+    }
+  }
+
+  hooks.onUpdate(chatCall);
+  try {
+    const result = await tool.execute(chatCall.arguments, env);
+    return finish('done', JSON.stringify(result));
+  } catch (error) {
+    return finish('error', error instanceof Error ? error.message : String(error));
+  }
+}
@@ -0,0 +1,101 @@
+// 解析上传的 CSV / XLSX 文件为表头 + 数据行
+
+export interface ParsedRow {
+  rowNumber: number; // 文件中的行号（表头为第1行）
+  cells: string[];
+}
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: ParsedRow[];
+}
+
+export const SUPPORTED_FILE_EXTENSIONS = ['.csv', '.xlsx'];
+
+// 按 RFC 4180 解析（支持引号内的逗号、换行和转义引号），自动识别逗号/制表符分隔
+export function parseCsv(text: string): ParsedSheet {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.slice(0, content.search(/\r?\n|$/));
+  const delimiter = firstLine.split('\t').length > firstLine.split(',').length ? '\t' : ',';
+
+  const lines: { lineNumber: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let lineNumber = 1;
+  let rowStart = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    lines.push({ lineNumber: rowStart, cells });
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') lineNumber++;
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      endRow();
+      lineNumber++;
+      rowStart = lineNumber;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || cells.length > 0) endRow();
+
+  return toSheet(lines.map((line) => ({ rowNumber: line.lineNumber, cells: line.cells })));
+}
+
+function toSheet(rows: ParsedRow[]): ParsedSheet {
+  const [headerRow, ...dataRows] = rows;
+  return {
+    headers: (headerRow?.cells ?? []).map((h) => h.trim()),
+    // 忽略整行为空的数据行
+    rows: dataRows
+      .map((row) => ({ ...row, cells: row.cells.map((c) => c.trim()) }))
+      .filter((row) => row.cells.some((c) => c !== '')),
+  };
+}
+
+// 单元格值转为文本：日期按 YYYY-MM-DD，空单元格为空字符串
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value);
+}
+
+// 读取第一个工作表；解析库按需加载，避免增大首屏体积。只解压 XML 数据、不执行公式或宏，
+// 旧版二进制 .xls 不受支持
+async function parseXlsx(file: File): Promise<ParsedSheet> {
+  const { readSheet } = await import('read-excel-file/browser');
+  const matrix = await readSheet(file).catch(() => {
+    throw new Error('无法读取该 Excel 文件，请确认为 .xlsx 格式');
+  });
+  // 返回的行从工作表第1行开始（末尾空行已去除）
+  return toSheet(matrix.map((cells, index) => ({ rowNumber: index + 1, cells: cells.map(formatCell) })));
+}
+
+export async function parseImportFile(file: File): Promise<ParsedSheet> {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.xls')) throw new Error('不支持旧版 .xls 文件，请在 Excel 中另存为 .xlsx 或 CSV 后上传');
+  const sheet = name.endsWith('.csv') ? parseCsv(await file.text()) : await parseXlsx(file);
+  if (sheet.headers.length === 0) throw new Error('文件为空或缺少表头');
+  return sheet;
+}
@@ -0,0 +1,101 @@
+import { ImportFieldSpec, ImportTarget } from '../../types/dataset';
+
+interface ImportTargetSpec {
+  label: string;
+  description: string;
+  fields: ImportFieldSpec[];
+  keyFields: string[]; // 主键字段，文件内不可重复；合并导入时据此覆盖已有数据
+}
+
+const share = (key: string, label: string, aliases: string[], required = true): ImportFieldSpec => ({
+  key,
+  label,
+  type: 'number',
+  required,
+  aliases,
+  min: 0,
+  max: 100,
+});
+
+const PERIOD_FIELD: ImportFieldSpec = {
+  key: 'period',
+  label: '周期',
+  type: 'period',
+  required: true,
+  aliases: ['季度', 'quarter'],
+};
+
+// 各导入目标的字段，对应 types/index.ts 和 types/strategy.ts 中的类型
+export const IMPORT_TARGETS: Record<ImportTarget, ImportTargetSpec> = {
+  productPerformance: {
+    label: '产品表现',
+    description: '外部份额数据（如 IQVIA 季度提数）及内部解限数据，每行为一个产品在一个季度的指标',
+    keyFields: ['productId', 'period'],
+    fields: [
+      { key: 'productId', label: '产品ID', type: 'string', required: true, aliases: ['产品编码', 'product_id'] },
+      { key: 'productName', label: '产品名称', type: 'string', required: true, aliases: ['产品', 'product'] },
+      { key: 'moleculeFormula', label: '分子式', type: 'string', required: true, aliases: ['molecule'] },
+      { key: 'category', label: '治疗领域', type: 'string', required: false, aliases: ['类别', 'category'] },
+      PERIOD_FIELD,
+      share('moleculeShare', '分子式份额', ['molecule_share']),
+      share('moleculeInternalShare', '分子式内份额', ['molecule_internal_share']),
+      share('competitorShare', '竞品份额', ['competitor_share']),
+      share('deLimitRate', '解限率', ['delimit_rate']),
+    ],
+  },
+  provincePerformance: {
+    label: '省份表现',
+    description: '各省核心维度与核心指标，每行为一个省份在一个季度的指标（健康度评分由系统按评分设置计算）',
+    keyFields: ['provinceId', 'period'],
+    fields: [
+      { key: 'provinceId', label: '省份ID', type: 'string', required: true, aliases: ['省份编码', 'province_id'] },
+      { key: 'provinceName', label: '省份名称', type: 'string', required: true, aliases: ['省份', 'province'] },
+      { key: 'region', label: '区域', type: 'string', required: false, aliases: ['大区', 'region'] },
+      PERIOD_FIELD,
+      share('marketShare', '市场份额', ['market_share']),
+      { key: 'roi', label: 'ROI', type: 'number', required: true, aliases: ['投资回报率'], min: 0 },
+      share('nonLiluRatio', '非立络占比', ['non_lilu_ratio']),
+      share('deLimitRate', '解限率', ['delimit_rate']),
+      share('penetrationRate', '渗透率', ['penetration_rate']),
+    ],
+  },
+  productProvincePerformance: {
+    label: '产品分省表现',
+    description:
+      '各产品在各省的分子式内份额和解限率，用于把全国产品指标拆解到省份；可选的解限医院内份额和零售渠道数据用于份额变化归因。产品ID、省份ID需与产品表现、省份表现一致',
+    keyFields: ['productId', 'provinceId', 'period'],
+    fields: [
+      { key: 'productId', label: '产品ID', type: 'string', required: true, aliases: ['产品编码', 'product_id'] },
+      { key: 'provinceId', label: '省份ID', type: 'string', required: true, aliases: ['省份编码', 'province_id'] },
+      PERIOD_FIELD,
+      { key: 'moleculeVolume', label: '分子式市场规模', type: 'number', required: true, aliases: ['市场规模', 'molecule_volume'], min: 0 },
+      { key: 'hospitalCount', label: '目标医院数', type: 'number', required: true, aliases: ['医院数', 'hospital_count'], min: 0 },
+      share('moleculeInternalShare', '分子式内份额', ['molecule_internal_share']),
+      share('deLimitRate', '解限率', ['delimit_rate']),
+      share('penetrationShare', '解限医院内份额', ['penetration_share'], false),
+      share('retailRatio', '零售占比', ['零售渠道占比', 'retail_ratio'], false),
+      share('retailShare', '零售份额', ['零售渠道份额', 'retail_share'], false),
+    ],
+  },
+  marketData: {
+    label: '生意大盘',
+    description:
+      'Mekko看板使用的细分市场事实表，每行为渠道 × 科室 × 省份 × 类别 × 分子式 × 价格带的市场规模和份额，可按任意两个维度交叉查看；未提供的维度记为"未指定"，提供周期时可对比两期份额变化',
+    keyFields: [],
+    fields: [
+      { key: 'channel', label: '渠道', type: 'string', required: true, aliases: ['channel', 'dimension1'] },
+      { key: 'department', label: '治疗科室', type: 'string', required: true, aliases: ['科室', 'department', 'dimension2'] },
+      { key: 'province', label: '省份', type: 'string', required: false, aliases: ['province'] },
+      { key: 'class', label: '类别', type: 'string', required: false, aliases: ['药品类别', 'class'] },
+      { key: 'molecule', label: '分子式', type: 'string', required: false, aliases: ['通用名', 'molecule'] },
+      { key: 'priceBand', label: '价格带', type: 'string', required: false, aliases: ['price_band'] },
+      { key: 'brand', label: '品牌', type: 'string', required: false, aliases: ['brand'] },
+      { ...PERIOD_FIELD, required: false },
+      { key: 'value', label: '市场规模', type: 'number', required: true, aliases: ['销售额', 'value'], min: 0 },
+      { key: 'volume', label: '销量', type: 'number', required: false, aliases: ['volume'], min: 0 },
+      share('huiZhiShare', '晖致份额', ['huizhi_share'], false),
+      share('competitorShare', '竞品份额', ['competitor_share'], false),
+      { key: 'growthRate', label: '增长率', type: 'number', required: false, aliases: ['growth_rate'], min: -100 },
+    ],
+  },
+};
@@ -0,0 +1,5 @@
+export { parseCsv, parseImportFile, SUPPORTED_FILE_EXTENSIONS } from './fileParser';
+export type { ParsedRow, ParsedSheet } from './fileParser';
+export { IMPORT_TARGETS } from './importSchemas';
+export { autoMapColumns, getUnmappedRequiredFields, validateImportRows } from './validation';
+export type { ColumnMapping, ImportRecord, ImportValidationResult } from './validation';
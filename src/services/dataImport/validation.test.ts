@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { ParsedSheet } from './fileParser';
+import { autoMapColumns, getUnmappedRequiredFields, validateImportRows } from './validation';
+
+const headers = ['产品编码', 'Product Name', '分子式', '季度', '分子式份额(%)', 'molecule_internal_share', '竞品份额', 'DeLimit Rate'];
+
+const sheet = (rows: string[][]): ParsedSheet => ({
+  headers,
+  rows: rows.map((cells, index) => ({ rowNumber: index + 2, cells })),
+});
+
+const mapping = autoMapColumns('productPerformance', headers);
+
+describe('autoMapColumns', () => {
+  it('按字段名、中文名和别名匹配表头，忽略大小写、空格、下划线和百分号', () => {
+    expect(mapping).toEqual({
+      productId: 0,
+      productName: 1,
+      moleculeFormula: 2,
+      category: null,
+      period: 3,
+      moleculeShare: 4,
+      moleculeInternalShare: 5,
+      competitorShare: 6,
+      deLimitRate: 7,
+    });
+  });
+
+  it('列出未映射的必填字段', () => {
+    const partial = autoMapColumns('productPerformance', ['产品ID', '产品名称']);
+    expect(getUnmappedRequiredFields('productPerformance', partial).map((field) => field.key)).toEqual([
+      'moleculeFormula',
+      'period',
+      'moleculeShare',
+      'moleculeInternalShare',
+      'competitorShare',
+      'deLimitRate',
+    ]);
+    expect(getUnmappedRequiredFields('productPerformance', mapping)).toEqual([]);
+  });
+});
+
+describe('validateImportRows', () => {
+  it('兼容 "35.2%"、"1,234" 等写法，周期统一为 "2024-Q1"', () => {
+    const provinceHeaders = ['省份ID', '省份名称', '周期', '市场份额', 'ROI', '非立络占比', '解限率', '渗透率'];
+    const result = validateImportRows(
+      'provincePerformance',
+      { headers: provinceHeaders, rows: [{ rowNumber: 2, cells: ['sh', '上海', '2024 q1', '35.2%', '1,234', '40', '80', '70'] }] },
+      autoMapColumns('provincePerformance', provinceHeaders)
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.records[0].values).toMatchObject({ period: '2024-Q1', marketShare: 35.2, roi: 1234 });
+  });
+
+  it('份额须在 0-100 之间', () => {
+    const result = validateImportRows(
+      'productPerformance',
+      sheet([['p1', '立普妥', '阿托伐他汀', '2024-Q1', '100', '0', '-0.5', '100.1']]),
+      mapping
+    );
+
+    expect(result.errors).toEqual([
+      { row: 2, field: '竞品份额', message: '-0.5小于最小值0' },
+      { row: 2, field: '解限率', message: '100.1超出最大值100' },
+    ]);
+    expect(result.invalidRowCount).toBe(1);
+  });
+
+  it('必填字段为空、数字或周期格式错误时报错，可选字段为空时跳过', () => {
+    const result = validateImportRows(
+      'productPerformance',
+      sheet([
+        ['', '立普妥', '阿托伐他汀', '2024Q5', 'abc', '30', '20', '80'],
+        ['p2', '络活喜', '氨氯地平', '2024Q1', '10', '30', '20', '80'],
+      ]),
+      mapping
+    );
+
+    expect(result.errors).toEqual([
+      { row: 2, field: '产品ID', message: '必填字段为空' },
+      { row: 2, field: '周期', message: '"2024Q5"不是有效周期，应为"2024-Q1"格式' },
+      { row: 2, field: '分子式份额', message: '"abc"不是数字' },
+    ]);
+    expect(result.records).toEqual([
+      {
+        rowNumber: 3,
+        values: {
+          productId: 'p2',
+          productName: '络活喜',
+          moleculeFormula: '氨氯地平',
+          period: '2024-Q1',
+          moleculeShare: 10,
+          moleculeInternalShare: 30,
+          competitorShare: 20,
+          deLimitRate: 80,
+        },
+      },
+    ]);
+    expect(result).toMatchObject({ totalRowCount: 2, invalidRowCount: 1 });
+  });
+
+  it('主键重复的行报错并指向首次出现的行', () => {
+    const row = ['p1', '立普妥', '阿托伐他汀', '2024-Q1', '10', '30', '20', '80'];
+    const result = validateImportRows('productPerformance', sheet([row, [...row.slice(0, 3), '2024 Q1', ...row.slice(4)], row]), mapping);
+
+    expect(result.records.map((record) => record.rowNumber)).toEqual([2]);
+    expect(result.errors).toEqual([
+      { row: 3, field: '产品ID+周期', message: '与第2行重复' },
+      { row: 4, field: '产品ID+周期', message: '与第2行重复' },
+    ]);
+  });
+});
@@ -0,0 +1,118 @@
+import { ImportFieldSpec, ImportRowError, ImportTarget } from '../../types/dataset';
+import { ParsedSheet } from './fileParser';
+import { IMPORT_TARGETS } from './importSchemas';
+
+// 字段 -> 列序号，null 表示未映射
+export type ColumnMapping = Record<string, number | null>;
+
+// 通过校验的一行，值已按字段类型转换
+export interface ImportRecord {
+  rowNumber: number;
+  values: Record<string, string | number | undefined>;
+}
+
+export interface ImportValidationResult {
+  records: ImportRecord[];
+  errors: ImportRowError[];
+  totalRowCount: number;
+  invalidRowCount: number;
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[\s_\-（）()%]/g, '');
+
+// 按字段名、中文名和别名自动匹配表头
+export function autoMapColumns(target: ImportTarget, headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  IMPORT_TARGETS[target].fields.forEach((field) => {
+    const candidates = [field.key, field.label, ...(field.aliases ?? [])].map(normalizeHeader);
+    const index = normalized.findIndex((header) => candidates.includes(header));
+    mapping[field.key] = index >= 0 ? index : null;
+  });
+  return mapping;
+}
+
+export function getUnmappedRequiredFields(target: ImportTarget, mapping: ColumnMapping): ImportFieldSpec[] {
+  return IMPORT_TARGETS[target].fields.filter((field) => field.required && mapping[field.key] == null);
+}
+
+// 兼容 "35.2%"、"1,234.5" 等表格常见写法
+function parseNumber(raw: string): number | null {
+  const cleaned = raw.replace(/[,，%\s]/g, '');
+  if (cleaned === '') return null;
+  const value = Number(cleaned);
+  return Number.isFinite(value) ? value : null;
+}
+
+// 统一为 "2024-Q1"，兼容 "2024Q1"、"2024 q1"
+function parsePeriod(raw: string): string | null {
+  const match = /^(\d{4})\s*-?\s*[Qq]([1-4])$/.exec(raw);
+  return match ? `${match[1]}-Q${match[2]}` : null;
+}
+
+function validateCell(field: ImportFieldSpec, raw: string): { value?: string | number; error?: string } {
+  if (raw === '') {
+    return field.required ? { error: '必填字段为空' } : {};
+  }
+  if (field.type === 'string') return { value: raw };
+  if (field.type === 'period') {
+    const period = parsePeriod(raw);
+    return period ? { value: period } : { error: `"${raw}"不是有效周期，应为"2024-Q1"格式` };
+  }
+  const value = parseNumber(raw);
+  if (value === null) return { error: `"${raw}"不是数字` };
+  if (field.min !== undefined && value < field.min) return { error: `${value}小于最小值${field.min}` };
+  if (field.max !== undefined && value > field.max) return { error: `${value}超出最大值${field.max}` };
+  return { value };
+}
+
+// 逐行转换并校验；有错误的行不会写入数据集
+export function validateImportRows(target: ImportTarget, sheet: ParsedSheet, mapping: ColumnMapping): ImportValidationResult {
+  const { fields, keyFields } = IMPORT_TARGETS[target];
+  const errors: ImportRowError[] = [];
+  const records: ImportRecord[] = [];
+  const seenKeys = new Map<string, number>();
+
+  sheet.rows.forEach((row) => {
+    const values: ImportRecord['values'] = {};
+    const rowErrors: ImportRowError[] = [];
+
+    fields.forEach((field) => {
+      const index = mapping[field.key];
+      if (index == null) return;
+      const result = validateCell(field, row.cells[index] ?? '');
+      if (result.error) {
+        rowErrors.push({ row: row.rowNumber, field: field.label, message: result.error });
+      } else {
+        values[field.key] = result.value;
+      }
+    });
+
+    if (rowErrors.length === 0 && keyFields.length > 0) {
+      const key = keyFields.map((k) => values[k]).join('|');
+      const firstRow = seenKeys.get(key);
+      if (firstRow !== undefined) {
+        rowErrors.push({
+          row: row.rowNumber,
+          field: keyFields.map((k) => fields.find((f) => f.key === k)?.label).join('+'),
+          message: `与第${firstRow}行重复`,
+        });
+      } else {
+        seenKeys.set(key, row.rowNumber);
+      }
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+    } else {
+      records.push({ rowNumber: row.rowNumber, values });
+    }
+  });
+
+  return {
+    records,
+    errors,
+    totalRowCount: sheet.rows.length,
+    invalidRowCount: sheet.rows.length - records.length,
+  };
+}
@@ -0,0 +1,227 @@
+import { Dataset, ImportMode, ImportTarget } from '../types/dataset';
+import { Product, ProductMetricSnapshot, ProductProvinceMetricRecord, Province, ProvinceMetricRecord } from '../types';
+import { MarketDataPoint } from '../types/strategy';
+import {
+  mockProductHistory,
+  mockProductProvinceHistory,
+  mockProducts,
+  mockProvinceHistory,
+  mockProvinces,
+} from '../data/mockData';
+import { mockMarketData } from '../data/strategyMockData';
+import { ImportRecord } from './dataImport';
+import { reviveMarketDataPoint, StoredMarketDataPoint } from './repository/shared';
+import { idbGet, idbGetAll, idbPut, STORES } from './storage/indexedDb';
+
+const ACTIVE_DATASET_STORAGE_KEY = 'active-dataset-id';
+
+// 未导入任何数据时使用的内置示例数据
+export const BUILT_IN_DATASET: Dataset = {
+  id: 'dataset-builtin',
+  version: 0,
+  note: '内置示例数据',
+  builtIn: true,
+  createdAt: new Date('2024-04-01T00:00:00'),
+  products: mockProducts,
+  provinces: mockProvinces,
+  productHistory: mockProductHistory,
+  provinceHistory: mockProvinceHistory,
+  productProvinceHistory: mockProductProvinceHistory,
+  marketData: mockMarketData,
+};
+
+export interface DatasetImportInput {
+  target: ImportTarget;
+  mode: ImportMode;
+  fileName: string;
+  records: ImportRecord[];
+  skippedCount: number;
+  note: string;
+}
+
+// 早期版本的数据集没有产品分省数据，大盘数据为 dimension1/dimension2 格式
+function reviveDataset(raw: Dataset): Dataset {
+  return {
+    ...raw,
+    createdAt: new Date(raw.createdAt),
+    productProvinceHistory: raw.productProvinceHistory ?? [],
+    marketData: (raw.marketData as StoredMarketDataPoint[]).map(reviveMarketDataPoint),
+  };
+}
+
+// 版本号降序，内置数据排在最后
+export async function listDatasets(): Promise<Dataset[]> {
+  try {
+    const stored = await idbGetAll<Dataset>(STORES.datasets.name);
+    return [...stored.map(reviveDataset), BUILT_IN_DATASET].sort((a, b) => b.version - a.version);
+  } catch (error) {
+    console.error('Failed to load datasets from IndexedDB:', error);
+    return [BUILT_IN_DATASET];
+  }
+}
+
+export function saveDataset(dataset: Dataset): Promise<void> {
+  return idbPut(STORES.datasets.name, dataset);
+}
+
+export function getActiveDatasetId(): string {
+  return localStorage.getItem(ACTIVE_DATASET_STORAGE_KEY) || BUILT_IN_DATASET.id;
+}
+
+export function setActiveDatasetId(id: string): void {
+  localStorage.setItem(ACTIVE_DATASET_STORAGE_KEY, id);
+}
+
+// 读取当前启用的版本，找不到时回退到内置数据
+export async function loadActiveDataset(): Promise<Dataset> {
+  const id = getActiveDatasetId();
+  if (id === BUILT_IN_DATASET.id) return BUILT_IN_DATASET;
+  try {
+    const stored = await idbGet<Dataset>(STORES.datasets.name, id);
+    return stored ? reviveDataset(stored) : BUILT_IN_DATASET;
+  } catch (error) {
+    console.error('Failed to load active dataset from IndexedDB:', error);
+    return BUILT_IN_DATASET;
+  }
+}
+
+const text = (value: string | number | undefined) => (value === undefined ? undefined : String(value));
+const num = (value: string | number | undefined) => (typeof value === 'number' ? value : undefined);
+
+// 按主键合并：新数据覆盖同键旧数据，保持原有顺序并追加新键
+function upsert<T>(existing: T[], incoming: T[], getKey: (item: T) => string): T[] {
+  const incomingByKey = new Map(incoming.map((item) => [getKey(item), item]));
+  const merged = existing.map((item) => incomingByKey.get(getKey(item)) ?? item);
+  const existingKeys = new Set(existing.map(getKey));
+  return [...merged, ...incoming.filter((item) => !existingKeys.has(getKey(item)))];
+}
+
+function applyProductImport(base: Dataset, records: ImportRecord[], mode: ImportMode): Partial<Dataset> {
+  const existingProducts = new Map(base.products.map((p) => [p.id, p]));
+  const products: Product[] = [];
+  const history: ProductMetricSnapshot[] = records.map(({ values }) => {
+    const id = String(values.productId);
+    products.push({
+      id,
+      name: String(values.productName),
+      moleculeFormula: String(values.moleculeFormula),
+      category: text(values.category) ?? existingProducts.get(id)?.category ?? '未分类',
+    });
+    return {
+      productId: id,
+      period: String(values.period),
+      moleculeShare: Number(values.moleculeShare),
+      moleculeInternalShare: Number(values.moleculeInternalShare),
+      competitorShare: Number(values.competitorShare),
+      deLimitRate: Number(values.deLimitRate),
+    };
+  });
+  const productKey = (p: Product) => p.id;
+  const snapshotKey = (s: ProductMetricSnapshot) => `${s.productId}|${s.period}`;
+  return mode === 'replace'
+    ? { products: upsert([], products, productKey), productHistory: history }
+    : { products: upsert(base.products, products, productKey), productHistory: upsert(base.productHistory, history, snapshotKey) };
+}
+
+function applyProvinceImport(base: Dataset, records: ImportRecord[], mode: ImportMode): Partial<Dataset> {
+  const existingProvinces = new Map(base.provinces.map((p) => [p.id, p]));
+  const provinces: Province[] = [];
+  const history: ProvinceMetricRecord[] = records.map(({ values }) => {
+    const id = String(values.provinceId);
+    provinces.push({
+      id,
+      name: String(values.provinceName),
+      region: text(values.region) ?? existingProvinces.get(id)?.region ?? '未分区',
+    });
+    return {
+      provinceId: id,
+      period: String(values.period),
+      marketShare: Number(values.marketShare),
+      roi: Number(values.roi),
+      nonLiluRatio: Number(values.nonLiluRatio),
+      deLimitRate: Number(values.deLimitRate),
+      penetrationRate: Number(values.penetrationRate),
+    };
+  });
+  const provinceKey = (p: Province) => p.id;
+  const snapshotKey = (s: ProvinceMetricRecord) => `${s.provinceId}|${s.period}`;
+  return mode === 'replace'
+    ? { provinces: upsert([], provinces, provinceKey), provinceHistory: history }
+    : {
+        provinces: upsert(base.provinces, provinces, provinceKey),
+        provinceHistory: upsert(base.provinceHistory, history, snapshotKey),
+      };
+}
+
+// 产品、省份需已在产品表现、省份表现中存在，这里只写入分省指标
+function applyProductProvinceImport(base: Dataset, records: ImportRecord[], mode: ImportMode): Partial<Dataset> {
+  const history: ProductProvinceMetricRecord[] = records.map(({ values }) => ({
+    productId: String(values.productId),
+    provinceId: String(values.provinceId),
+    period: String(values.period),
+    moleculeVolume: Number(values.moleculeVolume),
+    hospitalCount: Number(values.hospitalCount),
+    moleculeInternalShare: Number(values.moleculeInternalShare),
+    deLimitRate: Number(values.deLimitRate),
+    penetrationShare: num(values.penetrationShare),
+    retailRatio: num(values.retailRatio),
+    retailShare: num(values.retailShare),
+  }));
+  const recordKey = (r: ProductProvinceMetricRecord) => `${r.productId}|${r.provinceId}|${r.period}`;
+  return {
+    productProvinceHistory: mode === 'replace' ? history : upsert(base.productProvinceHistory, history, recordKey),
+  };
+}
+
+// 大盘数据没有主键：合并模式下追加
+function applyMarketDataImport(base: Dataset, records: ImportRecord[], mode: ImportMode, version: number): Partial<Dataset> {
+  // 未提供的维度按"未指定"处理，未标注品牌的按默认品牌处理
+  const points: MarketDataPoint[] = records.map(({ values }, index) =>
+    reviveMarketDataPoint({
+      id: `v${version}-${index + 1}`,
+      channel: String(values.channel),
+      department: String(values.department),
+      class: text(values.class),
+      molecule: text(values.molecule),
+      priceBand: text(values.priceBand),
+      province: text(values.province),
+      brand: text(values.brand),
+      period: text(values.period),
+      value: Number(values.value),
+      volume: num(values.volume),
+      huiZhiShare: num(values.huiZhiShare),
+      competitorShare: num(values.competitorShare),
+      growthRate: num(values.growthRate),
+    })
+  );
+  return { marketData: mode === 'replace' ? points : [...base.marketData, ...points] };
+}
+
+// 基于当前版本生成新版本（不修改原数据集）
+export function createDatasetVersion(base: Dataset, nextVersion: number, input: DatasetImportInput): Dataset {
+  const changes =
+    input.target === 'productPerformance'
+      ? applyProductImport(base, input.records, input.mode)
+      : input.target === 'provincePerformance'
+        ? applyProvinceImport(base, input.records, input.mode)
+        : input.target === 'productProvincePerformance'
+          ? applyProductProvinceImport(base, input.records, input.mode)
+          : applyMarketDataImport(base, input.records, input.mode, nextVersion);
+  const now = new Date();
+  return {
+    ...base,
+    ...changes,
+    id: `dataset-${now.getTime()}`,
+    version: nextVersion,
+    note: input.note,
+    builtIn: undefined,
+    createdAt: now,
+    importLog: {
+      target: input.target,
+      mode: input.mode,
+      fileName: input.fileName,
+      rowCount: input.records.length,
+      skippedCount: input.skippedCount,
+    },
+  };
+}
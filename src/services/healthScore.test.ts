@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeHealthScore,
+  DEFAULT_HEALTH_SCORE_CONFIG,
+  getHealthLevel,
+  HealthScoreConfig,
+  HealthScoreTargets,
+  scoreDimension,
+  validateHealthScoreConfig,
+} from './healthScore';
+
+const targets: HealthScoreTargets = { marketShare: 12, roi: 1.8, nonLiluRatio: 45, deLimitRate: 85, penetrationRate: 80 };
+
+const withWeights = (weights: Partial<Record<keyof HealthScoreTargets, number>>): HealthScoreConfig => ({
+  ...DEFAULT_HEALTH_SCORE_CONFIG,
+  dimensions: Object.fromEntries(
+    Object.entries(DEFAULT_HEALTH_SCORE_CONFIG.dimensions).map(([key, dimension]) => [
+      key,
+      { ...dimension, weight: weights[key as keyof HealthScoreTargets] ?? 0 },
+    ])
+  ) as HealthScoreConfig['dimensions'],
+});
+
+describe('scoreDimension', () => {
+  it('低于基准值得0分，达到目标值得满分，中间线性插值', () => {
+    const config = { weight: 1, floor: 40 };
+    expect(scoreDimension(30, config, 80)).toBe(0);
+    expect(scoreDimension(60, config, 80)).toBe(50);
+    expect(scoreDimension(95, config, 80)).toBe(100);
+  });
+
+  it('目标值不高于基准值时按是否达标计分', () => {
+    expect(scoreDimension(50, { weight: 1, floor: 60 }, 50)).toBe(100);
+    expect(scoreDimension(49, { weight: 1, floor: 60 }, 50)).toBe(0);
+  });
+});
+
+describe('computeHealthScore', () => {
+  it('维度权重按总和归一化', () => {
+    const metrics = { marketShare: 12, roi: 0.8, nonLiluRatio: 45, deLimitRate: 85, penetrationRate: 80 };
+    const result = computeHealthScore(metrics, targets, withWeights({ marketShare: 3, roi: 1 }));
+
+    expect(result.dimensions.map((d) => d.weight)).toEqual([0.75, 0.25, 0, 0, 0]);
+    expect(result.score).toBe(75); // 市场份额100分 × 0.75 + ROI 0分 × 0.25
+    expect(computeHealthScore(metrics, targets, withWeights({ marketShare: 30, roi: 10 })).score).toBe(75);
+  });
+
+  it('按评级区间确定等级，区间下限计入该等级', () => {
+    expect(getHealthLevel(85)).toBe('excellent');
+    expect(getHealthLevel(84.9)).toBe('good');
+    expect(getHealthLevel(70)).toBe('good');
+    expect(getHealthLevel(60)).toBe('average');
+    expect(getHealthLevel(59)).toBe('poor');
+
+    const metrics = { marketShare: 6, roi: 1.3, nonLiluRatio: 32.5, deLimitRate: 62.5, penetrationRate: 55 };
+    const result = computeHealthScore(metrics, targets);
+    expect(result.score).toBe(50);
+    expect(result.level).toBe('poor');
+    expect(computeHealthScore(metrics, targets, { ...DEFAULT_HEALTH_SCORE_CONFIG, bands: { excellent: 90, good: 70, average: 50 } }).level).toBe(
+      'average'
+    );
+  });
+});
+
+describe('validateHealthScoreConfig', () => {
+  it('校验权重、基准值和评级区间', () => {
+    expect(validateHealthScoreConfig(DEFAULT_HEALTH_SCORE_CONFIG, targets)).toBeNull();
+    expect(validateHealthScoreConfig(withWeights({}))).toBe('至少需要一个维度的权重大于0');
+    expect(validateHealthScoreConfig(withWeights({ roi: -1, marketShare: 1 }))).toBe('ROI的权重不能为负数');
+    expect(validateHealthScoreConfig(DEFAULT_HEALTH_SCORE_CONFIG, { ...targets, deLimitRate: 40 })).toBe(
+      '解限率的基准值必须低于全国目标值（40）'
+    );
+    expect(
+      validateHealthScoreConfig({ ...DEFAULT_HEALTH_SCORE_CONFIG, bands: { excellent: 70, good: 70, average: 60 } })
+    ).toBe('评级区间需满足 100 ≥ 优秀 > 良好 > 一般 > 0');
+  });
+});
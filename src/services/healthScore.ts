@@ -0,0 +1,123 @@
+import { HealthLevel, HealthScoreDimension, ProvinceBaseMetricKey } from '../types';
+
+// 单个维度的评分规则：低于 floor 得0分，达到目标值得满分，中间线性插值
+export interface HealthScoreDimensionConfig {
+  weight: number; // 相对权重，计算时按总和归一化
+  floor: number;
+}
+
+// 各维度的满分线，取自指标目标值（见 services/targets 的 resolveHealthScoreTargets）
+export type HealthScoreTargets = Record<ProvinceBaseMetricKey, number>;
+
+// 综合得分落入的区间，从高到低判断
+export interface HealthScoreBands {
+  excellent: number;
+  good: number;
+  average: number;
+}
+
+export interface HealthScoreConfig {
+  dimensions: Record<ProvinceBaseMetricKey, HealthScoreDimensionConfig>;
+  bands: HealthScoreBands;
+}
+
+export interface HealthScoreResult {
+  score: number;
+  level: HealthLevel;
+  dimensions: HealthScoreDimension[];
+}
+
+export const HEALTH_SCORE_DIMENSION_KEYS: ProvinceBaseMetricKey[] = [
+  'marketShare',
+  'roi',
+  'nonLiluRatio',
+  'deLimitRate',
+  'penetrationRate',
+];
+
+export const HEALTH_SCORE_DIMENSION_LABELS: Record<ProvinceBaseMetricKey, string> = {
+  marketShare: '市场份额',
+  roi: 'ROI',
+  nonLiluRatio: '非立络占比',
+  deLimitRate: '解限率',
+  penetrationRate: '渗透率',
+};
+
+export const HEALTH_LEVEL_LABELS: Record<HealthLevel, string> = {
+  excellent: '优秀',
+  good: '良好',
+  average: '一般',
+  poor: '较差',
+};
+
+export const DEFAULT_HEALTH_SCORE_CONFIG: HealthScoreConfig = {
+  dimensions: {
+    marketShare: { weight: 25, floor: 0 },
+    roi: { weight: 20, floor: 0.8 },
+    nonLiluRatio: { weight: 15, floor: 20 },
+    deLimitRate: { weight: 20, floor: 40 },
+    penetrationRate: { weight: 20, floor: 30 },
+  },
+  bands: { excellent: 85, good: 70, average: 60 },
+};
+
+export function getHealthLevel(score: number, bands: HealthScoreBands = DEFAULT_HEALTH_SCORE_CONFIG.bands): HealthLevel {
+  if (score >= bands.excellent) return 'excellent';
+  if (score >= bands.good) return 'good';
+  if (score >= bands.average) return 'average';
+  return 'poor';
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export function scoreDimension(value: number, { floor }: HealthScoreDimensionConfig, target: number): number {
+  if (target <= floor) return value >= target ? 100 : 0;
+  return clamp(((value - floor) / (target - floor)) * 100, 0, 100);
+}
+
+// 配置无效时返回错误信息（用于设置页面校验），有效时返回 null；targets 为各维度的全国目标值
+export function validateHealthScoreConfig(
+  config: HealthScoreConfig,
+  targets: Partial<HealthScoreTargets> = {}
+): string | null {
+  for (const key of HEALTH_SCORE_DIMENSION_KEYS) {
+    const { weight, floor } = config.dimensions[key];
+    const target = targets[key];
+    const label = HEALTH_SCORE_DIMENSION_LABELS[key];
+    if (![weight, floor].every(Number.isFinite)) return `${label}的配置必须为数字`;
+    if (weight < 0) return `${label}的权重不能为负数`;
+    if (target !== undefined && target <= floor) return `${label}的基准值必须低于全国目标值（${target}）`;
+  }
+  const totalWeight = HEALTH_SCORE_DIMENSION_KEYS.reduce((sum, key) => sum + config.dimensions[key].weight, 0);
+  if (totalWeight <= 0) return '至少需要一个维度的权重大于0';
+  const { excellent, good, average } = config.bands;
+  if (![excellent, good, average].every(Number.isFinite)) return '评级区间必须为数字';
+  if (!(excellent > good && good > average && average > 0 && excellent <= 100)) {
+    return '评级区间需满足 100 ≥ 优秀 > 良好 > 一般 > 0';
+  }
+  return null;
+}
+
+// 按维度得分加权平均，综合得分保留整数，维度得分保留一位小数
+export function computeHealthScore(
+  metrics: Record<ProvinceBaseMetricKey, number>,
+  targets: HealthScoreTargets,
+  config: HealthScoreConfig = DEFAULT_HEALTH_SCORE_CONFIG
+): HealthScoreResult {
+  const totalWeight = HEALTH_SCORE_DIMENSION_KEYS.reduce((sum, key) => sum + config.dimensions[key].weight, 0);
+  const dimensions = HEALTH_SCORE_DIMENSION_KEYS.map((key): HealthScoreDimension => {
+    const dimension = config.dimensions[key];
+    const score = Math.round(scoreDimension(metrics[key], dimension, targets[key]) * 10) / 10;
+    return {
+      key,
+      name: HEALTH_SCORE_DIMENSION_LABELS[key],
+      weight: totalWeight > 0 ? dimension.weight / totalWeight : 0,
+      value: metrics[key],
+      target: targets[key],
+      score,
+      status: getHealthLevel(score, config.bands),
+    };
+  });
+  const score = Math.round(dimensions.reduce((sum, d) => sum + d.score * d.weight, 0));
+  return { score, level: getHealthLevel(score, config.bands), dimensions };
+}
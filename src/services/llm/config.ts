@@ -0,0 +1,76 @@
+import { LLMFeature, LLMFeatureConfig, LLMProviderType } from './types';
+
+const PROVIDER_TYPES: LLMProviderType[] = ['deepseek', 'openai-compatible', 'mock'];
+
+// 默认配置：与原先硬编码的参数一致
+const BASE_CONFIG: LLMFeatureConfig = {
+  provider: 'deepseek',
+  model: 'deepseek-chat',
+  temperature: 0.7,
+  maxTokens: 2000,
+};
+
+// 各功能的内置默认值，可被环境变量覆盖
+const FEATURE_DEFAULTS: Record<LLMFeature, Partial<LLMFeatureConfig>> = {
+  productDiagnosis: {},
+  provinceDiagnosis: {},
+  chat: {},
+  chatSummary: { temperature: 0.3, maxTokens: 800 },
+  opportunityAnalysis: {},
+};
+
+function parseProvider(value: unknown): LLMProviderType | undefined {
+  return PROVIDER_TYPES.includes(value as LLMProviderType) ? (value as LLMProviderType) : undefined;
+}
+
+function pickConfig(source: Record<string, unknown>): Partial<LLMFeatureConfig> {
+  const config: Partial<LLMFeatureConfig> = {};
+  const provider = parseProvider(source.provider);
+  if (provider) config.provider = provider;
+  if (typeof source.model === 'string' && source.model) config.model = source.model;
+  if (typeof source.temperature === 'number') config.temperature = source.temperature;
+  if (typeof source.maxTokens === 'number') config.maxTokens = source.maxTokens;
+  if (typeof source.baseUrl === 'string' && source.baseUrl) config.baseUrl = source.baseUrl;
+  return config;
+}
+
+// 全局环境变量：VITE_LLM_PROVIDER / VITE_LLM_MODEL / VITE_LLM_BASE_URL
+function readGlobalOverrides(): Partial<LLMFeatureConfig> {
+  return pickConfig({
+    provider: import.meta.env.VITE_LLM_PROVIDER,
+    model: import.meta.env.VITE_LLM_MODEL,
+    baseUrl: import.meta.env.VITE_LLM_BASE_URL,
+  });
+}
+
+// 按功能覆盖：VITE_LLM_FEATURE_CONFIG='{"chat":{"model":"qwen2.5","temperature":0.3}}'
+function readFeatureOverrides(): Partial<Record<LLMFeature, Partial<LLMFeatureConfig>>> {
+  const raw = import.meta.env.VITE_LLM_FEATURE_CONFIG;
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    const overrides: Partial<Record<LLMFeature, Partial<LLMFeatureConfig>>> = {};
+    (Object.keys(FEATURE_DEFAULTS) as LLMFeature[]).forEach((feature) => {
+      const value = parsed[feature];
+      if (typeof value === 'object' && value !== null) {
+        overrides[feature] = pickConfig(value as Record<string, unknown>);
+      }
+    });
+    return overrides;
+  } catch (error) {
+    console.error('Invalid VITE_LLM_FEATURE_CONFIG:', error);
+    return {};
+  }
+}
+
+const globalOverrides = readGlobalOverrides();
+const featureOverrides = readFeatureOverrides();
+
+export function getLLMFeatureConfig(feature: LLMFeature): LLMFeatureConfig {
+  return {
+    ...BASE_CONFIG,
+    ...FEATURE_DEFAULTS[feature],
+    ...globalOverrides,
+    ...featureOverrides[feature],
+  };
+}
@@ -0,0 +1,12 @@
+import { getClientUserId, LLM_PROXY_URL } from '../llmProxyClient';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { LLMProvider } from './types';
+
+// DeepSeek 经由服务端代理访问，API Key 只保存在服务端
+export function createDeepSeekProvider(): LLMProvider {
+  return createOpenAICompatibleProvider({
+    type: 'deepseek',
+    endpoint: LLM_PROXY_URL,
+    headers: () => ({ 'X-User-Id': getClientUserId() }),
+  });
+}
@@ -0,0 +1,14 @@
+// 非2xx响应（fetch流式请求使用；axios请求沿用 AxiosError）
+export class LLMHttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code?: string
+  ) {
+    super(`LLM request failed with status ${status}${code ? ` (${code})` : ''}`);
+    this.name = 'LLMHttpError';
+  }
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
@@ -0,0 +1,129 @@
+import { isLLMNotConfigured } from '../llmProxyClient';
+import { getLLMFeatureConfig } from './config';
+import { createDeepSeekProvider } from './deepseekProvider';
+import { isAbortError } from './errors';
+import { createMockProvider, streamMockText, toMockCompletion } from './mockProvider';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import {
+  LLMFeature,
+  LLMFeatureConfig,
+  LLMMessage,
+  LLMProvider,
+  LLMRequestParams,
+  LLMStreamOptions,
+  LLMToolCall,
+  MockResponder,
+} from './types';
+
+export type {
+  LLMCompletion,
+  LLMFeature,
+  LLMMessage,
+  LLMProvider,
+  LLMRequestParams,
+  LLMStreamOptions,
+  LLMToolCall,
+  LLMToolDefinition,
+  MockResponder,
+} from './types';
+export { getLLMFeatureConfig } from './config';
+
+function createProvider(config: LLMFeatureConfig, mockResponder: MockResponder): LLMProvider {
+  switch (config.provider) {
+    case 'openai-compatible':
+      if (!config.baseUrl) {
+        console.error('openai-compatible provider requires VITE_LLM_BASE_URL, falling back to mock');
+        return createMockProvider(mockResponder);
+      }
+      return createOpenAICompatibleProvider({ endpoint: config.baseUrl });
+    case 'mock':
+      return createMockProvider(mockResponder);
+    case 'deepseek':
+    default:
+      return createDeepSeekProvider();
+  }
+}
+
+export interface LLMStreamResult {
+  content: string;
+  toolCalls: LLMToolCall[];
+  aborted: boolean; // 用户中止时 content 为已收到的部分文本
+}
+
+export interface LLMClient {
+  readonly config: LLMFeatureConfig;
+  complete(messages: LLMMessage[], overrides?: Partial<LLMRequestParams>): Promise<string>;
+  stream(
+    messages: LLMMessage[],
+    options: LLMStreamOptions,
+    overrides?: Partial<LLMRequestParams>
+  ): Promise<LLMStreamResult>;
+}
+
+// 按功能获取LLM客户端：请求失败时回退到该功能的模拟响应
+export function getLLMClient(feature: LLMFeature, mockResponder: MockResponder): LLMClient {
+  const config = getLLMFeatureConfig(feature);
+  const provider = createProvider(config, mockResponder);
+
+  const buildParams = (overrides: Partial<LLMRequestParams>): LLMRequestParams => ({
+    model: config.model,
+    temperature: config.temperature,
+    maxTokens: config.maxTokens,
+    ...overrides,
+  });
+
+  const logFailure = (error: unknown) => {
+    // 服务端未配置API Key时静默使用模拟数据
+    if (!isLLMNotConfigured(error)) {
+      console.error(`LLM request failed (${feature}, ${provider.type}):`, error);
+    }
+  };
+
+  return {
+    config,
+
+    async complete(messages, overrides = {}) {
+      try {
+        return await provider.complete(messages, buildParams(overrides));
+      } catch (error) {
+        logFailure(error);
+        return toMockCompletion(mockResponder(messages)).content;
+      }
+    },
+
+    async stream(messages, options, overrides = {}) {
+      let received = '';
+      const trackedOptions: LLMStreamOptions = {
+        signal: options.signal,
+        onToken: (delta) => {
+          received += delta;
+          options.onToken(delta);
+        },
+      };
+
+      try {
+        const { content, toolCalls } = await provider.stream(messages, buildParams(overrides), trackedOptions);
+        return { content, toolCalls, aborted: false };
+      } catch (error) {
+        if (isAbortError(error)) {
+          return { content: received, toolCalls: [], aborted: true };
+        }
+        logFailure(error);
+        // 已输出部分内容时不再拼接模拟响应，避免前后文不一致
+        if (received) {
+          return { content: received, toolCalls: [], aborted: false };
+        }
+        try {
+          const mock = toMockCompletion(mockResponder(messages));
+          const content = await streamMockText(mock.content, trackedOptions);
+          return { content, toolCalls: mock.toolCalls, aborted: false };
+        } catch (mockError) {
+          if (isAbortError(mockError)) {
+            return { content: received, toolCalls: [], aborted: true };
+          }
+          throw mockError;
+        }
+      }
+    },
+  };
+}
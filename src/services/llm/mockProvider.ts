@@ -0,0 +1,51 @@
+import { LLMCompletion, LLMMessage, LLMProvider, LLMStreamOptions, MockResponder } from './types';
+
+const MOCK_CHUNK_SIZE = 3;
+const MOCK_CHUNK_INTERVAL_MS = 30;
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// 按固定节奏切块输出模拟响应，便于离线体验和测试流式渲染
+export async function streamMockText(text: string, options: LLMStreamOptions): Promise<string> {
+  for (let i = 0; i < text.length; i += MOCK_CHUNK_SIZE) {
+    await wait(MOCK_CHUNK_INTERVAL_MS, options.signal);
+    options.onToken(text.slice(i, i + MOCK_CHUNK_SIZE));
+  }
+  return text;
+}
+
+// 统一模拟响应的返回格式
+export function toMockCompletion(result: ReturnType<MockResponder>): LLMCompletion {
+  return typeof result === 'string' ? { content: result, toolCalls: [] } : result;
+}
+
+// 本地模拟提供方，用于离线演示和无API Key的环境
+export function createMockProvider(responder: MockResponder): LLMProvider {
+  return {
+    type: 'mock',
+    async complete(messages: LLMMessage[]): Promise<string> {
+      return toMockCompletion(responder(messages)).content;
+    },
+    async stream(messages: LLMMessage[], _params, options: LLMStreamOptions): Promise<LLMCompletion> {
+      const completion = toMockCompletion(responder(messages));
+      await streamMockText(completion.content, options);
+      return completion;
+    },
+  };
+}
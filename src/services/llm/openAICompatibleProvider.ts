@@ -0,0 +1,123 @@
+import axios from 'axios';
+import { LLMHttpError } from './errors';
+import { readSSEStream } from './sse';
+import {
+  LLMCompletion,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderType,
+  LLMRequestParams,
+  LLMStreamOptions,
+  LLMToolCall,
+} from './types';
+
+interface OpenAICompatibleOptions {
+  endpoint: string; // 完整的 chat completions 地址
+  headers?: () => Record<string, string>;
+  type?: LLMProviderType;
+}
+
+// 转换为 OpenAI 协议的消息格式（函数调用使用 tool_calls / tool_call_id）
+function toWireMessage(message: LLMMessage) {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.toolCalls && message.toolCalls.length > 0) {
+    return {
+      role: message.role,
+      content: message.content || null,
+      tool_calls: message.toolCalls.map((call) => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+function buildRequestBody(messages: LLMMessage[], params: LLMRequestParams, stream: boolean) {
+  return {
+    model: params.model,
+    messages: messages.map(toWireMessage),
+    temperature: params.temperature,
+    max_tokens: params.maxTokens,
+    ...(params.responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {}),
+    ...(params.tools && params.tools.length > 0
+      ? { tools: params.tools.map((tool) => ({ type: 'function', function: tool })) }
+      : {}),
+    ...(stream ? { stream: true } : {}),
+  };
+}
+
+interface ToolCallDelta {
+  index: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+// 流式响应中的函数调用按 index 分块下发，需要逐块拼接
+function mergeToolCallDeltas(toolCalls: LLMToolCall[], deltas: ToolCallDelta[]) {
+  deltas.forEach((delta) => {
+    const call = toolCalls[delta.index] ?? (toolCalls[delta.index] = { id: '', name: '', arguments: '' });
+    if (delta.id) call.id = delta.id;
+    if (delta.function?.name) call.name += delta.function.name;
+    if (delta.function?.arguments) call.arguments += delta.function.arguments;
+  });
+}
+
+// 适用于 DeepSeek、Ollama、vLLM 等兼容 OpenAI chat completions 协议的接口
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): LLMProvider {
+  const buildHeaders = () => ({
+    'Content-Type': 'application/json',
+    ...options.headers?.(),
+  });
+
+  return {
+    type: options.type ?? 'openai-compatible',
+
+    async complete(messages: LLMMessage[], params: LLMRequestParams): Promise<string> {
+      const response = await axios.post(options.endpoint, buildRequestBody(messages, params, false), {
+        headers: buildHeaders(),
+      });
+      return response.data.choices[0]?.message?.content || '';
+    },
+
+    // axios 在浏览器中无法逐块读取响应，流式请求改用 fetch
+    async stream(
+      messages: LLMMessage[],
+      params: LLMRequestParams,
+      streamOptions: LLMStreamOptions
+    ): Promise<LLMCompletion> {
+      const response = await fetch(options.endpoint, {
+        method: 'POST',
+        headers: buildHeaders(),
+        body: JSON.stringify(buildRequestBody(messages, params, true)),
+        signal: streamOptions.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        const errorBody = await response.json().catch(() => null);
+        throw new LLMHttpError(response.status, errorBody?.error?.code);
+      }
+
+      let content = '';
+      const toolCalls: LLMToolCall[] = [];
+      await readSSEStream(response.body, (data) => {
+        try {
+          const delta = JSON.parse(data).choices?.[0]?.delta;
+          if (typeof delta?.content === 'string' && delta.content) {
+            content += delta.content;
+            streamOptions.onToken(delta.content);
+          }
+          if (Array.isArray(delta?.tool_calls)) {
+            mergeToolCallDeltas(toolCalls, delta.tool_calls);
+          }
+        } catch (error) {
+          console.warn('Skipping malformed SSE chunk:', error);
+        }
+      });
+      return { content, toolCalls: toolCalls.filter((call) => call && call.name) };
+    },
+  };
+}
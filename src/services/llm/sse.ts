@@ -0,0 +1,40 @@
+// 解析 OpenAI 兼容接口的SSE流：逐行读取 "data: {...}"，遇到 "data: [DONE]" 结束
+export async function readSSEStream(
+  body: ReadableStream<Uint8Array>,
+  onData: (data: string) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const flushLines = (final: boolean): boolean => {
+    const lines = buffer.split(/\r?\n/);
+    buffer = final ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+      const data = trimmed.slice(5).trim();
+      if (data === '[DONE]') return true;
+      if (data) onData(data);
+    }
+    return false;
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        buffer += decoder.decode();
+        flushLines(true);
+        return;
+      }
+      buffer += decoder.decode(value, { stream: true });
+      if (flushLines(false)) {
+        await reader.cancel();
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,66 @@
+// LLM提供方抽象：DeepSeek（经服务端代理）、任意OpenAI兼容接口、本地模拟
+
+export type LLMProviderType = 'deepseek' | 'openai-compatible' | 'mock';
+
+// 可单独配置模型和参数的业务功能
+export type LLMFeature = 'productDiagnosis' | 'provinceDiagnosis' | 'chat' | 'chatSummary' | 'opportunityAnalysis';
+
+// 模型发起的函数调用，arguments 为 JSON 字符串
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+// 提供给模型的函数定义，parameters 为 JSON Schema
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  toolCalls?: LLMToolCall[]; // assistant 消息发起的函数调用
+  toolCallId?: string; // tool 消息对应的调用
+}
+
+// 一次生成的结果：文本和（可选的）函数调用
+export interface LLMCompletion {
+  content: string;
+  toolCalls: LLMToolCall[];
+}
+
+export interface LLMRequestParams {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  responseFormat?: 'text' | 'json';
+  tools?: LLMToolDefinition[];
+}
+
+export interface LLMStreamOptions {
+  onToken: (delta: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  readonly type: LLMProviderType;
+  complete(messages: LLMMessage[], params: LLMRequestParams): Promise<string>;
+  // 逐token回调，返回完整文本和函数调用；中止时抛出 AbortError
+  stream(messages: LLMMessage[], params: LLMRequestParams, options: LLMStreamOptions): Promise<LLMCompletion>;
+}
+
+// 单个功能的LLM配置
+export interface LLMFeatureConfig {
+  provider: LLMProviderType;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  // openai-compatible 使用的接口地址，如本地 Ollama/vLLM
+  baseUrl?: string;
+}
+
+// 模拟响应生成函数，由各业务服务提供；支持工具的功能可返回函数调用
+export type MockResponder = (messages: LLMMessage[]) => string | LLMCompletion;
@@ -0,0 +1,33 @@
+import axios from 'axios';
+import { LLMHttpError } from './llm/errors';
+
+// 前端只访问自己的后端代理，API Key保存在服务端
+export const LLM_PROXY_URL = import.meta.env.VITE_LLM_PROXY_URL || '/api/llm/chat';
+
+const USER_ID_STORAGE_KEY = 'llm-client-user-id';
+
+// 匿名用户标识，随请求发送供服务端参考；浏览器可任意更换，服务端按客户端IP限流
+export function getClientUserId(): string {
+  try {
+    let userId = localStorage.getItem(USER_ID_STORAGE_KEY);
+    if (!userId) {
+      userId = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+      localStorage.setItem(USER_ID_STORAGE_KEY, userId);
+    }
+    return userId;
+  } catch {
+    return 'anonymous';
+  }
+}
+
+// 代理未配置上游Key时返回 503 LLM_NOT_CONFIGURED，调用方据此回退到模拟数据
+export function isLLMNotConfigured(error: unknown): boolean {
+  if (error instanceof LLMHttpError) {
+    return error.status === 503 && error.code === 'LLM_NOT_CONFIGURED';
+  }
+  return axios.isAxiosError(error)
+    && error.response?.status === 503
+    && error.response.data?.error?.code === 'LLM_NOT_CONFIGURED';
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { MarketDataPoint } from '../types/strategy';
+import { compareMarketPeriods, filterMarketFacts, filterMarketPeriod, pivotMarketData } from './marketSegments';
+
+let nextId = 0;
+const point = (overrides: Partial<MarketDataPoint>): MarketDataPoint => ({
+  id: `m${nextId++}`,
+  class: '降脂',
+  molecule: '阿托伐他汀',
+  department: '心内科',
+  priceBand: '高',
+  brand: '立普妥',
+  channel: '医院',
+  province: '上海',
+  period: '2024-Q1',
+  value: 100,
+  ...overrides,
+});
+
+const data: MarketDataPoint[] = [
+  point({ channel: '医院', province: '上海', value: 300, huiZhiShare: 40, competitorShare: 30, growthRate: 10 }),
+  point({ channel: '医院', province: '北京', value: 100, huiZhiShare: 20, competitorShare: 50, growthRate: 2 }),
+  point({ channel: '零售', province: '上海', value: 50, huiZhiShare: 10, competitorShare: 10 }),
+  point({ channel: '零售', province: '上海', value: 50, huiZhiShare: 30, competitorShare: 30, growthRate: 6 }),
+  point({ channel: '医院', province: '上海', value: 200, huiZhiShare: 30, competitorShare: 40, period: '2023-Q4' }),
+  point({ channel: '零售', province: '广州', value: 80, huiZhiShare: 50, competitorShare: 10, period: '2023-Q4' }),
+];
+
+const current = filterMarketPeriod(data, '2024-Q1');
+
+describe('filterMarketFacts', () => {
+  it('同一维度内为"或"，不同维度之间为"且"，空数组不筛选', () => {
+    expect(filterMarketFacts(current, { province: ['上海', '北京'] })).toHaveLength(4);
+    expect(filterMarketFacts(current, { province: ['上海', '北京'], channel: ['零售'] })).toHaveLength(2);
+    expect(filterMarketFacts(current, { province: [], channel: ['医院'] })).toHaveLength(2);
+    expect(filterMarketFacts(current, { province: ['深圳'] })).toHaveLength(0);
+  });
+});
+
+describe('pivotMarketData', () => {
+  const columns = pivotMarketData(current, { xAxis: 'channel', yAxis: 'province' });
+
+  it('按横轴分列、纵轴分格，列和单元格的市场规模为各数据点之和，按规模降序', () => {
+    expect(columns.map((column) => [column.xValue, column.value])).toEqual([
+      ['医院', 400],
+      ['零售', 100],
+    ]);
+    expect(columns[0].cells.map((cell) => [cell.yValue, cell.value])).toEqual([
+      ['上海', 300],
+      ['北京', 100],
+    ]);
+    expect(columns[1].cells).toHaveLength(1);
+  });
+
+  it('晖致份额和竞品份额按市场规模加权', () => {
+    const [hospital, retail] = columns;
+    expect(hospital.huiZhiShare).toBeCloseTo(35); // (300×40 + 100×20) / 400
+    expect(hospital.competitorShare).toBeCloseTo(35); // (300×30 + 100×50) / 400
+    expect(hospital.otherShare).toBeCloseTo(30);
+    expect(retail.cells[0].huiZhiShare).toBeCloseTo(20);
+    expect(retail.cells[0].competitorShare).toBeCloseTo(20);
+  });
+
+  it('增长率只按有增长率的数据点加权', () => {
+    expect(columns[0].growthRate).toBeCloseTo(8); // (300×10 + 100×2) / 400
+    expect(columns[1].growthRate).toBeCloseTo(6);
+  });
+
+  it('先按筛选条件过滤再汇总', () => {
+    const filtered = pivotMarketData(current, { xAxis: 'channel', yAxis: 'province' }, { province: ['北京'] });
+    expect(filtered).toMatchObject([{ xValue: '医院', value: 100, huiZhiShare: 20 }]);
+  });
+});
+
+describe('compareMarketPeriods', () => {
+  it('按相同的横轴、纵轴取值匹配对比周期，对比周期没有的细分市场不填变化', () => {
+    const axes = { xAxis: 'channel', yAxis: 'province' } as const;
+    const compared = compareMarketPeriods(
+      pivotMarketData(current, axes),
+      pivotMarketData(filterMarketPeriod(data, '2023-Q4'), axes)
+    );
+    const [hospital, retail] = compared;
+
+    expect(hospital.huiZhiShareChange).toBeCloseTo(5); // 35 − 30
+    expect(hospital.cells.find((cell) => cell.yValue === '上海')?.huiZhiShareChange).toBeCloseTo(10);
+    expect(hospital.cells.find((cell) => cell.yValue === '北京')?.huiZhiShareChange).toBeUndefined();
+    expect(retail.huiZhiShareChange).toBeCloseTo(-30); // 20 − 50
+    expect(retail.cells[0].huiZhiShareChange).toBeUndefined(); // 上期零售只有广州
+  });
+});
@@ -0,0 +1,206 @@
+import { MarketDimension, MarketDataPoint, MarketFilters, MekkoConfig } from '../types/strategy';
+
+export const MARKET_DIMENSIONS: MarketDimension[] = [
+  'channel',
+  'department',
+  'province',
+  'class',
+  'molecule',
+  'priceBand',
+  'brand',
+];
+
+export const MARKET_DIMENSION_LABELS: Record<MarketDimension, string> = {
+  class: '类别',
+  molecule: '分子式',
+  department: '治疗科室',
+  priceBand: '价格带',
+  brand: '品牌',
+  channel: '渠道',
+  province: '省份',
+};
+
+export const MEKKO_METRIC_LABELS: Record<MekkoConfig['metric'], string> = {
+  share: '市场份额',
+  sales: '销售额',
+  growth: '增长率',
+  shareChange: '份额变化',
+};
+
+// 细分市场汇总（Mekko看板和AI助手共用）
+export interface MarketSegmentSummary {
+  segment: string;
+  totalShare: number;
+  huiZhiShare: number;
+  competitorShare: number;
+  otherShare: number;
+}
+
+// 一组数据点的汇总，份额为组内占比（%）
+export interface MarketAggregate {
+  value: number; // 市场规模
+  volume?: number; // 销量，数据点均无销量时为 undefined
+  huiZhiShare: number;
+  competitorShare: number;
+  otherShare: number;
+  growthRate?: number; // 按市场规模加权，数据点均无增长率时为 undefined
+  huiZhiShareChange?: number; // 晖致份额较对比周期的变化（百分点），由 compareMarketPeriods 填入
+}
+
+// 透视表单元格：横轴取值 × 纵轴取值
+export interface MarketPivotCell extends MarketAggregate {
+  xValue: string;
+  yValue: string;
+}
+
+// 透视表的列：横轴取值的汇总及其下各单元格（按市场规模降序）
+export interface MarketPivotColumn extends MarketAggregate {
+  xValue: string;
+  cells: MarketPivotCell[];
+}
+
+export function getDimensionValue(point: MarketDataPoint, dimension: MarketDimension): string {
+  return point[dimension];
+}
+
+// 按维度筛选，空数组视为不筛选
+export function filterMarketFacts(data: MarketDataPoint[], filters: MarketFilters = {}): MarketDataPoint[] {
+  const active = MARKET_DIMENSIONS.flatMap((dimension) => {
+    const values = filters[dimension];
+    return values && values.length > 0 ? [{ dimension, values: new Set(values) }] : [];
+  });
+  if (active.length === 0) return data;
+  return data.filter((point) => active.every(({ dimension, values }) => values.has(getDimensionValue(point, dimension))));
+}
+
+// 数据中出现的统计周期，升序；未标注周期的数据点不计入
+export function listMarketPeriods(data: MarketDataPoint[]): string[] {
+  return Array.from(new Set(data.flatMap((point) => (point.period ? [point.period] : [])))).sort();
+}
+
+// 按统计周期筛选；未指定周期（数据未标注周期）时不筛选
+export function filterMarketPeriod(data: MarketDataPoint[], period: string | undefined): MarketDataPoint[] {
+  return period === undefined ? data : data.filter((point) => point.period === period);
+}
+
+// 维度在数据中出现的取值，按市场规模降序（用于筛选项和图例）
+export function listDimensionValues(data: MarketDataPoint[], dimension: MarketDimension): string[] {
+  const sizes = new Map<string, number>();
+  data.forEach((point) => {
+    const value = getDimensionValue(point, dimension);
+    sizes.set(value, (sizes.get(value) ?? 0) + point.value);
+  });
+  return Array.from(sizes.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([value]) => value);
+}
+
+interface MarketAccumulator {
+  value: number;
+  volume?: number;
+  huiZhi: number;
+  competitor: number;
+  growthWeight: number;
+  growthSum: number;
+}
+
+const emptyAccumulator = (): MarketAccumulator => ({ value: 0, huiZhi: 0, competitor: 0, growthWeight: 0, growthSum: 0 });
+
+function accumulate(target: MarketAccumulator, point: MarketDataPoint) {
+  target.value += point.value;
+  if (point.volume !== undefined) target.volume = (target.volume ?? 0) + point.volume;
+  target.huiZhi += ((point.huiZhiShare || 0) * point.value) / 100;
+  target.competitor += ((point.competitorShare || 0) * point.value) / 100;
+  if (point.growthRate !== undefined) {
+    target.growthWeight += point.value;
+    target.growthSum += point.growthRate * point.value;
+  }
+}
+
+function toAggregate({ value, volume, huiZhi, competitor, growthWeight, growthSum }: MarketAccumulator): MarketAggregate {
+  const percent = (amount: number) => (value > 0 ? (amount / value) * 100 : 0);
+  return {
+    value,
+    volume,
+    huiZhiShare: percent(huiZhi),
+    competitorShare: percent(competitor),
+    otherShare: Math.max(0, 100 - percent(huiZhi) - percent(competitor)),
+    growthRate: growthWeight > 0 ? growthSum / growthWeight : undefined,
+  };
+}
+
+// 汇总一组数据点（份额按市场规模加权）
+export function aggregateMarket(data: MarketDataPoint[]): MarketAggregate {
+  const total = emptyAccumulator();
+  data.forEach((point) => accumulate(total, point));
+  return toAggregate(total);
+}
+
+// 透视：先按筛选条件过滤，再按横轴分列、纵轴分格汇总，列和单元格均按市场规模降序
+export function pivotMarketData(
+  data: MarketDataPoint[],
+  axes: Pick<MekkoConfig, 'xAxis' | 'yAxis'>,
+  filters: MarketFilters = {}
+): MarketPivotColumn[] {
+  const columns = new Map<string, { total: MarketAccumulator; cells: Map<string, MarketAccumulator> }>();
+  filterMarketFacts(data, filters).forEach((point) => {
+    const xValue = getDimensionValue(point, axes.xAxis);
+    const yValue = getDimensionValue(point, axes.yAxis);
+    if (!columns.has(xValue)) columns.set(xValue, { total: emptyAccumulator(), cells: new Map() });
+    const column = columns.get(xValue)!;
+    if (!column.cells.has(yValue)) column.cells.set(yValue, emptyAccumulator());
+    accumulate(column.total, point);
+    accumulate(column.cells.get(yValue)!, point);
+  });
+
+  return Array.from(columns.entries())
+    .map(([xValue, column]) => ({
+      xValue,
+      ...toAggregate(column.total),
+      cells: Array.from(column.cells.entries())
+        .map(([yValue, cell]) => ({ xValue, yValue, ...toAggregate(cell) }))
+        .filter((cell) => cell.value > 0)
+        .sort((a, b) => b.value - a.value),
+    }))
+    .filter((column) => column.value > 0)
+    .sort((a, b) => b.value - a.value);
+}
+
+// 对比两期透视结果：为本期的列和单元格填入晖致份额较对比周期的变化，对比周期没有的细分市场不填
+export function compareMarketPeriods(
+  current: MarketPivotColumn[],
+  previous: MarketPivotColumn[]
+): MarketPivotColumn[] {
+  const previousColumns = new Map(previous.map((column) => [column.xValue, column]));
+  return current.map((column) => {
+    const base = previousColumns.get(column.xValue);
+    const baseCells = new Map(base?.cells.map((cell) => [cell.yValue, cell]));
+    return {
+      ...column,
+      huiZhiShareChange: base ? column.huiZhiShare - base.huiZhiShare : undefined,
+      cells: column.cells.map((cell) => {
+        const baseCell = baseCells.get(cell.yValue);
+        return { ...cell, huiZhiShareChange: baseCell ? cell.huiZhiShare - baseCell.huiZhiShare : undefined };
+      }),
+    };
+  });
+}
+
+// 按横轴×纵轴分组汇总份额，按市场规模降序；晖致/竞品/其他份额为按市场规模折算的绝对量
+export function aggregateMarketSegments(
+  data: MarketDataPoint[],
+  axes: Pick<MekkoConfig, 'xAxis' | 'yAxis'>,
+  filters: MarketFilters = {}
+): MarketSegmentSummary[] {
+  // 品牌已在 DataRepository.getMarketData 中筛选
+  return pivotMarketData(data, axes, filters)
+    .flatMap((column) => column.cells)
+    .map((cell) => ({
+      segment: `${cell.xValue} × ${cell.yValue}`,
+      totalShare: cell.value,
+      huiZhiShare: (cell.huiZhiShare * cell.value) / 100,
+      competitorShare: (cell.competitorShare * cell.value) / 100,
+      otherShare: (cell.otherShare * cell.value) / 100,
+    }))
+    .sort((a, b) => b.totalShare - a.totalShare);
+}
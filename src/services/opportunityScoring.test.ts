@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { MarketPivotCell, MarketPivotColumn } from './marketSegments';
+import { buildOpportunityDraft, OpportunityScoreWeights, scoreOpportunities } from './opportunityScoring';
+
+const cell = (xValue: string, yValue: string, value: number, huiZhiShare: number, competitorShare: number, growthRate?: number): MarketPivotCell => ({
+  xValue,
+  yValue,
+  value,
+  huiZhiShare,
+  competitorShare,
+  otherShare: 100 - huiZhiShare - competitorShare,
+  growthRate,
+});
+
+// 按横轴分列（列汇总对评分没有影响，这里只保留单元格）
+const columns = (cells: MarketPivotCell[]): MarketPivotColumn[] =>
+  Array.from(new Set(cells.map((c) => c.xValue))).map((xValue) => ({
+    ...cell(xValue, '', 0, 0, 0),
+    cells: cells.filter((c) => c.xValue === xValue),
+  }));
+
+const sample = columns([
+  cell('医院', '上海', 300, 10, 40, 12),
+  cell('医院', '北京', 200, 30, 20, 4),
+  cell('零售', '上海', 100, 5, 25, 8),
+  cell('零售', '北京', 150, 60, 10, 3),
+  cell('线上', '广州', 80, 2, 30),
+]);
+
+describe('scoreOpportunities', () => {
+  it('晖致份额不低于领先竞品的细分市场不是候选', () => {
+    const segments = scoreOpportunities(
+      columns([cell('医院', '上海', 300, 10, 40), cell('医院', '北京', 200, 30, 30), cell('零售', '北京', 150, 60, 10)])
+    ).map((item) => item.segment);
+
+    expect(segments).toEqual(['医院 × 上海']);
+  });
+
+  it('综合评分等于各因素贡献之和，按评分降序', () => {
+    const scored = scoreOpportunities(sample);
+
+    expect(scored.map((item) => item.segment)).toEqual(['医院 × 上海', '零售 × 上海', '线上 × 广州']);
+    scored.forEach((item) => {
+      const total = item.breakdown.reduce((sum, b) => sum + b.contribution, 0);
+      expect(item.score).toBeCloseTo(total, 10);
+    });
+  });
+
+  it('权重按总和归一化，等比放大不改变评分', () => {
+    const weights: OpportunityScoreWeights = { marketSize: 3, growth: 2, competitorGap: 3, adjacentShare: 2 };
+    const scaled = Object.fromEntries(Object.entries(weights).map(([k, v]) => [k, v * 10])) as OpportunityScoreWeights;
+
+    expect(scoreOpportunities(sample, weights)).toEqual(scoreOpportunities(sample, scaled));
+    const [top] = scoreOpportunities(sample, { marketSize: 1, growth: 0, competitorGap: 0, adjacentShare: 0 });
+    expect(top.score).toBe(100);
+  });
+
+  it('相邻细分市场为同一横轴或同一纵轴取值的其他单元格，不含自身和对角单元格', () => {
+    const scored = scoreOpportunities(sample);
+    const shanghaiHospital = scored.find((item) => item.segment === '医院 × 上海')!;
+    const guangzhouOnline = scored.find((item) => item.segment === '线上 × 广州')!;
+
+    // 医院 × 北京（200，30%）和 零售 × 上海（100，5%），不含 零售 × 北京
+    expect(shanghaiHospital.adjacentShare).toBeCloseTo((200 * 30 + 100 * 5) / 300);
+    expect(guangzhouOnline.adjacentShare).toBeUndefined();
+  });
+
+  it('候选的增长率全部相同时，增长率记中性分', () => {
+    const scored = scoreOpportunities(columns([cell('医院', '上海', 300, 10, 40, 5), cell('零售', '北京', 100, 5, 25, 5)]));
+
+    scored.forEach((item) => expect(item.breakdown.find((b) => b.factor === 'growth')?.score).toBe(50));
+  });
+
+  it('缺少增长率的候选增长率记0分', () => {
+    const guangzhouOnline = scoreOpportunities(sample).find((item) => item.segment === '线上 × 广州')!;
+
+    expect(guangzhouOnline.breakdown.find((b) => b.factor === 'growth')).toMatchObject({ score: 0, contribution: 0 });
+  });
+});
+
+describe('buildOpportunityDraft', () => {
+  it('按评分结果预填细分市场、当前缺口和潜力', () => {
+    const [top] = scoreOpportunities(sample);
+    const draft = buildOpportunityDraft('立普妥', top);
+
+    expect(draft).toMatchObject({
+      title: '立普妥：医院 × 上海',
+      marketSegment: '医院 × 上海',
+      currentGap: '晖致份额10.0%，领先竞品40.0%，差距30.0个百分点；相邻细分市场晖致份额21.7%',
+      potential: 'high',
+    });
+    expect(top.score).toBe(96.3);
+    expect(draft.description).toContain('机会评分96.3');
+  });
+});
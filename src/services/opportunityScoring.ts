@@ -0,0 +1,168 @@
+import { Opportunity } from '../types/strategy';
+import { MarketPivotColumn } from './marketSegments';
+
+// 机会评分因素：市场规模、增长率、与领先竞品的份额差距、晖致在相邻细分市场的份额
+export type OpportunityScoreFactor = 'marketSize' | 'growth' | 'competitorGap' | 'adjacentShare';
+
+// 各因素的相对权重，计算时按总和归一化
+export type OpportunityScoreWeights = Record<OpportunityScoreFactor, number>;
+
+export const OPPORTUNITY_SCORE_FACTORS: OpportunityScoreFactor[] = ['marketSize', 'growth', 'competitorGap', 'adjacentShare'];
+
+export const OPPORTUNITY_SCORE_FACTOR_LABELS: Record<OpportunityScoreFactor, string> = {
+  marketSize: '市场规模',
+  growth: '增长率',
+  competitorGap: '竞品差距',
+  adjacentShare: '相邻份额',
+};
+
+export const OPPORTUNITY_SCORE_FACTOR_DESCRIPTIONS: Record<OpportunityScoreFactor, string> = {
+  marketSize: '细分市场规模越大得分越高',
+  growth: '增长率越高得分越高',
+  competitorGap: '领先竞品份额高出晖致越多，可争夺的空间越大',
+  adjacentShare: '晖致在同一横轴或纵轴取值的其他细分市场份额越高，越容易借势进入',
+};
+
+export const DEFAULT_OPPORTUNITY_SCORE_WEIGHTS: OpportunityScoreWeights = {
+  marketSize: 30,
+  growth: 20,
+  competitorGap: 30,
+  adjacentShare: 20,
+};
+
+// 单个因素的原始值、得分（0-100）及按权重折算后对综合评分的贡献
+export interface OpportunityScoreItem {
+  factor: OpportunityScoreFactor;
+  raw: number;
+  score: number;
+  contribution: number;
+}
+
+export interface ScoredOpportunity {
+  segment: string;
+  xValue: string;
+  yValue: string;
+  value: number; // 市场规模
+  huiZhiShare: number;
+  competitorShare: number; // 领先竞品份额
+  growthRate?: number;
+  adjacentShare?: number; // 没有相邻细分市场时为 undefined
+  score: number; // 综合评分（0-100），等于各因素贡献之和
+  breakdown: OpportunityScoreItem[];
+}
+
+// 配置无效时返回错误信息，有效时返回 null
+export function validateOpportunityScoreWeights(weights: OpportunityScoreWeights): string | null {
+  for (const factor of OPPORTUNITY_SCORE_FACTORS) {
+    const weight = weights[factor];
+    if (!Number.isFinite(weight) || weight < 0) return `${OPPORTUNITY_SCORE_FACTOR_LABELS[factor]}的权重须为非负数`;
+  }
+  if (OPPORTUNITY_SCORE_FACTORS.every((factor) => weights[factor] === 0)) return '至少需要一个因素的权重大于0';
+  return null;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// 中性分：候选集内取值全部相同时该因素不区分高低
+const NEUTRAL_SCORE = 50;
+
+// 在 floor 到 ceiling 之间线性换算为 0-100；范围为空时记中性分
+const scale = (value: number, floor: number, ceiling: number) =>
+  ceiling > floor ? ((value - floor) / (ceiling - floor)) * 100 : NEUTRAL_SCORE;
+
+// 对透视结果中晖致落后于领先竞品的细分市场（横轴 × 纵轴单元格）评分，按综合评分降序。
+// 市场规模、竞品差距、相邻份额以候选集内最大值为满分，增长率按候选集内最低到最高线性计分，缺少增长率的记0分；
+// 综合评分为各因素贡献（保留一位小数）之和
+export function scoreOpportunities(
+  columns: MarketPivotColumn[],
+  weights: OpportunityScoreWeights = DEFAULT_OPPORTUNITY_SCORE_WEIGHTS
+): ScoredOpportunity[] {
+  const cells = columns.flatMap((column) => column.cells);
+  const candidates = cells.filter((cell) => cell.competitorShare > cell.huiZhiShare);
+  if (candidates.length === 0) return [];
+
+  // 相邻细分市场：同一横轴取值或同一纵轴取值的其他单元格，份额按市场规模加权
+  const adjacentShareOf = (xValue: string, yValue: string) => {
+    const neighbours = cells.filter(
+      (cell) => (cell.xValue === xValue) !== (cell.yValue === yValue) && cell.value > 0
+    );
+    const total = neighbours.reduce((sum, cell) => sum + cell.value, 0);
+    return total > 0 ? neighbours.reduce((sum, cell) => sum + cell.huiZhiShare * cell.value, 0) / total : undefined;
+  };
+
+  const raws = candidates.map((cell) => ({
+    marketSize: cell.value,
+    growth: cell.growthRate,
+    competitorGap: cell.competitorShare - cell.huiZhiShare,
+    adjacentShare: adjacentShareOf(cell.xValue, cell.yValue),
+  }));
+  const ceilingOf = (factor: OpportunityScoreFactor) => Math.max(...raws.map((raw) => raw[factor] ?? 0));
+  const growthValues = raws.flatMap((raw) => (raw.growth === undefined ? [] : [raw.growth]));
+  const growthFloor = Math.min(...growthValues);
+  const growthCeiling = Math.max(...growthValues);
+  const scoreOf = (factor: OpportunityScoreFactor, raw: (typeof raws)[number]) => {
+    const value = raw[factor];
+    if (value === undefined) return 0;
+    return factor === 'growth' ? scale(value, growthFloor, growthCeiling) : scale(value, 0, ceilingOf(factor));
+  };
+
+  const totalWeight = OPPORTUNITY_SCORE_FACTORS.reduce((sum, factor) => sum + Math.max(0, weights[factor] || 0), 0);
+
+  return candidates
+    .map((cell, index) => {
+      const raw = raws[index];
+      const breakdown = OPPORTUNITY_SCORE_FACTORS.map((factor) => {
+        const score = scoreOf(factor, raw);
+        const weight = Math.max(0, weights[factor] || 0);
+        return {
+          factor,
+          raw: round(raw[factor] ?? 0),
+          score: round(score),
+          contribution: totalWeight > 0 ? (score * weight) / totalWeight : 0,
+        };
+      });
+      const rounded = breakdown.map((item) => ({ ...item, contribution: round(item.contribution) }));
+      return {
+        segment: `${cell.xValue} × ${cell.yValue}`,
+        xValue: cell.xValue,
+        yValue: cell.yValue,
+        value: cell.value,
+        huiZhiShare: cell.huiZhiShare,
+        competitorShare: cell.competitorShare,
+        growthRate: cell.growthRate,
+        adjacentShare: raw.adjacentShare,
+        score: round(rounded.reduce((sum, item) => sum + item.contribution, 0)),
+        breakdown: rounded,
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+export function getOpportunityPotential(score: number): Opportunity['potential'] {
+  if (score >= 70) return 'high';
+  if (score >= 45) return 'medium';
+  return 'low';
+}
+
+// 由评分结果生成机会点的初始内容，细分市场和当前缺口按评分结果预填
+export function buildOpportunityDraft(
+  brand: string,
+  item: ScoredOpportunity
+): Pick<Opportunity, 'title' | 'description' | 'marketSegment' | 'currentGap' | 'potential'> {
+  const breakdown = item.breakdown
+    .map((b) => `${OPPORTUNITY_SCORE_FACTOR_LABELS[b.factor]}${b.contribution}`)
+    .join('、');
+  const growth =
+    item.growthRate === undefined ? '' : `，增长率${item.growthRate > 0 ? '+' : ''}${item.growthRate.toFixed(1)}%`;
+  const adjacent =
+    item.adjacentShare === undefined ? '' : `；相邻细分市场晖致份额${item.adjacentShare.toFixed(1)}%`;
+  return {
+    title: `${brand}：${item.segment}`,
+    description: `${brand}大盘中${item.segment}市场规模${item.value.toFixed(1)}${growth}，机会评分${item.score}（${breakdown}）`,
+    marketSegment: item.segment,
+    currentGap: `晖致份额${item.huiZhiShare.toFixed(1)}%，领先竞品${item.competitorShare.toFixed(1)}%，差距${(
+      item.competitorShare - item.huiZhiShare
+    ).toFixed(1)}个百分点${adjacent}`,
+    potential: getOpportunityPotential(item.score),
+  };
+}
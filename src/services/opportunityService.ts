@@ -0,0 +1,154 @@
+import { Opportunity, OpportunityAnalysis, ReasonDimension, StrategyDirection } from '../types/strategy';
+import { extractJSONText } from './analysisSchema';
+import { getLLMClient } from './llm';
+
+interface OpportunityAnalysisPayload {
+  reasons: { dimensionId: string; analysis: string; evidence: string[] }[];
+  strategyDirections: Omit<StrategyDirection, 'id'>[];
+}
+
+const STRATEGY_LOGICS: StrategyDirection['basedOnLogic'][] = ['deLimit', 'penetration', 'expansion'];
+
+const SYSTEM_PROMPT = `你是晖致公司的策略分析师，需要解释晖致为何尚未赢得某个细分市场，并基于"解限-渗透-做广"逻辑给出策略方向。
+请严格只输出一个JSON对象，结构如下：
+{
+  "reasons": [{ "dimensionId": string, "analysis": string, "evidence": string[] }],
+  "strategyDirections": [{ "title": string, "description": string, "actions": string[], "basedOnLogic": "deLimit" | "penetration" | "expansion" }]
+}
+reasons 需要覆盖用户给出的每一个维度，dimensionId 使用给定的维度ID。`;
+
+function generateMockAnalysis(dim: ReasonDimension, opp: Opportunity): string {
+  const analyses: Record<string, string> = {
+    product: `产品因素：${opp.marketSegment}中，晖致产品在适应症覆盖、价格竞争力等方面存在不足，需要优化产品定位和定价策略。`,
+    businessModel: `商业模式因素：当前渠道策略和推广模式可能不适合该细分市场，需要调整商业模式以适应市场特点。`,
+    resource: `资源分配因素：在该细分市场的投入相对不足，人力、市场资源分配需要优化，以提升市场竞争力。`,
+    organization: `组织因素：团队能力建设和激励机制可能不够完善，需要加强组织能力建设和优化激励机制。`,
+    other: `其他因素：市场准入、政策变化等因素可能影响了在该细分市场的表现，需要关注政策变化和市场准入情况。`,
+  };
+  return analyses[dim.category] || `需要进一步分析${dim.name}对该机会点的影响。`;
+}
+
+function generateMockEvidence(dim: ReasonDimension): string[] {
+  return [
+    `基于${dim.name}维度的数据分析显示存在明显差距`,
+    `相关市场调研和竞品分析支持该判断`,
+    `内部运营数据验证了该维度的关键影响`,
+  ];
+}
+
+function generateMockStrategyDirections(): OpportunityAnalysisPayload['strategyDirections'] {
+  return [
+    {
+      title: '提升Non-CV占比',
+      description: '通过优化产品组合和推广策略，提升非心血管产品在该细分市场的占比',
+      actions: [
+        '从管理上优化对于Non-CV产品的激励政策',
+        '鼓励各省组建Non-CV产品转队',
+        '加强Non-CV产品的学术推广和医生教育',
+      ],
+      basedOnLogic: 'expansion',
+    },
+    {
+      title: '加强解限工作',
+      description: '针对该细分市场的重点医院，加强解限工作，提升市场准入',
+      actions: [
+        '识别该细分市场的核心影响型医院',
+        '制定针对性的解限策略和行动计划',
+        '建立解限进度跟踪机制',
+      ],
+      basedOnLogic: 'deLimit',
+    },
+    {
+      title: '深化市场渗透',
+      description: '通过学术推广和医生关系维护，深化在该细分市场的渗透',
+      actions: [
+        '开展针对性的学术推广活动',
+        '建立该细分市场的KOL关系网络',
+        '提供专业化的推广材料和工具',
+      ],
+      basedOnLogic: 'penetration',
+    },
+  ];
+}
+
+function generateMockPayload(opp: Opportunity, dimensions: ReasonDimension[]): OpportunityAnalysisPayload {
+  return {
+    reasons: dimensions.map((dim) => ({
+      dimensionId: dim.id,
+      analysis: generateMockAnalysis(dim, opp),
+      evidence: generateMockEvidence(dim),
+    })),
+    strategyDirections: generateMockStrategyDirections(),
+  };
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+// 校验模型输出，不合法时返回 null
+function parsePayload(raw: string): OpportunityAnalysisPayload | null {
+  const jsonText = extractJSONText(raw);
+  if (!jsonText) return null;
+
+  try {
+    const data = JSON.parse(jsonText);
+    if (!Array.isArray(data.reasons) || !Array.isArray(data.strategyDirections)) return null;
+
+    const reasonsValid = data.reasons.every(
+      (r: Record<string, unknown>) =>
+        typeof r.dimensionId === 'string' && typeof r.analysis === 'string' && isStringArray(r.evidence)
+    );
+    const directionsValid = data.strategyDirections.every(
+      (d: Record<string, unknown>) =>
+        typeof d.title === 'string' &&
+        typeof d.description === 'string' &&
+        isStringArray(d.actions) &&
+        STRATEGY_LOGICS.includes(d.basedOnLogic as StrategyDirection['basedOnLogic'])
+    );
+    return reasonsValid && directionsValid ? (data as OpportunityAnalysisPayload) : null;
+  } catch {
+    return null;
+  }
+}
+
+// 生成机会提炼报告（模型与参数见 llm/config.ts 的 opportunityAnalysis 配置）
+export async function analyzeOpportunity(
+  opportunity: Opportunity,
+  dimensions: ReasonDimension[]
+): Promise<OpportunityAnalysis> {
+  const mockPayload = generateMockPayload(opportunity, dimensions);
+  const llm = getLLMClient('opportunityAnalysis', () => JSON.stringify(mockPayload));
+
+  const userPrompt = `机会点：${opportunity.title}
+细分市场：${opportunity.marketSegment}
+描述：${opportunity.description}
+当前缺口：${opportunity.currentGap}
+
+需要分析的原因维度：
+${dimensions.map((dim) => `- ${dim.id}：${dim.name}${dim.description ? `（${dim.description}）` : ''}`).join('\n')}`;
+
+  const raw = await llm.complete(
+    [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: userPrompt },
+    ],
+    { responseFormat: 'json' }
+  );
+  const payload = parsePayload(raw) ?? mockPayload;
+
+  return {
+    opportunityId: opportunity.id,
+    // 以用户选定的维度为准，模型遗漏的维度使用本地生成的内容补齐
+    reasons: dimensions.map((dim) => {
+      const reason = payload.reasons.find((r) => r.dimensionId === dim.id)
+        ?? mockPayload.reasons.find((r) => r.dimensionId === dim.id)!;
+      return { dimension: dim, analysis: reason.analysis, evidence: reason.evidence };
+    }),
+    strategyDirections: payload.strategyDirections.map((direction, index) => ({
+      ...direction,
+      id: `sd${index + 1}`,
+    })),
+    createdAt: new Date(),
+  };
+}
@@ -0,0 +1,277 @@
+import {
+  Product,
+  ProductMetricKey,
+  ProductMetricSnapshot,
+  ProductPerformance,
+  ProductProvinceBreakdown,
+  ProductProvinceMetricKey,
+  ProductProvinceMetricRecord,
+  Province,
+  ProvinceMetricKey,
+  ProvinceMetricRecord,
+  ProvinceMetricSnapshot,
+  ProvincePerformance,
+  ShareChangeDecomposition,
+} from '../types';
+import { computeHealthScore, DEFAULT_HEALTH_SCORE_CONFIG, HealthScoreConfig } from './healthScore';
+import { DEFAULT_METRIC_TARGETS, MetricTarget, resolveHealthScoreTargets } from './targets';
+import { decomposeShareChange } from './shareDecomposition';
+
+export const PRODUCT_METRIC_KEYS: ProductMetricKey[] = ['moleculeShare', 'moleculeInternalShare', 'competitorShare', 'deLimitRate'];
+
+export const PROVINCE_METRIC_KEYS: ProvinceMetricKey[] = [
+  'marketShare',
+  'roi',
+  'nonLiluRatio',
+  'deLimitRate',
+  'penetrationRate',
+  'healthScore',
+];
+
+export const PRODUCT_PROVINCE_METRIC_KEYS: ProductProvinceMetricKey[] = ['moleculeInternalShare', 'deLimitRate'];
+
+export const PRODUCT_PROVINCE_METRIC_LABELS: Record<ProductProvinceMetricKey, string> = {
+  moleculeInternalShare: '分子式内份额',
+  deLimitRate: '解限率',
+};
+
+// 产品分省指标汇总到全国时使用的权重字段
+export const PRODUCT_PROVINCE_WEIGHT_KEYS: Record<ProductProvinceMetricKey, 'moleculeVolume' | 'hospitalCount'> = {
+  moleculeInternalShare: 'moleculeVolume',
+  deLimitRate: 'hospitalCount',
+};
+
+export interface PerformanceSource {
+  products: Product[];
+  provinces: Province[];
+  productHistory: ProductMetricSnapshot[];
+  provinceHistory: ProvinceMetricRecord[];
+  productProvinceHistory: ProductProvinceMetricRecord[];
+}
+
+// 按实体+周期存储的指标时间序列，环比/同比变化均由历史推导
+export interface PerformanceStore {
+  listPeriods: () => string[]; // 升序
+  getLatestPeriod: () => string;
+  getProductPerformance: (period: string) => ProductPerformance[];
+  getProvincePerformance: (period: string) => ProvincePerformance[];
+  getProductHistory: (productId: string, upToPeriod?: string) => ProductMetricSnapshot[];
+  getProvinceHistory: (provinceId: string, upToPeriod?: string) => ProvinceMetricSnapshot[];
+  getProductProvinceBreakdown: (
+    productId: string,
+    period: string,
+    metric: ProductProvinceMetricKey
+  ) => ProductProvinceBreakdown;
+  getShareChangeDecomposition: (productId: string, period: string) => ShareChangeDecomposition | null;
+}
+
+// 周期格式 "2024-Q1"，按季度偏移
+export function shiftPeriod(period: string, quarters: number): string {
+  const match = /^(\d{4})-Q([1-4])$/.exec(period);
+  if (!match) return period;
+  const index = Number(match[1]) * 4 + Number(match[2]) - 1 + quarters;
+  return `${Math.floor(index / 4)}-Q${(index % 4) + 1}`;
+}
+
+export const getPreviousPeriod = (period: string) => shiftPeriod(period, -1);
+
+export const getYearAgoPeriod = (period: string) => shiftPeriod(period, -4);
+
+const round = (value: number, digits: number) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+// ROI保留两位小数，其余百分比指标保留一位
+const precisionOf = (key: string) => (key === 'roi' ? 2 : 1);
+
+function diffMetrics<K extends string>(
+  keys: K[],
+  current: Record<K, number>,
+  base: Record<K, number> | undefined
+): Partial<Record<K, number>> | undefined {
+  if (!base) return undefined;
+  const changes: Partial<Record<K, number>> = {};
+  keys.forEach((key) => {
+    changes[key] = round(current[key] - base[key], precisionOf(key));
+  });
+  return changes;
+}
+
+function indexBy<T extends { period: string }>(items: T[], getId: (item: T) => string): Map<string, T> {
+  return new Map(items.map((item) => [`${getId(item)}|${item.period}`, item]));
+}
+
+// 省份 i 的贡献 = 本期权重占比 × 本期值 − 上期权重占比 × 上期值，各省之和即为汇总值的环比变化，
+// 同时包含本省指标变化和本省权重变化两部分的影响
+function breakdownByProvince(
+  provinces: Province[],
+  records: ProductProvinceMetricRecord[],
+  productId: string,
+  period: string,
+  metric: ProductProvinceMetricKey
+): ProductProvinceBreakdown {
+  const weightKey = PRODUCT_PROVINCE_WEIGHT_KEYS[metric];
+  const previousPeriod = getPreviousPeriod(period);
+  const recordsOf = (p: string) =>
+    new Map(records.filter((r) => r.productId === productId && r.period === p).map((r) => [r.provinceId, r]));
+  const current = recordsOf(period);
+  const previous = recordsOf(previousPeriod);
+  const totalWeight = (items: Map<string, ProductProvinceMetricRecord>) =>
+    Array.from(items.values()).reduce((sum, r) => sum + r[weightKey], 0);
+  const currentWeight = totalWeight(current);
+  const previousWeight = totalWeight(previous);
+  // 加权项：权重占比 × 指标值
+  const weighted = (record: ProductProvinceMetricRecord | undefined, total: number) =>
+    record && total > 0 ? (record[weightKey] / total) * record[metric] : 0;
+  const sumWeighted = (items: Map<string, ProductProvinceMetricRecord>, total: number) =>
+    Array.from(items.values()).reduce((sum, r) => sum + weighted(r, total), 0);
+
+  const total = sumWeighted(current, currentWeight);
+  const hasPrevious = previous.size > 0;
+  return {
+    productId,
+    metric,
+    period,
+    previousPeriod,
+    total: round(total, 1),
+    totalChange: hasPrevious ? round(total - sumWeighted(previous, previousWeight), 2) : undefined,
+    provinces: provinces
+      .flatMap((province) => {
+        const record = current.get(province.id);
+        if (!record) return [];
+        const base = previous.get(province.id);
+        return [
+          {
+            provinceId: province.id,
+            provinceName: province.name,
+            region: province.region,
+            value: record[metric],
+            change: base ? round(record[metric] - base[metric], 1) : undefined,
+            weight: currentWeight > 0 ? round((record[weightKey] / currentWeight) * 100, 1) : 0,
+            contribution: hasPrevious
+              ? round(weighted(record, currentWeight) - weighted(base, previousWeight), 2)
+              : 0,
+          },
+        ];
+      })
+      .sort((a, b) => a.contribution - b.contribution),
+  };
+}
+
+// 健康度评分按 healthScoreConfig 由原始指标计算，历史各期使用同一套配置，保证环比/同比可比；
+// 各维度的满分线取该省份、该周期适用的指标目标值
+export function createPerformanceStore(
+  source: PerformanceSource,
+  healthScoreConfig: HealthScoreConfig = DEFAULT_HEALTH_SCORE_CONFIG,
+  metricTargets: MetricTarget[] = DEFAULT_METRIC_TARGETS
+): PerformanceStore {
+  const regionByProvince = new Map(source.provinces.map((p) => [p.id, p.region]));
+  const scoreHealth = (record: ProvinceMetricRecord) =>
+    computeHealthScore(
+      record,
+      resolveHealthScoreTargets(metricTargets, {
+        period: record.period,
+        provinceId: record.provinceId,
+        region: regionByProvince.get(record.provinceId),
+      }),
+      healthScoreConfig
+    );
+  const provinceHistory: ProvinceMetricSnapshot[] = source.provinceHistory.map((record) => ({
+    ...record,
+    healthScore: scoreHealth(record).score,
+  }));
+  const productIndex = indexBy(source.productHistory, (s) => s.productId);
+  const provinceIndex = indexBy(provinceHistory, (s) => s.provinceId);
+  const periods = Array.from(
+    new Set([...source.productHistory, ...source.provinceHistory].map((s) => s.period))
+  ).sort();
+
+  const upTo = <T extends { period: string }>(items: T[], period?: string) =>
+    items.filter((item) => !period || item.period <= period).sort((a, b) => a.period.localeCompare(b.period));
+
+  return {
+    listPeriods: () => periods,
+    getLatestPeriod: () => periods[periods.length - 1] ?? '',
+
+    getProductPerformance: (period) =>
+      source.products.flatMap((product) => {
+        const current = productIndex.get(`${product.id}|${period}`);
+        if (!current) return [];
+        const previousPeriod = getPreviousPeriod(period);
+        // 上期无数据时变化记为0
+        const changes = diffMetrics(PRODUCT_METRIC_KEYS, current, productIndex.get(`${product.id}|${previousPeriod}`)) ?? {};
+        return [
+          {
+            productId: product.id,
+            productName: product.name,
+            moleculeFormula: product.moleculeFormula,
+            moleculeShare: current.moleculeShare,
+            moleculeShareChange: changes.moleculeShare ?? 0,
+            moleculeInternalShare: current.moleculeInternalShare,
+            moleculeInternalShareChange: changes.moleculeInternalShare ?? 0,
+            competitorShare: current.competitorShare,
+            competitorShareChange: changes.competitorShare ?? 0,
+            deLimitRate: current.deLimitRate,
+            deLimitRateChange: changes.deLimitRate ?? 0,
+            period,
+            previousPeriod,
+            yoyChanges: diffMetrics(
+              PRODUCT_METRIC_KEYS,
+              current,
+              productIndex.get(`${product.id}|${getYearAgoPeriod(period)}`)
+            ),
+          },
+        ];
+      }),
+
+    getProvincePerformance: (period) =>
+      source.provinces.flatMap((province) => {
+        const current = provinceIndex.get(`${province.id}|${period}`);
+        if (!current) return [];
+        const previousPeriod = getPreviousPeriod(period);
+        const health = scoreHealth(current);
+        return [
+          {
+            provinceId: province.id,
+            provinceName: province.name,
+            region: province.region,
+            marketShare: current.marketShare,
+            roi: current.roi,
+            nonLiluRatio: current.nonLiluRatio,
+            deLimitRate: current.deLimitRate,
+            penetrationRate: current.penetrationRate,
+            healthScore: health.score,
+            healthLevel: health.level,
+            healthDimensions: health.dimensions,
+            period,
+            previousPeriod,
+            changes: diffMetrics(PROVINCE_METRIC_KEYS, current, provinceIndex.get(`${province.id}|${previousPeriod}`)),
+            yoyChanges: diffMetrics(
+              PROVINCE_METRIC_KEYS,
+              current,
+              provinceIndex.get(`${province.id}|${getYearAgoPeriod(period)}`)
+            ),
+          },
+        ];
+      }),
+
+    getProductHistory: (productId, upToPeriod) =>
+      upTo(source.productHistory.filter((s) => s.productId === productId), upToPeriod),
+
+    getProvinceHistory: (provinceId, upToPeriod) =>
+      upTo(provinceHistory.filter((s) => s.provinceId === provinceId), upToPeriod),
+
+    getProductProvinceBreakdown: (productId, period, metric) =>
+      breakdownByProvince(source.provinces, source.productProvinceHistory, productId, period, metric),
+
+    getShareChangeDecomposition: (productId, period) =>
+      decomposeShareChange(
+        source.provinces,
+        source.productProvinceHistory,
+        productId,
+        period,
+        getPreviousPeriod(period)
+      ),
+  };
+}
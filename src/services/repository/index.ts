@@ -0,0 +1,73 @@
+import { createIndexedDbRepository } from './indexedDbRepository';
+import { createMockRepository } from './mockRepository';
+import { createRestRepository } from './restRepository';
+import { createRestWorkspace } from './restWorkspace';
+import { DataRepository, DataRepositoryOptions, DataSourceType } from './types';
+
+export type {
+  DataRepository,
+  DataRepositoryOptions,
+  DataSourceType,
+  MarketDataFilters,
+  WorkspaceCollection,
+  WorkspaceCollectionName,
+  WorkspaceCollections,
+  WorkspaceRecords,
+} from './types';
+export { createIndexedDbRepository } from './indexedDbRepository';
+export { createMockRepository } from './mockRepository';
+export type { MockRepositorySeed } from './mockRepository';
+export { createRestRepository, REST_RESOURCES } from './restRepository';
+export { createRestWorkspace } from './restWorkspace';
+export { RepositoryHttpError } from './restClient';
+export {
+  DEFAULT_MARKET_BRAND,
+  filterMarketData,
+  RepositoryConflictError,
+  reviveMarketDataPoint,
+  UNSPECIFIED_DIMENSION_VALUE,
+} from './shared';
+export type { StoredMarketDataPoint } from './shared';
+
+const DATA_SOURCES: DataSourceType[] = ['mock', 'indexeddb', 'rest'];
+
+export const DATA_SOURCE_LABELS: Record<DataSourceType, string> = {
+  mock: '内存示例数据',
+  indexeddb: '浏览器本地（IndexedDB）',
+  rest: 'REST 接口',
+};
+
+// VITE_DATA_SOURCE 选择数据源，rest 需要同时配置 VITE_DATA_API_URL
+export function resolveDataSource(): DataSourceType {
+  const configured = import.meta.env.VITE_DATA_SOURCE as DataSourceType | undefined;
+  if (configured && !DATA_SOURCES.includes(configured)) {
+    console.warn(`Unknown VITE_DATA_SOURCE "${configured}", falling back to indexeddb`);
+    return 'indexeddb';
+  }
+  if (configured === 'rest' && !import.meta.env.VITE_DATA_API_URL) {
+    console.warn('VITE_DATA_SOURCE=rest requires VITE_DATA_API_URL, falling back to indexeddb');
+    return 'indexeddb';
+  }
+  return configured ?? 'indexeddb';
+}
+
+function createBaseRepository(source: DataSourceType, options: DataRepositoryOptions): DataRepository {
+  switch (source) {
+    case 'mock':
+      return createMockRepository({}, options);
+    case 'rest':
+      return createRestRepository(import.meta.env.VITE_DATA_API_URL || '', options);
+    default:
+      return createIndexedDbRepository(options);
+  }
+}
+
+// 配置 VITE_WORKSPACE_API_URL 时，策略工作区改由工作区服务端（SQLite）保存，业务数据仍来自所选数据源
+export function createDataRepository(
+  options: DataRepositoryOptions = {},
+  source: DataSourceType = resolveDataSource()
+): DataRepository {
+  const repository = createBaseRepository(source, options);
+  const workspaceUrl = import.meta.env.VITE_WORKSPACE_API_URL;
+  return workspaceUrl ? { ...repository, workspace: createRestWorkspace(workspaceUrl) } : repository;
+}
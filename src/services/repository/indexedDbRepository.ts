@@ -0,0 +1,66 @@
+import { Dataset } from '../../types/dataset';
+import { loadActiveDataset } from '../datasetStore';
+import { idbDelete, idbGet, idbGetAll, idbPut, STORES } from '../storage/indexedDb';
+import {
+  createLocalCollection,
+  createPerformanceQueries,
+  createWorkspaceCollections,
+  DEFAULT_WORKSPACE_SEED,
+  filterMarketData,
+  RecordStorage,
+  WORKSPACE_SPECS,
+} from './shared';
+import { DataRepository, DataRepositoryOptions, WorkspaceCollectionName } from './types';
+
+// 每个集合首次使用时写入示例数据；之后即使全部删除也不再重新写入
+const seededStorageKey = (name: WorkspaceCollectionName) => `idb-workspace-seeded:${name}`;
+
+function createIdbStorage<T>(name: WorkspaceCollectionName): RecordStorage<T> {
+  const storeName = STORES[name].name;
+  let seeding: Promise<void> | null = null;
+  const ensureSeeded = () => {
+    if (!seeding) {
+      seeding = localStorage.getItem(seededStorageKey(name))
+        ? Promise.resolve()
+        : Promise.all((DEFAULT_WORKSPACE_SEED[name] ?? []).map((record) => idbPut(storeName, record))).then(() =>
+            localStorage.setItem(seededStorageKey(name), '1')
+          );
+      // 写入失败时允许下次重试
+      seeding.catch(() => {
+        seeding = null;
+      });
+    }
+    return seeding;
+  };
+
+  return {
+    getAll: async () => {
+      await ensureSeeded();
+      return idbGetAll<T>(storeName);
+    },
+    get: async (key) => {
+      await ensureSeeded();
+      return idbGet<T>(storeName, key);
+    },
+    put: (record) => idbPut(storeName, record),
+    delete: (key) => idbDelete(storeName, key),
+  };
+}
+
+// 浏览器本地实现：业务数据来自当前启用的数据集版本（见数据导入），策略工作区保存在 IndexedDB
+export function createIndexedDbRepository(options: DataRepositoryOptions = {}): DataRepository {
+  // 数据集版本不可变，按ID缓存即可
+  let cachedDataset: Dataset | null = null;
+  const loadDataset = async () => {
+    const dataset = await loadActiveDataset();
+    if (cachedDataset?.id !== dataset.id) cachedDataset = dataset;
+    return cachedDataset;
+  };
+
+  return {
+    source: 'indexeddb',
+    ...createPerformanceQueries(loadDataset, options),
+    getMarketData: async (brand, filters) => filterMarketData((await loadDataset()).marketData, brand, filters),
+    workspace: createWorkspaceCollections((name) => createLocalCollection(WORKSPACE_SPECS[name], createIdbStorage(name))),
+  };
+}
@@ -0,0 +1,48 @@
+import { Dataset } from '../../types/dataset';
+import { BUILT_IN_DATASET } from '../datasetStore';
+import {
+  createLocalCollection,
+  createPerformanceQueries,
+  createWorkspaceCollections,
+  DEFAULT_WORKSPACE_SEED,
+  filterMarketData,
+  RecordStorage,
+  WORKSPACE_SPECS,
+  WorkspaceSeed,
+} from './shared';
+import { DataRepository, DataRepositoryOptions } from './types';
+
+export interface MockRepositorySeed {
+  dataset?: Dataset;
+  workspace?: WorkspaceSeed;
+}
+
+function createMemoryStorage<T>(initial: T[], getKey: (record: T) => string): RecordStorage<T> {
+  const records = new Map(initial.map((record) => [getKey(record), record]));
+  return {
+    getAll: async () => Array.from(records.values()),
+    get: async (key) => records.get(key),
+    put: async (record) => {
+      records.set(getKey(record), record);
+    },
+    delete: async (key) => {
+      records.delete(key);
+    },
+  };
+}
+
+// 纯内存实现：刷新页面后恢复为示例数据，适合演示和离线开发
+export function createMockRepository(seed: MockRepositorySeed = {}, options: DataRepositoryOptions = {}): DataRepository {
+  const dataset = seed.dataset ?? BUILT_IN_DATASET;
+  const workspaceSeed = seed.workspace ?? DEFAULT_WORKSPACE_SEED;
+
+  return {
+    source: 'mock',
+    ...createPerformanceQueries(async () => dataset, options),
+    getMarketData: async (brand, filters) => filterMarketData(dataset.marketData, brand, filters),
+    workspace: createWorkspaceCollections((name) => {
+      const spec = WORKSPACE_SPECS[name];
+      return createLocalCollection(spec, createMemoryStorage(workspaceSeed[name] ?? [], spec.getKey));
+    }),
+  };
+}
@@ -0,0 +1,43 @@
+import { RepositoryConflictError } from './shared';
+
+// 非2xx响应
+export class RepositoryHttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly path: string
+  ) {
+    super(`Data API request ${path} failed with status ${status}`);
+    this.name = 'RepositoryHttpError';
+  }
+}
+
+export interface RestRequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  body?: unknown;
+  ifMatch?: Date; // 乐观并发：读取时的 updatedAt，服务端版本不一致时返回 409
+}
+
+export type RestRequest = <T>(path: string, options?: RestRequestOptions) => Promise<T>;
+
+// 409 响应体中的 current 为服务端最新版本（记录已删除时为 null）
+export function createRestRequest(baseUrl: string): RestRequest {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  return async <T>(path: string, { method = 'GET', body, ifMatch }: RestRequestOptions = {}): Promise<T> => {
+    const headers: Record<string, string> = {};
+    if (body !== undefined) headers['Content-Type'] = 'application/json';
+    if (ifMatch) headers['If-Match'] = `"${ifMatch.toISOString()}"`;
+
+    const response = await fetch(`${root}/${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (response.status === 409) {
+      const payload = (await response.json().catch(() => ({}))) as { current?: unknown };
+      throw new RepositoryConflictError(payload.current ?? null);
+    }
+    if (!response.ok) throw new RepositoryHttpError(response.status, path);
+    return (response.status === 204 ? undefined : await response.json()) as T;
+  };
+}
@@ -0,0 +1,131 @@
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildMockDatabase } from '../../../mock-server/mockDatabase';
+import { createMockApiServer } from '../../../mock-server/server';
+import { mockProducts } from '../../data/mockData';
+import { RepositoryConflictError } from './shared';
+import { createRestRepository, REST_RESOURCES } from './restRepository';
+import { DataRepository } from './types';
+
+// 每个用例使用一个新启动的 json-server（内存数据），互不影响
+let server: Server;
+let baseUrl: string;
+let repository: DataRepository;
+
+beforeAll(() => {
+  vi.spyOn(globalThis, 'fetch');
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+});
+
+beforeEach(async () => {
+  server = await new Promise<Server>((resolve) => {
+    const started = createMockApiServer(buildMockDatabase(), { logger: false }).listen(0, '127.0.0.1', () =>
+      resolve(started)
+    );
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  repository = createRestRepository(baseUrl);
+  vi.mocked(fetch).mockClear();
+  return () => new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+const requestedPaths = () => vi.mocked(fetch).mock.calls.map(([url]) => String(url).slice(baseUrl.length + 1));
+
+describe('createRestRepository', () => {
+  it('读取业务数据并推导表现指标', async () => {
+    const products = await repository.getProducts();
+    const performance = await repository.getProductPerformance('2024-Q1');
+
+    expect(products.map((p) => p.id)).toEqual(mockProducts.map((p) => p.id));
+    expect(performance).toHaveLength(mockProducts.length);
+    expect(performance[0]).toMatchObject({ period: '2024-Q1', previousPeriod: '2023-Q4' });
+  });
+
+  it('同一数据版本内的查询只加载一次', async () => {
+    await repository.getProductPerformance('2024-Q1');
+    await repository.getProvincePerformance('2024-Q1');
+    await repository.listPeriods();
+
+    expect(requestedPaths().sort()).toEqual(
+      [
+        REST_RESOURCES.products,
+        REST_RESOURCES.provinces,
+        REST_RESOURCES.productHistory,
+        REST_RESOURCES.provinceHistory,
+        REST_RESOURCES.productProvinceHistory,
+      ].sort()
+    );
+  });
+
+  it('数据版本变化后重新加载', async () => {
+    let revision = 'a';
+    const versioned = createRestRepository(baseUrl, { getRevision: () => revision });
+
+    await versioned.getProducts();
+    await versioned.getProducts();
+    revision = 'b';
+    await versioned.getProducts();
+
+    expect(requestedPaths().filter((path) => path === REST_RESOURCES.products)).toHaveLength(2);
+  });
+
+  it('大盘数据按品牌和维度筛选', async () => {
+    const points = await repository.getMarketData('立普妥', { province: ['北京', '上海'], channel: ['零售'] });
+
+    expect(points.length).toBeGreaterThan(0);
+    points.forEach((point) => {
+      expect(point.brand).toBe('立普妥');
+      expect(['北京', '上海']).toContain(point.province);
+      expect(point.channel).toBe('零售');
+    });
+  });
+});
+
+describe('createRestWorkspace', () => {
+  it('列表、新建、更新往返一致，更新后版本递增', async () => {
+    const opportunities = repository.workspace.opportunities;
+    const [first] = await opportunities.list();
+    expect(first.createdAt).toBeInstanceOf(Date);
+
+    const created = await opportunities.create({ ...first, id: 'opp-new', title: '新机会点' });
+    const updated = await opportunities.update({ ...created, title: '已修改' });
+
+    expect(updated.updatedAt!.getTime()).toBeGreaterThan(created.updatedAt!.getTime());
+    const reloaded = (await opportunities.list()).find((o) => o.id === 'opp-new');
+    expect(reloaded).toMatchObject({ title: '已修改', updatedAt: updated.updatedAt });
+  });
+
+  it('以过期版本更新时返回 409 和最新版本', async () => {
+    const opportunities = repository.workspace.opportunities;
+    const [first] = await opportunities.list();
+    const latest = await opportunities.update({ ...first, title: '他人修改' });
+
+    const error = await opportunities.update({ ...first, title: '我的修改' }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(RepositoryConflictError);
+    const current = (error as RepositoryConflictError<typeof first>).current;
+    expect(current?.title).toBe('他人修改');
+    expect(current?.updatedAt).toEqual(latest.updatedAt);
+    expect(current?.createdAt).toBeInstanceOf(Date);
+    const request = vi.mocked(fetch).mock.calls.at(-1)?.[1];
+    expect(request?.headers).toMatchObject({ 'If-Match': `"${first.updatedAt!.toISOString()}"` });
+  });
+
+  it('以过期版本删除时返回冲突，记录已删除时更新返回冲突、删除视为成功', async () => {
+    const proposals = repository.workspace.strategyProposals;
+    const [first] = await proposals.list();
+    const latest = await proposals.update({ ...first, title: '他人修改' });
+
+    await expect(proposals.remove(first)).rejects.toBeInstanceOf(RepositoryConflictError);
+    await proposals.remove(latest);
+
+    const error = await proposals.update(latest).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(RepositoryConflictError);
+    expect((error as RepositoryConflictError).current).toBeNull();
+    await expect(proposals.remove(latest)).resolves.toBeUndefined();
+  });
+});
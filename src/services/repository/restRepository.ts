@@ -0,0 +1,47 @@
+import { Product, ProductMetricSnapshot, ProductProvinceMetricRecord, Province, ProvinceMetricRecord } from '../../types';
+import { MarketDimension } from '../../types/strategy';
+import { createRestRequest } from './restClient';
+import { createRestWorkspace } from './restWorkspace';
+import { createPerformanceQueries, reviveMarketDataPoint, StoredMarketDataPoint } from './shared';
+import { DataRepository, DataRepositoryOptions } from './types';
+
+// 业务数据的 REST 资源路径（与 mock-server 示例接口的资源名一致）
+export const REST_RESOURCES = {
+  products: 'products',
+  provinces: 'provinces',
+  productHistory: 'productHistory',
+  provinceHistory: 'provinceHistory',
+  productProvinceHistory: 'productProvinceHistory',
+  marketData: 'marketData',
+} as const;
+
+// 对接标准 REST 接口（GET 列表；工作区集合另支持 POST / PUT /:id / DELETE /:id），可用 json-server 本地联调
+export function createRestRepository(baseUrl: string, options: DataRepositoryOptions = {}): DataRepository {
+  const request = createRestRequest(baseUrl);
+
+  return {
+    source: 'rest',
+    ...createPerformanceQueries(async () => {
+      const [products, provinces, productHistory, provinceHistory, productProvinceHistory] = await Promise.all([
+        request<Product[]>(REST_RESOURCES.products),
+        request<Province[]>(REST_RESOURCES.provinces),
+        request<ProductMetricSnapshot[]>(REST_RESOURCES.productHistory),
+        request<ProvinceMetricRecord[]>(REST_RESOURCES.provinceHistory),
+        request<ProductProvinceMetricRecord[]>(REST_RESOURCES.productProvinceHistory),
+      ]);
+      return { products, provinces, productHistory, provinceHistory, productProvinceHistory };
+    }, options),
+
+    // 各维度筛选作为同名查询参数，同一维度的多个取值重复传递
+    getMarketData: async (brand, filters = {}) => {
+      const params = new URLSearchParams({ brand });
+      (Object.keys(filters) as Exclude<MarketDimension, 'brand'>[]).forEach((dimension) =>
+        filters[dimension]?.forEach((value) => params.append(dimension, value))
+      );
+      const points = await request<StoredMarketDataPoint[]>(`${REST_RESOURCES.marketData}?${params.toString()}`);
+      return points.map(reviveMarketDataPoint);
+    },
+
+    workspace: createRestWorkspace(baseUrl),
+  };
+}
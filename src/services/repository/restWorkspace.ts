@@ -0,0 +1,64 @@
+import { createRestRequest, RepositoryHttpError, RestRequest } from './restClient';
+import { createWorkspaceCollections, nextUpdatedAt, RepositoryConflictError, WORKSPACE_SPECS } from './shared';
+import { WorkspaceCollection, WorkspaceCollectionName, WorkspaceCollections, WorkspaceRecords } from './types';
+
+// 工作区 REST 接口：GET/POST /{collection}，PUT/DELETE /{collection}/{id}（带 If-Match 版本检查）
+// 工作区服务端（见 api/_lib/workspaceApi.ts）会覆盖 updatedAt；mock-server 示例接口同样检查版本，但直接保存客户端写入的时间
+export function createRestWorkspace(baseUrl: string): WorkspaceCollections {
+  const request = createRestRequest(baseUrl);
+
+  return createWorkspaceCollections((name) => createRestCollection(request, name));
+}
+
+function createRestCollection<K extends WorkspaceCollectionName>(
+  request: RestRequest,
+  name: K
+): WorkspaceCollection<WorkspaceRecords[K]> {
+  type Record = WorkspaceRecords[K];
+  const spec = WORKSPACE_SPECS[name];
+  const item = (record: Record) => `${name}/${encodeURIComponent(spec.getKey(record))}`;
+  // 409 响应中的最新版本同样需要恢复日期字段
+  const rethrow = (error: unknown): never => {
+    if (error instanceof RepositoryConflictError && error.current) {
+      throw new RepositoryConflictError(spec.revive(error.current as Record));
+    }
+    throw error;
+  };
+
+  return {
+    getKey: spec.getKey,
+    list: async () => {
+      const records = (await request<Record[]>(name)).map(spec.revive);
+      return spec.compare ? records.sort(spec.compare) : records;
+    },
+    create: async (record) => {
+      const saved = await request<Record>(name, { method: 'POST', body: { ...record, updatedAt: nextUpdatedAt() } }).catch(
+        rethrow
+      );
+      return spec.revive(saved);
+    },
+    update: async (record) => {
+      try {
+        const saved = await request<Record>(item(record), {
+          method: 'PUT',
+          body: { ...record, updatedAt: nextUpdatedAt(record.updatedAt) },
+          ifMatch: record.updatedAt,
+        });
+        return spec.revive(saved);
+      } catch (error) {
+        // 记录已被删除
+        if (error instanceof RepositoryHttpError && error.status === 404) throw new RepositoryConflictError(null);
+        return rethrow(error);
+      }
+    },
+    remove: async (record) => {
+      try {
+        await request<void>(item(record), { method: 'DELETE', ifMatch: record.updatedAt });
+      } catch (error) {
+        // 已被删除视为成功
+        if (error instanceof RepositoryHttpError && error.status === 404) return;
+        rethrow(error);
+      }
+    },
+  };
+}
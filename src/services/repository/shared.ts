@@ -0,0 +1,238 @@
+import { MarketDataPoint } from '../../types/strategy';
+import { defaultReasonDimensions, mockOpportunities, mockStrategyProposals } from '../../data/strategyMockData';
+import { DEFAULT_HEALTH_SCORE_CONFIG, HealthScoreConfig } from '../healthScore';
+import { filterMarketFacts } from '../marketSegments';
+import { createPerformanceStore, PerformanceSource, PerformanceStore } from '../performanceStore';
+import { DEFAULT_METRIC_TARGETS, MetricTarget } from '../targets';
+import {
+  DataRepository,
+  DataRepositoryOptions,
+  MarketDataFilters,
+  WorkspaceCollection,
+  WorkspaceCollectionName,
+  WorkspaceCollections,
+  WorkspaceRecords,
+} from './types';
+
+// 早期示例数据均为立普妥，未标注品牌的数据点按立普妥处理
+export const DEFAULT_MARKET_BRAND = '立普妥';
+
+// 导入数据或早期数据缺少的维度取值
+export const UNSPECIFIED_DIMENSION_VALUE = '未指定';
+
+// 早期版本的大盘数据以 dimension1/dimension2 存储渠道和科室，且缺少其他维度
+export type StoredMarketDataPoint = Pick<MarketDataPoint, 'id' | 'value'> &
+  Partial<MarketDataPoint> & { dimension1?: string; dimension2?: string };
+
+export function reviveMarketDataPoint({ dimension1, dimension2, ...point }: StoredMarketDataPoint): MarketDataPoint {
+  return {
+    ...point,
+    channel: point.channel ?? dimension1 ?? UNSPECIFIED_DIMENSION_VALUE,
+    department: point.department ?? dimension2 ?? UNSPECIFIED_DIMENSION_VALUE,
+    class: point.class ?? UNSPECIFIED_DIMENSION_VALUE,
+    molecule: point.molecule ?? UNSPECIFIED_DIMENSION_VALUE,
+    priceBand: point.priceBand ?? UNSPECIFIED_DIMENSION_VALUE,
+    province: point.province ?? UNSPECIFIED_DIMENSION_VALUE,
+    brand: point.brand ?? DEFAULT_MARKET_BRAND,
+  };
+}
+
+export function filterMarketData(data: MarketDataPoint[], brand: string, filters: MarketDataFilters = {}): MarketDataPoint[] {
+  return filterMarketFacts(
+    data.filter((point) => point.brand === brand),
+    filters
+  );
+}
+
+type PerformanceQueries = Pick<
+  DataRepository,
+  | 'getProducts'
+  | 'getProvinces'
+  | 'listPeriods'
+  | 'getProductPerformance'
+  | 'getProvincePerformance'
+  | 'getProductHistory'
+  | 'getProvinceHistory'
+  | 'getProductProvinceBreakdown'
+  | 'getShareChangeDecomposition'
+>;
+
+// 各实现只需提供原始时间序列，环比/同比和健康度评分统一由 performanceStore 推导
+export function createPerformanceQueries(
+  loadSource: () => Promise<PerformanceSource>,
+  {
+    getHealthScoreConfig = () => DEFAULT_HEALTH_SCORE_CONFIG,
+    getMetricTargets = () => DEFAULT_METRIC_TARGETS,
+    getRevision = () => '',
+  }: DataRepositoryOptions = {}
+): PerformanceQueries {
+  // 同一数据版本内的查询共用一次加载，加载失败时下次查询重试
+  let cachedSource: { revision: string; promise: Promise<PerformanceSource> } | null = null;
+  const getSource = () => {
+    const revision = getRevision();
+    if (cachedSource?.revision !== revision) {
+      const promise = loadSource();
+      cachedSource = { revision, promise };
+      promise.catch(() => {
+        if (cachedSource?.promise === promise) cachedSource = null;
+      });
+    }
+    return cachedSource.promise;
+  };
+
+  let cached: {
+    source: PerformanceSource;
+    config: HealthScoreConfig;
+    targets: MetricTarget[];
+    store: PerformanceStore;
+  } | null = null;
+  const loadStore = async () => {
+    const source = await getSource();
+    const config = getHealthScoreConfig();
+    const targets = getMetricTargets();
+    if (cached?.source !== source || cached.config !== config || cached.targets !== targets) {
+      cached = { source, config, targets, store: createPerformanceStore(source, config, targets) };
+    }
+    return cached.store;
+  };
+
+  return {
+    getProducts: async () => (await getSource()).products,
+    getProvinces: async () => (await getSource()).provinces,
+    listPeriods: async () => (await loadStore()).listPeriods(),
+    getProductPerformance: async (period) => (await loadStore()).getProductPerformance(period),
+    getProvincePerformance: async (period) => (await loadStore()).getProvincePerformance(period),
+    getProductHistory: async (productId, upToPeriod) => (await loadStore()).getProductHistory(productId, upToPeriod),
+    getProvinceHistory: async (provinceId, upToPeriod) => (await loadStore()).getProvinceHistory(provinceId, upToPeriod),
+    getProductProvinceBreakdown: async (productId, period, metric) =>
+      (await loadStore()).getProductProvinceBreakdown(productId, period, metric),
+    getShareChangeDecomposition: async (productId, period) =>
+      (await loadStore()).getShareChangeDecomposition(productId, period),
+  };
+}
+
+// 保存时记录已被修改（current 为最新版本）或已被删除（current 为 null）
+export class RepositoryConflictError<T = unknown> extends Error {
+  constructor(public readonly current: T | null) {
+    super(current ? 'Record was modified by another client' : 'Record was deleted by another client');
+    this.name = 'RepositoryConflictError';
+  }
+}
+
+interface WorkspaceCollectionSpec<T> {
+  getKey: (record: T) => string;
+  revive: (raw: T) => T; // JSON 反序列化后恢复日期字段
+  compare?: (a: T, b: T) => number; // 列表排序
+}
+
+const toDate = <T extends Date | undefined>(value: T): T => (value === undefined ? value : (new Date(value) as T));
+
+export const WORKSPACE_SPECS: { [K in WorkspaceCollectionName]: WorkspaceCollectionSpec<WorkspaceRecords[K]> } = {
+  opportunities: {
+    getKey: (o) => o.id,
+    revive: (o) => ({ ...o, createdAt: toDate(o.createdAt), updatedAt: toDate(o.updatedAt) }),
+    compare: (a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
+  },
+  reasonDimensions: {
+    getKey: (d) => d.id,
+    revive: (d) => ({ ...d, updatedAt: toDate(d.updatedAt) }),
+  },
+  opportunityAnalyses: {
+    getKey: (a) => a.opportunityId,
+    revive: (a) => ({ ...a, createdAt: toDate(a.createdAt), updatedAt: toDate(a.updatedAt) }),
+  },
+  strategyProposals: {
+    getKey: (p) => p.id,
+    revive: (p) => ({ ...p, createdAt: toDate(p.createdAt), updatedAt: toDate(p.updatedAt) }),
+    compare: (a, b) => a.priority - b.priority,
+  },
+  strategyDiscussions: {
+    getKey: (d) => d.id,
+    revive: (d) => ({
+      ...d,
+      updatedAt: toDate(d.updatedAt),
+      messages: d.messages.map((m) => ({ ...m, timestamp: toDate(m.timestamp) })),
+    }),
+  },
+};
+
+export const WORKSPACE_COLLECTION_NAMES = Object.keys(WORKSPACE_SPECS) as WorkspaceCollectionName[];
+
+export type WorkspaceSeed = { [K in WorkspaceCollectionName]?: WorkspaceRecords[K][] };
+
+// 首次使用时写入的示例数据
+export const DEFAULT_WORKSPACE_SEED: WorkspaceSeed = {
+  opportunities: mockOpportunities,
+  reasonDimensions: defaultReasonDimensions,
+  strategyProposals: mockStrategyProposals,
+};
+
+// 新版本时间戳，保证同一记录的 updatedAt 严格递增
+export function nextUpdatedAt(previous?: Date): Date {
+  return new Date(Math.max(Date.now(), (previous?.getTime() ?? 0) + 1));
+}
+
+const sameVersion = (a?: Date, b?: Date) => (a ? new Date(a).getTime() : null) === (b ? new Date(b).getTime() : null);
+
+// 本地存储（内存 / IndexedDB）的最小读写接口
+export interface RecordStorage<T> {
+  getAll: () => Promise<T[]>;
+  get: (key: string) => Promise<T | undefined>;
+  put: (record: T) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+}
+
+// 在本地存储上实现与工作区接口一致的版本检查
+export function createLocalCollection<T extends { updatedAt?: Date }>(
+  spec: WorkspaceCollectionSpec<T>,
+  storage: RecordStorage<T>
+): WorkspaceCollection<T> {
+  const load = async (key: string) => {
+    const stored = await storage.get(key);
+    return stored ? spec.revive(stored) : undefined;
+  };
+
+  return {
+    getKey: spec.getKey,
+    list: async () => {
+      const records = (await storage.getAll()).map(spec.revive);
+      return spec.compare ? records.sort(spec.compare) : records;
+    },
+    create: async (record) => {
+      const existing = await load(spec.getKey(record));
+      if (existing) throw new RepositoryConflictError(existing);
+      const saved = { ...record, updatedAt: nextUpdatedAt() };
+      await storage.put(saved);
+      return saved;
+    },
+    update: async (record) => {
+      const current = await load(spec.getKey(record));
+      if (!current || !sameVersion(current.updatedAt, record.updatedAt)) {
+        throw new RepositoryConflictError(current ?? null);
+      }
+      const saved = { ...record, updatedAt: nextUpdatedAt(current.updatedAt) };
+      await storage.put(saved);
+      return saved;
+    },
+    remove: async (record) => {
+      const key = spec.getKey(record);
+      const current = await load(key);
+      if (!current) return;
+      if (!sameVersion(current.updatedAt, record.updatedAt)) throw new RepositoryConflictError(current);
+      await storage.delete(key);
+    },
+  };
+}
+
+// 按集合名创建全部工作区集合
+export function createWorkspaceCollections(
+  create: <K extends WorkspaceCollectionName>(name: K) => WorkspaceCollection<WorkspaceRecords[K]>
+): WorkspaceCollections {
+  return {
+    opportunities: create('opportunities'),
+    reasonDimensions: create('reasonDimensions'),
+    opportunityAnalyses: create('opportunityAnalyses'),
+    strategyProposals: create('strategyProposals'),
+    strategyDiscussions: create('strategyDiscussions'),
+  };
+}
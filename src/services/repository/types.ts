@@ -0,0 +1,86 @@
+import {
+  Product,
+  ProductMetricSnapshot,
+  ProductPerformance,
+  ProductProvinceBreakdown,
+  ProductProvinceMetricKey,
+  Province,
+  ProvinceMetricSnapshot,
+  ProvincePerformance,
+  ShareChangeDecomposition,
+} from '../../types';
+import {
+  MarketDataPoint,
+  MarketFilters,
+  Opportunity,
+  OpportunityAnalysis,
+  ReasonDimension,
+  StrategyDiscussion,
+  StrategyProposal,
+} from '../../types/strategy';
+import { HealthScoreConfig } from '../healthScore';
+import { MetricTarget } from '../targets';
+
+export type DataSourceType = 'mock' | 'indexeddb' | 'rest';
+
+export interface DataRepositoryOptions {
+  // 读取当前的健康度评分配置（可在系统设置中修改），未提供时使用默认配置
+  getHealthScoreConfig?: () => HealthScoreConfig;
+  // 读取当前的指标目标值，作为健康度各维度的满分线，未提供时使用默认目标
+  getMetricTargets?: () => MetricTarget[];
+  // 当前数据版本标识（切换数据集或修改设置后变化），变化时重新加载原始数据；未提供时只加载一次
+  getRevision?: () => string;
+}
+
+// 大盘数据的维度筛选，品牌由 getMarketData 的参数指定
+export type MarketDataFilters = Omit<MarketFilters, 'brand'>;
+
+// 页面和AI助手读取业务数据的统一入口，可切换内存、IndexedDB、REST 实现
+export interface DataRepository {
+  readonly source: DataSourceType;
+
+  getProducts: () => Promise<Product[]>;
+  getProvinces: () => Promise<Province[]>;
+  listPeriods: () => Promise<string[]>; // 升序
+  getProductPerformance: (period: string) => Promise<ProductPerformance[]>;
+  getProvincePerformance: (period: string) => Promise<ProvincePerformance[]>;
+  getProductHistory: (productId: string, upToPeriod?: string) => Promise<ProductMetricSnapshot[]>;
+  getProvinceHistory: (provinceId: string, upToPeriod?: string) => Promise<ProvinceMetricSnapshot[]>;
+  // 产品指标按省份拆解，定位拖累全国表现的省份
+  getProductProvinceBreakdown: (
+    productId: string,
+    period: string,
+    metric: ProductProvinceMetricKey
+  ) => Promise<ProductProvinceBreakdown>;
+  // 分子式内份额环比变化归因到解限、渗透、做广及渠道、区域结构，无分省数据时为 null
+  getShareChangeDecomposition: (productId: string, period: string) => Promise<ShareChangeDecomposition | null>;
+  getMarketData: (brand: string, filters?: MarketDataFilters) => Promise<MarketDataPoint[]>;
+
+  // 策略工作区（机会点、原因维度、机会分析、策略建议、策略讨论）
+  workspace: WorkspaceCollections;
+}
+
+// 工作区记录的增删改查，采用乐观并发控制：
+// - 记录的 updatedAt 由存储层在每次保存时写入，调用方无需设置
+// - update/remove 传入的记录需带有读取时的 updatedAt，期间已被他人修改时抛出 RepositoryConflictError
+// - ID 由调用方生成
+export interface WorkspaceCollection<T> {
+  getKey: (record: T) => string;
+  list: () => Promise<T[]>;
+  create: (record: T) => Promise<T>;
+  update: (record: T) => Promise<T>;
+  remove: (record: T) => Promise<void>;
+}
+
+// 工作区各集合的记录类型
+export interface WorkspaceRecords {
+  opportunities: Opportunity;
+  reasonDimensions: ReasonDimension;
+  opportunityAnalyses: OpportunityAnalysis; // 每个机会点一份，以 opportunityId 为主键
+  strategyProposals: StrategyProposal;
+  strategyDiscussions: StrategyDiscussion;
+}
+
+export type WorkspaceCollectionName = keyof WorkspaceRecords;
+
+export type WorkspaceCollections = { [K in WorkspaceCollectionName]: WorkspaceCollection<WorkspaceRecords[K]> };
@@ -0,0 +1,67 @@
+import { PROVINCE_TARGET_METRIC_KEYS, TARGET_METRIC_LABELS } from '../targets';
+import { RiskRule } from './engine';
+
+// 内置风险规则，可在系统设置中修改、停用或恢复
+export const DEFAULT_RISK_RULES: RiskRule[] = [
+  {
+    id: 'product-internal-share-drop',
+    name: '分子式内份额下降',
+    entityType: 'product',
+    enabled: true,
+    severity: 'high',
+    conditions: [
+      { expression: 'moleculeShareChange', operator: '>', threshold: 0 },
+      { expression: 'moleculeInternalShareChange', operator: '<', threshold: -2 },
+    ],
+    message: '分子式份额上升{{moleculeShareChange}}%，但分子式内份额下降{{abs(moleculeInternalShareChange)}}%',
+    indicators: ['分子式内份额', '分子式份额'],
+    magnitude: 'abs(moleculeInternalShareChange)',
+  },
+  {
+    id: 'product-delimit-drop',
+    name: '解限率下降',
+    entityType: 'product',
+    enabled: true,
+    severity: 'high',
+    conditions: [{ expression: 'deLimitRateChange', operator: '<', threshold: -3 }],
+    message: '解限率下降{{abs(deLimitRateChange)}}%，可能影响市场准入',
+    indicators: ['解限率'],
+    magnitude: 'abs(deLimitRateChange)',
+  },
+  {
+    id: 'product-competitor-rise',
+    name: '竞品份额上升',
+    entityType: 'product',
+    enabled: true,
+    severity: 'medium',
+    conditions: [{ expression: 'competitorShareChange', operator: '>', threshold: 2 }],
+    message: '竞品份额上升{{competitorShareChange}}%，竞争加剧',
+    indicators: ['竞品份额'],
+    magnitude: 'competitorShareChange',
+  },
+  {
+    id: 'province-health-poor',
+    name: '健康度评分偏低',
+    entityType: 'province',
+    enabled: true,
+    severity: 'high',
+    conditions: [{ expression: 'healthScore - healthAverageLine', operator: '<', threshold: 0 }],
+    message: '健康度评分{{healthScore}}分，处于较差区间',
+    indicators: ['健康度评分'],
+    magnitude: 'healthAverageLine - healthScore',
+  },
+  // 各指标低于目标配置中的预警线（未设置预警线的指标不会触发）
+  ...PROVINCE_TARGET_METRIC_KEYS.map(
+    (key): RiskRule => ({
+      id: `province-${key}-below-warning`,
+      name: `${TARGET_METRIC_LABELS[key]}偏低`,
+      entityType: 'province',
+      enabled: true,
+      severity: 'medium',
+      conditions: [{ expression: `${key} - ${key}Warning`, operator: '<', threshold: 0 }],
+      message: `${TARGET_METRIC_LABELS[key]}{{${key}}}，低于预警线{{${key}Warning}}（目标值{{${key}Target}}）`,
+      indicators: [TARGET_METRIC_LABELS[key]],
+      magnitude: `${key}Warning - ${key}`,
+    })
+  ),
+];
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateRiskRules, RiskRule, RiskSubject, validateRiskRule } from './engine';
+
+const rule = (id: string, severity: RiskRule['severity'], expression = 'share', threshold = 0): RiskRule => ({
+  id,
+  name: id,
+  entityType: 'product',
+  enabled: true,
+  severity,
+  conditions: [{ expression, operator: '>', threshold }],
+  message: '份额{{share}}',
+  indicators: [],
+  magnitude: 'share',
+});
+
+const subject: RiskSubject = {
+  entityType: 'product',
+  entityId: 'p1',
+  entityName: '产品一',
+  period: '2024-Q1',
+  variables: { share: 12 },
+};
+
+describe('evaluateRiskRules', () => {
+  it('按严重程度从高到低返回，同一等级保持规则顺序', () => {
+    const alerts = evaluateRiskRules(
+      [rule('low', 'low'), rule('medium-1', 'medium'), rule('high', 'high'), rule('medium-2', 'medium')],
+      subject
+    );
+
+    expect(alerts.map((alert) => alert.riskType)).toEqual(['high', 'medium-1', 'medium-2', 'low']);
+  });
+
+  it('跳过停用、对象类型不符、条件不满足或变量缺失的规则', () => {
+    const alerts = evaluateRiskRules(
+      [
+        { ...rule('disabled', 'high'), enabled: false },
+        { ...rule('province', 'high'), entityType: 'province' },
+        rule('below', 'high', 'share', 20),
+        rule('missing', 'high', 'share - shareWarning'),
+        rule('hit', 'low'),
+      ],
+      subject
+    );
+
+    expect(alerts).toEqual([
+      {
+        productId: 'p1',
+        productName: '产品一',
+        riskLevel: 'low',
+        riskType: 'hit',
+        description: '份额12',
+        indicators: [],
+        changeMagnitude: 12,
+      },
+    ]);
+  });
+});
+
+describe('validateRiskRule', () => {
+  it('拒绝对象类型不支持的变量', () => {
+    expect(validateRiskRule(rule('r', 'high', 'moleculeShare - unknownMetric'))).toBe(
+      '条件1的表达式使用了未知变量：unknownMetric'
+    );
+    expect(validateRiskRule(rule('r', 'high', 'moleculeShare'))).toBe('描述模板中的 {{share}}使用了未知变量：share');
+  });
+
+  it('语法错误时返回带位置的提示', () => {
+    expect(validateRiskRule(rule('r', 'high', 'moleculeShare +'))).toBe('条件1的表达式有误：表达式不完整（第16个字符）');
+  });
+});
@@ -0,0 +1,243 @@
+import { PRODUCT_METRIC_KEYS } from '../performanceStore';
+import { HealthScoreBands, HealthScoreConfig } from '../healthScore';
+import { MetricTarget, ResolvedTargets, resolveTargets, PROVINCE_TARGET_METRIC_KEYS, TARGET_METRIC_LABELS } from '../targets';
+import { ProductMetricKey, ProductPerformance, ProvincePerformance, RiskAlert } from '../../types';
+import { collectVariables, evaluateExpression, ExpressionVariables, parseExpression, RiskExpressionError } from './expression';
+
+export type RiskEntityType = 'product' | 'province';
+
+export type RiskSeverity = RiskAlert['riskLevel'];
+
+export type RiskComparator = '>' | '>=' | '<' | '<=';
+
+// 条件：表达式的值与阈值比较
+export interface RiskCondition {
+  expression: string;
+  operator: RiskComparator;
+  threshold: number;
+}
+
+// 风险规则：所有条件同时满足时生成一条风险预警
+export interface RiskRule {
+  id: string;
+  name: string; // 即预警的风险类型
+  entityType: RiskEntityType;
+  enabled: boolean;
+  severity: RiskSeverity;
+  conditions: RiskCondition[];
+  message: string; // 描述模板，{{表达式}} 替换为计算结果
+  indicators: string[]; // 相关指标
+  magnitude: string; // 变化幅度表达式
+}
+
+// 规则评估对象：产品或省份在某一周期的指标
+export interface RiskSubject {
+  entityType: RiskEntityType;
+  entityId: string;
+  entityName: string;
+  period: string;
+  variables: ExpressionVariables;
+}
+
+export interface RiskVariable {
+  name: string;
+  label: string;
+}
+
+export const RISK_ENTITY_LABELS: Record<RiskEntityType, string> = {
+  product: '产品',
+  province: '省份',
+};
+
+export const RISK_SEVERITY_LABELS: Record<RiskSeverity, string> = {
+  high: '高风险',
+  medium: '中风险',
+  low: '低风险',
+};
+
+// 严重程度排序值，越大越严重
+export const RISK_SEVERITY_RANK: Record<RiskSeverity, number> = { high: 3, medium: 2, low: 1 };
+
+export const RISK_COMPARATORS: RiskComparator[] = ['>', '>=', '<', '<='];
+
+const PRODUCT_METRIC_LABELS: Record<ProductMetricKey, string> = {
+  moleculeShare: '分子式份额',
+  moleculeInternalShare: '分子式内份额',
+  competitorShare: '竞品份额',
+  deLimitRate: '解限率',
+};
+
+// 规则表达式可用的变量（规则编辑器中展示，保存时校验）
+export const RISK_VARIABLES: Record<RiskEntityType, RiskVariable[]> = {
+  product: PRODUCT_METRIC_KEYS.flatMap((key) => [
+    { name: key, label: PRODUCT_METRIC_LABELS[key] },
+    { name: `${key}Change`, label: `${PRODUCT_METRIC_LABELS[key]}环比变化` },
+    { name: `${key}Yoy`, label: `${PRODUCT_METRIC_LABELS[key]}同比变化` },
+  ]),
+  province: [
+    ...[...PROVINCE_TARGET_METRIC_KEYS, 'healthScore' as const].flatMap((key) => {
+      const label = key === 'healthScore' ? '健康度评分' : TARGET_METRIC_LABELS[key];
+      return [
+        { name: key, label },
+        { name: `${key}Change`, label: `${label}环比变化` },
+        { name: `${key}Yoy`, label: `${label}同比变化` },
+      ];
+    }),
+    ...PROVINCE_TARGET_METRIC_KEYS.flatMap((key) => [
+      { name: `${key}Target`, label: `${TARGET_METRIC_LABELS[key]}目标值` },
+      { name: `${key}Warning`, label: `${TARGET_METRIC_LABELS[key]}预警线` },
+    ]),
+    { name: 'healthAverageLine', label: '健康度"一般"区间下限' },
+  ],
+};
+
+export function buildProductRiskSubject(product: ProductPerformance): RiskSubject {
+  const variables: ExpressionVariables = {};
+  PRODUCT_METRIC_KEYS.forEach((key) => {
+    variables[key] = product[key];
+    variables[`${key}Yoy`] = product.yoyChanges?.[key];
+  });
+  variables.moleculeShareChange = product.moleculeShareChange;
+  variables.moleculeInternalShareChange = product.moleculeInternalShareChange;
+  variables.competitorShareChange = product.competitorShareChange;
+  variables.deLimitRateChange = product.deLimitRateChange;
+  return {
+    entityType: 'product',
+    entityId: product.productId,
+    entityName: product.productName,
+    period: product.period,
+    variables,
+  };
+}
+
+export function buildProvinceRiskSubject(
+  province: ProvincePerformance,
+  { targets, bands }: { targets: ResolvedTargets; bands: HealthScoreBands }
+): RiskSubject {
+  const variables: ExpressionVariables = { healthAverageLine: bands.average };
+  [...PROVINCE_TARGET_METRIC_KEYS, 'healthScore' as const].forEach((key) => {
+    variables[key] = province[key];
+    variables[`${key}Change`] = province.changes?.[key];
+    variables[`${key}Yoy`] = province.yoyChanges?.[key];
+  });
+  PROVINCE_TARGET_METRIC_KEYS.forEach((key) => {
+    variables[`${key}Target`] = targets[key]?.value;
+    variables[`${key}Warning`] = targets[key]?.warning;
+  });
+  return {
+    entityType: 'province',
+    entityId: province.provinceId,
+    entityName: province.provinceName,
+    period: province.period,
+    variables,
+  };
+}
+
+const compare = (value: number, operator: RiskComparator, threshold: number) => {
+  switch (operator) {
+    case '>':
+      return value > threshold;
+    case '>=':
+      return value >= threshold;
+    case '<':
+      return value < threshold;
+    default:
+      return value <= threshold;
+  }
+};
+
+const formatNumber = (value: number | undefined) => (value === undefined ? '—' : String(Math.round(value * 100) / 100));
+
+export function renderRiskMessage(template: string, variables: ExpressionVariables): string {
+  return template.replace(/\{\{(.+?)\}\}/g, (_, expression: string) => formatNumber(evaluateExpression(expression, variables)));
+}
+
+function matchesRule(rule: RiskRule, subject: RiskSubject): boolean {
+  return rule.conditions.every((condition) => {
+    const value = evaluateExpression(condition.expression, subject.variables);
+    return value !== undefined && compare(value, condition.operator, condition.threshold);
+  });
+}
+
+// 统一的风险评估入口：页面、AI分析和风险看板均通过它生成 RiskAlert
+// 按严重程度从高到低返回，同一等级保持规则顺序
+export function evaluateRiskRules(rules: RiskRule[], subject: RiskSubject): RiskAlert[] {
+  const alerts = rules.flatMap((rule): RiskAlert[] => {
+    if (!rule.enabled || rule.entityType !== subject.entityType) return [];
+    try {
+      if (!matchesRule(rule, subject)) return [];
+      return [
+        {
+          productId: subject.entityId,
+          productName: subject.entityName,
+          riskLevel: rule.severity,
+          riskType: rule.name,
+          description: renderRiskMessage(rule.message, subject.variables),
+          indicators: rule.indicators,
+          changeMagnitude: Math.round((evaluateExpression(rule.magnitude, subject.variables) ?? 0) * 100) / 100,
+        },
+      ];
+    } catch (error) {
+      console.error(`Failed to evaluate risk rule ${rule.id}:`, error);
+      return [];
+    }
+  });
+  return alerts.sort((a, b) => RISK_SEVERITY_RANK[b.riskLevel] - RISK_SEVERITY_RANK[a.riskLevel]);
+}
+
+// 按系统设置评估单个产品/省份（风险看板等批量场景使用）
+export interface RiskEvaluationSettings {
+  riskRules: RiskRule[];
+  targets: MetricTarget[];
+  healthScore: HealthScoreConfig;
+}
+
+export function evaluateProductRisks(product: ProductPerformance, settings: RiskEvaluationSettings): RiskAlert[] {
+  return evaluateRiskRules(settings.riskRules, buildProductRiskSubject(product));
+}
+
+export function evaluateProvinceRisks(province: ProvincePerformance, settings: RiskEvaluationSettings): RiskAlert[] {
+  const targets = resolveTargets(settings.targets, {
+    period: province.period,
+    provinceId: province.provinceId,
+    region: province.region,
+  });
+  return evaluateRiskRules(
+    settings.riskRules,
+    buildProvinceRiskSubject(province, { targets, bands: settings.healthScore.bands })
+  );
+}
+
+function checkExpression(expression: string, entityType: RiskEntityType, label: string): string | null {
+  try {
+    const known = new Set(RISK_VARIABLES[entityType].map((v) => v.name));
+    const unknown = Array.from(collectVariables(parseExpression(expression))).filter((name) => !known.has(name));
+    return unknown.length > 0 ? `${label}使用了未知变量：${unknown.join('、')}` : null;
+  } catch (error) {
+    return `${label}有误：${error instanceof RiskExpressionError ? error.message : String(error)}`;
+  }
+}
+
+// 规则无效时返回错误信息（用于规则编辑器校验），有效时返回 null
+export function validateRiskRule(rule: RiskRule): string | null {
+  if (!rule.name.trim()) return '规则名称不能为空';
+  if (rule.conditions.length === 0) return '至少需要一个条件';
+  for (const [index, condition] of rule.conditions.entries()) {
+    const error = checkExpression(condition.expression, rule.entityType, `条件${index + 1}的表达式`);
+    if (error) return error;
+    if (!Number.isFinite(condition.threshold)) return `条件${index + 1}的阈值必须为数字`;
+  }
+  for (const match of rule.message.matchAll(/\{\{(.+?)\}\}/g)) {
+    const error = checkExpression(match[1], rule.entityType, `描述模板中的 {{${match[1]}}}`);
+    if (error) return error;
+  }
+  return checkExpression(rule.magnitude, rule.entityType, '变化幅度表达式');
+}
+
+export function validateRiskRules(rules: RiskRule[]): string | null {
+  for (const rule of rules) {
+    const error = validateRiskRule(rule);
+    if (error) return `「${rule.name || '未命名规则'}」${error}`;
+  }
+  return null;
+}
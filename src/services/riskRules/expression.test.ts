@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { collectVariables, evaluateExpression, parseExpression, RiskExpressionError } from './expression';
+
+const parseError = (source: string) => {
+  try {
+    parseExpression(source);
+  } catch (error) {
+    return error as RiskExpressionError;
+  }
+  throw new Error(`"${source}" 应当解析失败`);
+};
+
+describe('evaluateExpression', () => {
+  it('乘除优先于加减，括号改变优先级，同级从左到右', () => {
+    expect(evaluateExpression('1 + 2 * 3', {})).toBe(7);
+    expect(evaluateExpression('(1 + 2) * 3', {})).toBe(9);
+    expect(evaluateExpression('10 - 4 - 3', {})).toBe(3);
+    expect(evaluateExpression('12 / 3 / 2', {})).toBe(2);
+  });
+
+  it('一元负号作用于紧随的因子', () => {
+    expect(evaluateExpression('-2 * 3', {})).toBe(-6);
+    expect(evaluateExpression('-(2 + 3)', {})).toBe(-5);
+    expect(evaluateExpression('4 - -x', { x: 1 })).toBe(5);
+    expect(evaluateExpression('+x', { x: 2 })).toBe(2);
+  });
+
+  it('支持变量和 abs/min/max/round 函数', () => {
+    const variables = { change: -3.456, share: 12 };
+    expect(evaluateExpression('abs(change)', variables)).toBe(3.456);
+    expect(evaluateExpression('min(share, 10, 20)', variables)).toBe(10);
+    expect(evaluateExpression('max(share, 10)', variables)).toBe(12);
+    expect(evaluateExpression('round(change, 1)', variables)).toBe(-3.5);
+  });
+
+  it('除以0或变量缺失时结果为 undefined', () => {
+    expect(evaluateExpression('share / 0', { share: 12 })).toBeUndefined();
+    expect(evaluateExpression('share - shareWarning', { share: 12 })).toBeUndefined();
+    expect(evaluateExpression('-missing', {})).toBeUndefined();
+    expect(evaluateExpression('abs(missing)', {})).toBeUndefined();
+  });
+});
+
+describe('parseExpression', () => {
+  it('语法错误时给出出错位置', () => {
+    expect(parseError('1 + ')).toMatchObject({ position: 4 });
+    expect(parseError('(1 + 2')).toMatchObject({ position: 6, message: '缺少 ")"（第7个字符）' });
+    expect(parseError('share # 2')).toMatchObject({ position: 6, message: '无法识别的字符：#（第7个字符）' });
+    expect(parseError('1 2')).toMatchObject({ position: 2 });
+    expect(parseError('* 2')).toMatchObject({ position: 0 });
+    expect(parseError('  ')).toMatchObject({ position: undefined, message: '表达式为空' });
+  });
+
+  it('拒绝未知函数和参数个数不正确的调用', () => {
+    expect(parseError('x + sqrt(4)')).toMatchObject({ position: 4, message: '不支持的函数：sqrt（第5个字符）' });
+    expect(parseError('min(1)')).toMatchObject({ position: 0 });
+    expect(parseError('abs(1, 2)')).toBeInstanceOf(RiskExpressionError);
+  });
+
+  it('collectVariables 收集表达式中的全部变量', () => {
+    expect(Array.from(collectVariables(parseExpression('abs(a - b) / max(c, 1)')))).toEqual(['a', 'b', 'c']);
+  });
+});
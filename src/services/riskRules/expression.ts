@@ -0,0 +1,202 @@
+// 规则中使用的指标表达式：数字、变量、+ - * /、括号及 abs/min/max/round 函数，
+// 例如 "abs(moleculeInternalShareChange)"、"deLimitRate - deLimitRateWarning"
+// 任一变量缺失（如上期无数据、未设置预警线）时结果为 undefined，对应条件视为不满足
+
+// position 为出错位置（从0开始的字符下标），消息中按从1开始的字符序号提示
+export class RiskExpressionError extends Error {
+  constructor(
+    message: string,
+    public readonly position?: number
+  ) {
+    super(position === undefined ? message : `${message}（第${position + 1}个字符）`);
+    this.name = 'RiskExpressionError';
+  }
+}
+
+type ExpressionNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'variable'; name: string }
+  | { kind: 'unary'; operand: ExpressionNode }
+  | { kind: 'binary'; operator: '+' | '-' | '*' | '/'; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'call'; name: string; args: ExpressionNode[] };
+
+export type ExpressionVariables = Record<string, number | undefined>;
+
+const FUNCTIONS: Record<string, { arity: [number, number]; apply: (...args: number[]) => number }> = {
+  abs: { arity: [1, 1], apply: Math.abs },
+  min: { arity: [2, Infinity], apply: Math.min },
+  max: { arity: [2, Infinity], apply: Math.max },
+  round: {
+    arity: [1, 2],
+    apply: (value, digits = 0) => {
+      const factor = 10 ** digits;
+      return Math.round(value * factor) / factor;
+    },
+  },
+};
+
+// start 为记号在表达式中的起始下标，用于错误提示
+type Token = (
+  | { type: 'number'; value: number }
+  | { type: 'name'; value: string }
+  | { type: 'symbol'; value: string }
+) & { start: number };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /(\d+(?:\.\d+)?|\.\d+)|([A-Za-z_][A-Za-z0-9_]*)|([-+*/(),])/y;
+  let index = 0;
+  while (index < source.length) {
+    if (/\s/.test(source[index])) {
+      index++;
+      continue;
+    }
+    pattern.lastIndex = index;
+    const match = pattern.exec(source);
+    if (!match) throw new RiskExpressionError(`无法识别的字符：${source[index]}`, index);
+    if (match[1] !== undefined) tokens.push({ type: 'number', value: Number(match[1]), start: index });
+    else if (match[2] !== undefined) tokens.push({ type: 'name', value: match[2], start: index });
+    else tokens.push({ type: 'symbol', value: match[3], start: index });
+    index = pattern.lastIndex;
+  }
+  return tokens;
+}
+
+// 递归下降解析：expression := term (('+'|'-') term)*，term := factor (('*'|'/') factor)*
+export function parseExpression(source: string): ExpressionNode {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isSymbol = (value: string) => {
+    const token = peek();
+    return token?.type === 'symbol' && token.value === value;
+  };
+  const expectSymbol = (value: string) => {
+    if (!isSymbol(value)) throw new RiskExpressionError(`缺少 "${value}"`, peek()?.start ?? source.length);
+    position++;
+  };
+
+  const parseFactor = (): ExpressionNode => {
+    const token = peek();
+    if (!token) throw new RiskExpressionError('表达式不完整', source.length);
+    position++;
+    if (token.type === 'number') return { kind: 'number', value: token.value };
+    if (token.type === 'name') {
+      if (!isSymbol('(')) return { kind: 'variable', name: token.value };
+      const fn = FUNCTIONS[token.value];
+      if (!fn) throw new RiskExpressionError(`不支持的函数：${token.value}`, token.start);
+      position++;
+      const args: ExpressionNode[] = [];
+      if (!isSymbol(')')) {
+        args.push(parseSum());
+        while (isSymbol(',')) {
+          position++;
+          args.push(parseSum());
+        }
+      }
+      expectSymbol(')');
+      if (args.length < fn.arity[0] || args.length > fn.arity[1]) {
+        throw new RiskExpressionError(`函数 ${token.value} 的参数个数不正确`, token.start);
+      }
+      return { kind: 'call', name: token.value, args };
+    }
+    if (token.value === '-') return { kind: 'unary', operand: parseFactor() };
+    if (token.value === '+') return parseFactor();
+    if (token.value === '(') {
+      const inner = parseSum();
+      expectSymbol(')');
+      return inner;
+    }
+    throw new RiskExpressionError(`意外的符号 "${token.value}"`, token.start);
+  };
+
+  const parseProduct = (): ExpressionNode => {
+    let node = parseFactor();
+    while (isSymbol('*') || isSymbol('/')) {
+      const operator = (tokens[position++] as { value: '*' | '/' }).value;
+      node = { kind: 'binary', operator, left: node, right: parseFactor() };
+    }
+    return node;
+  };
+
+  function parseSum(): ExpressionNode {
+    let node = parseProduct();
+    while (isSymbol('+') || isSymbol('-')) {
+      const operator = (tokens[position++] as { value: '+' | '-' }).value;
+      node = { kind: 'binary', operator, left: node, right: parseProduct() };
+    }
+    return node;
+  }
+
+  if (tokens.length === 0) throw new RiskExpressionError('表达式为空');
+  const node = parseSum();
+  if (position < tokens.length) {
+    throw new RiskExpressionError(`多余的内容："${String(tokens[position].value)}"`, tokens[position].start);
+  }
+  return node;
+}
+
+export function collectVariables(node: ExpressionNode, names = new Set<string>()): Set<string> {
+  switch (node.kind) {
+    case 'variable':
+      names.add(node.name);
+      break;
+    case 'unary':
+      collectVariables(node.operand, names);
+      break;
+    case 'binary':
+      collectVariables(node.left, names);
+      collectVariables(node.right, names);
+      break;
+    case 'call':
+      node.args.forEach((arg) => collectVariables(arg, names));
+      break;
+  }
+  return names;
+}
+
+export function evaluateNode(node: ExpressionNode, variables: ExpressionVariables): number | undefined {
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+    case 'variable':
+      return variables[node.name];
+    case 'unary': {
+      const value = evaluateNode(node.operand, variables);
+      return value === undefined ? undefined : -value;
+    }
+    case 'binary': {
+      const left = evaluateNode(node.left, variables);
+      const right = evaluateNode(node.right, variables);
+      if (left === undefined || right === undefined) return undefined;
+      switch (node.operator) {
+        case '+':
+          return left + right;
+        case '-':
+          return left - right;
+        case '*':
+          return left * right;
+        default:
+          return right === 0 ? undefined : left / right;
+      }
+    }
+    case 'call': {
+      const args = node.args.map((arg) => evaluateNode(arg, variables));
+      if (args.some((arg) => arg === undefined)) return undefined;
+      return FUNCTIONS[node.name].apply(...(args as number[]));
+    }
+  }
+}
+
+// 同一表达式在规则评估中反复使用，缓存解析结果
+const parsedCache = new Map<string, ExpressionNode>();
+
+export function evaluateExpression(source: string, variables: ExpressionVariables): number | undefined {
+  let node = parsedCache.get(source);
+  if (!node) {
+    node = parseExpression(source);
+    parsedCache.set(source, node);
+  }
+  return evaluateNode(node, variables);
+}
@@ -0,0 +1,27 @@
+export {
+  buildProductRiskSubject,
+  buildProvinceRiskSubject,
+  evaluateProductRisks,
+  evaluateProvinceRisks,
+  evaluateRiskRules,
+  renderRiskMessage,
+  RISK_COMPARATORS,
+  RISK_ENTITY_LABELS,
+  RISK_SEVERITY_LABELS,
+  RISK_SEVERITY_RANK,
+  RISK_VARIABLES,
+  validateRiskRule,
+  validateRiskRules,
+} from './engine';
+export type {
+  RiskComparator,
+  RiskCondition,
+  RiskEntityType,
+  RiskEvaluationSettings,
+  RiskRule,
+  RiskSeverity,
+  RiskSubject,
+  RiskVariable,
+} from './engine';
+export { DEFAULT_RISK_RULES } from './defaultRules';
+export { RiskExpressionError } from './expression';
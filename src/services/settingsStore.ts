@@ -0,0 +1,60 @@
+import { DEFAULT_HEALTH_SCORE_CONFIG, HEALTH_SCORE_DIMENSION_KEYS, HealthScoreConfig } from './healthScore';
+import { DEFAULT_METRIC_TARGETS, MetricTarget } from './targets';
+import { DEFAULT_RISK_RULES, RiskRule } from './riskRules';
+import { DEFAULT_OPPORTUNITY_SCORE_WEIGHTS, OpportunityScoreWeights } from './opportunityScoring';
+
+const SETTINGS_STORAGE_KEY = 'app-settings';
+
+// 系统设置（保存在浏览器本地）
+export interface AppSettings {
+  healthScore: HealthScoreConfig;
+  targets: MetricTarget[]; // 指标目标值（全国/区域/省份）
+  riskRules: RiskRule[]; // 风险预警规则
+  opportunityScoreWeights: OpportunityScoreWeights; // Mekko看板机会点评分的因素权重
+  updatedAt: string; // 每次修改时更新，用于触发数据重新计算
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  healthScore: DEFAULT_HEALTH_SCORE_CONFIG,
+  targets: DEFAULT_METRIC_TARGETS,
+  riskRules: DEFAULT_RISK_RULES,
+  opportunityScoreWeights: DEFAULT_OPPORTUNITY_SCORE_WEIGHTS,
+  updatedAt: '',
+};
+
+// 与默认值合并，兼容旧版本保存的设置缺少新增字段
+function mergeHealthScoreConfig(stored: Partial<HealthScoreConfig> | undefined): HealthScoreConfig {
+  const defaults = DEFAULT_HEALTH_SCORE_CONFIG;
+  return {
+    // 早期版本在这里保存各维度的目标值，现统一读取指标目标值，只保留权重和基准值
+    dimensions: Object.fromEntries(
+      HEALTH_SCORE_DIMENSION_KEYS.map((key) => {
+        const { weight, floor } = { ...defaults.dimensions[key], ...stored?.dimensions?.[key] };
+        return [key, { weight, floor }];
+      })
+    ) as HealthScoreConfig['dimensions'],
+    bands: { ...defaults.bands, ...stored?.bands },
+  };
+}
+
+export function loadSettings(): AppSettings {
+  try {
+    const raw = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    const stored = JSON.parse(raw) as Partial<AppSettings>;
+    return {
+      healthScore: mergeHealthScoreConfig(stored.healthScore),
+      targets: Array.isArray(stored.targets) ? stored.targets : DEFAULT_METRIC_TARGETS,
+      riskRules: Array.isArray(stored.riskRules) ? stored.riskRules : DEFAULT_RISK_RULES,
+      opportunityScoreWeights: { ...DEFAULT_OPPORTUNITY_SCORE_WEIGHTS, ...stored.opportunityScoreWeights },
+      updatedAt: stored.updatedAt ?? '',
+    };
+  } catch (error) {
+    console.error('Failed to load settings:', error);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveSettings(settings: AppSettings): void {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { mockPeriods, mockProductProvinceHistory, mockProducts, mockProvinces } from '../data/mockData';
+import { ProductProvinceMetricRecord } from '../types';
+import { decomposeShareChange } from './shareDecomposition';
+
+const cents = (value: number) => Math.round(value * 100);
+
+const record = (provinceId: string, period: string, overrides: Partial<ProductProvinceMetricRecord>): ProductProvinceMetricRecord => ({
+  productId: 'p1',
+  provinceId,
+  period,
+  moleculeInternalShare: 30,
+  deLimitRate: 60,
+  moleculeVolume: 100,
+  hospitalCount: 50,
+  penetrationShare: 40,
+  retailRatio: 20,
+  retailShare: 25,
+  ...overrides,
+});
+
+describe('decomposeShareChange', () => {
+  it('各驱动因素（四舍五入后）之和等于份额变化', () => {
+    mockProducts.forEach((product) => {
+      mockPeriods.slice(1).forEach((period, index) => {
+        const result = decomposeShareChange(mockProvinces, mockProductProvinceHistory, product.id, period, mockPeriods[index])!;
+        const driverTotal = result.drivers.reduce((sum, driver) => sum + cents(driver.value), 0);
+        expect(driverTotal, `${product.id} ${period}`).toBe(cents(result.endValue) - cents(result.startValue));
+      });
+    });
+  });
+
+  it('单个省份的份额变化按解限、渗透、做广、零售拆解', () => {
+    const records = [
+      record('sh', '2024-Q1', { moleculeInternalShare: 32.5, deLimitRate: 66.7, penetrationShare: 41.3, retailShare: 26.1 }),
+      record('sh', '2023-Q4', {}),
+    ];
+    const result = decomposeShareChange(mockProvinces, records, 'p1', '2024-Q1', '2023-Q4')!;
+    const value = (key: string) => result.drivers.find((driver) => driver.key === key)!.value;
+
+    expect(result.endValue - result.startValue).toBeCloseTo(2.5);
+    expect(value('deLimit')).toBeGreaterThan(0);
+    expect(value('penetration')).toBeGreaterThan(0);
+    expect(value('retail')).toBeGreaterThan(0);
+    expect(value('channelMix')).toBe(0);
+    expect(value('provinceMix')).toBe(0);
+    expect(result.drivers.some((driver) => driver.key === 'unexplained')).toBe(false);
+    expect(result.drivers.reduce((sum, driver) => sum + cents(driver.value), 0)).toBe(250);
+  });
+
+  it('缺少驱动因素数据的省份计入未归因，没有分省数据时返回 null', () => {
+    const records = [
+      record('sh', '2024-Q1', { moleculeInternalShare: 31, penetrationShare: undefined }),
+      record('sh', '2023-Q4', {}),
+    ];
+    const result = decomposeShareChange(mockProvinces, records, 'p1', '2024-Q1', '2023-Q4')!;
+
+    expect(result.drivers.find((driver) => driver.key === 'unexplained')?.value).toBe(1);
+    expect(decomposeShareChange(mockProvinces, records, 'p1', '2024-Q1', '2023-Q3')).toBeNull();
+  });
+});
@@ -0,0 +1,199 @@
+import {
+  Province,
+  ProductProvinceMetricRecord,
+  ShareChangeDecomposition,
+  ShareDriverContribution,
+  ShareDriverKey,
+} from '../types';
+
+// 分子式内份额的 Y=f(x) 拆解（各比例换算为 0-1，份额保持百分数）：
+//   全国份额 Y = Σ 省份规模占比 w × 省份份额 S
+//   省份份额 S = (1 − 零售占比 r) × 医院份额 H + r × 零售份额 R
+//   医院份额 H = 解限率 D × 解限医院内份额 P + (1 − D) × 未解限医院份额 B
+// 解限对应 D，渗透对应 P，做广（未解限医院的列名/分销）对应 B。
+// 每一层都是两个因素的乘积，用两期均值做中点拆分（Δ(xy) = Δx·ȳ + x̄·Δy）时没有交叉项，各驱动因素之和严格等于份额变化
+// （保留两位小数后的舍入差额见 reconcileRounding）
+
+export const SHARE_DRIVER_KEYS: ShareDriverKey[] = [
+  'deLimit',
+  'penetration',
+  'expansion',
+  'retail',
+  'channelMix',
+  'provinceMix',
+  'unexplained',
+];
+
+export const SHARE_DRIVER_LABELS: Record<ShareDriverKey, string> = {
+  deLimit: '解限',
+  penetration: '渗透',
+  expansion: '做广',
+  retail: '零售份额',
+  channelMix: '渠道结构',
+  provinceMix: '区域结构',
+  unexplained: '未归因',
+};
+
+export const SHARE_DRIVER_DESCRIPTIONS: Record<ShareDriverKey, string> = {
+  deLimit: '解限率变化带来的解限/未解限医院结构变化',
+  penetration: '解限医院内份额变化',
+  expansion: '未解限医院份额变化（列名、分销覆盖）',
+  retail: '零售渠道份额变化',
+  channelMix: '零售渠道占比变化带来的医院/零售结构变化',
+  provinceMix: '各省分子式市场规模占比变化',
+  unexplained: '缺少驱动因素数据的省份的份额变化',
+};
+
+interface ShareDrivers {
+  share: number; // S
+  deLimit: number; // D
+  penetration: number; // P
+  expansion: number; // B
+  hospitalShare: number; // H
+  retailRatio: number; // r
+  retailShare: number; // R
+}
+
+// 由分省记录还原驱动因素，未解限医院份额 B 由 S、D、P、r、R 反推；字段不全时返回 undefined
+function driversOf(record: ProductProvinceMetricRecord): ShareDrivers | undefined {
+  const { penetrationShare, retailRatio, retailShare } = record;
+  if (penetrationShare === undefined || retailRatio === undefined || retailShare === undefined) return undefined;
+  const r = retailRatio / 100;
+  const d = record.deLimitRate / 100;
+  if (r >= 1) return undefined;
+  const hospitalShare = (record.moleculeInternalShare - r * retailShare) / (1 - r);
+  // 全部解限时不存在未解限医院，B 取 P 使做广项为 0
+  const expansion = d >= 1 ? penetrationShare : (hospitalShare - d * penetrationShare) / (1 - d);
+  return {
+    share: record.moleculeInternalShare,
+    deLimit: d,
+    penetration: penetrationShare,
+    expansion,
+    hospitalShare,
+    retailRatio: r,
+    retailShare,
+  };
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const mid = (a: number, b: number) => (a + b) / 2;
+
+// 各驱动因素分别四舍五入后，合计可能与（同样四舍五入的）首尾份额之差相差若干个 0.01；
+// 差额计入绝对值最大的驱动因素，使瀑布图首尾相接
+function reconcileRounding(drivers: ShareDriverContribution[], total: number) {
+  const remainder = Math.round(total * 100) - drivers.reduce((sum, driver) => sum + Math.round(driver.value * 100), 0);
+  if (remainder === 0 || drivers.length === 0) return;
+  const largest = drivers.reduce((a, b) => (Math.abs(b.value) > Math.abs(a.value) ? b : a));
+  largest.value = (Math.round(largest.value * 100) + remainder) / 100;
+}
+
+// 份额环比变化归因；本期或上期没有分省数据时返回 null
+export function decomposeShareChange(
+  provinces: Province[],
+  records: ProductProvinceMetricRecord[],
+  productId: string,
+  period: string,
+  previousPeriod: string
+): ShareChangeDecomposition | null {
+  const recordsOf = (p: string) =>
+    new Map(records.filter((r) => r.productId === productId && r.period === p).map((r) => [r.provinceId, r]));
+  const current = recordsOf(period);
+  const previous = recordsOf(previousPeriod);
+  if (current.size === 0 || previous.size === 0) return null;
+
+  const totalVolume = (items: Map<string, ProductProvinceMetricRecord>) =>
+    Array.from(items.values()).reduce((sum, r) => sum + r.moleculeVolume, 0);
+  const currentVolume = totalVolume(current);
+  const previousVolume = totalVolume(previous);
+  const weightOf = (record: ProductProvinceMetricRecord | undefined, total: number) =>
+    record && total > 0 ? record.moleculeVolume / total : 0;
+
+  const byProvince = new Map<ShareDriverKey, Map<string, number>>(SHARE_DRIVER_KEYS.map((key) => [key, new Map()]));
+  const add = (key: ShareDriverKey, provinceId: string, value: number) => {
+    const items = byProvince.get(key)!;
+    items.set(provinceId, (items.get(provinceId) ?? 0) + value);
+  };
+
+  let startValue = 0;
+  let endValue = 0;
+  const provinceIds = new Set([...current.keys(), ...previous.keys()]);
+  provinceIds.forEach((provinceId) => {
+    const record = current.get(provinceId);
+    const base = previous.get(provinceId);
+    const w1 = weightOf(record, currentVolume);
+    const w0 = weightOf(base, previousVolume);
+    startValue += base ? w0 * base.moleculeInternalShare : 0;
+    endValue += record ? w1 * record.moleculeInternalShare : 0;
+
+    // 仅一期有数据的省份，整体计入区域结构
+    if (!record || !base) {
+      add('provinceMix', provinceId, (record ? w1 * record.moleculeInternalShare : 0) - (base ? w0 * base.moleculeInternalShare : 0));
+      return;
+    }
+
+    const w = mid(w0, w1);
+    add('provinceMix', provinceId, (w1 - w0) * mid(base.moleculeInternalShare, record.moleculeInternalShare));
+
+    const x1 = driversOf(record);
+    const x0 = driversOf(base);
+    if (!x1 || !x0) {
+      add('unexplained', provinceId, w * (record.moleculeInternalShare - base.moleculeInternalShare));
+      return;
+    }
+
+    // 渠道层：ΔS = (1 − r̄)·ΔH + r̄·ΔR + Δr·(R̄ − H̄)
+    const r = mid(x0.retailRatio, x1.retailRatio);
+    add('retail', provinceId, w * r * (x1.retailShare - x0.retailShare));
+    add(
+      'channelMix',
+      provinceId,
+      w * (x1.retailRatio - x0.retailRatio) * (mid(x0.retailShare, x1.retailShare) - mid(x0.hospitalShare, x1.hospitalShare))
+    );
+
+    // 医院层：ΔH = ΔD·(P̄ − B̄) + D̄·ΔP + (1 − D̄)·ΔB
+    const hospitalWeight = w * (1 - r);
+    const d = mid(x0.deLimit, x1.deLimit);
+    add(
+      'deLimit',
+      provinceId,
+      hospitalWeight * (x1.deLimit - x0.deLimit) * (mid(x0.penetration, x1.penetration) - mid(x0.expansion, x1.expansion))
+    );
+    add('penetration', provinceId, hospitalWeight * d * (x1.penetration - x0.penetration));
+    add('expansion', provinceId, hospitalWeight * (1 - d) * (x1.expansion - x0.expansion));
+  });
+
+  const provinceNames = new Map(provinces.map((p) => [p.id, p.name]));
+  const drivers: ShareDriverContribution[] = SHARE_DRIVER_KEYS.flatMap((key) => {
+    const items = Array.from(byProvince.get(key)!.entries());
+    // 没有缺失数据的省份时不展示未归因
+    if (key === 'unexplained' && items.length === 0) return [];
+    return [
+      {
+        key,
+        label: SHARE_DRIVER_LABELS[key],
+        value: round(items.reduce((sum, [, value]) => sum + value, 0)),
+        topProvinces: items
+          .filter(([, value]) => Math.abs(value) >= 0.005)
+          .sort((a, b) => Math.abs(b[1]) - Math.abs(a[1]))
+          .slice(0, 3)
+          .map(([provinceId, value]) => ({
+            provinceId,
+            provinceName: provinceNames.get(provinceId) ?? provinceId,
+            value: round(value),
+          })),
+      },
+    ];
+  });
+
+  reconcileRounding(drivers, round(endValue) - round(startValue));
+
+  return {
+    productId,
+    period,
+    previousPeriod,
+    startValue: round(startValue),
+    endValue: round(endValue),
+    drivers,
+  };
+}
@@ -0,0 +1,79 @@
+// 浏览器本地持久化：统一管理应用的 IndexedDB 数据库和对象仓库
+
+const DB_NAME = 'strategy-planning-tool';
+const DB_VERSION = 4;
+
+// 对象仓库及主键，新增仓库时需要同时提升 DB_VERSION
+export const STORES = {
+  chatSessions: { name: 'chatSessions', keyPath: 'id' },
+  datasets: { name: 'datasets', keyPath: 'id' },
+  opportunities: { name: 'opportunities', keyPath: 'id' },
+  reasonDimensions: { name: 'reasonDimensions', keyPath: 'id' },
+  opportunityAnalyses: { name: 'opportunityAnalyses', keyPath: 'opportunityId' },
+  strategyProposals: { name: 'strategyProposals', keyPath: 'id' },
+  strategyDiscussions: { name: 'strategyDiscussions', keyPath: 'id' },
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES]['name'];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this environment'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.values(STORES).forEach((store) => {
+          if (!db.objectStoreNames.contains(store.name)) {
+            db.createObjectStore(store.name, { keyPath: store.keyPath });
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // 打开失败时允许下次重试
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  return promisifyRequest(run(transaction.objectStore(storeName)));
+}
+
+export function idbGetAll<T>(storeName: StoreName): Promise<T[]> {
+  return withStore(storeName, 'readonly', (store) => store.getAll() as IDBRequest<T[]>);
+}
+
+export function idbGet<T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return withStore(storeName, 'readonly', (store) => store.get(key) as IDBRequest<T | undefined>);
+}
+
+export async function idbPut<T>(storeName: StoreName, value: T): Promise<void> {
+  await withStore(storeName, 'readwrite', (store) => store.put(value));
+}
+
+export async function idbDelete(storeName: StoreName, key: IDBValidKey): Promise<void> {
+  await withStore(storeName, 'readwrite', (store) => store.delete(key));
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import {
+  mockProductHistory,
+  mockProductProvinceHistory,
+  mockProducts,
+  mockProvinceHistory,
+  mockProvinces,
+} from '../data/mockData';
+import { createPerformanceStore } from './performanceStore';
+import { DEFAULT_METRIC_TARGETS, MetricTarget, resolveHealthScoreTargets, resolveTarget } from './targets';
+
+const source = {
+  products: mockProducts,
+  provinces: mockProvinces,
+  productHistory: mockProductHistory,
+  provinceHistory: mockProvinceHistory,
+  productProvinceHistory: mockProductProvinceHistory,
+};
+
+describe('resolveHealthScoreTargets', () => {
+  it('取最具体的目标值，未配置的指标使用默认全国目标', () => {
+    const targets: MetricTarget[] = [
+      { id: 'n', metric: 'marketShare', scope: 'national', value: 10 },
+      { id: 'r', metric: 'marketShare', scope: 'region', scopeId: '华东', value: 14 },
+      { id: 'p', metric: 'marketShare', scope: 'province', scopeId: 'sh', period: '2024-Q1', value: 20 },
+    ];
+
+    expect(resolveHealthScoreTargets(targets, { period: '2024-Q1', provinceId: 'sh', region: '华东' })).toMatchObject({
+      marketShare: 20,
+      roi: 1.8,
+    });
+    expect(resolveHealthScoreTargets(targets, { period: '2023-Q4', provinceId: 'sh', region: '华东' }).marketShare).toBe(14);
+    expect(resolveHealthScoreTargets(targets, { period: '2024-Q1', provinceId: 'bj', region: '华北' }).marketShare).toBe(10);
+  });
+});
+
+describe('resolveTarget', () => {
+  const targets: MetricTarget[] = [
+    { id: 'n', metric: 'moleculeShare', scope: 'national', value: 30 },
+    { id: 'n-q1', metric: 'moleculeShare', scope: 'national', period: '2024-Q1', value: 32 },
+    { id: 'n-p1', metric: 'moleculeShare', scope: 'national', productId: 'p1', value: 40 },
+    { id: 'r', metric: 'moleculeShare', scope: 'region', scopeId: '华东', value: 35 },
+  ];
+
+  it('指定产品的目标只对该产品生效，且优先于指定周期的目标', () => {
+    expect(resolveTarget(targets, 'moleculeShare', { period: '2024-Q1', productId: 'p1' })?.value).toBe(40);
+    expect(resolveTarget(targets, 'moleculeShare', { period: '2024-Q1', productId: 'p2' })?.value).toBe(32);
+    expect(resolveTarget(targets, 'moleculeShare', { period: '2023-Q4' })?.value).toBe(30);
+  });
+
+  it('范围优先于产品', () => {
+    expect(resolveTarget(targets, 'moleculeShare', { period: '2024-Q1', productId: 'p1', region: '华东' })?.value).toBe(35);
+  });
+
+  it('健康度满分线不受指定产品的目标影响', () => {
+    const withProduct: MetricTarget[] = [
+      ...DEFAULT_METRIC_TARGETS,
+      { id: 'p', metric: 'marketShare', scope: 'national', productId: 'p1', value: 50 },
+    ];
+    expect(resolveHealthScoreTargets(withProduct, { period: '2024-Q1', provinceId: 'sh' }).marketShare).toBe(12);
+  });
+});
+
+describe('createPerformanceStore 健康度评分', () => {
+  it('各维度的满分线为该省份适用的目标值', () => {
+    const store = createPerformanceStore(source, undefined, [
+      ...DEFAULT_METRIC_TARGETS,
+      { id: 'sh-share', metric: 'marketShare', scope: 'province', scopeId: 'sh', value: 99 },
+    ]);
+    const findProvince = (provinceId: string, targetStore = store) =>
+      targetStore.getProvincePerformance('2024-Q1').find((p) => p.provinceId === provinceId)!;
+    const shareTarget = (provinceId: string) =>
+      findProvince(provinceId).healthDimensions.find((d) => d.key === 'marketShare')?.target;
+
+    expect(shareTarget('sh')).toBe(99);
+    expect(shareTarget('bj')).toBe(12);
+    expect(findProvince('sh').healthScore).toBeLessThan(findProvince('sh', createPerformanceStore(source)).healthScore);
+  });
+});
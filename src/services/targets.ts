@@ -0,0 +1,145 @@
+import { ProductMetricKey, ProvinceBaseMetricKey } from '../types';
+import { HEALTH_SCORE_DIMENSION_KEYS, HEALTH_SCORE_DIMENSION_LABELS, HealthScoreTargets } from './healthScore';
+
+// 目标值适用范围：全国 < 区域 < 省份，范围越小优先级越高
+export type TargetScope = 'national' | 'region' | 'province';
+
+// 可设置目标值的指标：省份核心指标 + 产品份额指标（竞品份额越低越好，不设目标）
+export type ProductTargetMetricKey = Exclude<ProductMetricKey, 'competitorShare'>;
+export type TargetMetricKey = ProvinceBaseMetricKey | ProductTargetMetricKey;
+
+export interface MetricTarget {
+  id: string;
+  metric: TargetMetricKey;
+  scope: TargetScope;
+  scopeId?: string; // 区域名称或省份ID，全国目标为空
+  period?: string; // 为空时适用于所有周期
+  productId?: string; // 为空时适用于所有产品
+  value: number;
+  warning?: number; // 预警线：低于此值时产生风险预警
+}
+
+// 查找目标值时的对象信息
+export interface TargetContext {
+  period: string;
+  provinceId?: string;
+  region?: string;
+  productId?: string;
+}
+
+export interface ResolvedTarget {
+  value: number;
+  warning?: number;
+  source: MetricTarget; // 实际生效的目标配置
+}
+
+export type ResolvedTargets = Partial<Record<TargetMetricKey, ResolvedTarget>>;
+
+// 省份诊断、健康度评分和省份预警使用的指标
+export const PROVINCE_TARGET_METRIC_KEYS = HEALTH_SCORE_DIMENSION_KEYS;
+
+// 产品诊断指标卡使用的指标
+export const PRODUCT_TARGET_METRIC_KEYS: ProductTargetMetricKey[] = ['moleculeShare', 'moleculeInternalShare', 'deLimitRate'];
+
+export const TARGET_METRIC_KEYS: TargetMetricKey[] = Array.from(
+  new Set<TargetMetricKey>([...PROVINCE_TARGET_METRIC_KEYS, ...PRODUCT_TARGET_METRIC_KEYS])
+);
+
+export const TARGET_METRIC_LABELS: Record<TargetMetricKey, string> = {
+  ...HEALTH_SCORE_DIMENSION_LABELS,
+  moleculeShare: '分子式份额',
+  moleculeInternalShare: '分子式内份额',
+};
+
+export const TARGET_SCOPE_LABELS: Record<TargetScope, string> = {
+  national: '全国',
+  region: '区域',
+  province: '省份',
+};
+
+export const DEFAULT_METRIC_TARGETS: MetricTarget[] = [
+  { id: 'target-national-marketShare', metric: 'marketShare', scope: 'national', value: 12 },
+  { id: 'target-national-roi', metric: 'roi', scope: 'national', value: 1.8 },
+  { id: 'target-national-nonLiluRatio', metric: 'nonLiluRatio', scope: 'national', value: 45 },
+  { id: 'target-national-deLimitRate', metric: 'deLimitRate', scope: 'national', value: 85, warning: 70 },
+  { id: 'target-national-penetrationRate', metric: 'penetrationRate', scope: 'national', value: 80 },
+];
+
+const SCOPE_RANK: Record<TargetScope, number> = { national: 0, region: 1, province: 2 };
+
+// 优先级：范围 > 产品 > 周期；同一优先级以列表中靠后的为准
+const specificity = (target: MetricTarget) =>
+  SCOPE_RANK[target.scope] * 4 + (target.productId ? 2 : 0) + (target.period ? 1 : 0);
+
+function matches(target: MetricTarget, context: TargetContext): boolean {
+  if (target.productId && target.productId !== context.productId) return false;
+  if (target.period && target.period !== context.period) return false;
+  switch (target.scope) {
+    case 'province':
+      return target.scopeId === context.provinceId;
+    case 'region':
+      return target.scopeId === context.region;
+    default:
+      return true;
+  }
+}
+
+export function resolveTarget(
+  targets: MetricTarget[],
+  metric: TargetMetricKey,
+  context: TargetContext
+): ResolvedTarget | undefined {
+  let best: MetricTarget | undefined;
+  targets.forEach((target) => {
+    if (target.metric !== metric || !matches(target, context)) return;
+    if (!best || specificity(target) >= specificity(best)) best = target;
+  });
+  return best && { value: best.value, warning: best.warning, source: best };
+}
+
+export function resolveTargets(
+  targets: MetricTarget[],
+  context: TargetContext,
+  metrics: TargetMetricKey[] = TARGET_METRIC_KEYS
+): ResolvedTargets {
+  const resolved: ResolvedTargets = {};
+  metrics.forEach((metric) => {
+    const target = resolveTarget(targets, metric, context);
+    if (target) resolved[metric] = target;
+  });
+  return resolved;
+}
+
+// 健康度评分各维度的满分线：取该省份、周期适用的目标值，未配置的指标使用默认的全国目标值
+export function resolveHealthScoreTargets(targets: MetricTarget[], context: TargetContext): HealthScoreTargets {
+  return Object.fromEntries(
+    PROVINCE_TARGET_METRIC_KEYS.map((metric) => [
+      metric,
+      resolveTarget(targets, metric, context)?.value ?? resolveTarget(DEFAULT_METRIC_TARGETS, metric, context)?.value,
+    ])
+  ) as HealthScoreTargets;
+}
+
+// 目标达成率 (%)，用于雷达图等归一化展示
+export function getAttainment(value: number, target: ResolvedTarget | undefined): number | undefined {
+  if (!target || target.value <= 0) return undefined;
+  return Math.round((value / target.value) * 1000) / 10;
+}
+
+// 配置无效时返回错误信息（用于设置页面校验），有效时返回 null
+export function validateMetricTargets(targets: MetricTarget[]): string | null {
+  const seen = new Set<string>();
+  for (const target of targets) {
+    const label = `${TARGET_SCOPE_LABELS[target.scope]}${target.scopeId ? `「${target.scopeId}」` : ''}的${TARGET_METRIC_LABELS[target.metric]}目标`;
+    if (target.scope !== 'national' && !target.scopeId) return `${label}未选择${TARGET_SCOPE_LABELS[target.scope]}`;
+    if (!Number.isFinite(target.value) || target.value <= 0) return `${label}必须为大于0的数字`;
+    if (target.warning !== undefined) {
+      if (!Number.isFinite(target.warning) || target.warning < 0) return `${label}的预警线必须为非负数字`;
+      if (target.warning > target.value) return `${label}的预警线不能高于目标值`;
+    }
+    const key = [target.metric, target.scope, target.scopeId ?? '', target.period ?? '', target.productId ?? ''].join('|');
+    if (seen.has(key)) return `${label}重复配置（相同周期和产品）`;
+    seen.add(key);
+  }
+  return null;
+}
@@ -0,0 +1,50 @@
+// 数据导入相关类型定义
+import { Product, ProductMetricSnapshot, ProductProvinceMetricRecord, Province, ProvinceMetricRecord } from './index';
+import { MarketDataPoint } from './strategy';
+
+// 可导入的数据表
+export type ImportTarget = 'productPerformance' | 'provincePerformance' | 'productProvincePerformance' | 'marketData';
+
+// merge：按主键覆盖并保留其余数据；replace：整表替换
+export type ImportMode = 'merge' | 'replace';
+
+// 一个版本的完整数据集，所有页面读取当前启用的版本
+export interface Dataset {
+  id: string;
+  version: number; // 内置示例数据为 0，每次导入递增
+  note: string; // 版本说明
+  builtIn?: boolean;
+  createdAt: Date;
+  products: Product[];
+  provinces: Province[];
+  productHistory: ProductMetricSnapshot[];
+  provinceHistory: ProvinceMetricRecord[];
+  productProvinceHistory: ProductProvinceMetricRecord[]; // 产品分省指标
+  marketData: MarketDataPoint[];
+  // 本版本的导入记录（内置数据无）
+  importLog?: {
+    target: ImportTarget;
+    mode: ImportMode;
+    fileName: string;
+    rowCount: number; // 写入的行数
+    skippedCount: number; // 因校验失败跳过的行数
+  };
+}
+
+// 导入字段定义
+export interface ImportFieldSpec {
+  key: string;
+  label: string;
+  type: 'string' | 'number' | 'period';
+  required: boolean;
+  aliases?: string[]; // 用于自动匹配表头
+  min?: number;
+  max?: number;
+}
+
+// 单元格级校验错误
+export interface ImportRowError {
+  row: number; // 文件中的行号（含表头，从1开始）
+  field: string;
+  message: string;
+}
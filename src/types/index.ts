@@ -24,6 +24,82 @@ export interface ProductPerformance {
   // 时间维度
   period: string; // 季度，如 "2024-Q1"
   previousPeriod: string; // 上一季度
+  // 同比变化（去年同期无数据时为空）
+  yoyChanges?: Partial<Record<ProductMetricKey, number>>;
+}
+
+// 产品时间序列指标
+export type ProductMetricKey = 'moleculeShare' | 'moleculeInternalShare' | 'competitorShare' | 'deLimitRate';
+
+// 产品某一周期的指标快照（按产品+周期存储，变化值由历史推导）
+export type ProductMetricSnapshot = {
+  productId: string;
+  period: string;
+} & Record<ProductMetricKey, number>;
+
+// 产品 × 省份指标：用于把全国产品指标的变化拆解到省份
+export type ProductProvinceMetricKey = 'moleculeInternalShare' | 'deLimitRate';
+
+// 产品在某一省份某一周期的指标记录；汇总到全国时，分子式内份额按分子式市场规模加权，解限率按目标医院数加权
+export type ProductProvinceMetricRecord = {
+  productId: string;
+  provinceId: string;
+  period: string;
+  moleculeVolume: number; // 分子式市场规模（万元）
+  hospitalCount: number; // 目标医院数
+  // 份额驱动因素（可选，用于份额变化归因；未解限医院份额由分子式内份额反推）
+  penetrationShare?: number; // 解限医院内份额 (%)
+  retailRatio?: number; // 零售渠道占分子式市场规模的比例 (%)
+  retailShare?: number; // 零售渠道份额 (%)
+} & Record<ProductProvinceMetricKey, number>;
+
+// 单个省份对产品全国指标环比变化的贡献
+export interface ProvinceContribution {
+  provinceId: string;
+  provinceName: string;
+  region: string;
+  value: number; // 本省本期指标
+  change?: number; // 本省环比变化（上期无数据时为空）
+  weight: number; // 本期权重占比 (%)
+  contribution: number; // 对省份汇总环比变化的贡献（百分点），各省之和等于汇总变化
+}
+
+// 产品某一指标的省份拆解
+export interface ProductProvinceBreakdown {
+  productId: string;
+  metric: ProductProvinceMetricKey;
+  period: string;
+  previousPeriod: string;
+  total: number; // 各省加权汇总值
+  totalChange?: number; // 汇总值环比变化（上期无数据时为空）
+  provinces: ProvinceContribution[]; // 按贡献升序，拖累最大的省份在前
+}
+
+// 分子式内份额变化的驱动因素：解限、渗透、做广、零售份额、渠道结构、区域结构，无驱动数据的省份计入未归因
+export type ShareDriverKey =
+  | 'deLimit'
+  | 'penetration'
+  | 'expansion'
+  | 'retail'
+  | 'channelMix'
+  | 'provinceMix'
+  | 'unexplained';
+
+export interface ShareDriverContribution {
+  key: ShareDriverKey;
+  label: string;
+  value: number; // 对全国分子式内份额环比变化的贡献（百分点）
+  topProvinces: { provinceId: string; provinceName: string; value: number }[]; // 贡献绝对值最大的省份
+}
+
+// 产品分子式内份额环比变化的归因，各驱动因素之和等于 endValue - startValue
+export interface ShareChangeDecomposition {
+  productId: string;
+  period: string;
+  previousPeriod: string;
+  startValue: number; // 上期各省加权汇总份额
+  endValue: number; // 本期各省加权汇总份额
+  drivers: ShareDriverContribution[];
 }
 
 // 风险预警
@@ -48,6 +124,7 @@ export interface Province {
 export interface ProvincePerformance {
   provinceId: string;
   provinceName: string;
+  region: string; // 所属区域（用于匹配区域目标值）
   // 核心维度
   marketShare: number; // 市场份额 (%)
   roi: number; // ROI
@@ -55,18 +132,39 @@ export interface ProvincePerformance {
   // 核心指标
   deLimitRate: number; // 解限率 (%)
   penetrationRate: number; // 渗透率 (%)
-  // 健康度评分
+  // 健康度评分（由评分引擎按系统设置中的权重、目标值计算）
   healthScore: number; // 0-100
-  healthLevel: 'excellent' | 'good' | 'average' | 'poor';
+  healthLevel: HealthLevel;
+  healthDimensions: HealthScoreDimension[]; // 各维度得分拆解
   // 时间维度
   period: string;
+  previousPeriod?: string; // 上一季度
+  changes?: Partial<Record<ProvinceMetricKey, number>>; // 环比变化（上期无数据时为空）
+  yoyChanges?: Partial<Record<ProvinceMetricKey, number>>; // 同比变化
 }
 
+// 省份原始指标（健康度评分的各维度）
+export type ProvinceBaseMetricKey = 'marketShare' | 'roi' | 'nonLiluRatio' | 'deLimitRate' | 'penetrationRate';
+
+// 省份时间序列指标
+export type ProvinceMetricKey = ProvinceBaseMetricKey | 'healthScore';
+
+// 省份某一周期的原始指标记录（数据集中存储的形式）
+export type ProvinceMetricRecord = {
+  provinceId: string;
+  period: string;
+} & Record<ProvinceBaseMetricKey, number>;
+
+// 省份某一周期的指标快照（含计算得到的健康度评分）
+export type ProvinceMetricSnapshot = ProvinceMetricRecord & { healthScore: number };
+
 // AI分析结果
 export interface AIAnalysis {
   type: 'product' | 'province';
   targetId: string;
   targetName: string;
+  period: string;
+  cacheKey: string; // 分析缓存键，刷新分析时使用
   // 就数论数
   dataSummary: string;
   keyFindings: string[];
@@ -86,11 +184,16 @@ export interface AIAnalysis {
   }[];
 }
 
+export type HealthLevel = 'excellent' | 'good' | 'average' | 'poor';
+
 // 健康度评分维度
 export interface HealthScoreDimension {
+  key: ProvinceBaseMetricKey;
   name: string;
-  weight: number;
-  score: number;
-  status: 'excellent' | 'good' | 'average' | 'poor';
+  weight: number; // 归一化后的权重 (0-1)
+  value: number; // 指标实际值
+  target: number; // 目标值，达到即得满分
+  score: number; // 0-100
+  status: HealthLevel;
 }
 
@@ -0,0 +1,32 @@
+import { ProductPerformance, ProvincePerformance } from './index';
+import { MekkoConfig, Opportunity, StrategyProposal } from './strategy';
+
+// Mekko看板的细分市场（市场规模及按规模折算的晖致/竞品份额）
+export interface MekkoSegmentData {
+  segment: string;
+  totalShare: number;
+  huiZhiShare: number;
+  competitorShare: number;
+}
+
+// Mekko看板当前的配置和主要细分市场；对比品牌时附带对比品牌的主要细分市场
+export interface MekkoContextData {
+  brand: string;
+  config: MekkoConfig;
+  period?: string; // 统计周期，数据未标注周期时为空
+  comparePeriod?: string; // 份额变化的对比周期
+  segments: MekkoSegmentData[];
+  comparison?: {
+    brand: string;
+    segments: MekkoSegmentData[];
+  };
+}
+
+// 各页面当前展示的原始数据，供AI助手作为对话上下文
+export interface PageContextData {
+  productPerformance?: ProductPerformance;
+  provincePerformance?: ProvincePerformance;
+  mekko?: MekkoContextData;
+  opportunity?: Opportunity;
+  strategyProposal?: StrategyProposal;
+}
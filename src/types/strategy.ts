@@ -3,28 +3,33 @@
 // 市场维度
 export type MarketDimension = 'class' | 'molecule' | 'department' | 'priceBand' | 'brand' | 'channel' | 'province';
 
-// 市场数据点
+// 市场数据点：事实表的一行，即各维度取值组合下的细分市场规模和份额，可按任意两个维度交叉汇总
 export interface MarketDataPoint {
   id: string;
-  dimension1: string; // 横轴维度值
-  dimension2: string; // 纵轴维度值
-  value: number; // 市场份额或销售额
+  class: string; // 类别
+  molecule: string; // 分子式
+  department: string; // 治疗科室
+  priceBand: string; // 价格带
+  brand: string; // 晖致品牌（该行属于哪个品牌所在的市场）
+  channel: string; // 渠道
+  province: string; // 省份
+  period?: string; // 统计周期，如 2024-Q1；早期数据未标注周期
+  value: number; // 市场规模（销售额）
+  volume?: number; // 销量
   huiZhiShare?: number; // 晖致份额
   competitorShare?: number; // 竞品份额
   growthRate?: number; // 增长率
-  province?: string; // 省份
 }
 
+// 维度筛选：同一维度内多个取值为"或"，不同维度之间为"且"，未列出的维度不筛选
+export type MarketFilters = Partial<Record<MarketDimension, string[]>>;
+
 // Mekko图表配置
 export interface MekkoConfig {
   xAxis: MarketDimension;
   yAxis: MarketDimension;
-  metric: 'share' | 'sales' | 'growth'; // 指标类型
-  filter?: {
-    province?: string[];
-    product?: string[];
-    [key: string]: any;
-  };
+  metric: 'share' | 'sales' | 'growth' | 'shareChange'; // 指标类型，shareChange 为晖致份额较对比周期的变化
+  filter?: MarketFilters;
 }
 
 // 机会点
@@ -47,6 +52,7 @@ export interface ReasonDimension {
   category: 'product' | 'businessModel' | 'resource' | 'organization' | 'other';
   description?: string;
   isUserAdded?: boolean; // 是否用户添加
+  updatedAt?: Date; // 保存后由存储层写入，用于冲突检测
 }
 
 // 机会分析报告
@@ -59,6 +65,7 @@ export interface OpportunityAnalysis {
   }[];
   strategyDirections: StrategyDirection[];
   createdAt: Date;
+  updatedAt?: Date; // 保存后由存储层写入，用于冲突检测
 }
 
 // 策略方向
@@ -95,5 +102,6 @@ export interface StrategyDiscussion {
     timestamp: Date;
   }[];
   summary?: string; // AI总结
+  updatedAt?: Date; // 保存后由存储层写入，用于冲突检测
 }
 
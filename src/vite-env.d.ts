@@ -1,7 +1,16 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-  readonly VITE_DEEPSEEK_API_KEY: string;
+  readonly VITE_LLM_PROXY_URL?: string;
+  readonly VITE_LLM_PROVIDER?: string;
+  readonly VITE_LLM_MODEL?: string;
+  readonly VITE_LLM_BASE_URL?: string;
+  readonly VITE_LLM_FEATURE_CONFIG?: string;
+  readonly VITE_CHAT_SESSION_API_URL?: string;
+  readonly VITE_CHAT_CONTEXT_TOKEN_BUDGET?: string;
+  readonly VITE_DATA_SOURCE?: string;
+  readonly VITE_DATA_API_URL?: string;
+  readonly VITE_WORKSPACE_API_URL?: string;
 }
 
 interface ImportMeta {
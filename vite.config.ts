@@ -1,8 +1,48 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv, Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { handleLLMChatRequest } from './api/_lib/llmProxy.js'
+import { handleWorkspaceRequest } from './api/_lib/workspaceApi.js'
+
+// 开发环境下挂载与 Vercel Function 相同的LLM代理
+function llmProxyDevServer(): Plugin {
+  return {
+    name: 'llm-proxy-dev-server',
+    configureServer(server) {
+      server.middlewares.use('/api/llm/chat', (req, res) => {
+        void handleLLMChatRequest(req, res)
+      })
+    },
+  }
+}
+
+// 开发和预览环境下挂载策略工作区接口（SQLite 存储）
+function workspaceApiServer(): Plugin {
+  return {
+    name: 'workspace-api-server',
+    configureServer(server) {
+      server.middlewares.use('/api/workspace', (req, res) => {
+        void handleWorkspaceRequest(req, res, req.url ?? '/')
+      })
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use('/api/workspace', (req, res) => {
+        void handleWorkspaceRequest(req, res, req.url ?? '/')
+      })
+    },
+  }
+}
 
 // https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [react()],
-})
+export default defineConfig(({ mode }) => {
+  // 代理读取的是不带 VITE_ 前缀的服务端变量，需要手动从 .env 载入
+  const env = loadEnv(mode, process.cwd(), '')
+  for (const [key, value] of Object.entries(env)) {
+    if (process.env[key] === undefined) {
+      process.env[key] = value
+    }
+  }
 
+  return {
+    plugins: [react(), llmProxyDevServer(), workspaceApiServer()],
+  }
+})